@@ -1,21 +1,10 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
-import mongoose from "mongoose";
-
-// API Keys schema (stored in MongoDB)
-const apiKeySchema = new mongoose.Schema({
-  userId: { type: String, required: true },
-  name: { type: String, required: true },
-  keyPrefix: { type: String, required: true },
-  keyHash: { type: String, required: true },
-  environment: { type: String, enum: ["test", "live"], required: true },
-  isActive: { type: Boolean, default: true },
-  lastUsed: { type: Date },
-  createdAt: { type: Date, default: Date.now },
-});
-
-const ApiKey = mongoose.models.ApiKey || mongoose.model("ApiKey", apiKeySchema);
+import { ApiKey } from "@/lib/models/ApiKey";
+import { User } from "@/lib/models/User";
+import { createApiKey, revokeApiKey } from "@/lib/apiKeys";
 
 // GET /api/admin/api-keys - Get all API keys
 export async function GET(req: NextRequest) {
@@ -41,7 +30,6 @@ export async function GET(req: NextRequest) {
 
     // Get user details for each key
     const userIds = [...new Set(keys.map((k) => k.userId))];
-    const { User } = await import("@/lib/models/User");
     const users = await User.find({ clerkId: { $in: userIds } }).lean();
     const userMap = new Map(users.map((u) => [u.clerkId, u]));
 
@@ -51,9 +39,11 @@ export async function GET(req: NextRequest) {
       prefix: key.keyPrefix,
       env: key.environment,
       is_active: key.isActive,
+      scans_used: key.scansUsed || 0,
       last_used: key.lastUsed,
+      revoked_at: key.revokedAt,
       created_at: key.createdAt,
-      client: userMap.get(key.userId)?.fullName || key.userId.slice(0, 8),
+      client: userMap.get(key.userId)?.fullName || key.clientName || key.userId.slice(0, 8),
     }));
 
     return NextResponse.json({ keys: transformed });
@@ -74,34 +64,30 @@ export async function POST(req: NextRequest) {
     await connectToDatabase();
 
     const body = await req.json();
-    const { name, environment, userId: targetUserId } = body;
+    const { name, clientId } = body;
 
-    if (!name || !environment || !targetUserId) {
-      return NextResponse.json({ error: "name, environment, and userId required" }, { status: 400 });
+    if (!name || (!body.userId && !clientId)) {
+      return NextResponse.json({ error: "name, and userId or clientId required" }, { status: 400 });
     }
 
-    // Generate key
-    const rawKey = `gt_${environment}_${Math.random().toString(36).substring(2, 26)}`;
-    const keyPrefix = rawKey.substring(0, 12);
-    
-    // Hash the key (in production, use proper SHA-256)
-    const keyHash = Buffer.from(rawKey).toString("base64");
+    // The backoffice picks clients by their record id; keys belong to the client's Clerk user.
+    const client = clientId ? await User.findById(clientId) : await User.findOne({ clerkId: body.userId });
+    if (!client?.clerkId) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
 
-    const apiKey = await ApiKey.create({
-      userId: targetUserId,
+    const { rawKey, record } = await createApiKey({
+      userId: client.clerkId,
       name,
-      keyPrefix,
-      keyHash,
-      environment,
-      isActive: true,
+      clientName: client.fullName || client.email,
     });
 
     // Return the raw key only once
     return NextResponse.json({
-      id: apiKey._id,
-      name: apiKey.name,
-      prefix: apiKey.keyPrefix,
-      env: apiKey.environment,
+      id: record._id,
+      name: record.name,
+      prefix: record.keyPrefix,
+      env: record.environment,
       raw_key: rawKey, // Only returned once!
     });
   } catch (error) {
@@ -123,12 +109,15 @@ export async function DELETE(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const keyId = searchParams.get("id");
 
-    if (!keyId) {
+    if (!keyId || !mongoose.isValidObjectId(keyId)) {
       return NextResponse.json({ error: "Key ID required" }, { status: 400 });
     }
 
     // Soft delete - just mark as inactive
-    await ApiKey.findByIdAndUpdate(keyId, { isActive: false });
+    const key = await revokeApiKey(keyId);
+    if (!key) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
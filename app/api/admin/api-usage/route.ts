@@ -3,20 +3,7 @@ import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
 import { VerificationResult } from "@/lib/models/VerificationResult";
 import { User } from "@/lib/models/User";
-import mongoose from "mongoose";
-
-const apiKeySchema = new mongoose.Schema({
-  userId: { type: String, required: true },
-  name: { type: String, required: true },
-  keyPrefix: { type: String, required: true },
-  keyHash: { type: String, required: true },
-  environment: { type: String, enum: ["test", "live"], required: true },
-  isActive: { type: Boolean, default: true },
-  lastUsed: { type: Date },
-  createdAt: { type: Date, default: Date.now },
-});
-
-const ApiKey = mongoose.models.ApiKey || mongoose.model("ApiKey", apiKeySchema);
+import { ApiKey } from "@/lib/models/ApiKey";
 
 export async function GET(req: NextRequest) {
   try {
@@ -1,27 +1,7 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
-import mongoose from "mongoose";
-
-// Audit Log schema (INSERT-only)
-const auditLogSchema = new mongoose.Schema({
-  actorId: { type: String, required: true },
-  actorRole: { type: String },
-  action: { type: String, required: true },
-  target: { type: String },
-  targetType: { type: String },
-  ipAddress: { type: String },
-  userAgent: { type: String },
-  details: { type: mongoose.Schema.Types.Mixed },
-  createdAt: { type: Date, default: Date.now },
-});
-
-// Prevent updates
-auditLogSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "findOneAndReplace"], function() {
-  throw new Error("Audit log cannot be updated");
-});
-
-const AuditLog = mongoose.models.AuditLog || mongoose.model("AuditLog", auditLogSchema);
+import { AuditLog } from "@/lib/models/AuditLog";
 
 // GET /api/admin/audit-log - Get audit logs
 export async function GET(req: NextRequest) {
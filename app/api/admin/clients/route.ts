@@ -2,6 +2,8 @@
 import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
 import { User } from "@/lib/models/User";
+import { AuditLog } from "@/lib/models/AuditLog";
+import { parseRetentionPeriods } from "@/lib/retention";
 
 // GET /api/admin/clients - Get all clients with their credit info
 export async function GET(req: NextRequest) {
@@ -51,6 +53,7 @@ export async function GET(req: NextRequest) {
         total,
         credits_remaining: creditsRemaining,
         calls: user.scanCount || 0,
+        retention: user.retention || null,
         created_at: user.createdAt,
         last_active: user.updatedAt,
       };
@@ -89,11 +92,25 @@ export async function PATCH(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { plan, credits } = body;
+    const { plan, credits, scanCache, retention } = body;
 
     const inc: Record<string, number> = {};
     const update: Record<string, unknown> = {};
     if (plan) update.plan = plan.toLowerCase();
+    // Dedup cache settings for this tenant; unset keys fall back to the SCAN_CACHE_* defaults.
+    if (typeof scanCache?.chargeCacheHits === "boolean") update["scanCache.chargeCacheHits"] = scanCache.chargeCacheHits;
+    if (typeof scanCache?.crossTenantReuse === "boolean") update["scanCache.crossTenantReuse"] = scanCache.crossTenantReuse;
+    // Contractual retention replaces the client's overrides: periods left out follow the plan, a null period keeps data
+    // indefinitely, and retention: null goes back to the plan entirely.
+    if (retention === null) {
+      update.$unset = { retention: 1 };
+    } else if (retention !== undefined) {
+      const periods = parseRetentionPeriods(retention);
+      if (!periods) {
+        return NextResponse.json({ error: "Retention periods must be whole numbers of days or null" }, { status: 400 });
+      }
+      update.retention = periods;
+    }
     // Use $inc for credits so it adds to existing balance (preserves totalIssued)
     if (typeof credits === "number") inc.credits = credits;
 
@@ -105,6 +122,19 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
+    if (retention !== undefined) {
+      await AuditLog.create({
+        actorId: userId,
+        actorRole: "admin",
+        action: "client.retention_updated",
+        target: user.clerkId || clientId,
+        targetType: "client",
+        details: { retention: user.retention || null },
+        ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0],
+        userAgent: req.headers.get("user-agent"),
+      });
+    }
+
     return NextResponse.json(user);
   } catch (error) {
     console.error("Error updating client:", error);
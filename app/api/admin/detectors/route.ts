@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import { auth } from "@/lib/auth";
+import { getAdminEmailAllowlist, isEmailAllowlisted } from "@/lib/adminAccess";
+import { checkDetectorHealth } from "@/lib/detectors/registry";
+
+// GET /api/admin/detectors - Health and media-type routing of every registered detector
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await currentUser();
+    const emails = [
+      ...(user?.emailAddresses || []).map((entry) => entry.emailAddress?.trim().toLowerCase()),
+      user?.primaryEmailAddress?.emailAddress?.trim().toLowerCase(),
+    ].filter((value): value is string => Boolean(value));
+
+    if (!isEmailAllowlisted(emails, getAdminEmailAllowlist())) {
+      return NextResponse.json({ error: "Forbidden: Admin access required" }, { status: 403 });
+    }
+
+    const detectors = await checkDetectorHealth();
+    return NextResponse.json({
+      detectors,
+      healthy: detectors.filter((d) => d.mediaTypes.length > 0).every((d) => d.healthy),
+    });
+  } catch (error) {
+    console.error("Error checking detector health:", error);
+    return NextResponse.json({ error: "Failed to check detector health" }, { status: 500 });
+  }
+}
@@ -1,35 +1,67 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import mongoose from "mongoose";
 import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
+import { getAdminEmailAllowlist, isEmailAllowlisted } from "@/lib/adminAccess";
 import { VerificationResult } from "@/lib/models/VerificationResult";
+import { listResultFeedback, resolveResultDisputes } from "@/lib/resultFeedback";
+
+const REVIEW_STATUSES = ["pending", "confirmed", "dismissed"];
+const FEEDBACK_TYPES = ["fp", "fn"];
+
+const requireAdmin = async () => {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  const user = await currentUser();
+  const emails = (user?.emailAddresses || [])
+    .map((entry) => entry.emailAddress?.trim().toLowerCase())
+    .filter((value): value is string => Boolean(value));
+
+  if (!isEmailAllowlisted(emails, getAdminEmailAllowlist())) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  await connectToDatabase();
+  return { userId };
+};
 
 // GET /api/admin/fp-queue - Get scans flagged for review (FP/FN candidates)
 export async function GET(req: NextRequest) {
   try {
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    await connectToDatabase();
+    const { error } = await requireAdmin();
+    if (error) return error;
 
     const { searchParams } = new URL(req.url);
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "50");
     const type = searchParams.get("type"); // fp, fn, or all
     const status = searchParams.get("status"); // pending, confirmed, dismissed
+    const source = searchParams.get("source"); // customer_reported, auto_escalated, or all
 
+    // Customer disputes carry the reported type; auto-escalated scans are typed by their verdict.
+    const customerReported: Record<string, unknown> = { reviewSource: "customer_reported" };
     // Scans with confidence between 50-75% are auto-flagged for review
-    const query: Record<string, unknown> = {
+    const autoEscalated: Record<string, unknown> = {
+      reviewSource: { $ne: "customer_reported" },
       confidenceScore: { $gte: 50, $lte: 75 },
     };
 
     if (type === "fp") {
-      query.status = "DEEPFAKE";
+      customerReported.feedbackType = "fp";
+      autoEscalated.status = "DEEPFAKE";
     } else if (type === "fn") {
-      query.status = "AUTHENTIC";
+      customerReported.feedbackType = "fn";
+      autoEscalated.status = "AUTHENTIC";
     }
 
+    const query: Record<string, unknown> = {
+      $or: source === "customer_reported" ? [customerReported]
+        : source === "auto_escalated" ? [autoEscalated]
+        : [customerReported, autoEscalated],
+    };
+
     if (status) {
       query.reviewStatus = status;
     }
@@ -45,19 +77,34 @@ export async function GET(req: NextRequest) {
       VerificationResult.countDocuments(query),
     ]);
 
+    const reports = await listResultFeedback(
+      scans.filter((scan) => scan.reviewSource === "customer_reported").map((scan) => scan.scanId)
+    );
+
     // Transform to FP/FN format
     const items = scans.map((scan) => {
-      const isFP = scan.status === "DEEPFAKE";
+      const customer = scan.reviewSource === "customer_reported";
+      const isFP = customer ? scan.feedbackType === "fp" : scan.status === "DEEPFAKE";
+      const scanReports = customer ? reports.filter((report) => report.resultId === scan.scanId) : [];
       return {
         id: scan._id,
         scan_id: scan.scanId,
         icon: scan.fileType === "video" ? "ðŸŽ¬" : scan.fileType === "audio" ? "ðŸŽ™" : "ðŸ–¼",
         name: `${scan.fileName} â€” ${scan.userId.slice(0, 8)}`,
-        detail: `Flagged: ${scan.status?.toLowerCase()} Â· Conf: ${scan.confidenceScore}% Â· Auto-escalated`,
+        detail: `Flagged: ${scan.status?.toLowerCase()} Â· Conf: ${scan.confidenceScore}% Â· ${customer ? "Customer-reported" : "Auto-escalated"}`,
         meta: `${scan.scanId} Â· ${scan.fileType} Â· ${scan.fileName}`,
         type: isFP ? "fp" : "fn",
         confidence: scan.confidenceScore,
         status: scan.reviewStatus || "pending",
+        source: customer ? "customer_reported" : "auto_escalated",
+        reports: scanReports.map((report) => ({
+          user_id: report.userId,
+          label: report.label,
+          comment: report.comment || null,
+          status: report.reviewStatus,
+          reported_at: report.createdAt,
+        })),
+        disputed_at: scan.disputedAt || null,
         created_at: scan.createdAt,
       };
     });
@@ -80,12 +127,8 @@ export async function GET(req: NextRequest) {
 // PATCH /api/admin/fp-queue - Update review status (confirm FP/FN, dismiss)
 export async function PATCH(req: NextRequest) {
   try {
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    await connectToDatabase();
+    const { userId, error } = await requireAdmin();
+    if (error) return error;
 
     const body = await req.json();
     const { scanId, reviewStatus, feedbackType } = body;
@@ -93,13 +136,24 @@ export async function PATCH(req: NextRequest) {
     if (!scanId) {
       return NextResponse.json({ error: "Scan ID required" }, { status: 400 });
     }
+    if (reviewStatus !== undefined && !REVIEW_STATUSES.includes(reviewStatus)) {
+      return NextResponse.json({ error: `reviewStatus must be one of ${REVIEW_STATUSES.join(", ")}` }, { status: 400 });
+    }
+    if (feedbackType !== undefined && !FEEDBACK_TYPES.includes(feedbackType)) {
+      return NextResponse.json({ error: `feedbackType must be one of ${FEEDBACK_TYPES.join(", ")}` }, { status: 400 });
+    }
 
     const update: Record<string, unknown> = {};
     if (reviewStatus) update.reviewStatus = reviewStatus;
     if (feedbackType) update.feedbackType = feedbackType;
+    if (reviewStatus === "confirmed" || reviewStatus === "dismissed") {
+      update.reviewedAt = new Date();
+      update.reviewedBy = userId;
+    }
 
-    const scan = await VerificationResult.findByIdAndUpdate(
-      scanId,
+    // The queue hands out both the document id and the scan id.
+    const scan = await VerificationResult.findOneAndUpdate(
+      mongoose.isValidObjectId(scanId) ? { _id: scanId } : { scanId },
       update,
       { new: true }
     );
@@ -108,6 +162,10 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: "Scan not found" }, { status: 404 });
     }
 
+    if (scan.reviewSource === "customer_reported" && (reviewStatus === "confirmed" || reviewStatus === "dismissed")) {
+      await resolveResultDisputes(scan, reviewStatus, userId);
+    }
+
     return NextResponse.json(scan);
   } catch (error) {
     console.error("Error updating FP queue:", error);
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import mongoose from "mongoose";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getAdminEmailAllowlist, isEmailAllowlisted } from "@/lib/adminAccess";
+import { AuditLog } from "@/lib/models/AuditLog";
+import { LegalHold, type ILegalHold } from "@/lib/models/LegalHold";
+import { VerificationResult } from "@/lib/models/VerificationResult";
+
+const requireAdmin = async () => {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  const user = await currentUser();
+  const emails = (user?.emailAddresses || [])
+    .map((entry) => entry.emailAddress?.trim().toLowerCase())
+    .filter((value): value is string => Boolean(value));
+
+  if (!isEmailAllowlisted(emails, getAdminEmailAllowlist())) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  await connectToDatabase();
+  return { userId };
+};
+
+/** A LegalHold document as read with lean(). */
+type LegalHoldRecord = Pick<
+  ILegalHold,
+  "_id" | "reference" | "reason" | "scanIds" | "placedBy" | "releasedAt" | "releasedBy" | "createdAt"
+>;
+
+function holdView(hold: LegalHoldRecord) {
+  return {
+    id: String(hold._id),
+    reference: hold.reference,
+    reason: hold.reason || null,
+    scan_ids: hold.scanIds || [],
+    placed_by: hold.placedBy,
+    placed_at: hold.createdAt,
+    released_at: hold.releasedAt || null,
+    released_by: hold.releasedBy || null,
+  };
+}
+
+// GET /api/admin/legal-holds - List legal holds (status: active, released or all; optional scanId)
+export async function GET(req: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status") || "active";
+    const scanId = searchParams.get("scanId");
+
+    const query: Record<string, unknown> = {};
+    if (status === "active") query.releasedAt = null;
+    else if (status === "released") query.releasedAt = { $ne: null };
+    if (scanId) query.scanIds = scanId;
+
+    const holds = await LegalHold.find(query).sort({ createdAt: -1 }).limit(200).lean<LegalHoldRecord[]>();
+    return NextResponse.json({ holds: holds.map(holdView) });
+  } catch (error) {
+    console.error("Error fetching legal holds:", error);
+    return NextResponse.json({ error: "Failed to fetch legal holds" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/legal-holds - Place scans under a hold; scans added to an active case reference join that hold
+export async function POST(req: NextRequest) {
+  try {
+    const { userId, error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await req.json();
+    const reference = typeof body?.reference === "string" ? body.reference.trim() : "";
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 1000) : "";
+    const scanIds: string[] = Array.isArray(body?.scanIds)
+      ? [...new Set((body.scanIds as unknown[]).filter((id): id is string => typeof id === "string" && id.trim() !== "").map((id) => id.trim()))]
+      : [];
+    if (!reference || scanIds.length === 0) {
+      return NextResponse.json({ error: "reference and at least one scanId are required" }, { status: 400 });
+    }
+
+    const found: string[] = await VerificationResult.distinct("scanId", { scanId: { $in: scanIds } });
+    const missing = scanIds.filter((id) => !found.includes(id));
+    if (missing.length) {
+      return NextResponse.json({ error: "Unknown scans", missing }, { status: 404 });
+    }
+
+    const hold = await LegalHold.findOneAndUpdate(
+      { reference, releasedAt: null },
+      {
+        $addToSet: { scanIds: { $each: scanIds } },
+        $setOnInsert: { placedBy: userId, ...(reason ? { reason } : {}) },
+      },
+      { upsert: true, new: true }
+    ).lean<LegalHoldRecord>();
+
+    await AuditLog.create({
+      actorId: userId,
+      actorRole: "admin",
+      action: "legal_hold.placed",
+      target: reference,
+      targetType: "legal_hold",
+      details: { holdId: String(hold?._id), scanIds, ...(reason ? { reason } : {}) },
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0],
+      userAgent: req.headers.get("user-agent"),
+    });
+
+    return NextResponse.json(holdView(hold as LegalHoldRecord), { status: 201 });
+  } catch (error) {
+    console.error("Error placing legal hold:", error);
+    return NextResponse.json({ error: "Failed to place legal hold" }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/legal-holds?id= - Release a hold; its scans fall back under retention
+export async function DELETE(req: NextRequest) {
+  try {
+    const { userId, error } = await requireAdmin();
+    if (error) return error;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id || !mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Hold ID required" }, { status: 400 });
+    }
+
+    const hold = await LegalHold.findOneAndUpdate(
+      { _id: id, releasedAt: null },
+      { $set: { releasedAt: new Date(), releasedBy: userId } },
+      { new: true }
+    ).lean<LegalHoldRecord>();
+    if (!hold) {
+      return NextResponse.json({ error: "Active hold not found" }, { status: 404 });
+    }
+
+    await AuditLog.create({
+      actorId: userId,
+      actorRole: "admin",
+      action: "legal_hold.released",
+      target: hold.reference,
+      targetType: "legal_hold",
+      details: { holdId: id, scanIds: hold.scanIds },
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0],
+      userAgent: req.headers.get("user-agent"),
+    });
+
+    return NextResponse.json(holdView(hold));
+  } catch (error) {
+    console.error("Error releasing legal hold:", error);
+    return NextResponse.json({ error: "Failed to release legal hold" }, { status: 500 });
+  }
+}
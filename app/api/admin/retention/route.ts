@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getAdminEmailAllowlist, isEmailAllowlisted } from "@/lib/adminAccess";
+import { AuditLog } from "@/lib/models/AuditLog";
+import { RetentionPolicy } from "@/lib/models/RetentionPolicy";
+import { PLANS, getPlanRetention, parseRetentionPeriods, type Plan } from "@/lib/retention";
+
+const requireAdmin = async () => {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  const user = await currentUser();
+  const emails = (user?.emailAddresses || [])
+    .map((entry) => entry.emailAddress?.trim().toLowerCase())
+    .filter((value): value is string => Boolean(value));
+
+  if (!isEmailAllowlisted(emails, getAdminEmailAllowlist())) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  await connectToDatabase();
+  return { userId };
+};
+
+// GET /api/admin/retention - Retention periods of every plan
+export async function GET() {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const policies = await getPlanRetention();
+    return NextResponse.json({
+      plans: PLANS.map((plan) => ({ plan, ...policies[plan] })),
+    });
+  } catch (error) {
+    console.error("Error fetching retention policies:", error);
+    return NextResponse.json({ error: "Failed to fetch retention policies" }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/retention - Set a plan's retention periods (days, null keeps indefinitely)
+export async function PUT(req: NextRequest) {
+  try {
+    const { userId, error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await req.json();
+    const plan = String(body?.plan || "").toLowerCase() as Plan;
+    if (!PLANS.includes(plan)) {
+      return NextResponse.json({ error: `plan must be one of ${PLANS.join(", ")}` }, { status: 400 });
+    }
+    const periods = parseRetentionPeriods(body);
+    if (!periods || periods.mediaDays === undefined || periods.derivedDays === undefined || periods.metadataDays === undefined) {
+      return NextResponse.json(
+        { error: "mediaDays, derivedDays and metadataDays are required, each a whole number of days or null" },
+        { status: 400 }
+      );
+    }
+
+    const previous = (await getPlanRetention())[plan];
+    await RetentionPolicy.findOneAndUpdate(
+      { plan },
+      { $set: { ...periods, updatedBy: userId } },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+    await AuditLog.create({
+      actorId: userId,
+      actorRole: "admin",
+      action: "retention.policy_updated",
+      target: plan,
+      targetType: "plan",
+      details: { previous, current: periods },
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0],
+      userAgent: req.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ plan, ...periods });
+  } catch (error) {
+    console.error("Error updating retention policy:", error);
+    return NextResponse.json({ error: "Failed to update retention policy" }, { status: 500 });
+  }
+}
@@ -5,6 +5,9 @@ import { connectToDatabase } from "@/lib/db";
 import { VerificationResult } from "@/lib/models/VerificationResult";
 import { User } from "@/lib/models/User";
 import { getAdminEmailAllowlist, isEmailAllowlisted } from "@/lib/adminAccess";
+import { forensicMapViews } from "@/lib/imageForensics";
+import { buildAnomalyTimeline } from "@/lib/anomalyTimeline";
+import { scanAnimatedPreviewUrl, scanPreviewUrl } from "@/lib/scanMedia";
 
 // GET /api/admin/scans - Get all scans across all clients
 export async function GET(req: NextRequest) {
@@ -37,6 +40,7 @@ export async function GET(req: NextRequest) {
     const mediaType = searchParams.get("media_type");
     const from = searchParams.get("from");
     const to = searchParams.get("to");
+    const metadataFlag = searchParams.get("metadata_flag");
 
     const query: Record<string, unknown> = {};
 
@@ -46,6 +50,9 @@ export async function GET(req: NextRequest) {
     if (mediaType) {
       query.fileType = mediaType.toLowerCase();
     }
+    if (metadataFlag) {
+      query["metadataAnalysis.flags"] = metadataFlag.toLowerCase();
+    }
     if (from || to) {
       query.createdAt = {};
       if (from) (query.createdAt as Record<string, Date>).$gte = new Date(from);
@@ -60,7 +67,7 @@ export async function GET(req: NextRequest) {
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
-        .select("scanId fileName fileType status confidenceScore createdAt reviewStatus userId rdAnalysis")
+        .select("scanId fileName fileType status confidenceScore createdAt reviewStatus userId rdAnalysis videoAnalysis audioAnalysis.duration audioAnalysis.segments mediaInfo mediaProbe metadataAnalysis forensicMaps media.preview media.animatedPreview apiKey.prefix")
         .maxTimeMS(3000)
         .lean(),
       // Get unique user IDs from first 100 results to avoid loading all users
@@ -78,8 +85,18 @@ export async function GET(req: NextRequest) {
     const userMap = new Map(users.map((u) => [u.clerkId, u]));
 
     // Transform scans to include client name
-    const transformedScans = scans.map((scan) => {
+    const transformedScans = await Promise.all(scans.map(async (scan) => {
       const user = userMap.get((scan as any).userId);
+      const video = (scan as any).videoAnalysis;
+      const audio = (scan as any).audioAnalysis;
+      const probe = (scan as any).mediaProbe;
+      const metadata = (scan as any).metadataAnalysis;
+      // Per-frame (video) or per-segment (audio) scores for the forensics timeline
+      const frameAnalysis = video?.frames?.length
+        ? video.frames.map((f: any) => ({ timestamp: f.timestamp, score: f.score ?? null, label: f.label || f.status }))
+        : audio?.segments?.length
+        ? audio.segments.map((s: any) => ({ timestamp: s.start, end: s.end, score: s.score ?? null, label: s.status }))
+        : null;
       return {
         id: (scan as any).scanId,
         client: user?.fullName || user?.email || "Unknown",
@@ -91,9 +108,34 @@ export async function GET(req: NextRequest) {
         time: (scan as any).createdAt?.toISOString() || new Date().toISOString(),
         credits_used: 1,
         processing_ms: (scan as any).rdAnalysis?.analyzedAt ? 1000 : null,
+        duration: probe?.duration ?? video?.duration ?? audio?.duration ?? null,
+        codec: probe?.videoCodec || probe?.audioTracks?.[0]?.codec || (scan as any).mediaInfo?.codec || null,
+        resolution: probe?.width && probe?.height ? `${probe.width}x${probe.height}` : null,
+        fps: probe?.fps ?? null,
+        bitrate_kbps: probe?.bitrate ?? null,
+        normalization: probe?.normalization ?? null,
+        frames_analyzed: video?.frameCount ?? null,
+        sampling: video?.strategy ? `${video.strategy}${video.strategyValue ? `:${video.strategyValue}` : ""}` : null,
+        frame_analysis: frameAnalysis,
+        timeline: buildAnomalyTimeline((scan as any).scanId, video),
+        metadata_flags: metadata?.flags || [],
+        metadata: metadata?.analyzedAt ? {
+          camera: metadata.camera ? [metadata.camera.make, metadata.camera.model].filter(Boolean).join(" ") || null : null,
+          software: metadata.software || [],
+          ai_generator: metadata.aiGenerator || null,
+          captured_at: metadata.timestamps?.original || metadata.timestamps?.xmpCreated || null,
+          modified_at: metadata.timestamps?.modified || metadata.timestamps?.xmpModified || null,
+          thumbnail_distance: metadata.thumbnail?.distance ?? null,
+          findings: metadata.findings || [],
+        } : null,
+        forensic_maps: forensicMapViews((scan as any).scanId, (scan as any).forensicMaps),
+        // Legacy inline images are not selected here, so only scans with stored previews get one.
+        preview_url: (await scanPreviewUrl(scan as any)) || null,
+        animated_preview_url: (await scanAnimatedPreviewUrl(scan as any)) || null,
+        api_key: (scan as any).apiKey?.prefix ? `${(scan as any).apiKey.prefix}...` : null,
         created_at: (scan as any).createdAt,
       };
-    });
+    }));
 
     // Return lightweight response
     return NextResponse.json({
@@ -1,9 +1,7 @@
-﻿import crypto from "crypto";
-import { NextRequest, NextResponse } from "next/server";
+﻿import { NextRequest, NextResponse } from "next/server";
 import { currentUser } from "@clerk/nextjs/server";
 import { auth } from "@/lib/auth";
-import { PutCommand } from "@aws-sdk/lib-dynamodb";
-import { dynamoDocClient, getDynamoTableName } from "@/lib/aws/dynamo";
+import { createApiKey } from "@/lib/apiKeys";
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,26 +17,14 @@ export async function POST(req: NextRequest) {
       user?.emailAddresses?.[0]?.emailAddress ||
       "unknown";
 
-    const apiKey = "dt_live_" + crypto.randomBytes(24).toString("hex");
-    const tableName = getDynamoTableName();
-
-    await dynamoDocClient.send(
-      new PutCommand({
-        TableName: tableName,
-        Item: {
-          api_key: apiKey,
-          client_id: userId,
-          client_name: clientName,
-          created_at: new Date().toISOString(),
-          status: "active",
-          scans_used: 0,
-          plan: "payg",
-        },
-      })
-    );
+    const { rawKey, record } = await createApiKey({
+      userId,
+      name: "Console key",
+      clientName,
+    });
 
     return NextResponse.json(
-      { api_key: apiKey, created_at: new Date().toISOString() },
+      { api_key: rawKey, created_at: record.createdAt.toISOString() },
       { status: 200 }
     );
   } catch (error) {
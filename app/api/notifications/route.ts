@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { Notification } from "@/lib/models/Notification";
+
+// GET /api/notifications - Latest notifications for the signed-in user
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "20", 10) || 20));
+
+    const [notifications, unread] = await Promise.all([
+      Notification.find({ userId }).sort({ createdAt: -1 }).limit(limit).lean<Record<string, any>[]>(),
+      Notification.countDocuments({ userId, readAt: { $exists: false } }),
+    ]);
+
+    return NextResponse.json({
+      notifications: notifications.map((n) => ({
+        id: String(n._id),
+        type: n.type,
+        title: n.title,
+        message: n.message,
+        link: n.link || null,
+        scanId: n.scanId || null,
+        read: Boolean(n.readAt),
+        createdAt: n.createdAt,
+      })),
+      unread,
+    });
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json({ error: "Failed to fetch notifications" }, { status: 500 });
+  }
+}
+
+// PATCH /api/notifications - Mark the given notifications (or all of them) as read
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+
+    const body = (await req.json().catch(() => ({}))) as { ids?: unknown };
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id): id is string => typeof id === "string" && mongoose.isValidObjectId(id)) : null;
+
+    const result = await Notification.updateMany(
+      { userId, readAt: { $exists: false }, ...(ids ? { _id: { $in: ids } } : {}) },
+      { readAt: new Date() }
+    );
+
+    return NextResponse.json({ success: true, updated: result.modifiedCount });
+  } catch (error) {
+    console.error("Error updating notifications:", error);
+    return NextResponse.json({ error: "Failed to update notifications" }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@
 import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
 import { User } from "@/lib/models/User";
+import { withIdempotency } from "@/lib/idempotency";
 import * as Sentry from "@sentry/nextjs";
 
 const PAYSTACK_INIT_URL = "https://api.paystack.co/transaction/initialize";
@@ -19,13 +20,18 @@ interface PaymentPayload {
 
 
 export async function POST(req: NextRequest) {
-  try {
-    const { userId } = await auth();
+  const { userId } = await auth();
 
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
 
+  // A retried checkout with the same Idempotency-Key gets the original Paystack reference back.
+  return withIdempotency(req, userId, "POST /api/paystack/initialize", () => initializePayment(req, userId));
+}
+
+async function initializePayment(req: NextRequest, userId: string) {
+  try {
     const body = await req.json();
     const { amount, credits, currency = "USD" } = body; // amount expected in main currency units (USD)
 
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getJobMeta } from "@/lib/fakecatcherStore";
+import { VerificationResult } from "@/lib/models/VerificationResult";
 import {
-  getJobMeta,
-  getJobFeedbackSummary,
-  getUserJobFeedback,
+  getResultFeedbackSummary,
+  getUserResultFeedback,
   type FeedbackLabel,
-  upsertJobFeedback,
-} from "@/lib/fakecatcherStore";
+  upsertResultFeedback,
+} from "@/lib/resultFeedback";
 
 type FeedbackBody = {
   label?: FeedbackLabel;
@@ -28,9 +30,15 @@ export async function POST(
     }
 
     const { id } = await context.params;
-    const meta = getJobMeta(id);
+    await connectToDatabase();
+    const [meta, scan] = await Promise.all([
+      getJobMeta(id),
+      VerificationResult.findOne({ scanId: id }).select("userId").lean<{ userId: string }>(),
+    ]);
 
-    if (meta && meta.userId !== userId) {
+    // Only the owner of a result can dispute it.
+    const ownerId = scan?.userId || meta?.userId;
+    if (ownerId !== userId) {
       return NextResponse.json({ error: "Result not found" }, { status: 404 });
     }
 
@@ -44,18 +52,20 @@ export async function POST(
 
     const trimmedComment = typeof body.comment === "string" ? body.comment.trim().slice(0, 500) : undefined;
 
-    const feedback = upsertJobFeedback(id, {
+    const feedback = await upsertResultFeedback(id, {
       userId,
       label: body.label,
       comment: trimmedComment,
     });
 
+    const [summary, userFeedback] = await Promise.all([getResultFeedbackSummary(id), getUserResultFeedback(id, userId)]);
+
     return NextResponse.json(
       {
         success: true,
         feedback,
-        summary: getJobFeedbackSummary(id),
-        userFeedback: getUserJobFeedback(id, userId),
+        summary,
+        userFeedback,
       },
       { status: 200 }
     );
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { VerificationResult } from "@/lib/models/VerificationResult";
+import { isEmailAllowlisted } from "@/lib/adminAccess";
+import { forensicArtifactKeys, readForensicArtifact, type ForensicMapsRecord } from "@/lib/imageForensics";
+
+// GET /api/results/[id]/maps/[key] - ELA / noise overlay, base picture or frame thumbnail of a scan, for its owner or an admin
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string; key: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, key } = await context.params;
+    await connectToDatabase();
+    const scan = await VerificationResult.findOne({ scanId: id })
+      .select("userId forensicMaps videoAnalysis.frames.thumbnail")
+      .lean<{ userId: string; forensicMaps?: ForensicMapsRecord; videoAnalysis?: { frames?: Array<{ thumbnail?: string }> } }>();
+    const thumbnails = (scan?.videoAnalysis?.frames || []).map((frame) => frame.thumbnail);
+    if (!scan || ![...forensicArtifactKeys(scan.forensicMaps), ...thumbnails].includes(key)) {
+      return NextResponse.json({ error: "Map not found" }, { status: 404 });
+    }
+
+    if (scan.userId !== userId) {
+      const user = await currentUser();
+      const emails = [
+        ...(user?.emailAddresses || []).map((entry) => entry.emailAddress?.trim().toLowerCase()),
+        user?.primaryEmailAddress?.emailAddress?.trim().toLowerCase(),
+      ].filter((value): value is string => Boolean(value));
+      if (!isEmailAllowlisted(emails)) {
+        return NextResponse.json({ error: "Map not found" }, { status: 404 });
+      }
+    }
+
+    const data = await readForensicArtifact(key);
+    if (!data) {
+      return NextResponse.json({ error: "Map not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        "Content-Type": key.endsWith(".png") ? "image/png" : "image/jpeg",
+        // Keys are content hashes, so a given URL never changes.
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving forensic map:", error);
+    return NextResponse.json({ error: "Failed to load map" }, { status: 500 });
+  }
+}
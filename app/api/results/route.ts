@@ -1,8 +1,10 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getJobMeta, getJobRdAnalysis, listUserJobMeta } from "@/lib/fakecatcherStore";
+import { getJobs, listUserJobMeta } from "@/lib/fakecatcherStore";
 import { connectToDatabase } from "@/lib/db";
 import { VerificationResult } from "@/lib/models/VerificationResult";
+import { scanAnimatedPreviewUrl, scanPreviewUrl } from "@/lib/scanMedia";
+import { computeVerdict, rdOutput } from "@/lib/verdictEngine";
 
 const BACKEND_API_URL = (
   process.env.BACKEND_API_URL ||
@@ -20,35 +22,6 @@ function buildBackendUrl(path: string) {
   return `${BACKEND_API_URL}${path}`;
 }
 
-function mapJobStatus(status?: string) {
-  if (status === "done") return "AUTHENTIC";
-  if (status === "error") return "DEEPFAKE";
-  return "PROCESSING";
-}
-
-function clamp01(value: number) {
-  return Math.max(0, Math.min(1, value));
-}
-
-function mapRdToManipulationScore(status?: string, score?: number) {
-  const normalized = clamp01(typeof score === "number" ? score : 0);
-  if (status === "AUTHENTIC") return 1 - normalized;
-  if (status === "MANIPULATED") return normalized;
-  return 0.5;
-}
-
-function mapCombinedStatus(score: number) {
-  if (score >= 0.65) return "DEEPFAKE";
-  if (score <= 0.35) return "AUTHENTIC";
-  return "SUSPICIOUS";
-}
-
-function mapRdStatusToResultStatus(status?: string) {
-  if (status === "MANIPULATED") return "DEEPFAKE";
-  if (status === "AUTHENTIC") return "AUTHENTIC";
-  return "SUSPICIOUS";
-}
-
 function mapBackendFetchError(error: unknown) {
   const err = error as { message?: string; cause?: { code?: string } };
   const causeCode = err.cause?.code;
@@ -74,19 +47,15 @@ export async function GET(req: NextRequest) {
     const limit = Math.max(1, Math.min(100, parseInt(url.searchParams.get("limit") || "20", 10)));
 
     const maxResultsEntries = 200;
-    const rdOnlyEntries = listUserJobMeta(userId)
-      .filter((meta) => meta.source === "rd-only")
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, maxResultsEntries)
+    const rdOnlyMeta = await listUserJobMeta(userId, { source: "rd-only", limit: maxResultsEntries });
+    const rdOnlyStore = await getJobs(rdOnlyMeta.map((meta) => meta.jobId));
+    const rdOnlyEntries = rdOnlyMeta
       .map((meta) => {
-        const rd = getJobRdAnalysis(meta.jobId);
-        const score = mapRdToManipulationScore(rd?.status, rd?.score);
-        const status = rd?.status === "MANIPULATED"
-          ? "DEEPFAKE"
-          : rd?.status === "AUTHENTIC"
-          ? "AUTHENTIC"
-          : mapCombinedStatus(score);
-        const confidence = Math.round(clamp01(score) * 1000) / 10;
+        const rd = rdOnlyStore.get(meta.jobId)?.rd;
+        const rdResult = rdOutput(rd);
+        const verdict = computeVerdict(meta.fileType, rdResult ? [rdResult] : []);
+        const status = verdict?.status || "SUSPICIOUS";
+        const confidence = verdict?.confidenceScore ?? 0;
         const rdModelNames = (rd?.models || []).map((m) => m.name || "rd-model");
 
         return {
@@ -130,7 +99,7 @@ export async function GET(req: NextRequest) {
         .maxTimeMS(3000)
         .lean();
 
-      const dbEntries = (dbTop || []).map((d: any) => ({
+      const dbEntries = await Promise.all((dbTop || []).map(async (d: any) => ({
         _id: d._id,
         scanId: d.scanId || d._id,
         fileName: d.fileName,
@@ -138,11 +107,12 @@ export async function GET(req: NextRequest) {
         confidenceScore: d.confidenceScore,
         createdAt: d.createdAt || d.createdAt,
         fileType: d.fileType,
-        imageUrl: d.imageUrl || "",
+        imageUrl: await scanPreviewUrl(d),
+        animatedPreviewUrl: await scanAnimatedPreviewUrl(d),
         description: d.description || "",
         modelsUsed: d.modelsUsed || [],
         features: d.features || [],
-      }));
+      })));
 
       const dbScanIds = new Set(dbEntries.map((d) => String(d.scanId)));
 
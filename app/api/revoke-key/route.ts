@@ -1,7 +1,7 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { auth } from "@/lib/auth";
-import { GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
-import { dynamoDocClient, getDynamoTableName } from "@/lib/aws/dynamo";
+import { findApiKey, revokeApiKey } from "@/lib/apiKeys";
 
 export async function POST(req: NextRequest) {
   try {
@@ -12,41 +12,32 @@ export async function POST(req: NextRequest) {
 
     const body = await req.json();
     const apiKey = typeof body?.api_key === "string" ? body.api_key.trim() : "";
+    const keyId = typeof body?.id === "string" ? body.id : "";
 
-    if (!apiKey) {
+    if (!apiKey && !keyId) {
       return NextResponse.json(
-        { error: "api_key is required" },
+        { error: "api_key or id is required" },
         { status: 400 }
       );
     }
+    if (!apiKey && !mongoose.isValidObjectId(keyId)) {
+      return NextResponse.json({ error: "id is not a valid key ID" }, { status: 400 });
+    }
 
-    const tableName = getDynamoTableName();
-
-    const existing = await dynamoDocClient.send(
-      new GetCommand({
-        TableName: tableName,
-        Key: { api_key: apiKey },
-      })
-    );
-
-    const item = existing.Item as Record<string, unknown> | undefined;
-    if (!item) {
+    // Keys are stored hashed, so a raw key is resolved to its record first.
+    const existing = apiKey ? await findApiKey(apiKey) : null;
+    if (apiKey && !existing) {
       return NextResponse.json({ error: "API key not found" }, { status: 404 });
     }
 
-    if (String(item.client_id) !== userId) {
+    if (existing && existing.userId !== userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    await dynamoDocClient.send(
-      new UpdateCommand({
-        TableName: tableName,
-        Key: { api_key: apiKey },
-        UpdateExpression: "SET #s = :revoked",
-        ExpressionAttributeNames: { "#s": "status" },
-        ExpressionAttributeValues: { ":revoked": "revoked" },
-      })
-    );
+    const revoked = await revokeApiKey(existing ? String(existing._id) : keyId, userId);
+    if (!revoked) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { Batch, type IBatch } from "@/lib/models/Batch";
+import { summarizeBatch } from "@/lib/batchScan";
+
+// GET /api/scans/batch/{id} - Progress, per-item results so far and the combined summary
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const batch = await Batch.findOne({ batchId: id, userId }).lean<IBatch>();
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const finished = batch.items.filter((item) => item.status === "DONE" || item.status === "ERROR").length;
+
+    return NextResponse.json({
+      batchId: batch.batchId,
+      status: batch.status,
+      total: batch.total,
+      completed: batch.items.filter((item) => item.status === "DONE").length,
+      failed: batch.items.filter((item) => item.status === "ERROR").length,
+      progress: batch.total ? Math.round((finished / batch.total) * 100) : 100,
+      creditsReserved: batch.creditsReserved,
+      creditsRefunded: batch.creditsRefunded,
+      // Running batches get a live summary of the items finished so far.
+      summary: batch.summary?.errors !== undefined && batch.status !== "PROCESSING" ? batch.summary : summarizeBatch(batch.items),
+      items: batch.items.map((item) => ({
+        index: item.index,
+        fileName: item.fileName,
+        source: item.source,
+        url: item.url,
+        fileType: item.fileType,
+        status: item.status,
+        scanId: item.scanId,
+        verdict: item.verdict,
+        confidenceScore: item.confidenceScore,
+        error: item.error,
+        finishedAt: item.finishedAt,
+      })),
+      createdAt: batch.createdAt,
+      completedAt: batch.completedAt,
+    });
+  } catch (error) {
+    console.error("Error fetching batch:", error);
+    return NextResponse.json({ error: "Failed to fetch batch" }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rm } from "fs/promises";
+import path from "path";
+import { auth } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { Batch, type IBatchItem } from "@/lib/models/Batch";
+import { refundUserCredits, reserveUserCredits } from "@/lib/credits";
+import { enqueueBatchJob, spoolScanUpload } from "@/lib/scanQueue";
+import { parseVideoSampling } from "@/lib/videoSampling";
+import { withIdempotency } from "@/lib/idempotency";
+import { isZipArchive, readZipEntries, ZipArchiveError } from "@/lib/zipArchive";
+
+const BATCH_MAX_ITEMS = Math.max(1, parseInt(process.env.BATCH_MAX_ITEMS || "50", 10));
+const BATCH_MAX_BYTES = 200 * 1024 * 1024;
+
+type PendingItem = { fileName: string; source: IBatchItem["source"]; url?: string; buffer?: Buffer };
+
+function parseUrlList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === "string").map((u) => u.trim()).filter(Boolean);
+  if (typeof value === "string") return value.split(/[\s,]+/).map((u) => u.trim()).filter(Boolean);
+  return [];
+}
+
+// POST /api/scans/batch - Queue many files, URLs or one zip archive as a single batch
+export async function POST(req: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return withIdempotency(req, userId, "POST /api/scans/batch", () => createBatch(req, userId));
+}
+
+async function createBatch(req: NextRequest, userId: string) {
+  const spooled: string[] = [];
+  let reserved = 0;
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    const items: PendingItem[] = [];
+    let samplingInput = req.nextUrl.searchParams.get("sampling");
+
+    if (contentType.includes("multipart/form-data")) {
+      const incoming = await req.formData();
+      const maybeSampling = incoming.get("sampling");
+      if (typeof maybeSampling === "string" && maybeSampling) samplingInput = maybeSampling;
+
+      let totalBytes = 0;
+      for (const entry of [...incoming.getAll("files"), ...incoming.getAll("file")]) {
+        if (!(entry instanceof File)) continue;
+        totalBytes += entry.size;
+        if (totalBytes > BATCH_MAX_BYTES) {
+          return NextResponse.json({ error: "Batch exceeds the 200 MB upload limit" }, { status: 413 });
+        }
+        const buffer = Buffer.from(await entry.arrayBuffer());
+        if (isZipArchive(buffer) || entry.name.toLowerCase().endsWith(".zip")) {
+          const archived = readZipEntries(buffer, { maxEntries: BATCH_MAX_ITEMS, maxTotalBytes: BATCH_MAX_BYTES });
+          items.push(...archived.map((file) => ({ fileName: file.fileName, source: "zip" as const, buffer: file.buffer })));
+        } else {
+          items.push({ fileName: entry.name || `upload-${items.length + 1}`, source: "upload", buffer });
+        }
+      }
+      for (const url of incoming.getAll("urls").flatMap(parseUrlList)) {
+        items.push({ fileName: path.posix.basename(url.split("?")[0]) || url, source: "url", url });
+      }
+    } else {
+      const body = await req.json() as { urls?: string[] | string; sampling?: string };
+      samplingInput = body.sampling || samplingInput;
+      for (const url of parseUrlList(body.urls)) {
+        items.push({ fileName: path.posix.basename(url.split("?")[0]) || url, source: "url", url });
+      }
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: "Provide files, urls or a zip archive" }, { status: 400 });
+    }
+    if (items.length > BATCH_MAX_ITEMS) {
+      return NextResponse.json({ error: `A batch can contain at most ${BATCH_MAX_ITEMS} items` }, { status: 413 });
+    }
+
+    const videoSampling = samplingInput ? parseVideoSampling(samplingInput) : undefined;
+    if (videoSampling === null) {
+      return NextResponse.json(
+        { error: "Invalid sampling. Use fixed:<frames>, fps:<frames per second>, scene, scene:<threshold> or keyframe." },
+        { status: 400 }
+      );
+    }
+
+    // Every item is paid for up front; items that fail are refunded when the batch settles.
+    const reservation = await reserveUserCredits(userId, items.length);
+    if (!reservation.ok) {
+      if (reservation.reason === "USER_NOT_FOUND") {
+        return NextResponse.json(
+          { error: "User profile not found. Please refresh and try again." },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Insufficient credits. This batch needs ${items.length} credits.` },
+        { status: 402 }
+      );
+    }
+    reserved = items.length;
+
+    const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const batchItems: IBatchItem[] = [];
+    for (const [index, item] of items.entries()) {
+      const filePath = item.buffer ? await spoolScanUpload(`${batchId}-${index}`, item.fileName, item.buffer) : undefined;
+      if (filePath) spooled.push(filePath);
+      batchItems.push({ index, fileName: item.fileName, source: item.source, url: item.url, filePath, status: "QUEUED" });
+    }
+
+    await connectToDatabase();
+    await Batch.create({
+      batchId,
+      userId,
+      total: items.length,
+      creditsReserved: reserved,
+      items: batchItems,
+    });
+
+    try {
+      await enqueueBatchJob({ batchId, userId, videoSampling, enqueuedAt: new Date().toISOString() });
+    } catch (queueError) {
+      await Batch.deleteOne({ batchId }).catch(() => {});
+      throw queueError;
+    }
+
+    return NextResponse.json(
+      {
+        batchId,
+        status: "PROCESSING",
+        total: items.length,
+        creditsReserved: reserved,
+        statusUrl: `/api/scans/batch/${batchId}`,
+        resultsUrl: `/results/bulk?batch=${batchId}`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (reserved > 0) {
+      await refundUserCredits(userId, reserved).catch((refundError) => {
+        console.error("Failed to refund batch credits:", refundError);
+      });
+    }
+    await Promise.all(spooled.map((filePath) => rm(filePath, { force: true }).catch(() => {})));
+    if (error instanceof ZipArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating batch:", error);
+    return NextResponse.json({ error: "Failed to create batch" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { Readable } from "stream";
+import { localObjectPath, verifyLocalSignature } from "@/lib/objectStorage";
+
+function parseRange(header: string | null, size: number) {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(0, size - parseInt(match[2], 10));
+  const end = match[1] && match[2] ? Math.min(size - 1, parseInt(match[2], 10)) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+}
+
+// GET /api/storage/[...key] - Signed download of a stored original or preview (local storage driver only)
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await context.params;
+    const key = segments.join("/");
+    const { searchParams } = new URL(req.url);
+    const mime = searchParams.get("type") || "application/octet-stream";
+    const downloadName = searchParams.get("name") || "";
+    const valid = verifyLocalSignature(
+      { key, expires: parseInt(searchParams.get("expires") || "", 10), mime, downloadName },
+      searchParams.get("sig") || ""
+    );
+    const filePath = localObjectPath(key);
+    if (!valid || !filePath) {
+      return NextResponse.json({ error: "Link expired or invalid" }, { status: 403 });
+    }
+
+    const size = await stat(filePath).then((info) => info.size, () => null);
+    if (size === null) {
+      return NextResponse.json({ error: "Object not found" }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": mime,
+      "Accept-Ranges": "bytes",
+      // The URL stops working when the signature expires, so it must not outlive it in caches.
+      "Cache-Control": "private, max-age=60",
+      ...(downloadName ? { "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}` } : {}),
+    };
+
+    // Video players seek with range requests.
+    const range = parseRange(req.headers.get("range"), size);
+    if (req.headers.get("range") && !range) {
+      return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+    }
+    const { start, end } = range || { start: 0, end: size - 1 };
+    const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(stream, {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        "Content-Length": String(end - start + 1),
+        ...(range ? { "Content-Range": `bytes ${start}-${end}/${size}` } : {}),
+      },
+    });
+  } catch (error) {
+    console.error("Error serving stored object:", error);
+    return NextResponse.json({ error: "Failed to load object" }, { status: 500 });
+  }
+}
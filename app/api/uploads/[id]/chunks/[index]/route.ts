@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { parseChecksumHeader, storeUploadChunk, UploadSessionError } from "@/lib/resumableUpload";
+
+// Chunks are at most 64 MB (see lib/resumableUpload); anything larger is refused before it is read.
+const MAX_CHUNK_REQUEST_BYTES = 64 * 1024 * 1024;
+
+// PUT /api/uploads/{id}/chunks/{index} - Store one chunk; the body is the raw bytes
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string; index: string }> }
+) {
+  const { id, index } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const declaredLength = Number(req.headers.get("content-length") || 0);
+    if (declaredLength > MAX_CHUNK_REQUEST_BYTES) {
+      return NextResponse.json({ error: "Chunk is too large" }, { status: 413 });
+    }
+
+    const checksum = parseChecksumHeader(req.headers.get("upload-checksum"));
+    const body = Buffer.from(await req.arrayBuffer());
+    const upload = await storeUploadChunk(userId, id, Number(index), body, checksum);
+
+    return NextResponse.json(
+      {
+        uploadId: upload.uploadId,
+        index: Number(index),
+        received: upload.receivedChunks.length,
+        totalChunks: upload.totalChunks,
+        missingChunks: upload.missingChunks,
+      },
+      { headers: { "Upload-Offset": String(upload.offset) } }
+    );
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error storing upload chunk:", error);
+    return NextResponse.json({ error: "Failed to store chunk" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { completeUpload, UploadSessionError } from "@/lib/resumableUpload";
+
+// POST /api/uploads/{id}/complete - Assemble the chunks; the upload can then be scanned with { uploadId }
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({})) as { sha256?: string };
+    const upload = await completeUpload(userId, id, typeof body.sha256 === "string" ? body.sha256 : undefined);
+    return NextResponse.json({ ...upload, scanUrl: "/api/scans" });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error completing upload:", error);
+    return NextResponse.json({ error: "Failed to complete upload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { abortUpload, describeUpload, getUploadSession, UploadSessionError } from "@/lib/resumableUpload";
+
+function offsetHeaders(upload: ReturnType<typeof describeUpload>) {
+  return {
+    "Upload-Offset": String(upload.offset),
+    "Upload-Length": String(upload.size),
+    "Cache-Control": "no-store",
+  };
+}
+
+// GET /api/uploads/{id} - Which chunks have arrived, so an interrupted client can resume
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const upload = describeUpload(await getUploadSession(userId, id));
+    return NextResponse.json(upload, { headers: offsetHeaders(upload) });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching upload:", error);
+    return NextResponse.json({ error: "Failed to fetch upload" }, { status: 500 });
+  }
+}
+
+// HEAD /api/uploads/{id} - tus-style offset probe
+export async function HEAD(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return new NextResponse(null, { status: 401 });
+    }
+
+    const upload = describeUpload(await getUploadSession(userId, id));
+    return new NextResponse(null, { status: 200, headers: offsetHeaders(upload) });
+  } catch (error) {
+    return new NextResponse(null, { status: error instanceof UploadSessionError ? error.status : 500 });
+  }
+}
+
+// DELETE /api/uploads/{id} - Abort the upload and discard what was received
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await abortUpload(userId, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error aborting upload:", error);
+    return NextResponse.json({ error: "Failed to abort upload" }, { status: 500 });
+  }
+}
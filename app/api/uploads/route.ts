@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createUploadSession, UploadSessionError } from "@/lib/resumableUpload";
+
+// POST /api/uploads - Start a resumable upload; chunks then go to /api/uploads/{id}/chunks/{index}
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null) as { fileName?: unknown; size?: unknown; chunkSize?: unknown; sha256?: unknown } | null;
+    if (!body) {
+      return NextResponse.json({ error: "Expected a JSON body with fileName and size" }, { status: 400 });
+    }
+
+    const upload = await createUploadSession(userId, body);
+    const uploadUrl = `/api/uploads/${upload.uploadId}`;
+    return NextResponse.json(
+      { ...upload, uploadUrl, chunkUrl: `${uploadUrl}/chunks/{index}`, completeUrl: `${uploadUrl}/complete` },
+      { status: 201, headers: { Location: uploadUrl } }
+    );
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating upload session:", error);
+    return NextResponse.json({ error: "Failed to create upload" }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { QueryCommand } from "@aws-sdk/lib-dynamodb";
-import { dynamoDocClient, getDynamoTableName } from "@/lib/aws/dynamo";
+import { connectToDatabase } from "@/lib/db";
+import { ApiKey } from "@/lib/models/ApiKey";
 
 export async function GET(req: NextRequest) {
   try {
@@ -12,34 +12,24 @@ export async function GET(req: NextRequest) {
 
     const url = new URL(req.url);
     const clientId = url.searchParams.get("clientId") || userId;
-    const tableName = getDynamoTableName();
 
-    const result = await dynamoDocClient.send(
-      new QueryCommand({
-        TableName: tableName,
-        IndexName: "client_id-index",
-        KeyConditionExpression: "client_id = :cid",
-        ExpressionAttributeValues: {
-          ":cid": clientId,
-        },
-      })
-    );
+    await connectToDatabase();
+    const keys = await ApiKey.find({ userId: clientId })
+      .sort({ createdAt: -1 })
+      .lean();
 
-    const keys = (result.Items as Array<Record<string, unknown>> | undefined) ?? [];
     const totalScans = keys.reduce(
-      (sum, key) => sum + Number(key.scans_used ?? 0),
+      (sum, key) => sum + Number(key.scansUsed ?? 0),
       0
     );
 
     return NextResponse.json({
       keys: keys.map((key) => ({
-        api_key_preview:
-          typeof key.api_key === "string"
-            ? key.api_key.slice(0, 12) + "..."
-            : null,
-        scans_used: Number(key.scans_used ?? 0),
-        status: key.status ?? "unknown",
-        created_at: key.created_at ?? null,
+        id: key._id,
+        api_key_preview: key.keyPrefix + "...",
+        scans_used: Number(key.scansUsed ?? 0),
+        status: key.isActive ? "active" : "revoked",
+        created_at: key.createdAt ?? null,
         plan: key.plan ?? "payg",
       })),
       total_scans: totalScans,
@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
 import { User } from "@/lib/models/User";
 import { VerificationResult } from "@/lib/models/VerificationResult";
+import { scanAnimatedPreviewUrl, scanPreviewUrl, type ScanMediaRecord } from "@/lib/scanMedia";
 import * as Sentry from "@sentry/nextjs";
 
 // Type for a single scan summary returned to the frontend
@@ -15,6 +16,7 @@ type ScanSummary = {
   createdAt: string;
   fileType?: string;
   imageUrl?: string;
+  animatedPreviewUrl?: string;
 };
 
 // Dashboard API response type
@@ -74,15 +76,22 @@ export async function GET(req: NextRequest) {
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
-        .select("_id scanId fileName status confidenceScore createdAt fileType imageUrl")
+        .select("_id scanId fileName status confidenceScore createdAt fileType imageUrl media.preview media.animatedPreview")
         .hint({ userId: 1, createdAt: -1 })
         .maxTimeMS(5000)
         .lean({ virtuals: false, getters: false })
-        .exec() as unknown as Promise<ScanSummary[]>,
+        .exec() as unknown as Promise<Array<ScanSummary & { media?: ScanMediaRecord }>>,
     ]);
 
     const user: UserDoc | null = userResult.status === "fulfilled" ? (userResult.value as UserDoc | null) : null;
-    const scans: ScanSummary[] = scansResult.status === "fulfilled" ? (scansResult.value as ScanSummary[]) : [];
+    const scanDocs = scansResult.status === "fulfilled" ? scansResult.value : [];
+    const scans: ScanSummary[] = await Promise.all(
+      scanDocs.map(async ({ media, ...scan }) => ({
+        ...scan,
+        imageUrl: await scanPreviewUrl({ ...scan, media }),
+        animatedPreviewUrl: await scanAnimatedPreviewUrl({ media }),
+      }))
+    );
 
     const responseData: DashboardResponse = {
       credits: user?.credits ?? 0,
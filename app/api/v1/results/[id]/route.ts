@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiKeyError, authenticateApiKey, type ApiKeyPrincipal } from "@/lib/apiKeys";
+import { getScanResult } from "@/lib/scanResult";
+
+// GET /api/v1/results/{id} - Verdict for a scan owned by the x-api-key's client
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  let principal: ApiKeyPrincipal;
+  try {
+    principal = await authenticateApiKey(req);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error authenticating API key:", error);
+    return NextResponse.json({ error: "Failed to authenticate API key" }, { status: 500 });
+  }
+
+  return getScanResult(id, principal.clientId);
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiKeyError, authenticateApiKey, recordApiKeyScan, type ApiKeyPrincipal } from "@/lib/apiKeys";
+import { withIdempotency } from "@/lib/idempotency";
+import { createScan } from "@/lib/scanRequest";
+
+// POST /api/v1/scans - Submit media with an x-api-key header; the key owner's credits pay for the scan
+export async function POST(req: NextRequest) {
+  let principal: ApiKeyPrincipal;
+  try {
+    principal = await authenticateApiKey(req);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error authenticating API key:", error);
+    return NextResponse.json({ error: "Failed to authenticate API key" }, { status: 500 });
+  }
+
+  // Usage is counted inside the idempotent handler so a replayed retry is not counted twice.
+  return withIdempotency(req, principal.clientId, "POST /api/v1/scans", async () => {
+    const response = await createScan(req, principal.clientId, {
+      apiKey: principal.attribution,
+      resultsPath: "/api/v1/results",
+    });
+    if (response.ok) {
+      await recordApiKeyScan(principal.keyId).catch((error) => {
+        console.warn("Failed to record API key usage:", error);
+      });
+    }
+    return response;
+  });
+}
@@ -33,6 +33,7 @@ const systemLinks: (alertsCount: number) => NavItem[] = (alertsCount) => [
   { label: "API keys", href: "/backoffice/api-keys" },
   { label: "Webhooks", href: "/backoffice/webhooks" },
   { label: "Audit log", href: "/backoffice/audit-log" },
+  { label: "Data retention", href: "/backoffice/retention" },
   { label: "Alerts", href: "/backoffice/alerts", badge: alertsCount > 0 ? alertsCount.toString() : undefined, badgeColor: "red" },
   { label: "Settings", href: "/backoffice/settings" },
 ];
@@ -25,50 +25,51 @@ function useApiKeysData() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchData() {
-      setLoading(true);
-      try {
-        const res = await fetch("/api/admin/api-keys", { credentials: "include" });
-        if (res.ok) {
-          const data = await res.json();
-          const transformed = (data.keys || []).map((k: Record<string, unknown>) => ({
-            id: k.id as string || "",
-            name: k.name as string || "API Key",
-            prefix: k.prefix as string || "",
-            client: k.client as string || "Unknown",
-            env: (k.env as string) as "live" | "test" || "test",
-            active: k.is_active as boolean ?? true,
-            created: k.created_at ? new Date(k.created_at as string).toISOString().split("T")[0] : "",
-            lastUsed: k.last_used ? new Date(k.last_used as string).toLocaleDateString() : null,
-            scans: 0,
-          }));
-          setKeys(transformed);
-        }
-      } catch (err) {
-        console.error("Error fetching API keys:", err);
-        setError("Failed to load API keys");
-      } finally {
-        setLoading(false);
+  async function fetchData() {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/api-keys", { credentials: "include" });
+      if (res.ok) {
+        const data = await res.json();
+        const transformed = (data.keys || []).map((k: Record<string, unknown>) => ({
+          id: k.id as string || "",
+          name: k.name as string || "API Key",
+          prefix: k.prefix as string || "",
+          client: k.client as string || "Unknown",
+          env: (k.env as string) as "live" | "test" || "test",
+          active: k.is_active as boolean ?? true,
+          created: k.created_at ? new Date(k.created_at as string).toISOString().split("T")[0] : "",
+          lastUsed: k.last_used ? new Date(k.last_used as string).toLocaleDateString() : null,
+          scans: Number(k.scans_used ?? 0),
+        }));
+        setKeys(transformed);
       }
+    } catch (err) {
+      console.error("Error fetching API keys:", err);
+      setError("Failed to load API keys");
+    } finally {
+      setLoading(false);
     }
+  }
+
+  useEffect(() => {
     fetchData();
   }, []);
 
-  return { keys, loading, error };
+  return { keys, loading, error, refetch: fetchData };
 }
 
 export default function ApiKeysPage() {
-  const { keys: apiKeys, loading, error } = useApiKeysData();
+  const { keys: apiKeys, loading, error, refetch } = useApiKeysData();
+  const [clientOptions, setClientOptions] = useState<Array<{ id: string; name: string }>>([]);
   const [filterClient, setFilterClient] = useState("All");
   const [filterEnv, setFilterEnv]       = useState("All");
   const [filterActive, setFilterActive] = useState("All");
   const [showCreate, setShowCreate]     = useState(false);
   const [newKey, setNewKey]             = useState<{ prefix: string; full: string } | null>(null);
   const [copied, setCopied]             = useState<string | null>(null);
-  const [createClient, setCreateClient] = useState("ZEP-RE");
+  const [createClient, setCreateClient] = useState("");
   const [createName, setCreateName]     = useState("");
-  const [createEnv, setCreateEnv]       = useState("live");
 
   const filtered = apiKeys.filter((k) => {
     if (filterClient !== "All" && k.client !== filterClient)                  return false;
@@ -80,6 +81,13 @@ export default function ApiKeysPage() {
 
   const clients = ["All", ...Array.from(new Set(apiKeys.map((k) => k.client)))];
 
+  useEffect(() => {
+    fetch("/api/admin/clients?limit=200", { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : { clients: [] }))
+      .then((data) => setClientOptions(data.clients || []))
+      .catch((err) => console.error("Error fetching clients:", err));
+  }, []);
+
   async function handleRevoke(keyId: string) {
     if (!confirm("Are you sure you want to revoke this API key? This action cannot be undone.")) return;
     try {
@@ -88,31 +96,27 @@ export default function ApiKeysPage() {
         credentials: "include",
       });
       if (res.ok) {
-        // Refresh data
-        window.location.reload();
+        refetch();
       }
     } catch (error) {
       console.error("Error revoking API key:", error);
     }
   }
 
-  async function handleCreateKey(client: string, name: string, env: string) {
+  async function handleCreateKey(clientId: string, name: string) {
     try {
       const res = await fetch("/api/admin/api-keys", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ client, name, env }),
+        body: JSON.stringify({ clientId, name }),
       });
       if (res.ok) {
         const data = await res.json();
-        setNewKey({
-          prefix: data.prefix || "gt_live_x9k2…7m4p",
-          full: data.key || "gt_live_x9k2a8b3c1d4e5f6g7h8i9j0k1l2m3n4o5p",
-        });
+        // The raw key is only in this response; the server keeps its hash.
+        setNewKey({ prefix: data.prefix, full: data.raw_key });
         setShowCreate(false);
-        // Refresh data
-        window.location.reload();
+        refetch();
       }
     } catch (error) {
       console.error("Error creating API key:", error);
@@ -125,14 +129,6 @@ export default function ApiKeysPage() {
     setTimeout(() => setCopied(null), 2000);
   }
 
-  function handleCreate() {
-    setNewKey({
-      prefix: "gt_live_x9k2…7m4p",
-      full:   "gt_live_x9k2a8b3c1d4e5f6g7h8i9j0k1l2m3n4o5p",
-    });
-    setShowCreate(false);
-  }
-
   return (
     <div style={{ display: "flex", flexDirection: "column", height: "100%", background: "var(--color-background-tertiary)" }}>
       <PageHeader
@@ -219,25 +215,19 @@ export default function ApiKeysPage() {
               <div>
                 <label style={{ fontSize: 11, color: "var(--color-text-secondary)", display: "block", marginBottom: 4 }}>Client</label>
                 <Select value={createClient} onChange={setCreateClient} style={{ width: "100%" }}>
-                  {["ZEP-RE", "Innovex", "KE Guild", "Meridian Bank", "Trial user"].map((c) => <option key={c}>{c}</option>)}
+                  <option value="">Select client…</option>
+                  {clientOptions.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
                 </Select>
               </div>
               <div>
                 <label style={{ fontSize: 11, color: "var(--color-text-secondary)", display: "block", marginBottom: 4 }}>Key name (human label)</label>
                 <Input placeholder="e.g. ZEP-RE production v2" value={createName} onChange={setCreateName} style={{ width: "100%" }} />
               </div>
-              <div>
-                <label style={{ fontSize: 11, color: "var(--color-text-secondary)", display: "block", marginBottom: 4 }}>Environment</label>
-                <Select value={createEnv} onChange={setCreateEnv} style={{ width: "100%" }}>
-                  <option>live</option>
-                  <option>test</option>
-                </Select>
-              </div>
               <div style={{ padding: "8px 10px", background: "rgba(220,38,38,.06)", border: "0.5px solid rgba(220,38,38,.2)", borderRadius: "var(--border-radius-md)", fontSize: 11, color: DT_AMBER }}>
                 ⚠ The full key is shown only once on creation. It cannot be retrieved after creation — only revoked.
               </div>
               <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
-                <Btn variant="primary" style={{ flex: 1 }} onClick={() => handleCreateKey(createClient, createName, createEnv)}>Generate key</Btn>
+                <Btn variant="primary" style={{ flex: 1 }} disabled={!createClient || !createName} onClick={() => handleCreateKey(createClient, createName)}>Generate key</Btn>
                 <Btn variant="default" onClick={() => setShowCreate(false)}>Cancel</Btn>
               </div>
             </div>
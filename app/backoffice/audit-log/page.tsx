@@ -12,7 +12,10 @@ type ActionType =
   | "api_key.created"   | "api_key.revoked"
   | "webhook.created"   | "webhook.deleted"    | "webhook.test_sent"
   | "settings.updated"  | "alert.acknowledged"
-  | "pipeline.triggered"| "label.promoted";
+  | "pipeline.triggered"| "label.promoted"
+  | "retention.scan_deleted" | "retention.media_purged" | "retention.derived_purged" | "retention.access_log_purged"
+  | "retention.dry_run" | "retention.policy_updated" | "client.retention_updated"
+  | "legal_hold.placed" | "legal_hold.released";
 
 interface AuditEntry {
   id: string;
@@ -47,7 +50,8 @@ function useAuditLogData() {
             target: l.target as string || "",
             ip: l.ip as string || "",
             timestamp: l.timestamp ? new Date(l.timestamp as string).toISOString().replace("T", " ").slice(0, 19) : "",
-            details: l.details as string | undefined,
+            // System entries such as retention deletion records carry structured details.
+            details: typeof l.details === "string" || l.details == null ? (l.details as string | undefined) : JSON.stringify(l.details),
           }));
           setEntries(transformed);
         }
@@ -79,6 +83,15 @@ const actionColor: Record<string, string> = {
   "alert.acknowledged":     "var(--color-text-secondary)",
   "pipeline.triggered":     DT_CYAN,
   "label.promoted":         DT_GREEN,
+  "retention.scan_deleted":     DT_RED,
+  "retention.media_purged":     DT_RED,
+  "retention.derived_purged":   DT_RED,
+  "retention.access_log_purged":DT_RED,
+  "retention.dry_run":          DT_AMBER,
+  "retention.policy_updated":   DT_AMBER,
+  "client.retention_updated":   DT_AMBER,
+  "legal_hold.placed":          DT_AMBER,
+  "legal_hold.released":        "var(--color-text-secondary)",
 };
 
 const roleColor = (r: string) => r === "admin" ? DT_CYAN : r === "reviewer" ? DT_AMBER : "var(--color-text-tertiary)";
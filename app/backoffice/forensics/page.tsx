@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceArea, ReferenceLine } from "recharts";
 import {
   Card, CardHead, Btn, PageHeader, ConfBar,
   StatCard, Select, Input, Pill, DT_CYAN, DT_GREEN, DT_RED, DT_AMBER,
@@ -21,14 +22,96 @@ interface ScanDetail {
   codec?: string;
   fps?: number;
   heatmap?: boolean;
+  maps?: ForensicMap[];
   frames?: number;
   sampleRate?: number;
   spectrogram?: boolean;
   resolution?: string;
   pages?: number;
+  sampling?: string;
+  frameAnalysis?: FrameAnomaly[];
+  timeline?: AnomalyTimeline;
+  metadataFlags?: string[];
+  metadata?: MetadataForensics;
 }
 
-function useScansData() {
+interface ForensicMap {
+  index?: number;
+  timestamp?: number;
+  width: number;
+  height: number;
+  baseUrl: string;
+  ela: { url: string; mean: number; p99: number; hotspotRatio: number };
+  noise: { url: string; medianLevel: number; inconsistency: number };
+}
+
+type OverlayMode = "ela" | "noise" | "off";
+
+interface MetadataForensics {
+  camera: string | null;
+  software: string[];
+  aiGenerator: string | null;
+  capturedAt: string | null;
+  modifiedAt: string | null;
+  thumbnailDistance: number | null;
+  findings: { flag: string; detail: string }[];
+}
+
+const METADATA_FLAGS: [string, string][] = [
+  ["ai_generator", "AI generator signature"],
+  ["editing_software", "Editing software"],
+  ["metadata_stripped", "Metadata stripped"],
+  ["camera_data_missing", "Camera data missing"],
+  ["timestamp_mismatch", "Timestamp mismatch"],
+  ["modified_after_capture", "Modified after capture"],
+  ["dimension_mismatch", "Dimension mismatch"],
+  ["thumbnail_mismatch", "Thumbnail mismatch"],
+];
+
+const metadataFlagLabel = (flag: string) => METADATA_FLAGS.find(([value]) => value === flag)?.[1] || flag;
+
+interface TimelinePoint {
+  index: number;
+  timestamp: number;
+  frameStatus: string;
+  score?: number;
+  status?: "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE";
+  label?: string;
+  thumbnailUrl?: string;
+}
+
+interface AnomalyTimeline {
+  duration: number;
+  thresholds: { deepfake: number; authentic: number };
+  points: TimelinePoint[];
+  segments: {
+    start: number;
+    end: number;
+    frameCount: number;
+    peakScore: number;
+    peakTimestamp: number;
+    meanScore: number;
+    status: "SUSPICIOUS" | "DEEPFAKE";
+  }[];
+}
+
+const pointColor = (p: TimelinePoint) => p.status === "DEEPFAKE" ? DT_RED : p.status === "SUSPICIOUS" ? DT_AMBER : p.status === "AUTHENTIC" ? DT_GREEN : "var(--color-text-tertiary)";
+
+interface FrameAnomaly {
+  frame: string;
+  anomaly: number;
+  note: string;
+}
+
+function formatFrameTime(seconds: number) {
+  const whole = Math.floor(seconds);
+  const hh = String(Math.floor(whole / 3600)).padStart(2, "0");
+  const mm = String(Math.floor((whole % 3600) / 60)).padStart(2, "0");
+  const ss = String(whole % 60).padStart(2, "0");
+  return `${hh}:${mm}:${ss}${seconds % 1 ? `.${Math.round((seconds % 1) * 10)}` : ""}`;
+}
+
+function useScansData(metadataFlag: string) {
   const [scans, setScans] = useState<ScanDetail[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -37,7 +120,9 @@ function useScansData() {
     async function fetchData() {
       setLoading(true);
       try {
-        const res = await fetch("/api/admin/scans?limit=100", { credentials: "include" });
+        const params = new URLSearchParams({ limit: "100" });
+        if (metadataFlag) params.set("metadata_flag", metadataFlag);
+        const res = await fetch(`/api/admin/scans?${params}`, { credentials: "include" });
         if (res.ok) {
           const data = await res.json();
           const transformed = (data.scans || []).map((s: Record<string, unknown>) => ({
@@ -53,7 +138,35 @@ function useScansData() {
             dtScore: s.confidence as number || 0,
             ensemble: s.confidence as number || 0,
             fileSize: "",
-            heatmap: true,
+            heatmap: Array.isArray(s.forensic_maps) && s.forensic_maps.length > 0,
+            maps: (s.forensic_maps as ForensicMap[]) || [],
+            duration: typeof s.duration === "number" ? formatFrameTime(s.duration) : undefined,
+            codec: (s.codec as string) || undefined,
+            fps: typeof s.fps === "number" ? Math.round(s.fps * 100) / 100 : undefined,
+            resolution: (s.resolution as string) || undefined,
+            frames: (s.frames_analyzed as number) || undefined,
+            sampling: (s.sampling as string) || undefined,
+            frameAnalysis: Array.isArray(s.frame_analysis)
+              ? (s.frame_analysis as { timestamp: number; score: number | null; label: string }[]).map((f) => ({
+                  frame: formatFrameTime(f.timestamp),
+                  anomaly: typeof f.score === "number" ? Math.round(f.score * 1000) / 10 : 0,
+                  note: f.label,
+                }))
+              : undefined,
+            timeline: (s.timeline as AnomalyTimeline) || undefined,
+            metadataFlags: (s.metadata_flags as string[]) || [],
+            metadata: s.metadata ? (() => {
+              const m = s.metadata as Record<string, unknown>;
+              return {
+                camera: (m.camera as string) || null,
+                software: (m.software as string[]) || [],
+                aiGenerator: (m.ai_generator as string) || null,
+                capturedAt: (m.captured_at as string) || null,
+                modifiedAt: (m.modified_at as string) || null,
+                thumbnailDistance: typeof m.thumbnail_distance === "number" ? m.thumbnail_distance : null,
+                findings: (m.findings as { flag: string; detail: string }[]) || [],
+              };
+            })() : undefined,
           }));
           setScans(transformed);
         }
@@ -65,7 +178,7 @@ function useScansData() {
       }
     }
     fetchData();
-  }, []);
+  }, [metadataFlag]);
 
   return { scans, loading, error };
 }
@@ -81,19 +194,17 @@ const RD_SUBSCORES = [
   { label: "Texture analysis",     score: 95.1 },
 ];
 
-const FRAME_ANALYSIS = [
-  { frame: "00:00:04", anomaly: 92.1, note: "Lip sync mismatch" },
-  { frame: "00:00:18", anomaly: 97.4, note: "Face boundary artifact" },
-  { frame: "00:00:41", anomaly: 88.3, note: "Temporal flicker" },
-  { frame: "00:01:12", anomaly: 95.6, note: "Eye blink inconsistency" },
-  { frame: "00:01:58", anomaly: 91.0, note: "Skin texture anomaly" },
-];
+const frameRows = (scan: ScanDetail) => scan.frameAnalysis || [];
 
 export default function ForensicsPage() {
-  const { scans, loading, error } = useScansData();
+  const [metadataFlag, setMetadataFlag] = useState("");
+  const { scans, loading, error } = useScansData(metadataFlag);
   const [query, setQuery] = useState("");
   const [selected, setSelected] = useState<ScanDetail | null>(null);
   const [overlayMessage, setOverlayMessage] = useState<string>("");
+  const [overlay, setOverlay] = useState<OverlayMode>("ela");
+  const [mapIndex, setMapIndex] = useState(0);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
 
   const results = query
     ? scans.filter((s) =>
@@ -102,7 +213,13 @@ export default function ForensicsPage() {
     : scans;
 
   useEffect(() => {
-    if (scans.length > 0 && !selected) {
+    setMapIndex(0);
+    setFrameIndex(null);
+    setOverlayMessage("");
+  }, [selected?.id]);
+
+  useEffect(() => {
+    if (scans.length > 0 && (!selected || !scans.some((s) => s.id === selected.id))) {
       setSelected(scans[0]);
     }
   }, [scans, selected]);
@@ -118,12 +235,11 @@ export default function ForensicsPage() {
   }
 
   function downloadOverlay() {
-    if (!selected) return;
-    const blob = new Blob([`Overlay for ${selected.id}\nType: ${selected.type}\nConfidence: ${selected.confidence}%`], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
+    const map = selected?.maps?.[mapIndex];
+    if (!selected || !map || overlay === "off") return;
     const a = document.createElement("a");
-    a.href = url;
-    a.download = `${selected.id}_overlay.txt`;
+    a.href = overlay === "ela" ? map.ela.url : map.noise.url;
+    a.download = `${selected.id}_${overlay}${map.index !== undefined ? `_frame${map.index}` : ""}.png`;
     a.click();
     setOverlayMessage("Overlay downloaded");
   }
@@ -133,8 +249,16 @@ export default function ForensicsPage() {
     window.open(`/backoffice/fp-queue?scanId=${selected.id}`, "_blank");
   }
 
-  function handleJumpTo(frame: string) {
-    window.alert(`Jumping to ${frame} in the scan preview`);
+  /** Selects a sampled frame; the heatmap follows when forensic maps exist for a frame close to it. */
+  function handleJumpTo(pointIndex: number) {
+    const point = selected?.timeline?.points[pointIndex];
+    if (!selected || !point) return;
+    setFrameIndex(pointIndex);
+    const maps = selected.maps || [];
+    const nearest = maps.reduce<number | null>((best, m, i) => (
+      typeof m.timestamp === "number" && (best === null || Math.abs(m.timestamp - point.timestamp) < Math.abs((maps[best].timestamp as number) - point.timestamp)) ? i : best
+    ), null);
+    if (nearest !== null) setMapIndex(nearest);
   }
 
   return (
@@ -149,6 +273,10 @@ export default function ForensicsPage() {
         {/* Left: scan selector */}
         <div style={{ width: 260, flexShrink: 0, display: "flex", flexDirection: "column", gap: 8, marginRight: 12 }}>
           <Input placeholder="Search scan ID or filename…" value={query} onChange={setQuery} style={{ width: "100%" }} />
+          <Select value={metadataFlag} onChange={(v) => { setMetadataFlag(v); setSelected(null); }} style={{ width: "100%" }}>
+            <option value="">All metadata findings</option>
+            {METADATA_FLAGS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </Select>
           {loading ? (
             <div>Loading scans...</div>
           ) : error ? (
@@ -172,6 +300,9 @@ export default function ForensicsPage() {
                   <Pill variant={verdictVariant(s.verdict) as any}>{s.verdict}</Pill>
                   <ConfBar pct={s.confidence} color={verdictColor(s.verdict)} />
                 </div>
+                {s.metadataFlags && s.metadataFlags.length > 0 && (
+                  <div style={{ fontSize: 9, color: DT_AMBER, marginTop: 3 }}>{s.metadataFlags.map(metadataFlagLabel).join(" · ")}</div>
+                )}
                 <div style={{ fontSize: 9, fontFamily: "monospace", color: "var(--color-text-tertiary)", marginTop: 3 }}>{s.id}</div>
               </div>
             ))
@@ -246,10 +377,17 @@ export default function ForensicsPage() {
           <Card>
             <CardHead
               title={selected.type === "Audio" ? "Spectrogram analysis" : "Manipulation heatmap"}
-              right={selected.heatmap || selected.type === "Audio" ? <Btn variant="xs">Download overlay</Btn> : null}
+              right={selected.type === "Audio" ? <Btn variant="xs">Download overlay</Btn> : selected.heatmap ? (
+                <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                  {([["ela", "ELA"], ["noise", "Noise residual"], ["off", "Off"]] as [OverlayMode, string][]).map(([mode, label]) => (
+                    <Btn key={mode} variant={overlay === mode ? "amber" : "xs"} onClick={() => setOverlay(mode)}>{label}</Btn>
+                  ))}
+                  <Btn variant="xs" onClick={downloadOverlay} disabled={overlay === "off"}>Download overlay</Btn>
+                </div>
+              ) : null}
             />
             <div style={{ padding: "1rem" }}>
-              {selected.heatmap || selected.type === "Audio" ? (
+              {selected.type === "Audio" ? (
                 <div
                   style={{
                     height: 160, borderRadius: "var(--border-radius-md)",
@@ -259,36 +397,182 @@ export default function ForensicsPage() {
                     flexDirection: "column", gap: 8,
                   }}
                 >
-                  <span style={{ fontSize: 28 }}>{selected.type === "Audio" ? "🌊" : "🔥"}</span>
-                  <span style={{ fontSize: 11, color: "var(--color-text-secondary)" }}>
-                    {selected.type === "Audio" ? "Spectrogram with anomaly markers" : "Heatmap overlay — red regions show manipulation probability"}
-                  </span>
-                  <span style={{ fontSize: 10, color: "var(--color-text-tertiary)" }}>Signed URL expires in 58 min — click Download to save</span>
+                  <span style={{ fontSize: 28 }}>🌊</span>
+                  <span style={{ fontSize: 11, color: "var(--color-text-secondary)" }}>Spectrogram with anomaly markers</span>
                 </div>
-              ) : (
+              ) : selected.maps && selected.maps.length > 0 ? (() => {
+                const map = selected.maps[Math.min(mapIndex, selected.maps.length - 1)];
+                return (
+                  <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+                    {selected.maps.length > 1 && (
+                      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                        {selected.maps.map((m, i) => (
+                          <Btn key={i} variant={i === mapIndex ? "amber" : "xs"} onClick={() => setMapIndex(i)}>
+                            {typeof m.timestamp === "number" ? formatFrameTime(m.timestamp) : `Frame ${i + 1}`}
+                          </Btn>
+                        ))}
+                      </div>
+                    )}
+                    <div style={{ position: "relative", alignSelf: "center", maxWidth: "100%", lineHeight: 0 }}>
+                      <img src={map.baseUrl} alt="Analysed picture" style={{ maxWidth: "100%", maxHeight: 360, borderRadius: "var(--border-radius-md)" }} />
+                      {overlay !== "off" && (
+                        <img
+                          src={overlay === "ela" ? map.ela.url : map.noise.url}
+                          alt={overlay === "ela" ? "Error level overlay" : "Noise residual overlay"}
+                          style={{ position: "absolute", inset: 0, width: "100%", height: "100%", opacity: 0.85 }}
+                        />
+                      )}
+                    </div>
+                    <div style={{ fontSize: 10, color: "var(--color-text-tertiary)", textAlign: "center" }}>
+                      ELA mean {map.ela.mean} · p99 {map.ela.p99} · hotspots {(map.ela.hotspotRatio * 100).toFixed(1)}%
+                      {" · "}noise inconsistency {(map.noise.inconsistency * 100).toFixed(1)}% · {map.width}x{map.height}
+                      {overlayMessage ? ` · ${overlayMessage}` : ""}
+                    </div>
+                  </div>
+                );
+              })() : (
                 <div style={{ padding: "1.5rem", textAlign: "center", color: "var(--color-text-tertiary)", fontSize: 12 }}>
-                  Heatmap not available for this media type
+                  Heatmap not available for this scan
                 </div>
               )}
             </div>
           </Card>
 
-          {/* Frame-level analysis (video only) */}
-          {(selected.type === "Video" || selected.type === "Audio") && (
+          {/* Frame-level anomaly timeline (video only) */}
+          {selected.type === "Video" && (() => {
+            const timeline = selected.timeline;
+            const points = timeline?.points || [];
+            const active = frameIndex !== null ? points[frameIndex] : undefined;
+            return (
+              <Card>
+                <CardHead
+                  title="Frame-level anomaly timeline"
+                  right={timeline ? (
+                    timeline.segments.length > 0
+                      ? <Pill variant={timeline.segments.some((s) => s.status === "DEEPFAKE") ? "fake" : "rev"}>{timeline.segments.length} suspicious segment{timeline.segments.length === 1 ? "" : "s"}</Pill>
+                      : <Pill variant="auth">No suspicious segments</Pill>
+                  ) : null}
+                />
+                {timeline ? (
+                  <div style={{ padding: "1rem", display: "flex", flexDirection: "column", gap: 12 }}>
+                    <div style={{ height: 180 }}>
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart
+                          data={points.map((p) => ({ ...p, score: typeof p.score === "number" ? Math.round(p.score * 1000) / 10 : null }))}
+                          onClick={(state) => {
+                            if (state?.activeTooltipIndex !== undefined && state.activeTooltipIndex !== null) handleJumpTo(Number(state.activeTooltipIndex));
+                          }}
+                          style={{ cursor: "pointer" }}
+                        >
+                          <CartesianGrid vertical={false} stroke="var(--color-border-tertiary)" />
+                          <XAxis dataKey="timestamp" type="number" domain={[0, timeline.duration]} tickFormatter={(t: number) => formatFrameTime(t)} tick={{ fontSize: 10, fill: "var(--color-text-tertiary)" }} axisLine={false} tickLine={false} />
+                          <YAxis domain={[0, 100]} tick={{ fontSize: 10, fill: "var(--color-text-tertiary)" }} axisLine={false} tickLine={false} />
+                          <Tooltip
+                            labelFormatter={(t) => formatFrameTime(Number(t))}
+                            formatter={(value) => [value === null ? "not scored" : `${value}%`, "Manipulation score"]}
+                            contentStyle={{ fontSize: 11, background: "var(--color-background-secondary)", border: "0.5px solid var(--color-border-tertiary)", borderRadius: 6 }}
+                          />
+                          {timeline.segments.map((seg, i) => (
+                            <ReferenceArea key={i} x1={seg.start} x2={seg.end} fill={seg.status === "DEEPFAKE" ? DT_RED : DT_AMBER} fillOpacity={0.12} strokeOpacity={0} />
+                          ))}
+                          <ReferenceLine y={timeline.thresholds.deepfake * 100} stroke={DT_RED} strokeDasharray="4 2" />
+                          <ReferenceLine y={timeline.thresholds.authentic * 100} stroke={DT_GREEN} strokeDasharray="4 2" />
+                          {active && <ReferenceLine x={active.timestamp} stroke={DT_CYAN} />}
+                          <Line dataKey="score" name="Manipulation score" stroke={DT_CYAN} strokeWidth={1.5} dot={{ r: 2.5 }} activeDot={{ r: 5 }} connectNulls isAnimationActive={false} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    {/* Thumbnail strip */}
+                    <div style={{ display: "flex", gap: 4, overflowX: "auto", paddingBottom: 4 }}>
+                      {points.map((p, i) => (
+                        <button
+                          key={p.index}
+                          onClick={() => handleJumpTo(i)}
+                          title={`${formatFrameTime(p.timestamp)}${typeof p.score === "number" ? ` · ${(p.score * 100).toFixed(1)}%` : ` · ${p.frameStatus}`}`}
+                          style={{
+                            flex: "0 0 auto", width: 64, height: 40, padding: 0, cursor: "pointer", overflow: "hidden",
+                            borderRadius: 4, background: "var(--color-background-secondary)",
+                            border: `2px solid ${i === frameIndex ? DT_CYAN : pointColor(p)}`,
+                          }}
+                        >
+                          {p.thumbnailUrl
+                            ? <img src={p.thumbnailUrl} alt={`Frame at ${formatFrameTime(p.timestamp)}`} style={{ width: "100%", height: "100%", objectFit: "cover" }} />
+                            : <span style={{ fontSize: 9, color: "var(--color-text-tertiary)" }}>{formatFrameTime(p.timestamp)}</span>}
+                        </button>
+                      ))}
+                    </div>
+
+                    {active && (
+                      <div style={{ display: "flex", gap: 12, alignItems: "flex-start" }}>
+                        {active.thumbnailUrl && (
+                          <img src={active.thumbnailUrl} alt="Selected frame" style={{ width: 160, borderRadius: "var(--border-radius-md)", border: `2px solid ${pointColor(active)}` }} />
+                        )}
+                        <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+                          <span style={{ fontFamily: "monospace", color: DT_CYAN }}>Frame {active.index} · {formatFrameTime(active.timestamp)}</span>
+                          <span style={{ color: pointColor(active), fontWeight: 500 }}>
+                            {typeof active.score === "number" ? `${(active.score * 100).toFixed(1)}% · ${active.status}` : active.frameStatus === "NO_FACE" ? "No face in frame" : "Not scored"}
+                          </span>
+                          {active.label && <span style={{ color: "var(--color-text-secondary)", fontSize: 11 }}>{active.label}</span>}
+                        </div>
+                      </div>
+                    )}
+
+                    {timeline.segments.length > 0 && (
+                      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+                        <thead>
+                          <tr>
+                            {["Segment", "Frames", "Peak", "Mean", ""].map((h) => (
+                              <th key={h} style={{ textAlign: "left", fontSize: 11, fontWeight: 500, color: "var(--color-text-secondary)", padding: "7px 12px", borderBottom: "0.5px solid var(--color-border-tertiary)" }}>{h}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {timeline.segments.map((seg, i) => (
+                            <tr key={i}>
+                              <td style={{ padding: "8px 12px", fontFamily: "monospace", color: DT_CYAN, fontSize: 11 }}>{formatFrameTime(seg.start)} – {formatFrameTime(seg.end)}</td>
+                              <td style={{ padding: "8px 12px", fontSize: 11 }}>{seg.frameCount}</td>
+                              <td style={{ padding: "8px 12px", fontSize: 11, color: seg.status === "DEEPFAKE" ? DT_RED : DT_AMBER }}>{(seg.peakScore * 100).toFixed(1)}%</td>
+                              <td style={{ padding: "8px 12px", fontSize: 11, color: "var(--color-text-secondary)" }}>{(seg.meanScore * 100).toFixed(1)}%</td>
+                              <td style={{ padding: "8px 12px" }}>
+                                <Btn variant="xs" onClick={() => handleJumpTo(points.findIndex((p) => p.timestamp === seg.peakTimestamp))}>Jump to peak</Btn>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ) : (
+                  <div style={{ padding: "1.5rem", textAlign: "center", color: "var(--color-text-tertiary)", fontSize: 12 }}>
+                    Per-frame scores not available for this scan
+                  </div>
+                )}
+                <div style={{ padding: "10px 12px", borderTop: "0.5px solid var(--color-border-tertiary)", fontSize: 11, color: "var(--color-text-tertiary)" }}>
+                  {selected.frames ? `${selected.frames.toLocaleString()} frames analysed · ` : ""}
+                  {selected.sampling ? `${selected.sampling} sampling · ` : ""}
+                  {timeline ? `thresholds ${Math.round(timeline.thresholds.authentic * 100)}% / ${Math.round(timeline.thresholds.deepfake * 100)}%` : "no timeline"}
+                </div>
+              </Card>
+            );
+          })()}
+
+          {/* Audio segment analysis */}
+          {selected.type === "Audio" && (
             <Card>
-              <CardHead title={selected.type === "Video" ? "Frame-level anomaly detection" : "Audio segment analysis"} />
+              <CardHead title="Audio segment analysis" />
               <div style={{ padding: "0" }}>
                 <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
                   <thead>
                     <tr>
-                      {[selected.type === "Video" ? "Timestamp" : "Segment", "Anomaly score", "Note", ""].map((h) => (
+                      {["Segment", "Anomaly score", "Note"].map((h) => (
                         <th key={h} style={{ textAlign: "left", fontSize: 11, fontWeight: 500, color: "var(--color-text-secondary)", padding: "7px 12px", borderBottom: "0.5px solid var(--color-border-tertiary)" }}>{h}</th>
                       ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {FRAME_ANALYSIS.map((f) => (
-                      <tr key={f.frame}>
+                    {frameRows(selected).map((f, i) => (
+                      <tr key={`${f.frame}-${i}`}>
                         <td style={{ padding: "8px 12px", fontFamily: "monospace", color: DT_CYAN, fontSize: 11 }}>{f.frame}</td>
                         <td style={{ padding: "8px 12px" }}>
                           <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
@@ -299,15 +583,51 @@ export default function ForensicsPage() {
                           </div>
                         </td>
                         <td style={{ padding: "8px 12px", color: "var(--color-text-secondary)", fontSize: 11 }}>{f.note}</td>
-                        <td style={{ padding: "8px 12px" }}><Btn variant="xs" onClick={() => handleJumpTo(f.frame)}>Jump to</Btn></td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
               <div style={{ padding: "10px 12px", borderTop: "0.5px solid var(--color-border-tertiary)", fontSize: 11, color: "var(--color-text-tertiary)" }}>
-                {selected.frames ? `${selected.frames.toLocaleString()} frames analysed · ` : ""}{FRAME_ANALYSIS.length} anomalous segments flagged
+                {frameRows(selected).filter((f) => f.anomaly >= 65).length} anomalous segments flagged
+              </div>
+            </Card>
+          )}
+
+          {/* EXIF / XMP / IPTC forensics (images only) */}
+          {selected.metadata && (
+            <Card>
+              <CardHead
+                title="Metadata forensics"
+                right={selected.metadataFlags && selected.metadataFlags.length > 0
+                  ? <Pill variant={selected.metadataFlags.includes("ai_generator") ? "fake" : "rev"}>{selected.metadataFlags.length} flagged</Pill>
+                  : <Pill variant="auth">No findings</Pill>}
+              />
+              <div style={{ padding: "1rem", display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 12 }}>
+                {[
+                  ["Camera",          selected.metadata.camera || "—"],
+                  ["Software",        selected.metadata.software.join(", ") || "—"],
+                  ["AI generator",    selected.metadata.aiGenerator || "—"],
+                  ["Captured",        selected.metadata.capturedAt || "—"],
+                  ["Modified",        selected.metadata.modifiedAt || "—"],
+                  ["Thumbnail dHash", selected.metadata.thumbnailDistance !== null ? `${selected.metadata.thumbnailDistance} / 64 bits` : "No thumbnail"],
+                ].map(([k, v]) => (
+                  <div key={k} style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+                    <span style={{ fontSize: 10, color: "var(--color-text-tertiary)" }}>{k}</span>
+                    <span style={{ fontSize: 12, fontWeight: 500, color: "var(--color-text-primary)", wordBreak: "break-word" }}>{v}</span>
+                  </div>
+                ))}
               </div>
+              {selected.metadata.findings.length > 0 && (
+                <div style={{ borderTop: "0.5px solid var(--color-border-tertiary)" }}>
+                  {selected.metadata.findings.map((f, i) => (
+                    <div key={`${f.flag}-${i}`} style={{ display: "flex", gap: 10, padding: "7px 12px", fontSize: 11 }}>
+                      <span style={{ width: 170, flexShrink: 0, fontWeight: 500, color: f.flag === "ai_generator" ? DT_RED : DT_AMBER }}>{metadataFlagLabel(f.flag)}</span>
+                      <span style={{ color: "var(--color-text-secondary)" }}>{f.detail}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </Card>
           )}
 
@@ -321,6 +641,7 @@ export default function ForensicsPage() {
                 ...(selected.duration   ? [["Duration",      selected.duration]]               : []),
                 ...(selected.codec      ? [["Codec",         selected.codec]]                  : []),
                 ...(selected.fps        ? [["Frame rate",    `${selected.fps} fps`]]           : []),
+                ...(selected.sampling   ? [["Frame sampling", selected.sampling]]               : []),
                 ...(selected.sampleRate ? [["Sample rate",   `${selected.sampleRate} Hz`]]     : []),
                 ...(selected.resolution ? [["Resolution",    selected.resolution]]              : []),
                 ...(selected.pages      ? [["Pages",         String(selected.pages)]]           : []),
@@ -7,7 +7,14 @@ import {
 } from "../_components/ui";
 
 type QueueTab = "all" | "fp" | "fn";
-type Escalation = "client_dispute" | "auto_escalated" | "internal_flag";
+type Escalation = "customer_reported" | "auto_escalated" | "internal_flag";
+
+interface CustomerReport {
+  label: "FALSE_POSITIVE" | "FALSE_NEGATIVE";
+  comment: string | null;
+  status: "pending" | "confirmed" | "dismissed";
+  reportedAt: string;
+}
 
 interface QueueItem {
   id: string;
@@ -26,6 +33,7 @@ interface QueueItem {
   duration?: string;
   fileSize: string;
   reviewStatus: "pending" | "confirmed" | "dismissed";
+  reports: CustomerReport[];
 }
 
 // ─── Data fetching ───────────────────────────────────────────────────────────
@@ -53,9 +61,15 @@ function useFpQueueData() {
           rdScore: item.confidence as number || 0,
           dtScore: item.confidence as number || 0,
           type: item.type as "fp" | "fn",
-          escalation: "auto_escalated" as const,
+          escalation: item.source === "customer_reported" ? "customer_reported" as const : "auto_escalated" as const,
           age: "Recently",
           reviewStatus: (item.status as string) as "pending" | "confirmed" | "dismissed" || "pending",
+          reports: ((item.reports as Record<string, unknown>[]) || []).map((report) => ({
+            label: report.label as CustomerReport["label"],
+            comment: (report.comment as string) || null,
+            status: report.status as CustomerReport["status"],
+            reportedAt: report.reported_at as string,
+          })),
         }));
         setItems(transformed);
       }
@@ -75,7 +89,7 @@ function useFpQueueData() {
 }
 
 const escalationLabel: Record<Escalation, { label: string; color: string }> = {
-  client_dispute: { label: "Client dispute", color: DT_RED   },
+  customer_reported: { label: "Customer-reported", color: DT_RED },
   auto_escalated: { label: "Auto-escalated", color: DT_AMBER },
   internal_flag:  { label: "Internal flag",  color: DT_CYAN  },
 };
@@ -177,7 +191,7 @@ export default function FpQueuePage() {
       )}
       <PageHeader
         title="FP / FN review queue"
-        sub="Scans flagged for human review — client disputes, auto-escalated, internal flags"
+        sub="Scans flagged for human review — customer reports, auto-escalated, internal flags"
         right={
           checked.size > 0
             ? <>
@@ -266,6 +280,11 @@ export default function FpQueuePage() {
                     <span style={{ color: escalationLabel[item.escalation].color }}>{escalationLabel[item.escalation].label}</span>
                     &nbsp;·&nbsp;{item.age}
                   </div>
+                  {item.reports[0]?.comment && (
+                    <div style={{ fontSize: 11, color: "var(--color-text-secondary)", marginTop: 3, fontStyle: "italic", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                      “{item.reports[0].comment}”
+                    </div>
+                  )}
                 </div>
 
                 {/* Confidence + actions */}
@@ -327,6 +346,24 @@ export default function FpQueuePage() {
                 ))}
               </div>
 
+              {/* Customer reports */}
+              {selected.reports.length > 0 && (
+                <div>
+                  <div style={{ fontSize: 11, fontWeight: 500, color: "var(--color-text-secondary)", marginBottom: 8 }}>Customer reports</div>
+                  {selected.reports.map((report, i) => (
+                    <div key={i} style={{ fontSize: 11, marginBottom: 8, paddingBottom: 6, borderBottom: "0.5px solid var(--color-border-tertiary)" }}>
+                      <div style={{ display: "flex", justifyContent: "space-between" }}>
+                        <span style={{ color: report.label === "FALSE_POSITIVE" ? DT_RED : DT_AMBER, fontWeight: 500 }}>
+                          {report.label === "FALSE_POSITIVE" ? "False positive" : "False negative"}
+                        </span>
+                        <span style={{ color: "var(--color-text-tertiary)" }}>{new Date(report.reportedAt).toLocaleString()} · {report.status}</span>
+                      </div>
+                      <div style={{ color: "var(--color-text-primary)", marginTop: 3 }}>{report.comment || "No comment"}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Model scores */}
               <div>
                 <div style={{ fontSize: 11, fontWeight: 500, color: "var(--color-text-secondary)", marginBottom: 8 }}>Model scores</div>
@@ -341,7 +378,7 @@ export default function FpQueuePage() {
               {/* Actions */}
               <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
                 <Btn variant="green"   style={{ width: "100%", textAlign: "center" }} onClick={() => handleItemAction(selected.id, selected.type === "fp" ? "confirm_fp" : "confirm_fn")}>✓ Confirm {selected.type.toUpperCase()} — model wrong</Btn>
-                <Btn variant="default" style={{ width: "100%", textAlign: "center" }}>Keep verdict — model correct</Btn>
+                <Btn variant="default" style={{ width: "100%", textAlign: "center" }} onClick={() => handleItemAction(selected.id, "dismiss")}>Keep verdict — model correct</Btn>
                 <Btn variant="amber"   style={{ width: "100%", textAlign: "center", fontSize: 11, padding: "3px 9px" }}>Escalate to Tauil</Btn>
                 <Btn variant="primary" style={{ width: "100%", textAlign: "center" }} onClick={() => window.open(`/backoffice/forensics?scanId=${selected.scanId}`, '_blank')}>Open full forensics</Btn>
               </div>
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card, CardHead, Btn, TblHead, Tbl, Td, PageHeader,
+  Input, Select, EmptyRow, DT_AMBER, DT_RED,
+} from "../_components/ui";
+
+type Periods = { mediaDays: number | null; derivedDays: number | null; metadataDays: number | null };
+type PlanPolicy = Periods & { plan: string };
+
+interface ClientRow {
+  id: string;
+  name: string;
+  plan: string;
+  retention: Partial<Periods> | null;
+}
+
+interface Hold {
+  id: string;
+  reference: string;
+  reason: string | null;
+  scan_ids: string[];
+  placed_by: string;
+  placed_at: string;
+}
+
+const PERIODS: Array<{ key: keyof Periods; label: string }> = [
+  { key: "mediaDays", label: "Original media" },
+  { key: "derivedDays", label: "Previews & maps" },
+  { key: "metadataDays", label: "Verdicts & logs" },
+];
+
+// Form values are strings: a number of days, "0" for indefinitely, or blank (clients only) to follow the plan.
+type PeriodForm = Record<keyof Periods, string>;
+
+const toForm = (p: Partial<Periods> | null | undefined): PeriodForm => ({
+  mediaDays: p?.mediaDays === undefined ? "" : String(p.mediaDays ?? 0),
+  derivedDays: p?.derivedDays === undefined ? "" : String(p.derivedDays ?? 0),
+  metadataDays: p?.metadataDays === undefined ? "" : String(p.metadataDays ?? 0),
+});
+
+function fromForm(form: PeriodForm) {
+  const periods: Partial<Periods> = {};
+  for (const { key } of PERIODS) {
+    if (form[key].trim() === "") continue;
+    const days = parseInt(form[key], 10);
+    periods[key] = days > 0 ? days : null;
+  }
+  return periods;
+}
+
+const formatDays = (days: number | null | undefined) =>
+  days === undefined ? "plan" : days === null ? "indefinitely" : `${days} d`;
+
+function PeriodInputs({ form, onChange, placeholder }: { form: PeriodForm; onChange: (f: PeriodForm) => void; placeholder: string }) {
+  return (
+    <>
+      {PERIODS.map(({ key }) => (
+        <Td key={key}>
+          <Input
+            value={form[key]}
+            placeholder={placeholder}
+            onChange={(v) => onChange({ ...form, [key]: v.replace(/[^0-9]/g, "") })}
+            style={{ width: 80 }}
+          />
+        </Td>
+      ))}
+    </>
+  );
+}
+
+export default function RetentionPage() {
+  const [plans, setPlans] = useState<PlanPolicy[]>([]);
+  const [planForms, setPlanForms] = useState<Record<string, PeriodForm>>({});
+  const [clients, setClients] = useState<ClientRow[]>([]);
+  const [clientId, setClientId] = useState("");
+  const [clientForm, setClientForm] = useState<PeriodForm>(toForm({}));
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [holdReference, setHoldReference] = useState("");
+  const [holdReason, setHoldReason] = useState("");
+  const [holdScans, setHoldScans] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const [policyRes, clientRes, holdRes] = await Promise.all([
+        fetch("/api/admin/retention", { credentials: "include" }),
+        fetch("/api/admin/clients?limit=200", { credentials: "include" }),
+        fetch("/api/admin/legal-holds", { credentials: "include" }),
+      ]);
+      if (policyRes.ok) {
+        const data = await policyRes.json();
+        setPlans(data.plans || []);
+        setPlanForms(Object.fromEntries((data.plans || []).map((p: PlanPolicy) => [p.plan, toForm(p)])));
+      }
+      if (clientRes.ok) setClients((await clientRes.json()).clients || []);
+      if (holdRes.ok) setHolds((await holdRes.json()).holds || []);
+    } catch (err) {
+      console.error("Error loading retention settings:", err);
+      setError("Failed to load retention settings");
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function send(url: string, method: string, body?: unknown) {
+    setError(null);
+    const res = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || `Request failed (${res.status})`);
+      return false;
+    }
+    await load();
+    return true;
+  }
+
+  async function savePlan(plan: string) {
+    const periods = fromForm(planForms[plan]);
+    await send("/api/admin/retention", "PUT", {
+      plan,
+      mediaDays: periods.mediaDays ?? null,
+      derivedDays: periods.derivedDays ?? null,
+      metadataDays: periods.metadataDays ?? null,
+    });
+  }
+
+  async function saveClient(clear: boolean) {
+    if (!clientId) return;
+    await send(`/api/admin/clients?id=${clientId}`, "PATCH", { retention: clear ? null : fromForm(clientForm) });
+  }
+
+  async function placeHold() {
+    const scanIds = holdScans.split(/[\s,]+/).filter(Boolean);
+    if (await send("/api/admin/legal-holds", "POST", { reference: holdReference, reason: holdReason, scanIds })) {
+      setHoldScans("");
+      setHoldReason("");
+    }
+  }
+
+  const overridden = clients.filter((c) => c.retention && Object.keys(c.retention).length > 0);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", background: "var(--color-background-tertiary)", overflow: "auto" }}>
+      <PageHeader
+        title="Data retention"
+        sub="How long media, derived assets and verdicts are kept before the purge job destroys them"
+      />
+
+      <div style={{ padding: "1rem 1.5rem 1.5rem", display: "flex", flexDirection: "column", gap: 14 }}>
+        {error && <div style={{ fontSize: 12, color: DT_RED }}>{error}</div>}
+
+        <Card>
+          <CardHead title="Plan policies" right={<span style={{ fontSize: 11, color: "var(--color-text-tertiary)" }}>Days after the scan · 0 keeps indefinitely, as do plans never saved</span>} />
+          <Tbl>
+            <TblHead cols={["Plan", ...PERIODS.map((p) => p.label), ""]} />
+            <tbody>
+              {plans.length === 0 ? <EmptyRow cols={5} message="No policies loaded" /> : plans.map((p) => (
+                <tr key={p.plan}>
+                  <Td style={{ fontWeight: 500, textTransform: "capitalize" }}>{p.plan}</Td>
+                  <PeriodInputs
+                    form={planForms[p.plan] || toForm(p)}
+                    placeholder="0"
+                    onChange={(f) => setPlanForms((prev) => ({ ...prev, [p.plan]: f }))}
+                  />
+                  <Td><Btn variant="xs" onClick={() => savePlan(p.plan)}>Save</Btn></Td>
+                </tr>
+              ))}
+            </tbody>
+          </Tbl>
+        </Card>
+
+        <Card>
+          <CardHead title="Client overrides" right={<span style={{ fontSize: 11, color: "var(--color-text-tertiary)" }}>Blank follows the plan</span>} />
+          <div style={{ padding: ".75rem 1rem", display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <Select
+              value={clientId}
+              onChange={(id) => {
+                setClientId(id);
+                setClientForm(toForm(clients.find((c) => c.id === id)?.retention || {}));
+              }}
+            >
+              <option value="">Select client…</option>
+              {clients.map((c) => <option key={c.id} value={c.id}>{c.name} ({c.plan})</option>)}
+            </Select>
+            {PERIODS.map(({ key, label }) => (
+              <Input
+                key={key}
+                value={clientForm[key]}
+                placeholder={label}
+                onChange={(v) => setClientForm({ ...clientForm, [key]: v.replace(/[^0-9]/g, "") })}
+                style={{ width: 120 }}
+              />
+            ))}
+            <Btn variant="primary" disabled={!clientId} onClick={() => saveClient(false)}>Save override</Btn>
+            <Btn variant="default" disabled={!clientId} onClick={() => saveClient(true)}>Use plan</Btn>
+          </div>
+          <Tbl>
+            <TblHead cols={["Client", "Plan", ...PERIODS.map((p) => p.label)]} />
+            <tbody>
+              {overridden.length === 0 ? <EmptyRow cols={5} message="Every client follows its plan" /> : overridden.map((c) => (
+                <tr key={c.id}>
+                  <Td style={{ fontWeight: 500 }}>{c.name}</Td>
+                  <Td style={{ textTransform: "capitalize" }}>{c.plan}</Td>
+                  {PERIODS.map(({ key }) => <Td key={key}>{formatDays(c.retention?.[key])}</Td>)}
+                </tr>
+              ))}
+            </tbody>
+          </Tbl>
+        </Card>
+
+        <Card>
+          <CardHead title="Legal holds" right={<span style={{ fontSize: 11, color: DT_AMBER }}>{holds.length} active</span>} />
+          <div style={{ padding: ".75rem 1rem", display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <Input placeholder="Case reference" value={holdReference} onChange={setHoldReference} style={{ width: 160 }} />
+            <Input placeholder="Scan IDs, comma separated" value={holdScans} onChange={setHoldScans} style={{ flex: 1, minWidth: 240 }} />
+            <Input placeholder="Reason" value={holdReason} onChange={setHoldReason} style={{ width: 200 }} />
+            <Btn variant="amber" disabled={!holdReference || !holdScans.trim()} onClick={placeHold}>Place hold</Btn>
+          </div>
+          <Tbl>
+            <TblHead cols={["Case", "Scans", "Reason", "Placed", ""]} />
+            <tbody>
+              {holds.length === 0 ? <EmptyRow cols={5} message="No active legal holds" /> : holds.map((h) => (
+                <tr key={h.id}>
+                  <Td style={{ fontWeight: 500 }}>{h.reference}</Td>
+                  <Td style={{ fontFamily: "monospace", fontSize: 11 }}>{h.scan_ids.join(", ")}</Td>
+                  <Td style={{ color: "var(--color-text-secondary)" }}>{h.reason || "—"}</Td>
+                  <Td style={{ color: "var(--color-text-tertiary)", whiteSpace: "nowrap" }}>{new Date(h.placed_at).toLocaleDateString()}</Td>
+                  <Td><Btn variant="red" onClick={() => send(`/api/admin/legal-holds?id=${h.id}`, "DELETE")}>Release</Btn></Td>
+                </tr>
+              ))}
+            </tbody>
+          </Tbl>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -167,7 +167,14 @@ export default function ScanLogPage() {
                     style={{ cursor: "pointer", background: selected?.id === s.id ? "rgba(0,168,204,.05)" : "transparent" }}
                     onClick={() => setSelected(selected?.id === s.id ? null : s)}
                   >
-                    <Td style={{ fontFamily: "monospace", fontSize: 11, color: DT_CYAN }}>{s.id}</Td>
+                    <Td style={{ fontFamily: "monospace", fontSize: 11, color: DT_CYAN }}>
+                      <span style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                        {s.previewUrl && (
+                          <img src={s.previewUrl} alt="" style={{ width: 40, height: 24, flexShrink: 0, borderRadius: 3, objectFit: "cover", background: "var(--color-background-secondary)" }} />
+                        )}
+                        {s.id}
+                      </span>
+                    </Td>
                     <Td style={{ fontWeight: 500 }}>{s.client}</Td>
                     {/* <Td style={{ color: "var(--color-text-secondary)", maxWidth: 180, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{s.file}</Td> */}
                     <Td style={{ color: "var(--color-text-secondary)" }}>{s.type}</Td>
@@ -238,6 +245,18 @@ export default function ScanLogPage() {
                 <div style={{ fontSize: 11, color: "var(--color-text-secondary)", marginTop: 3 }}>{selected.client} · {selected.date} {selected.time}</div>
               </div>
 
+              {/* Preview */}
+              {(selected.animatedPreviewUrl || selected.previewUrl) && (
+                <img
+                  src={selected.animatedPreviewUrl || selected.previewUrl}
+                  alt=""
+                  style={{
+                    width: "100%", maxHeight: 180, objectFit: "contain", display: "block",
+                    borderRadius: "var(--border-radius-md)", background: "var(--color-background-secondary)",
+                  }}
+                />
+              )}
+
               {/* Verdict */}
               <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
                 <Pill variant={verdictToVariant(selected.verdict) as any}>{selected.verdict}</Pill>
@@ -17,6 +17,8 @@ export interface Scan {
   fileSize: string;
   duration?: string;
   codec?: string;
+  previewUrl?: string;
+  animatedPreviewUrl?: string;
 }
 
 export type Verdict = "authentic" | "deepfake" | "review" | "processing";
@@ -1,6 +1,11 @@
 import { Scan } from "@/app/backoffice/scan-log/scan";
 import { useEffect, useState } from "react";
 
+function formatDuration(seconds: number) {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
 export function useScanData() {
   const [scans, setScans] = useState<Scan[]>([]);
   const [loading, setLoading] = useState(true);
@@ -20,7 +25,22 @@ export function useScanData() {
       const res = await fetch("/api/admin/scans?limit=100", { credentials: "include" });
       if (res.ok) {
         const data = await res.json();
-        setScans(data.scans);
+        // Duration arrives in seconds from the probe; the log shows it as m:ss.
+        setScans((data.scans || []).map((s: Scan & {
+          duration?: number | string;
+          resolution?: string | null;
+          preview_url?: string | null;
+          animated_preview_url?: string | null;
+          api_key?: string | null;
+        }) => ({
+          ...s,
+          previewUrl: s.preview_url || undefined,
+          animatedPreviewUrl: s.animated_preview_url || undefined,
+          // Scans from the app rather than the public API carry no key.
+          apiKey: s.api_key || "—",
+          duration: typeof s.duration === "number" ? formatDuration(s.duration) : s.duration || undefined,
+          codec: [s.codec, s.resolution].filter(Boolean).join(" · ") || undefined,
+        })));
         setTotal(data.pagination?.total || 0);
         setSummary(data.summary || {
           total_deepfakes: 0,
@@ -6,7 +6,7 @@ import { useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
-const endpoint = process.env.NEXT_PUBLIC_GOTHAM_ENDPOINT || "https://gotham.deeptrack.io/scan";
+const endpoint = process.env.NEXT_PUBLIC_GOTHAM_ENDPOINT || "https://gotham.deeptrack.io/api/v1/scans";
 
 const tabLabels = ["curl", "python", "javascript"] as const;
 
@@ -30,6 +30,8 @@ type RecentScan = {
   color: string;
   confidence: string;
   time: string;
+  fileType?: string;
+  previewUrl?: string;
 };
 
 type ApiScan = {
@@ -174,6 +176,8 @@ export default function Dashboard() {
                 : "bg-red-600/70 dark:bg-red-500/70",
             confidence: `${confidence}%`,
             time: new Date(scan.createdAt).toLocaleDateString(),
+            fileType: typeof scan.fileType === "string" ? scan.fileType : undefined,
+            previewUrl: typeof scan.imageUrl === "string" && scan.imageUrl ? scan.imageUrl : undefined,
           };
         });
 
@@ -261,6 +265,15 @@ export default function Dashboard() {
             key={idx}
             className="flex items-center justify-between rounded-md bg-gray-50 dark:bg-gray-900 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition"
           >
+            <div className="w-12 h-8 mr-3 flex-shrink-0 rounded bg-gray-200 dark:bg-gray-800 overflow-hidden">
+              {scan.previewUrl && (
+                <img
+                  src={scan.previewUrl}
+                  alt=""
+                  className={`w-full h-full ${scan.fileType === "audio" ? "object-contain" : "object-cover"}`}
+                />
+              )}
+            </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium truncate text-black dark:text-white">{scan.name}</p>
               <p className="text-xs text-gray-600 dark:text-gray-400">{scan.time}</p>
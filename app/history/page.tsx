@@ -17,6 +17,9 @@ type ScanRecord = {
   date: string;
   status: "Authentic" | "Suspicious" | "Deepfake";
   createdAt: string;
+  fileType?: string;
+  previewUrl?: string;
+  animatedPreviewUrl?: string;
 };
 
 const statusColors: Record<ScanRecord["status"], string> = {
@@ -45,7 +48,16 @@ export default function HistoryPage() {
       try {
         setLoading(true);
         const data = await fetchScans();
-        type ApiScan = { _id: string; scanId: string; fileName: string; createdAt: string; status: string };
+        type ApiScan = {
+          _id: string;
+          scanId: string;
+          fileName: string;
+          createdAt: string;
+          status: string;
+          fileType?: string;
+          imageUrl?: string;
+          animatedPreviewUrl?: string;
+        };
         const scansArray = Array.isArray(data) ? data : data.scans || [];
         const formattedScans: ScanRecord[] = scansArray.map((scan: ApiScan) => ({
           _id: scan._id,
@@ -59,6 +71,9 @@ export default function HistoryPage() {
               ? "Suspicious"
               : "Deepfake",
           createdAt: scan.createdAt,
+          fileType: scan.fileType,
+          previewUrl: scan.imageUrl || undefined,
+          animatedPreviewUrl: scan.animatedPreviewUrl || undefined,
         }));
         setScans(formattedScans);
       } catch (error) {
@@ -144,7 +159,28 @@ export default function HistoryPage() {
                       key={scan._id}
                       className="bg-white dark:bg-black shadow-sm rounded-md overflow-hidden border border-gray-200 dark:border-transparent"
                     >
-                      <td className="px-4 py-3 font-medium">{scan.fileName}</td>
+                      <td className="px-4 py-3 font-medium">
+                        <div className="flex items-center gap-3">
+                          <div className="w-16 h-10 flex-shrink-0 rounded bg-gray-100 dark:bg-gray-900 overflow-hidden flex items-center justify-center">
+                            {scan.previewUrl ? (
+                              <img
+                                src={scan.previewUrl}
+                                alt=""
+                                className={`w-full h-full ${scan.fileType === "audio" ? "object-contain" : "object-cover"}`}
+                                onMouseEnter={(e) => {
+                                  if (scan.animatedPreviewUrl) e.currentTarget.src = scan.animatedPreviewUrl;
+                                }}
+                                onMouseLeave={(e) => {
+                                  if (scan.animatedPreviewUrl) e.currentTarget.src = scan.previewUrl || "";
+                                }}
+                              />
+                            ) : (
+                              <span className="text-[10px] text-gray-400 uppercase">{scan.fileType || ""}</span>
+                            )}
+                          </div>
+                          <span>{scan.fileName}</span>
+                        </div>
+                      </td>
                       <td className="px-4 py-3 text-gray-600 dark:text-gray-400">{scan.date}</td>
                       <td className={`px-4 py-3 font-semibold ${statusColors[scan.status]}`}>
                         {scan.status}
@@ -6,11 +6,14 @@ import { useUser } from "@clerk/nextjs";
 import { UploadCloud, Image as ImageIcon, Video, AudioWaveform, Shield, Globe, UsersRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { createScan } from "@/lib/api";
+import { createBatchScan, createScan, uploadResumable } from "@/lib/api";
 import { CheckCircle, XCircle, Clock } from "lucide-react";
 import * as Sentry from "@sentry/nextjs";
 
 
+// Larger videos use the resumable upload API instead of one multipart request.
+const DIRECT_UPLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
 type UploadProgress = {
   fileName: string;
   status: "uploading" | "done" | "error";
@@ -59,6 +62,25 @@ const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     );
   };
 
+  // Several files go up as one batch; the bulk results page follows its progress.
+  if (files.length > 1) {
+    try {
+      Array.from(files).forEach(f => updateProgress(f.name, 20, "uploading"));
+      const batch = await createBatchScan({ files: Array.from(files) });
+      Array.from(files).forEach(f => updateProgress(f.name, 100, "done"));
+      router.push(`/results/bulk?batch=${batch.batchId}`);
+    } catch (err: unknown) {
+      console.error("Batch upload error:", err);
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : String(err);
+      Array.from(files).forEach(f => updateProgress(f.name, 0, "error", message));
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+    return;
+  }
+
   type ScanCreateResponse = { scanId: string; status?: string; [key: string]: unknown };
   const results: ScanCreateResponse[] = [];
 
@@ -68,6 +90,17 @@ const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     try {
       updateProgress(file.name, 20, "uploading");
 
+      // Videos over the direct-upload limit go up in resumable chunks and are scanned from the server copy.
+      if (file.type.startsWith("video/") && file.size > DIRECT_UPLOAD_MAX_BYTES) {
+        const uploadId = await uploadResumable(file, {
+          onProgress: (fraction) => updateProgress(file.name, 20 + Math.round(fraction * 60), "uploading"),
+        });
+        const result = await createScan({ fileName: file.name, fileType: "video", uploadId, mode: "async" });
+        results.push(result);
+        updateProgress(file.name, 100, "done");
+        continue;
+      }
+
       // Call API
       const result = await createScan({
         fileName: file.name,
@@ -281,7 +314,7 @@ const getFileTypeFromUrl = (url: string) => {
     </p>
 
     <p className="text-xs text-slate-500 dark:text-slate-200 text-center">
-      Max file size: 50MB (video). Accepted formats: JPG, JPEG, PNG, GIF, WEBP, BMP, MP3, WAV, OGG, M4A, AAC, FLAC, MP4, MOV, AVI, MKV
+      Videos over 50MB upload in resumable chunks (up to 2GB). Accepted formats: JPG, JPEG, PNG, GIF, WEBP, BMP, MP3, WAV, OGG, M4A, AAC, FLAC, MP4, MOV, AVI, MKV
     </p>
   </CardContent>
 </Card>
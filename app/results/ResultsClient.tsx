@@ -17,6 +17,8 @@ interface ScanResult {
   createdAt: string;
   fileType: string;
   imageUrl?: string;
+  /** Looping preview of a video, played while the tile is hovered. */
+  animatedPreviewUrl?: string;
   description?: string;
   modelsUsed?: string[];
   features?: string[];
@@ -140,7 +142,13 @@ export default function ResultsClient() {
                       <img
                         src={result.imageUrl}
                         alt={result.fileName}
-                        className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+                        className={`w-full h-full ${result.fileType === "audio" ? "object-contain p-4" : "object-cover hover:scale-105"} transition-transform duration-300`}
+                        onMouseEnter={(e) => {
+                          if (result.animatedPreviewUrl) e.currentTarget.src = result.animatedPreviewUrl;
+                        }}
+                        onMouseLeave={(e) => {
+                          if (result.animatedPreviewUrl) e.currentTarget.src = result.imageUrl || "";
+                        }}
                         onError={(e) => {
                           const target = e.target as HTMLImageElement;
                           target.src = "https://via.placeholder.com/300x200?text=Image";
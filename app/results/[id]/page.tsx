@@ -1,11 +1,12 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import Image from "next/image";
 import { useParams } from "next/navigation";
 import { fetchResult, submitResultFeedback } from "@/lib/api";
 import { useUser } from "@clerk/nextjs";
 import { FileDown } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine } from "recharts";
 import { mapToPdfDto, handleDownloadPDF } from "@/components/pdfUtils";
 import * as Sentry from "@sentry/nextjs";
 
@@ -23,6 +24,7 @@ type ResultData = {
   confidenceScore: number;
   createdAt: string;
   imageUrl: string;
+  downloadUrl?: string;
   description?: string;
   modelsUsed: string[];
   fakecatcherSummary?: {
@@ -30,6 +32,12 @@ type ResultData = {
     fake_prob?: number;
     label?: string;
   } | null;
+  videoSummary?: VideoSummary | null;
+  faceSummary?: FaceSummary | null;
+  provenance?: Provenance | null;
+  forensicMaps?: ForensicMap[];
+  timeline?: AnomalyTimeline | null;
+  verdictExplanation?: string[];
   feedbackSummary?: {
     falsePositive: number;
     falseNegative: number;
@@ -37,10 +45,105 @@ type ResultData = {
   };
   userFeedback?: {
     label: "FALSE_POSITIVE" | "FALSE_NEGATIVE";
+    comment?: string;
+    reviewStatus: "pending" | "confirmed" | "dismissed";
+    reviewedAt?: string;
     createdAt: string;
   } | null;
+  failureReason?: string | null;
+  queue?: {
+    state: string;
+    attemptsMade: number;
+    maxAttempts: number;
+    failedReason?: string;
+  } | null;
+};
+
+type VideoSummary = {
+  detector?: string;
+  strategy?: string;
+  strategyValue?: number;
+  duration?: number;
+  frameCount?: number;
+  failedFrames?: number;
+  faceDetector?: string;
+  framesWithFaces?: number;
+  score?: number;
+  maxScore?: number;
+  frames?: {
+    index: number;
+    timestamp: number;
+    status: string;
+    label?: string;
+    score?: number;
+    faces?: unknown[];
+  }[];
+};
+
+type FaceSummary = {
+  detector?: string;
+  count?: number;
+  score?: number;
+};
+
+type Provenance = {
+  state: "absent" | "valid" | "untrusted" | "invalid";
+  claimGenerator?: string;
+  signer?: { commonName?: string; organization?: string; issuer?: string };
+  signatureAlgorithm?: string;
+  actions?: { action: string; softwareAgent?: string; digitalSourceType?: string }[];
+  checks?: { code: string; passed: boolean; explanation?: string }[];
+};
+
+type ForensicMap = {
+  index?: number;
+  timestamp?: number;
+  baseUrl: string;
+  ela: { url: string; mean: number; hotspotRatio: number };
+  noise: { url: string; inconsistency: number };
 };
 
+type AnomalyTimeline = {
+  duration: number;
+  thresholds: { deepfake: number; authentic: number };
+  points: {
+    index: number;
+    timestamp: number;
+    frameStatus: string;
+    score?: number;
+    status?: "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE";
+    label?: string;
+    thumbnailUrl?: string;
+  }[];
+  segments: {
+    start: number;
+    end: number;
+    frameCount: number;
+    peakScore: number;
+    peakTimestamp: number;
+    meanScore: number;
+    status: "SUSPICIOUS" | "DEEPFAKE";
+  }[];
+};
+
+const overlayModes = [
+  { value: "ela", label: "Error level (ELA)" },
+  { value: "noise", label: "Noise residual" },
+  { value: "off", label: "Off" },
+] as const;
+
+const provenanceStates: Record<Provenance["state"], { label: string; className: string }> = {
+  valid: { label: "Verified", className: "text-green-600 dark:text-green-400" },
+  untrusted: { label: "Signer not trusted", className: "text-amber-600 dark:text-amber-400" },
+  invalid: { label: "Failed validation", className: "text-red-500" },
+  absent: { label: "None found", className: "text-gray-500 dark:text-gray-400" },
+};
+
+function formatTimestamp(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+}
+
 const modelMap: Record<string, { label: string; description: string }> = {
   "rd-img-ensemble": { label: "Facial Analysis", description: "Combines fakeness scores from all facial-recognition models." },
   "rd-oak-img": { label: "Faceswaps", description: "Detects face-manipulated images created through faceswap." },
@@ -58,6 +161,11 @@ export default function ResultsPage() {
   const [error, setError] = useState<string | null>(null);
   const [feedbackLoading, setFeedbackLoading] = useState<"FALSE_POSITIVE" | "FALSE_NEGATIVE" | null>(null);
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
+  const [feedbackComment, setFeedbackComment] = useState("");
+  const [overlay, setOverlay] = useState<(typeof overlayModes)[number]["value"]>("ela");
+  const [mapIndex, setMapIndex] = useState(0);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
 
 type ParsedDescription = {
   rd?: {
@@ -76,13 +184,14 @@ type ParsedDescription = {
       score?: number;
       error?: string;
     };
+    video?: VideoSummary | null;
+    faces?: FaceSummary | null;
+    provenance?: Provenance | null;
     fusion?: {
       score?: number;
       status?: string;
-      weights?: {
-        fakecatcher?: number;
-        realityDefender?: number;
-      };
+      weights?: Record<string, number>;
+      explanation?: string[];
     };
   };
 };
@@ -90,6 +199,9 @@ type ParsedDescription = {
 useEffect(() => {
   if (!isSignedIn || !id) return;
 
+  let cancelled = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
   const load = async () => {
     try {
     const scanId = Array.isArray(id) ? id[0] : id;
@@ -116,12 +228,26 @@ useEffect(() => {
         confidenceScore: data.confidenceScore,
         createdAt: data.createdAt,
         imageUrl: data.imageUrl || "",
+        downloadUrl: data.downloadUrl,
         description: data.description,
         modelsUsed: data.modelsUsed || [],
         fakecatcherSummary: parsed.rd?.fakecatcher || null,
+        videoSummary: parsed.rd?.video || null,
+        faceSummary: parsed.rd?.faces || null,
+        provenance: parsed.rd?.provenance || null,
+        forensicMaps: data.forensicMaps || [],
+        timeline: data.timeline || null,
+        verdictExplanation: parsed.rd?.fusion?.explanation || [],
         feedbackSummary: data.feedbackSummary,
         userFeedback: data.userFeedback,
+        failureReason: data.failureReason,
+        queue: data.queue,
       });
+
+      // Queued scans are finished by the worker; keep polling until the verdict lands.
+      if (data.status === "PROCESSING" && !cancelled) {
+        pollTimer = setTimeout(load, 5000);
+      }
     } catch (err) {
       setError("Failed to load result");
       Sentry.captureException(err);
@@ -131,6 +257,11 @@ useEffect(() => {
   };
 
   load();
+
+  return () => {
+    cancelled = true;
+    if (pollTimer) clearTimeout(pollTimer);
+  };
 }, [isSignedIn, id]);
 
   const handleFeedbackClick = async (label: "FALSE_POSITIVE" | "FALSE_NEGATIVE") => {
@@ -140,7 +271,7 @@ useEffect(() => {
     setFeedbackMessage(null);
 
     try {
-      const response = await submitResultFeedback(resultData.scanId, label);
+      const response = await submitResultFeedback(resultData.scanId, label, feedbackComment.trim() || undefined);
 
       setResultData((prev) =>
         prev
@@ -152,7 +283,8 @@ useEffect(() => {
           : prev
       );
 
-      setFeedbackMessage("Feedback saved. Thank you.");
+      setFeedbackComment("");
+      setFeedbackMessage("Thanks — a reviewer will look at this result and we'll notify you of the outcome.");
     } catch (err) {
       setFeedbackMessage(err instanceof Error ? err.message : "Failed to submit feedback");
     } finally {
@@ -160,6 +292,17 @@ useEffect(() => {
     }
   };
 
+  // Jumping to a timeline point seeks the player when the video itself is available.
+  const jumpToFrame = (pointIndex: number) => {
+    const point = resultData?.timeline?.points[pointIndex];
+    if (!point) return;
+    setFrameIndex(pointIndex);
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.currentTime = point.timestamp;
+    }
+  };
+
   if (loading)
     return <div className="h-screen flex items-center justify-center">Loading…</div>;
 
@@ -207,6 +350,7 @@ useEffect(() => {
               resultData.fileType === "video" ? (
                 <div className="rounded-xl overflow-hidden shadow-md border border-gray-200 dark:border-neutral-800">
                   <video
+                    ref={videoRef}
                     controls
                     className="w-full h-[260px] object-cover"
                     src={resultData.imageUrl}
@@ -235,6 +379,14 @@ useEffect(() => {
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-3 text-center">
               Uploaded: {resultData.fileName}
             </p>
+            {resultData.downloadUrl && (
+              <a
+                href={resultData.downloadUrl}
+                className="block text-xs text-sky-600 dark:text-sky-400 hover:underline mt-1 text-center"
+              >
+                Download original
+              </a>
+            )}
           </div>
 
           {/* Metadata */}
@@ -247,26 +399,288 @@ useEffect(() => {
               <p><span className="font-semibold">Uploaded:</span> {new Date(resultData.createdAt).toLocaleString()}</p>
               <p><span className="font-semibold">Models Used:</span> {resultData.modelsUsed.length}</p>
               <p><span className="font-semibold">File Type:</span> {resultData.fileType}</p>
+              {resultData.queue && (
+                <p><span className="font-semibold">Queue:</span> {resultData.queue.state} (attempt {resultData.queue.attemptsMade}/{resultData.queue.maxAttempts})</p>
+              )}
+              {resultData.faceSummary && (
+                <p><span className="font-semibold">Faces:</span> {resultData.faceSummary.count ?? 0}</p>
+              )}
+              {resultData.videoSummary?.faceDetector && (
+                <p><span className="font-semibold">Frames with faces:</span> {resultData.videoSummary.framesWithFaces ?? 0}/{resultData.videoSummary.frameCount}</p>
+              )}
+              {(resultData.status === "NO_FACE" || resultData.faceSummary?.count === 0) && (
+                <p className="col-span-2 text-amber-600 dark:text-amber-400">
+                  No face was detected{resultData.status === "NO_FACE" ? ", so the face-swap model could not produce a verdict." : "; the verdict relies on whole-image models only."}
+                </p>
+              )}
+              {resultData.failureReason && (
+                <p className="col-span-2 text-red-500"><span className="font-semibold">Failure:</span> {resultData.failureReason}</p>
+              )}
             </div>
           </div>
         </div>
 
         <div className="mt-6 bg-white dark:bg-neutral-900 rounded-2xl shadow-xl p-6 border border-gray-200 dark:border-neutral-800">
           <h3 className="text-lg font-semibold mb-3">DeepTrack result</h3>
-          <div className="rounded-lg border border-gray-200 dark:border-neutral-700 p-3 text-sm">
-            <p className="font-semibold mb-1">FakeCatcher</p>
-            <p>Label: {resultData.fakecatcherSummary?.label || "N/A"}</p>
-            <p>Fake probability: {typeof resultData.fakecatcherSummary?.fake_prob === "number" ? `${(resultData.fakecatcherSummary.fake_prob * 100).toFixed(1)}%` : "N/A"}</p>
-            <p>Confidence: {typeof resultData.fakecatcherSummary?.confidence === "number" ? `${resultData.fakecatcherSummary.confidence.toFixed(1)}%` : "N/A"}</p>
+          <div className={`grid gap-3 ${resultData.provenance ? "md:grid-cols-2" : ""}`}>
+            <div className="rounded-lg border border-gray-200 dark:border-neutral-700 p-3 text-sm">
+              <p className="font-semibold mb-1">FakeCatcher</p>
+              <p>Label: {resultData.fakecatcherSummary?.label || "N/A"}</p>
+              <p>Fake probability: {typeof resultData.fakecatcherSummary?.fake_prob === "number" ? `${(resultData.fakecatcherSummary.fake_prob * 100).toFixed(1)}%` : "N/A"}</p>
+              <p>Confidence: {typeof resultData.fakecatcherSummary?.confidence === "number" ? `${resultData.fakecatcherSummary.confidence.toFixed(1)}%` : "N/A"}</p>
+            </div>
+            {resultData.provenance && (
+              <div className="rounded-lg border border-gray-200 dark:border-neutral-700 p-3 text-sm">
+                <p className="font-semibold mb-1">Content Credentials (C2PA)</p>
+                <p>
+                  Provenance:{" "}
+                  <span className={`font-semibold ${provenanceStates[resultData.provenance.state]?.className || ""}`}>
+                    {provenanceStates[resultData.provenance.state]?.label || resultData.provenance.state}
+                  </span>
+                </p>
+                {resultData.provenance.signer && (
+                  <p>
+                    Signed by: {[resultData.provenance.signer.commonName, resultData.provenance.signer.organization].filter(Boolean).join(", ") || "Unknown"}
+                    {resultData.provenance.signer.issuer ? ` (issued by ${resultData.provenance.signer.issuer})` : ""}
+                  </p>
+                )}
+                {resultData.provenance.claimGenerator && <p>Produced with: {resultData.provenance.claimGenerator}</p>}
+                {resultData.provenance.actions && resultData.provenance.actions.length > 0 && (
+                  <p>
+                    Edit history: {resultData.provenance.actions.map((a) => a.action.replace(/^c2pa\./, "") + (a.softwareAgent ? ` (${a.softwareAgent})` : "")).join(", ")}
+                  </p>
+                )}
+                {resultData.provenance.checks?.filter((c) => !c.passed).map((check) => (
+                  <p key={check.code} className="text-red-500 text-xs mt-1">
+                    {check.code}{check.explanation ? `: ${check.explanation}` : ""}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
+          {resultData.verdictExplanation && resultData.verdictExplanation.length > 0 && (
+            <div className="mt-3 rounded-lg border border-gray-200 dark:border-neutral-700 p-3 text-sm">
+              <p className="font-semibold mb-1">How this verdict was reached</p>
+              <ul className="list-disc pl-5 space-y-0.5 text-gray-600 dark:text-gray-300">
+                {resultData.verdictExplanation.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
+        {resultData.timeline?.points.length ? (() => {
+          const timeline = resultData.timeline;
+          const active = frameIndex !== null ? timeline.points[frameIndex] : undefined;
+          return (
+            <div className="mt-6 bg-white dark:bg-neutral-900 rounded-2xl shadow-xl p-6 border border-gray-200 dark:border-neutral-800">
+              <h3 className="text-lg font-semibold mb-1">Anomaly timeline</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Manipulation score of each sampled frame over time.{" "}
+                {timeline.segments.length
+                  ? `${timeline.segments.length} suspicious segment${timeline.segments.length === 1 ? "" : "s"} highlighted.`
+                  : "No suspicious segments."}{" "}
+                Click a point or thumbnail to jump to that frame.
+              </p>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={timeline.points.map((p) => ({ ...p, score: typeof p.score === "number" ? Math.round(p.score * 1000) / 10 : null }))}
+                    onClick={(state) => {
+                      if (state?.activeTooltipIndex !== undefined && state.activeTooltipIndex !== null) jumpToFrame(Number(state.activeTooltipIndex));
+                    }}
+                    className="cursor-pointer"
+                  >
+                    <XAxis dataKey="timestamp" type="number" domain={[0, timeline.duration]} tickFormatter={(t: number) => formatTimestamp(t)} stroke="#94a3b8" fontSize={12} />
+                    <YAxis domain={[0, 100]} stroke="#94a3b8" fontSize={12} unit="%" />
+                    <Tooltip
+                      labelFormatter={(t) => formatTimestamp(Number(t))}
+                      formatter={(value) => [value === null ? "not scored" : `${value}%`, "Manipulation score"]}
+                      contentStyle={{ backgroundColor: "#000", border: "1px solid #374151", borderRadius: "0.5rem", color: "#fff" }}
+                    />
+                    {timeline.segments.map((seg, i) => (
+                      <ReferenceArea key={i} x1={seg.start} x2={seg.end} fill={seg.status === "DEEPFAKE" ? "#ef4444" : "#f59e0b"} fillOpacity={0.15} strokeOpacity={0} />
+                    ))}
+                    <ReferenceLine y={timeline.thresholds.deepfake * 100} stroke="#ef4444" strokeDasharray="4 2" />
+                    {active && <ReferenceLine x={active.timestamp} stroke="#0ea5e9" />}
+                    <Line dataKey="score" stroke="#0ea5e9" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} connectNulls isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex gap-1 overflow-x-auto pb-1 mt-3">
+                {timeline.points.map((p, i) => (
+                  <button
+                    key={p.index}
+                    onClick={() => jumpToFrame(i)}
+                    title={`${formatTimestamp(p.timestamp)}${typeof p.score === "number" ? ` · ${(p.score * 100).toFixed(1)}%` : ""}`}
+                    className={`shrink-0 w-20 h-12 rounded overflow-hidden border-2 bg-gray-100 dark:bg-neutral-800 ${
+                      i === frameIndex
+                        ? "border-sky-500"
+                        : p.status === "DEEPFAKE"
+                        ? "border-red-500"
+                        : p.status === "SUSPICIOUS"
+                        ? "border-amber-500"
+                        : "border-transparent"
+                    }`}
+                  >
+                    {p.thumbnailUrl ? (
+                      <img src={p.thumbnailUrl} alt={`Frame at ${formatTimestamp(p.timestamp)}`} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-xs font-mono text-gray-500">{formatTimestamp(p.timestamp)}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+              {active && (
+                <div className="flex gap-4 items-start mt-3 text-sm">
+                  {active.thumbnailUrl && !resultData.imageUrl && (
+                    <img src={active.thumbnailUrl} alt="Selected frame" className="w-40 rounded-lg border border-gray-200 dark:border-neutral-700" />
+                  )}
+                  <div>
+                    <p className="font-mono">{formatTimestamp(active.timestamp)}</p>
+                    <p className={active.status === "DEEPFAKE" ? "text-red-500 font-semibold" : active.status === "SUSPICIOUS" ? "text-amber-600 dark:text-amber-400" : ""}>
+                      {typeof active.score === "number"
+                        ? `${(active.score * 100).toFixed(1)}% manipulation score`
+                        : active.frameStatus === "NO_FACE" ? "No face in this frame" : "Frame could not be scored"}
+                    </p>
+                  </div>
+                </div>
+              )}
+              {timeline.segments.length > 0 && (
+                <ul className="mt-3 text-sm space-y-1">
+                  {timeline.segments.map((seg, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => jumpToFrame(timeline.points.findIndex((p) => p.timestamp === seg.peakTimestamp))}
+                        className="font-mono text-sky-600 hover:underline"
+                      >
+                        {formatTimestamp(seg.start)} – {formatTimestamp(seg.end)}
+                      </button>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {" "}· {seg.frameCount} frame{seg.frameCount === 1 ? "" : "s"} · peak {(seg.peakScore * 100).toFixed(1)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })() : null}
+
+        {resultData.videoSummary?.frames?.length ? (
+          <div className="mt-6 bg-white dark:bg-neutral-900 rounded-2xl shadow-xl p-6 border border-gray-200 dark:border-neutral-800">
+            <h3 className="text-lg font-semibold mb-1">Frame analysis</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              {resultData.videoSummary.frameCount} frames sampled ({resultData.videoSummary.strategy}
+              {resultData.videoSummary.strategyValue ? `: ${resultData.videoSummary.strategyValue}` : ""})
+              {typeof resultData.videoSummary.maxScore === "number" ? ` · peak ${(resultData.videoSummary.maxScore * 100).toFixed(1)}%` : ""}
+              {resultData.videoSummary.failedFrames ? ` · ${resultData.videoSummary.failedFrames} failed` : ""}
+            </p>
+            <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200 dark:border-neutral-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-neutral-800 text-left">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold">Time</th>
+                    <th className="px-3 py-2 font-semibold">Label</th>
+                    {resultData.videoSummary.faceDetector && <th className="px-3 py-2 font-semibold">Faces</th>}
+                    <th className="px-3 py-2 font-semibold">Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resultData.videoSummary.frames.map((frame) => (
+                    <tr
+                      key={frame.index}
+                      className={`border-t border-gray-100 dark:border-neutral-800 ${
+                        frameIndex !== null && resultData.timeline?.points[frameIndex]?.index === frame.index ? "bg-sky-50 dark:bg-sky-950" : ""
+                      }`}
+                    >
+                      <td className="px-3 py-1.5 font-mono">{formatTimestamp(frame.timestamp)}</td>
+                      <td className="px-3 py-1.5">{frame.status === "ERROR" ? "Failed" : frame.status === "NO_FACE" ? "No face" : frame.label || "N/A"}</td>
+                      {resultData.videoSummary?.faceDetector && <td className="px-3 py-1.5">{frame.faces?.length ?? 0}</td>}
+                      <td className={`px-3 py-1.5 ${typeof frame.score === "number" && frame.score >= 0.65 ? "text-red-500 font-semibold" : ""}`}>
+                        {typeof frame.score === "number" ? `${(frame.score * 100).toFixed(1)}%` : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+
+        {resultData.forensicMaps?.length ? (() => {
+          const map = resultData.forensicMaps[Math.min(mapIndex, resultData.forensicMaps.length - 1)];
+          return (
+            <div className="mt-6 bg-white dark:bg-neutral-900 rounded-2xl shadow-xl p-6 border border-gray-200 dark:border-neutral-800">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-1">
+                <h3 className="text-lg font-semibold">Forensic overlays</h3>
+                <div className="flex gap-1 text-sm">
+                  {overlayModes.map((mode) => (
+                    <button
+                      key={mode.value}
+                      onClick={() => setOverlay(mode.value)}
+                      className={`px-3 py-1 rounded-lg border transition ${
+                        overlay === mode.value
+                          ? "bg-sky-500 border-sky-500 text-white"
+                          : "border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-neutral-700 dark:text-gray-300 dark:hover:bg-neutral-800"
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Highlighted regions recompress or carry noise differently from the rest of the picture, which can point to edited areas.
+              </p>
+              {resultData.forensicMaps.length > 1 && (
+                <div className="flex flex-wrap gap-1 mb-3 text-sm">
+                  {resultData.forensicMaps.map((m, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setMapIndex(i)}
+                      className={`px-2 py-0.5 rounded border font-mono ${i === mapIndex ? "border-sky-500 text-sky-600" : "border-gray-200 dark:border-neutral-700"}`}
+                    >
+                      {typeof m.timestamp === "number" ? formatTimestamp(m.timestamp) : i + 1}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="relative w-fit max-w-full mx-auto leading-[0]">
+                <img src={map.baseUrl} alt="Analysed picture" className="max-w-full max-h-[420px] rounded-lg" />
+                {overlay !== "off" && (
+                  <img
+                    src={overlay === "ela" ? map.ela.url : map.noise.url}
+                    alt={overlay === "ela" ? "Error level overlay" : "Noise residual overlay"}
+                    className="absolute inset-0 w-full h-full rounded-lg opacity-85"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
+                {overlay === "noise"
+                  ? `${(map.noise.inconsistency * 100).toFixed(1)}% of regions with inconsistent noise`
+                  : `Mean error level ${map.ela.mean} · ${(map.ela.hotspotRatio * 100).toFixed(1)}% of blocks stand out`}
+              </p>
+            </div>
+          );
+        })() : null}
+
         <div className="mt-6 bg-white dark:bg-neutral-900 rounded-2xl shadow-xl p-6 border border-gray-200 dark:border-neutral-800">
           <h3 className="text-lg font-semibold mb-3">Result feedback</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
             Help improve detection quality by marking this result if it was incorrect.
           </p>
 
+          <textarea
+            value={feedbackComment}
+            onChange={(e) => setFeedbackComment(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Optional: tell us what the scan got wrong"
+            className="w-full mb-3 px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-800 dark:bg-neutral-900 dark:border-neutral-700 dark:text-gray-200"
+          />
+
           <div className="flex flex-wrap gap-3">
             <button
               onClick={() => handleFeedbackClick("FALSE_POSITIVE")}
@@ -299,6 +713,18 @@ useEffect(() => {
               : "No feedback yet for this result."}
           </div>
 
+          {resultData.userFeedback && (
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+              Your report ({resultData.userFeedback.label === "FALSE_POSITIVE" ? "false positive" : "false negative"}):{" "}
+              {resultData.userFeedback.reviewStatus === "confirmed"
+                ? "confirmed by our reviewers."
+                : resultData.userFeedback.reviewStatus === "dismissed"
+                  ? "reviewed — the original verdict stands."
+                  : "awaiting review."}
+              {resultData.userFeedback.comment ? ` “${resultData.userFeedback.comment}”` : ""}
+            </p>
+          )}
+
           {feedbackMessage && (
             <p className="mt-2 text-sm text-sky-600 dark:text-sky-400">{feedbackMessage}</p>
           )}
@@ -1,10 +1,10 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { Check, XCircle, AlertCircle } from "lucide-react";
-import { fetchResult } from "@/lib/api";
+import { fetchBatch, fetchResult } from "@/lib/api";
 import { useUser } from "@clerk/nextjs";
 import * as Sentry from "@sentry/nextjs";
 
@@ -57,6 +57,144 @@ interface ResultData {
   rdModels: RDModel[];
 }
 
+// The fields of a /api/results/[id] response the bulk view uses.
+interface ResultPayload {
+  scanId: string;
+  status: string;
+  fileName?: string;
+  confidenceScore?: number;
+  createdAt: string;
+  fileType?: string;
+  modelsUsed?: string[];
+  imageUrl?: string;
+  description?: string;
+  features?: string[];
+}
+
+interface BatchItem {
+  index: number;
+  fileName: string;
+  status: "QUEUED" | "PROCESSING" | "DONE" | "ERROR";
+  scanId?: string;
+  verdict?: string;
+  confidenceScore?: number;
+  error?: string;
+}
+
+interface BatchView {
+  batchId: string;
+  status: "PROCESSING" | "COMPLETED" | "PARTIAL" | "FAILED";
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number;
+  creditsRefunded: number;
+  summary: {
+    authentic: number;
+    suspicious: number;
+    deepfake: number;
+    noFace: number;
+    errors: number;
+    averageConfidence: number;
+  };
+  items: BatchItem[];
+}
+
+const BATCH_POLL_MS = 3000;
+
+// Maps a /api/results payload onto the card's shape.
+function toResultData(data: ResultPayload): ResultData {
+  // Parse RD models
+  let rdModels: RDModel[] = [];
+  try {
+    const parsed = data.description ? JSON.parse(data.description) : {};
+    const rd = parsed?.rd as { models?: Partial<RDModel>[] } | undefined;
+    if (rd?.models?.length) {
+      rdModels = rd.models.map((m) => ({
+        name: String(m.name || "unknown"),
+        status: String(m.status || "UNKNOWN"),
+        score: typeof m.score === "number" ? m.score : Number(m.score) || 0,
+      }));
+    }
+  } catch (err) {
+    Sentry.captureException(err);
+    console.warn("Failed to parse RD result:", err);
+  }
+
+  return {
+    fileName: data.fileName || "Unknown",
+    scanId: data.scanId,
+    status: data.status,
+    confidenceScore: data.confidenceScore ?? 0,
+    createdAt: data.createdAt,
+    fileType: data.fileType ?? "unknown",
+    modelsUsed: data.modelsUsed ?? [],
+    imageUrl: data.imageUrl || "https://via.placeholder.com/280x180.png?text=Detected+Image",
+    description:
+      data.description ||
+      "deeptrack is an advanced deepfake detection solution designed for media outlets, financial institutions, and government agencies",
+    features:
+      data.features || [
+        "Advanced AI models trained on millions of authentic and manipulated images",
+        "Ensemble approach using multiple specialized detection algorithms",
+        "Real-time detection of deepfakes, AI-generated content, and manipulations",
+      ],
+    rdModels,
+  };
+}
+
+// --- Batch progress + summary ---
+const BatchSummaryPanel: React.FC<{ batch: BatchView }> = ({ batch }) => {
+  const failedItems = batch.items.filter((item) => item.status === "ERROR");
+  const stats = [
+    { label: "Authentic", value: batch.summary.authentic, className: "text-green-600" },
+    { label: "Suspicious", value: batch.summary.suspicious, className: "text-yellow-500" },
+    { label: "Deepfake", value: batch.summary.deepfake, className: "text-red-600" },
+    { label: "No face", value: batch.summary.noFace, className: "text-gray-500" },
+    { label: "Failed", value: batch.summary.errors, className: "text-red-400" },
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto mb-10 bg-white dark:bg-black rounded-2xl shadow-lg p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-semibold">
+          {batch.status === "PROCESSING" ? "Scanning" : "Finished"}: {batch.completed + batch.failed} of {batch.total}
+        </span>
+        <span className="opacity-80">{batch.progress}%</span>
+      </div>
+      <div className="w-full h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden mb-6">
+        <div className="h-full bg-sky-500 transition-all" style={{ width: `${batch.progress}%` }} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center">
+            <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+            <p className="text-xs opacity-80">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm opacity-80">
+        Average confidence: {batch.summary.averageConfidence}%
+        {batch.creditsRefunded > 0 ? ` · ${batch.creditsRefunded} credit(s) refunded for failed items` : ""}
+      </p>
+
+      {failedItems.length > 0 && (
+        <ul className="mt-4 text-sm space-y-1">
+          {failedItems.map((item) => (
+            <li key={item.index} className="flex items-center gap-2 text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="font-semibold">{item.fileName}</span>
+              <span className="opacity-80">{item.error}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 // --- Card Component ---
 const ResultCard: React.FC<{ result: ResultData }> = ({ result }) => (
   <div className="bg-white dark:bg-black rounded-2xl shadow-lg p-6 border border-gray-200 dark:border-gray-800 flex flex-col">
@@ -136,14 +274,58 @@ const ResultCard: React.FC<{ result: ResultData }> = ({ result }) => (
 export default function BulkResultsClient() {
   const searchParams = useSearchParams();
   const idsParam = searchParams.get("ids") || "";
+  const batchParam = searchParams.get("batch") || "";
   const { isSignedIn } = useUser();
 
   const [results, setResults] = useState<ResultData[]>([]);
+  const [batch, setBatch] = useState<BatchView | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const loadedScanIds = useRef<Set<string>>(new Set());
 
+  // Batch mode: poll progress and add each finished item's card as it lands.
   useEffect(() => {
-    if (!isSignedIn || !idsParam) return;
+    if (!isSignedIn || !batchParam) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const data = (await fetchBatch(batchParam)) as BatchView | null;
+        if (cancelled || !data) return;
+        setBatch(data);
+
+        const fresh = data.items.filter((item) => item.status === "DONE" && item.scanId && !loadedScanIds.current.has(item.scanId));
+        for (const item of fresh) {
+          loadedScanIds.current.add(item.scanId as string);
+          try {
+            const result = (await fetchResult(item.scanId as string)) as ResultPayload | null;
+            if (result && !cancelled) setResults((prev) => [...prev, toResultData(result)]);
+          } catch (err) {
+            Sentry.captureException(err);
+            console.error(`Failed to fetch result ${item.scanId}`, err);
+          }
+        }
+
+        if (data.status === "PROCESSING" && !cancelled) timer = setTimeout(poll, BATCH_POLL_MS);
+      } catch (err) {
+        console.error("Failed to load batch:", err);
+        Sentry.captureException(err);
+        if (!cancelled) setError("Failed to load batch progress.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [isSignedIn, batchParam]);
+
+  useEffect(() => {
+    if (!isSignedIn || !idsParam || batchParam) return;
 
     const scanIds = idsParam.split(",").map((id) => id.trim()).filter(Boolean);
 
@@ -159,45 +341,8 @@ export default function BulkResultsClient() {
 
         for (const id of scanIds) {
           try {
-            const data = await fetchResult(id);
-
-            // Parse RD models
-            let rdModels: RDModel[] = [];
-            try {
-              const parsed = data.description ? JSON.parse(data.description) : {};
-              const rd = parsed?.rd as { models?: Partial<RDModel>[] } | undefined;
-              if (rd?.models?.length) {
-                rdModels = rd.models.map((m) => ({
-                  name: String(m.name || "unknown"),
-                  status: String(m.status || "UNKNOWN"),
-                  score: typeof m.score === "number" ? m.score : Number(m.score) || 0,
-                }));
-              }
-            } catch (err) {
-              Sentry.captureException(err);
-              console.warn("Failed to parse RD result:", err);
-            }
-
-            fetchedResults.push({
-              fileName: data.fileName || "Unknown",
-              scanId: data.scanId,
-              status: data.status,
-              confidenceScore: data.confidenceScore ?? 0,
-              createdAt: data.createdAt,
-              fileType: data.fileType ?? "unknown",
-              modelsUsed: data.modelsUsed ?? [],
-              imageUrl: data.imageUrl || "https://via.placeholder.com/280x180.png?text=Detected+Image",
-              description:
-                data.description ||
-                "deeptrack is an advanced deepfake detection solution designed for media outlets, financial institutions, and government agencies",
-              features:
-                data.features || [
-                  "Advanced AI models trained on millions of authentic and manipulated images",
-                  "Ensemble approach using multiple specialized detection algorithms",
-                  "Real-time detection of deepfakes, AI-generated content, and manipulations",
-                ],
-              rdModels,
-            });
+            const data = (await fetchResult(id)) as ResultPayload | null;
+            if (data) fetchedResults.push(toResultData(data));
           } catch (err) {
             Sentry.captureException(err);
             console.error(`Failed to fetch result ${id}`, err);
@@ -215,9 +360,9 @@ export default function BulkResultsClient() {
     };
 
     loadResults();
-  }, [isSignedIn, idsParam]);
+  }, [isSignedIn, idsParam, batchParam]);
 
-  if (!idsParam) return <p className="text-center mt-8">No scan IDs provided</p>;
+  if (!idsParam && !batchParam) return <p className="text-center mt-8">No scan IDs provided</p>;
   if (loading) return <p className="text-center mt-8">Loading results...</p>;
   if (error) return <p className="text-center mt-8 text-red-500">{error}</p>;
 
@@ -230,6 +375,8 @@ export default function BulkResultsClient() {
         </div>
       </div>
 
+      {batch && <BatchSummaryPanel batch={batch} />}
+
       <div className="max-w-6xl mx-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
         {results.map((res) => (
           <ResultCard key={res.scanId} result={res} />
@@ -10,6 +10,7 @@ export interface ResultData {
   createdAt: string;
   imageUrl: string;
   description?: string;
+  timeline?: AnomalyTimelineSummary | null;
 }
 
 export interface RdModel {
@@ -18,6 +19,21 @@ export interface RdModel {
   score?: number;
 }
 
+export interface ProvenanceSummary {
+  state: "absent" | "valid" | "untrusted" | "invalid";
+  claimGenerator?: string;
+  signer?: { commonName?: string; organization?: string; issuer?: string };
+  actions?: Array<{ action: string; softwareAgent?: string }>;
+  checks?: Array<{ code: string; passed: boolean; explanation?: string }>;
+}
+
+export interface AnomalyTimelineSummary {
+  duration: number;
+  thresholds: { deepfake: number; authentic: number };
+  points: Array<{ index: number; timestamp: number; score?: number; status?: string; thumbnailUrl?: string }>;
+  segments: Array<{ start: number; end: number; frameCount: number; peakScore: number; meanScore: number; status: string }>;
+}
+
 export interface PdfResultDto {
   fileName?: string;
   fileType?: string;
@@ -49,6 +65,8 @@ export interface PdfResultDto {
     status?: string;
     score?: number;
   } | null;
+  provenance?: ProvenanceSummary | null;
+  timeline?: AnomalyTimelineSummary | null;
 }
 
 
@@ -75,6 +93,7 @@ interface ParsedDescription {
         realityDefender?: number;
       };
     };
+    provenance?: ProvenanceSummary | null;
   };
 }
 
@@ -85,6 +104,7 @@ export function mapToPdfDto(resultData: ResultData | null): PdfResultDto | null
   let fusion: PdfResultDto["fusion"];
   let fakecatcher: PdfResultDto["fakecatcher"] = null;
   let realityDefender: PdfResultDto["realityDefender"] = null;
+  let provenance: PdfResultDto["provenance"] = null;
 
   try {
     const parsedRaw: unknown = JSON.parse(resultData.description || "{}");
@@ -106,6 +126,7 @@ export function mapToPdfDto(resultData: ResultData | null): PdfResultDto | null
       fusion = parsedRaw.rd?.fusion;
       fakecatcher = parsedRaw.rd?.fakecatcher ?? null;
       realityDefender = parsedRaw.rd?.realityDefender ?? null;
+      provenance = parsedRaw.rd?.provenance ?? null;
     }
   } catch {
     console.warn("PDF Utils: Failed to parse RD description");
@@ -122,6 +143,8 @@ export function mapToPdfDto(resultData: ResultData | null): PdfResultDto | null
     fusion,
     fakecatcher,
     realityDefender,
+    provenance,
+    timeline: resultData.timeline ?? null,
     models: models.map((m) => ({
       name: m.name ?? "Unknown Model",
       status: m.status ?? "UNKNOWN",
@@ -196,6 +219,24 @@ export const modelMap: Record<string, { label: string; description: string }> =
   },
 };
 
+const provenanceLabels: Record<string, string> = {
+  valid: "Verified - signed by a trusted credential and unaltered since signing",
+  untrusted: "Present and intact, but the signer is not on the trust list",
+  invalid: "Failed validation - the file or its manifest changed after signing",
+  absent: "No Content Credentials found",
+};
+
+function formatSeconds(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+}
+
+const timelineStatusColors: Record<string, [number, number, number]> = {
+  DEEPFAKE: [220, 38, 38],
+  SUSPICIOUS: [220, 140, 0],
+  AUTHENTIC: [0, 128, 0],
+};
+
 // helper to fetch image -> dataURL (works in browser)
 async function toDataUrl(url: string): Promise<string | null> {
   try {
@@ -327,6 +368,40 @@ export const handleDownloadPDF = async (dto: PdfResultDto) => {
 
   y += 15;
 
+  // --- Content Credentials (C2PA) ---
+  if (result.provenance?.state) {
+    const provenance = result.provenance;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text("Content Credentials (C2PA)", margin, (y += 8));
+    doc.line(margin, y + 2, 190, y + 2);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(11);
+    doc.setTextColor(40);
+    doc.text(`Provenance: ${provenanceLabels[provenance.state] || provenance.state}`, margin, (y += 8), { maxWidth: 170 });
+    if (provenance.signer?.commonName || provenance.signer?.organization) {
+      const signer = [provenance.signer.commonName, provenance.signer.organization].filter(Boolean).join(", ");
+      doc.text(`Signed by: ${signer}${provenance.signer.issuer ? ` (issued by ${provenance.signer.issuer})` : ""}`, margin, (y += 6), { maxWidth: 170 });
+    }
+    if (provenance.claimGenerator) {
+      doc.text(`Produced with: ${provenance.claimGenerator}`, margin, (y += 6), { maxWidth: 170 });
+    }
+    if (provenance.actions?.length) {
+      const actions = provenance.actions.map((a) => a.action.replace(/^c2pa\./, "") + (a.softwareAgent ? ` (${a.softwareAgent})` : ""));
+      const lines = doc.splitTextToSize(`Edit history: ${actions.join(", ")}`, 170);
+      doc.text(lines, margin, (y += 6));
+      y += (lines.length - 1) * 5;
+    }
+    for (const check of (provenance.checks || []).filter((c) => !c.passed)) {
+      doc.setTextColor(180, 0, 0);
+      doc.text(`${check.code}${check.explanation ? `: ${check.explanation}` : ""}`, margin, (y += 6), { maxWidth: 170 });
+    }
+    doc.setTextColor(0);
+    y += 8;
+  }
+
   // --- Fusion Summary ---
   if (result.fusion) {
     doc.setFont("helvetica", "bold");
@@ -446,6 +521,119 @@ autoTable(doc, tableOptions);
     doc.text("No model data available.", margin, (y += 8));
   }
 
+  // --- Anomaly Timeline (video) ---
+  if (result.timeline?.points.length) {
+    const timeline = result.timeline;
+    doc.addPage();
+    y = margin;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text("Anomaly Timeline", margin, (y += 8));
+    doc.line(margin, y + 2, 190, y + 2);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(60);
+    doc.text(
+      `Manipulation score of ${timeline.points.length} sampled frames over ${formatSeconds(timeline.duration)}. ` +
+        (timeline.segments.length
+          ? `${timeline.segments.length} suspicious segment${timeline.segments.length === 1 ? " is" : "s are"} shaded.`
+          : "No suspicious segments were found."),
+      margin,
+      (y += 8),
+      { maxWidth: 170 }
+    );
+
+    // Chart area: time on x, score 0-100% on y
+    const chartX = margin + 10;
+    const chartW = 160;
+    const chartTop = y + 6;
+    const chartH = 55;
+    const duration = timeline.duration || 1;
+    const xAt = (t: number) => chartX + (Math.min(t, duration) / duration) * chartW;
+    const yAt = (score: number) => chartTop + chartH - score * chartH;
+
+    for (const seg of timeline.segments) {
+      const [r, g, b] = timelineStatusColors[seg.status] || timelineStatusColors.SUSPICIOUS;
+      // Light tint of the status colour, since jsPDF has no fill opacity without GState
+      doc.setFillColor(255 - (255 - r) * 0.2, 255 - (255 - g) * 0.2, 255 - (255 - b) * 0.2);
+      doc.rect(xAt(seg.start), chartTop, Math.max(0.5, xAt(seg.end) - xAt(seg.start)), chartH, "F");
+    }
+
+    doc.setDrawColor(180);
+    doc.setLineWidth(0.2);
+    doc.rect(chartX, chartTop, chartW, chartH);
+    doc.setLineDashPattern([1.5, 1], 0);
+    doc.setDrawColor(220, 38, 38);
+    doc.line(chartX, yAt(timeline.thresholds.deepfake), chartX + chartW, yAt(timeline.thresholds.deepfake));
+    doc.setDrawColor(0, 128, 0);
+    doc.line(chartX, yAt(timeline.thresholds.authentic), chartX + chartW, yAt(timeline.thresholds.authentic));
+    doc.setLineDashPattern([], 0);
+
+    const scored = timeline.points.filter((p) => typeof p.score === "number");
+    doc.setDrawColor(14, 165, 233);
+    doc.setLineWidth(0.5);
+    for (let i = 1; i < scored.length; i++) {
+      doc.line(xAt(scored[i - 1].timestamp), yAt(scored[i - 1].score as number), xAt(scored[i].timestamp), yAt(scored[i].score as number));
+    }
+    for (const point of scored) {
+      doc.setFillColor(...(timelineStatusColors[point.status || ""] || ([14, 165, 233] as [number, number, number])));
+      doc.circle(xAt(point.timestamp), yAt(point.score as number), 0.8, "F");
+    }
+    doc.setLineWidth(0.2);
+    doc.setDrawColor(0);
+
+    doc.setFontSize(7);
+    doc.setTextColor(100);
+    for (const value of [0, 0.5, 1]) {
+      doc.text(`${value * 100}%`, chartX - 2, yAt(value) + 1, { align: "right" });
+    }
+    for (let i = 0; i <= 4; i++) {
+      const t = (duration * i) / 4;
+      doc.text(formatSeconds(t), xAt(t), chartTop + chartH + 4, { align: "center" });
+    }
+    y = chartTop + chartH + 8;
+
+    // Thumbnail strip: up to eight evenly spaced frames
+    const withThumbs = timeline.points.filter((p) => p.thumbnailUrl);
+    const strip = withThumbs.length <= 8
+      ? withThumbs
+      : Array.from({ length: 8 }, (_, i) => withThumbs[Math.round((i * (withThumbs.length - 1)) / 7)]);
+    if (strip.length) {
+      const thumbW = 19;
+      const thumbH = 12;
+      const images = await Promise.all(strip.map((p) => toDataUrl(p.thumbnailUrl as string)));
+      strip.forEach((point, i) => {
+        const x = chartX + i * (thumbW + 1.5);
+        const image = images[i];
+        if (image) doc.addImage(image, "JPEG", x, y, thumbW, thumbH);
+        doc.setDrawColor(...(timelineStatusColors[point.status || ""] || ([180, 180, 180] as [number, number, number])));
+        doc.rect(x, y, thumbW, thumbH);
+        doc.text(formatSeconds(point.timestamp), x + thumbW / 2, y + thumbH + 3, { align: "center" });
+      });
+      doc.setDrawColor(0);
+      y += thumbH + 8;
+    }
+
+    if (timeline.segments.length) {
+      autoTable(doc, {
+        startY: y + 2,
+        head: [["Segment", "Frames", "Peak Score", "Mean Score", "Status"]],
+        body: timeline.segments.map((seg) => [
+          `${formatSeconds(seg.start)} - ${formatSeconds(seg.end)}`,
+          seg.frameCount,
+          `${(seg.peakScore * 100).toFixed(1)}%`,
+          `${(seg.meanScore * 100).toFixed(1)}%`,
+          seg.status,
+        ]),
+        styles: { font: "helvetica", fontSize: 9, cellPadding: 3 },
+        headStyles: { fillColor: [32, 132, 230], textColor: [255, 255, 255] },
+        theme: "grid",
+      });
+    }
+  }
+
   // --- Save PDF ---
   const safeName = (result.fileMeta?.name || result.fileName || "report").replace(/[\\/:*?"<>|]/g, "_");
   doc.save(`Gotham-Verification-${safeName}.pdf`);
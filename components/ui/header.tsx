@@ -4,6 +4,7 @@ import Image from "next/image";
 import { useEffect, useState } from "react";
 import { LogOut, LogIn, UserPlus, Menu, Bug } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import NotificationBell from "@/components/ui/notification-bell";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser, useClerk } from "@clerk/nextjs";
@@ -145,6 +146,7 @@ export default function Header() {
           Pricing &amp; Billing
         </Link>
 
+        {isLoaded && isSignedIn && <NotificationBell />}
         {!isLoaded ? (
           <Button
             variant="ghost"
@@ -217,6 +219,7 @@ export default function Header() {
       {/* Mobile menu (hamburger) */}
       <div className="flex md:hidden items-center gap-2">
         {/* <ThemeToggle /> */}
+        {isLoaded && isSignedIn && <NotificationBell />}
         {!isLoaded ? (
           <Button variant="ghost" size="icon" aria-label="Open menu">
             <Menu className="h-6 w-6 text-gray-700 dark:text-gray-300" />
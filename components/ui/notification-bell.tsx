@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { fetchNotifications, markNotificationsRead } from "@/lib/api";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+// Review outcomes arrive hours after a dispute, so an occasional refresh is enough.
+const POLL_INTERVAL_MS = 60_000;
+
+export default function NotificationBell() {
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const data = (await fetchNotifications()) as { notifications?: NotificationItem[]; unread?: number };
+        if (!cancelled) {
+          setItems(data.notifications || []);
+          setUnread(data.unread || 0);
+        }
+      } catch {
+        // Keep the last list; the next poll retries.
+      }
+    };
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || unread === 0) return;
+    try {
+      await markNotificationsRead();
+      setUnread(0);
+      setItems((prev) => prev.map((item) => ({ ...item, read: true })));
+    } catch {
+      // Stays unread until the next attempt.
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Notifications" className="relative">
+          <Bell className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] font-semibold leading-4 text-white text-center">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 bg-white dark:bg-black border border-gray-200 dark:border-gray-800">
+        <div className="px-3 py-2 text-sm font-medium text-gray-800 dark:text-gray-200">Notifications</div>
+        {items.length === 0 ? (
+          <p className="px-3 pb-3 text-xs text-gray-500 dark:text-gray-400">Nothing new.</p>
+        ) : (
+          items.map((item) => (
+            <DropdownMenuItem key={item.id} asChild>
+              <Link
+                href={item.link || "#"}
+                className={`flex flex-col items-start gap-0.5 ${item.read ? "" : "bg-sky-50 dark:bg-sky-950/30"}`}
+              >
+                <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{item.title}</span>
+                <span className="text-xs text-gray-600 dark:text-gray-400">{item.message}</span>
+                <span className="text-[10px] text-gray-400">{new Date(item.createdAt).toLocaleString()}</span>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
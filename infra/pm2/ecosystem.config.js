@@ -7,5 +7,12 @@
       PORT: 3000,
       HOSTNAME: "127.0.0.1"
     }
+  }, {
+    name: "gotham-scan-worker",
+    script: "/home/ec2-user/Gotham-Enterprise/dist-workers/workers/scanWorker.js",
+    cwd: "/home/ec2-user/Gotham-Enterprise",
+    env: {
+      NODE_ENV: "production"
+    }
   }]
 }
@@ -7,11 +7,14 @@ git pull origin main
 
 echo ">>> Installing dependencies..."
 npm install
+node scripts/fetch-face-model.js
 
 echo ">>> Building..."
 npm run build
+npm run build:worker
 
 echo ">>> Restarting app..."
 pm2 restart gotham-enterprise
+pm2 restart gotham-scan-worker || pm2 start infra/pm2/ecosystem.config.js --only gotham-scan-worker
 
 echo ">>> Done. Gotham is live."
@@ -0,0 +1,99 @@
+import { clamp01, getVerdictConfig, mapScoreToStatus } from "./verdictEngine";
+import { forensicArtifactUrl } from "./imageForensics";
+import type { VideoAnalysisRecord } from "./scanPipeline";
+
+type StoredVideoAnalysis = Pick<VideoAnalysisRecord, "duration"> & {
+  frames: Array<Pick<VideoAnalysisRecord["frames"][number], "index" | "timestamp" | "status" | "label" | "score" | "thumbnail">>;
+};
+
+export type AnomalyTimelinePoint = {
+  index: number;
+  timestamp: number;
+  /** Detector status of the frame: DONE, NO_FACE or ERROR. */
+  frameStatus: string;
+  /** Only frames the detector scored carry a score and a verdict status. */
+  score?: number;
+  status?: "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE";
+  label?: string;
+  thumbnailUrl?: string;
+};
+
+export type AnomalySegment = {
+  start: number;
+  end: number;
+  firstIndex: number;
+  lastIndex: number;
+  frameCount: number;
+  peakScore: number;
+  peakTimestamp: number;
+  meanScore: number;
+  status: "SUSPICIOUS" | "DEEPFAKE";
+};
+
+export type AnomalyTimeline = {
+  duration: number;
+  thresholds: { deepfake: number; authentic: number };
+  points: AnomalyTimelinePoint[];
+  segments: AnomalySegment[];
+};
+
+/**
+ * Per-frame manipulation scores of a video scan laid out against time, with
+ * runs of consecutive frames scoring above the authentic threshold merged into
+ * suspicious segments. A segment reaches halfway to the neighbouring sampled
+ * frames, since the frames in between were not looked at. Frames that were not
+ * scored (no face, detector error) neither extend nor break a segment.
+ */
+export function buildAnomalyTimeline(
+  scanId: string,
+  video: StoredVideoAnalysis | undefined,
+  thresholds = getVerdictConfig().media.video.thresholds
+): AnomalyTimeline | null {
+  if (!video?.frames?.length) return null;
+
+  const frames = [...video.frames].sort((a, b) => a.timestamp - b.timestamp);
+  const duration = Math.max(video.duration || 0, frames[frames.length - 1].timestamp);
+  const points: AnomalyTimelinePoint[] = frames.map((frame) => {
+    const scored = frame.status === "DONE" && typeof frame.score === "number";
+    const score = scored ? clamp01(frame.score as number) : undefined;
+    return {
+      index: frame.index,
+      timestamp: frame.timestamp,
+      frameStatus: frame.status,
+      ...(score !== undefined ? { score, status: mapScoreToStatus(score, thresholds) } : {}),
+      ...(frame.label ? { label: frame.label } : {}),
+      ...(frame.thumbnail ? { thumbnailUrl: forensicArtifactUrl(scanId, frame.thumbnail) } : {}),
+    };
+  });
+
+  const segments: AnomalySegment[] = [];
+  let run: number[] = [];
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const first = run[0];
+    const last = run[run.length - 1];
+    const scores = run.map((i) => points[i].score as number);
+    const peak = run.reduce((best, i) => ((points[i].score as number) > (points[best].score as number) ? i : best), first);
+    const peakScore = points[peak].score as number;
+    segments.push({
+      start: first > 0 ? (points[first - 1].timestamp + points[first].timestamp) / 2 : 0,
+      end: last < points.length - 1 ? (points[last].timestamp + points[last + 1].timestamp) / 2 : duration,
+      firstIndex: points[first].index,
+      lastIndex: points[last].index,
+      frameCount: run.length,
+      peakScore,
+      peakTimestamp: points[peak].timestamp,
+      meanScore: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10000) / 10000,
+      status: peakScore >= thresholds.deepfake ? "DEEPFAKE" : "SUSPICIOUS",
+    });
+    run = [];
+  };
+  points.forEach((point, i) => {
+    if (!point.status) return;
+    if (point.status === "AUTHENTIC") closeRun();
+    else run.push(i);
+  });
+  closeRun();
+
+  return { duration, thresholds, points, segments };
+}
@@ -109,6 +109,127 @@ export async function createScan(scanData: CreateScanInput) {
   }
 }
 
+const RESUMABLE_UPLOAD_STORAGE_PREFIX = "resumable-upload:";
+
+async function sha256Base64(data: ArrayBuffer) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  let binary = "";
+  for (const byte of digest) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Uploads a large file in checksummed chunks through /api/uploads and returns
+ * the uploadId to scan. The session is remembered per file, so calling this
+ * again after a dropped connection only sends the chunks the server is missing.
+ */
+export async function uploadResumable(file: File, options: { onProgress?: (fraction: number) => void } = {}) {
+  const storageKey = `${RESUMABLE_UPLOAD_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+  type UploadState = { uploadId: string; state: string; chunkSize: number; totalChunks: number; missingChunks: number[] };
+  let upload: UploadState | null = null;
+
+  const savedId = window.localStorage.getItem(storageKey);
+  if (savedId) {
+    const response = await fetch(`/api/uploads/${savedId}`, { method: "GET", credentials: "include" });
+    if (response.ok) upload = await response.json();
+    if (!upload || upload.state !== "uploading") upload = null;
+  }
+
+  if (!upload) {
+    const response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ fileName: file.name, size: file.size }),
+    });
+    if (!response.ok) {
+      const errBody = await response.json().catch(() => null);
+      throw new Error(errBody?.error || "Failed to start upload");
+    }
+    upload = await response.json() as UploadState;
+    window.localStorage.setItem(storageKey, upload.uploadId);
+  }
+
+  const { uploadId, chunkSize, totalChunks, missingChunks } = upload;
+  let sent = totalChunks - missingChunks.length;
+  options.onProgress?.(sent / totalChunks);
+
+  for (const index of missingChunks) {
+    const chunk = await file.slice(index * chunkSize, Math.min(file.size, (index + 1) * chunkSize)).arrayBuffer();
+    const checksum = await sha256Base64(chunk);
+    let response: Response | null = null;
+    // A chunk is retried a few times before giving up; the session keeps what already arrived.
+    for (let attempt = 0; attempt < 3; attempt++) {
+      response = await fetch(`/api/uploads/${uploadId}/chunks/${index}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream", "Upload-Checksum": `sha256 ${checksum}` },
+        credentials: "include",
+        body: chunk,
+      }).catch(() => null);
+      if (response?.ok) break;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)));
+    }
+    if (!response?.ok) {
+      const errBody = await response?.json().catch(() => null);
+      throw new Error(errBody?.error || `Failed to upload chunk ${index + 1} of ${totalChunks}`);
+    }
+    sent += 1;
+    options.onProgress?.(sent / totalChunks);
+  }
+
+  const response = await fetch(`/api/uploads/${uploadId}/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({}),
+  });
+  if (!response.ok) {
+    const errBody = await response.json().catch(() => null);
+    throw new Error(errBody?.error || "Failed to complete upload");
+  }
+  window.localStorage.removeItem(storageKey);
+  return uploadId;
+}
+
+export async function createBatchScan(input: { files?: File[]; urls?: string[] }) {
+  try {
+    const formData = new FormData();
+    for (const file of input.files || []) formData.append("files", file);
+    for (const url of input.urls || []) formData.append("urls", url);
+
+    const response = await fetch("/api/scans/batch", {
+      method: "POST",
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errBody = await response.json().catch(() => null);
+      throw new Error(errBody?.error || "Failed to create batch");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error creating batch:", error);
+    throw error;
+  }
+}
+
+export async function fetchBatch(batchId: string) {
+  try {
+    const response = await fetch(`/api/scans/batch/${batchId}`, { method: "GET", credentials: "include" });
+    if (!response.ok) {
+      const errBody = await response.json().catch(() => null);
+      if (response.status === 401) return null;
+      throw new Error(errBody?.error || "Failed to fetch batch");
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching batch:", error);
+    throw error;
+  }
+}
+
 export async function fetchResult(scanId: string) {
   try {
     const response = await fetch(`/api/results/${scanId}`, { method: "GET", credentials: "include" });
@@ -178,6 +299,41 @@ export async function submitResultFeedback(
   }
 }
 
+export async function fetchNotifications(limit: number = 20) {
+  try {
+    const response = await fetch(`/api/notifications?limit=${limit}`, { method: "GET", credentials: "include", cache: "no-store" });
+    if (!response.ok) {
+      const errBody = await response.json().catch(() => null);
+      throw new Error(errBody?.error || "Failed to fetch notifications");
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    throw error;
+  }
+}
+
+export async function markNotificationsRead(ids?: string[]) {
+  try {
+    const response = await fetch("/api/notifications", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+
+    if (!response.ok) {
+      const errBody = await response.json().catch(() => null);
+      throw new Error(errBody?.error || "Failed to update notifications");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error updating notifications:", error);
+    throw error;
+  }
+}
+
 export async function createPaystackTransaction(amount: number, credits: number, currency: string = "USD") {
   try {
     const response = await fetch("/api/paystack/initialize", {
@@ -0,0 +1,124 @@
+import { createHmac, randomBytes } from "crypto";
+import { NextRequest } from "next/server";
+import { connectToDatabase } from "./db";
+import { ApiKey, type IApiKey } from "./models/ApiKey";
+
+// Enough of the key to tell keys apart in the console and backoffice: "dt_live_" plus four characters.
+const API_KEY_PREFIX_LENGTH = 12;
+
+/** The key a public API scan was submitted with, as recorded on its VerificationResult. */
+export interface ApiKeyAttribution {
+  keyId: string;
+  /** Leading characters of the key, as the console shows it. */
+  prefix: string;
+}
+
+export interface ApiKeyPrincipal {
+  keyId: string;
+  /** Clerk user id of the key owner, whose credits pay for the scans. */
+  clientId: string;
+  attribution: ApiKeyAttribution;
+}
+
+export class ApiKeyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = "ApiKeyError";
+    this.status = status;
+  }
+}
+
+function getApiKeySalt(): string {
+  const salt = process.env.API_KEY_SALT;
+  if (!salt) {
+    throw new Error(
+      "Missing API_KEY_SALT environment variable. Add it to .env.local."
+    );
+  }
+
+  return salt;
+}
+
+/**
+ * Keys are stored and looked up by this hash. It is keyed with a server-side
+ * salt so a copy of the key collection cannot be checked against guesses offline.
+ */
+export function hashApiKey(rawKey: string) {
+  return createHmac("sha256", getApiKeySalt()).update(rawKey).digest("hex");
+}
+
+export function apiKeyPrefix(rawKey: string) {
+  return rawKey.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Generates a key for a client; the raw key is returned here and never stored.
+ * Every key is a live key: there is no sandbox, so each scan is billed.
+ */
+export async function createApiKey(input: {
+  userId: string;
+  name: string;
+  clientName?: string;
+  plan?: string;
+}) {
+  await connectToDatabase();
+  const rawKey = `dt_live_${randomBytes(24).toString("hex")}`;
+  const record = await ApiKey.create({
+    ...input,
+    environment: "live",
+    keyPrefix: apiKeyPrefix(rawKey),
+    keyHash: hashApiKey(rawKey),
+  });
+
+  return { rawKey, record: record as IApiKey };
+}
+
+export async function findApiKey(rawKey: string) {
+  await connectToDatabase();
+  return ApiKey.findOne({ keyHash: hashApiKey(rawKey) }) as Promise<IApiKey | null>;
+}
+
+/** Revokes a key, optionally only if it belongs to the given client. Returns null when no key matched. */
+export async function revokeApiKey(keyId: string, ownerId?: string) {
+  await connectToDatabase();
+  return ApiKey.findOneAndUpdate(
+    { _id: keyId, ...(ownerId ? { userId: ownerId } : {}) },
+    { isActive: false, revokedAt: new Date() },
+    { new: true }
+  ) as Promise<IApiKey | null>;
+}
+
+/** Resolves the x-api-key header to its key; missing, unknown and revoked keys are rejected. */
+export async function authenticateApiKey(req: NextRequest): Promise<ApiKeyPrincipal> {
+  const rawKey = req.headers.get("x-api-key")?.trim();
+  if (!rawKey) {
+    throw new ApiKeyError("Missing x-api-key header");
+  }
+
+  const key = await findApiKey(rawKey);
+  if (!key) {
+    throw new ApiKeyError("Invalid API key");
+  }
+  if (!key.isActive) {
+    throw new ApiKeyError("API key has been revoked", 403);
+  }
+  // Test keys from before every key was live would be billed like live ones, so they are refused instead.
+  if (key.environment !== "live") {
+    throw new ApiKeyError("Test keys are not supported; use a live key", 403);
+  }
+
+  const keyId = String(key._id);
+  return {
+    keyId,
+    clientId: key.userId,
+    attribution: { keyId, prefix: key.keyPrefix },
+  };
+}
+
+/** Counts a scan against the key's usage, shown to the customer in the console. */
+export async function recordApiKeyScan(keyId: string) {
+  await connectToDatabase();
+  await ApiKey.updateOne({ _id: keyId }, { $inc: { scansUsed: 1 }, $set: { lastUsed: new Date() } });
+}
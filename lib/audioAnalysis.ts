@@ -0,0 +1,147 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { mediaInputPath, type MediaInput } from "./mediaInput";
+import type { DetectorAdapter } from "./detectors/types";
+
+const execFileAsync = promisify(execFile);
+
+const AUDIO_SAMPLE_RATE = 16000;
+const AUDIO_SEGMENT_SECONDS = 4;
+const AUDIO_MAX_SEGMENTS = 8;
+
+export type AudioSegmentScore = {
+  index: number;
+  start: number;
+  end: number;
+  status: string;
+  score: number;
+};
+
+export type AudioAnalysisOutcome = {
+  detector: string;
+  status: string;
+  score: number;
+  maxScore: number;
+  duration: number;
+  sampleRate: number;
+  segments: AudioSegmentScore[];
+  requestIds: string[];
+  error?: string;
+};
+
+type NormalizedAudio = {
+  duration: number;
+  segments: Array<{ index: number; start: number; end: number; buffer: Buffer }>;
+};
+
+/**
+ * Decodes any supported container to 16 kHz mono PCM WAV with the bundled ffmpeg
+ * and splits it into fixed-length segments so each one can be scored on its own.
+ */
+export async function normalizeAudio(audio: MediaInput, fileName: string): Promise<NormalizedAudio> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-audio-"));
+  try {
+    const inputPath = await mediaInputPath(audio, workDir, "input" + (path.extname(fileName) || ".bin"));
+    const probeResult = await execFileAsync(ffmpegStatic as string, ["-i", inputPath, "-hide_banner"], { encoding: "utf8" }).catch(e => e);
+    const durationMatch = (probeResult.stderr || "").match(/Duration:\s*(\d+):(\d+):([\d.]+)/);
+    const duration = durationMatch ? parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3]) : 0;
+
+    const segmentPattern = path.join(workDir, "segment_%03d.wav");
+    await execFileAsync(ffmpegStatic as string, [
+      "-i", inputPath,
+      "-vn",
+      "-ac", "1",
+      "-ar", String(AUDIO_SAMPLE_RATE),
+      "-c:a", "pcm_s16le",
+      "-f", "segment",
+      "-segment_time", String(AUDIO_SEGMENT_SECONDS),
+      "-y", segmentPattern,
+    ]);
+
+    const segmentFiles = (await readdir(workDir))
+      .filter((name) => /^segment_\d+\.wav$/.test(name))
+      .sort();
+    if (segmentFiles.length === 0) {
+      throw new Error("No audio stream found");
+    }
+
+    // Spread the segment budget evenly over long recordings instead of only scoring the start.
+    const step = Math.max(1, Math.ceil(segmentFiles.length / AUDIO_MAX_SEGMENTS));
+    const selected = segmentFiles.filter((_, i) => i % step === 0).slice(0, AUDIO_MAX_SEGMENTS);
+
+    const segments = await Promise.all(selected.map(async (name) => {
+      const index = parseInt(name.replace(/\D/g, ""), 10);
+      const start = index * AUDIO_SEGMENT_SECONDS;
+      const end = duration > 0 ? Math.min(duration, start + AUDIO_SEGMENT_SECONDS) : start + AUDIO_SEGMENT_SECONDS;
+      return { index, start, end, buffer: await readFile(path.join(workDir, name)) };
+    }));
+
+    return { duration, segments };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** Audio records keep their historical names, e.g. "RealityDefenderAudio". */
+function audioDetectorName(adapter: DetectorAdapter) {
+  return adapter.model === "audio" ? adapter.displayName : `${adapter.displayName}Audio`;
+}
+
+/** Normalises the recording and scores each segment with the given detector adapter. */
+export async function analyzeAudio(audio: MediaInput, fileName: string, adapter: DetectorAdapter): Promise<AudioAnalysisOutcome> {
+  const detector = audioDetectorName(adapter);
+  const empty: AudioAnalysisOutcome = {
+    detector,
+    status: "ERROR",
+    score: 0,
+    maxScore: 0,
+    duration: 0,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    segments: [],
+    requestIds: [],
+  };
+
+  let normalized: NormalizedAudio;
+  try {
+    normalized = await normalizeAudio(audio, fileName);
+  } catch (error) {
+    console.error("Audio normalisation failed:", error);
+    return { ...empty, error: "Failed to decode audio" };
+  }
+
+  const segments: AudioSegmentScore[] = [];
+  const requestIds: string[] = [];
+  let lastError: string | undefined;
+
+  for (const segment of normalized.segments) {
+    const result = await adapter.invoke({ buffer: segment.buffer, mediaType: "audio", fileName });
+    if (result.status !== "DONE" || typeof result.score !== "number") {
+      console.error("Audio segment scoring failed:", result.error);
+      lastError = result.error || `${adapter.name} returned no score`;
+      continue;
+    }
+    if (result.requestId) requestIds.push(result.requestId);
+    segments.push({ index: segment.index, start: segment.start, end: segment.end, status: result.label || "DONE", score: result.score });
+  }
+
+  if (segments.length === 0) {
+    return { ...empty, duration: normalized.duration, error: lastError || "Audio detector unavailable" };
+  }
+
+  const score = segments.reduce((sum, s) => sum + s.score, 0) / segments.length;
+  const maxScore = segments.reduce((max, s) => Math.max(max, s.score), 0);
+  return {
+    detector,
+    status: "DONE",
+    score,
+    maxScore,
+    duration: normalized.duration,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    segments,
+    requestIds,
+  };
+}
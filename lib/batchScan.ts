@@ -0,0 +1,246 @@
+import { rm } from "fs/promises";
+import { connectToDatabase } from "./db";
+import { Batch, type IBatch, type IBatchItem } from "./models/Batch";
+import { VerificationResult } from "./models/VerificationResult";
+import { refundUserCredits } from "./credits";
+import { verifyMediaBulk, type BulkResult } from "./verifyMediaBulk";
+import type { VideoSamplingOptions } from "./videoSampling";
+
+// Items of one batch scanned at the same time; each may fan out to several detector calls.
+const BATCH_CONCURRENCY = Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || "3", 10));
+
+export type BatchSummary = NonNullable<IBatch["summary"]>;
+
+function scanIdFor(fileType: string | undefined) {
+  const short = fileType === "image" ? "img" : fileType === "video" ? "vid" : "aud";
+  return `gotham-${short}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function summarizeBatch(items: IBatchItem[]): BatchSummary {
+  const done = items.filter((item) => item.status === "DONE");
+  const scored = done.filter((item) => typeof item.confidenceScore === "number");
+  return {
+    authentic: done.filter((item) => item.verdict === "AUTHENTIC").length,
+    suspicious: done.filter((item) => item.verdict === "SUSPICIOUS").length,
+    deepfake: done.filter((item) => item.verdict === "DEEPFAKE").length,
+    noFace: done.filter((item) => item.verdict === "NO_FACE").length,
+    errors: items.filter((item) => item.status === "ERROR").length,
+    averageConfidence: scored.length
+      ? Math.round(scored.reduce((sum, item) => sum + (item.confidenceScore as number), 0) / scored.length * 10) / 10
+      : 0,
+  };
+}
+
+async function recordItemResult(batch: IBatch, result: BulkResult, itemIndex: number) {
+  const item = batch.items[itemIndex];
+
+  if (result.error || !result.analysis || !result.fileType) {
+    await Batch.updateOne(
+      { batchId: batch.batchId, items: { $elemMatch: { index: item.index, status: { $ne: "ERROR" } } } },
+      {
+        $set: { "items.$.status": "ERROR", "items.$.error": result.error || "Analysis failed", "items.$.finishedAt": new Date(), "items.$.fileType": result.fileType },
+        $unset: { "items.$.filePath": 1 },
+        $inc: { failed: 1 },
+      }
+    );
+    return;
+  }
+
+  const { analysis } = result;
+  const scanId = scanIdFor(result.fileType);
+  await VerificationResult.create({
+    userId: batch.userId,
+    scanId,
+    batchId: batch.batchId,
+    fileName: result.fileName,
+    fileType: result.fileType,
+    status: analysis.status,
+    confidenceScore: analysis.confidenceScore,
+    modelsUsed: analysis.modelsUsed,
+    requestPath: "/api/scans/batch",
+    method: "POST",
+    processingMode: "async",
+    mediaInfo: result.mediaInfo ? {
+      mime: result.mediaInfo.mime,
+      container: result.mediaInfo.container,
+      codec: result.mediaInfo.codec,
+      audioCodec: result.mediaInfo.audioCodec,
+    } : undefined,
+    url: item.url,
+    rdAnalysis: analysis.rdAnalysis,
+    fcAnalysis: analysis.fcAnalysis,
+    audioAnalysis: analysis.audioAnalysis,
+    videoAnalysis: analysis.videoAnalysis,
+    faceAnalysis: analysis.faceAnalysis,
+    mediaProbe: analysis.mediaProbe,
+    provenance: analysis.provenance,
+    metadataAnalysis: analysis.metadataAnalysis,
+    features: analysis.features,
+    forensicMaps: analysis.forensicMaps,
+    verdict: analysis.verdict,
+    media: { ...result.storedMedia, ...analysis.previews },
+    createdAt: new Date(),
+  });
+
+  // A scan waiting on FakeCatcher alone is finished by the reconciler, which settles the item then.
+  if (analysis.status === "PROCESSING") {
+    await Batch.updateOne(
+      { batchId: batch.batchId, "items.index": item.index },
+      {
+        $set: { "items.$.fileName": result.fileName, "items.$.fileType": result.fileType, "items.$.scanId": scanId },
+        $unset: { "items.$.filePath": 1 },
+      }
+    );
+    return;
+  }
+
+  await Batch.updateOne(
+    { batchId: batch.batchId, items: { $elemMatch: { index: item.index, status: { $ne: "DONE" } } } },
+    {
+      $set: {
+        "items.$.status": "DONE",
+        "items.$.fileName": result.fileName,
+        "items.$.fileType": result.fileType,
+        "items.$.scanId": scanId,
+        "items.$.verdict": analysis.status,
+        "items.$.confidenceScore": analysis.confidenceScore,
+        "items.$.finishedAt": new Date(),
+      },
+      $unset: { "items.$.filePath": 1, "items.$.error": 1 },
+      $inc: { completed: 1 },
+    }
+  );
+}
+
+/** Items still PROCESSING with a scan are waiting on FakeCatcher; any other unfinished item has no result coming. */
+function isAwaitingScan(item: IBatchItem) {
+  return item.status === "PROCESSING" && Boolean(item.scanId);
+}
+
+/** Fails every unfinished item that has no result coming, so it is counted and refunded. */
+async function failUnfinishedItems(batch: IBatch, reason: string) {
+  const unfinished = batch.items.filter((item) => (item.status === "QUEUED" || item.status === "PROCESSING") && !isAwaitingScan(item));
+  if (unfinished.length === 0) return;
+
+  await Batch.updateOne(
+    { batchId: batch.batchId },
+    {
+      $set: { "items.$[item].status": "ERROR", "items.$[item].error": reason, "items.$[item].finishedAt": new Date() },
+      $unset: { "items.$[item].filePath": 1 },
+      $inc: { failed: unfinished.length },
+    },
+    { arrayFilters: [{ "item.status": { $in: ["QUEUED", "PROCESSING"] }, "item.scanId": { $exists: false } }] }
+  );
+  await Promise.all(unfinished.map((item) => item.filePath ? rm(item.filePath, { force: true }).catch(() => {}) : undefined));
+}
+
+/**
+ * Refunds the credit of every failed item (once, tracked by creditsRefunded),
+ * stores the summary and settles the batch status. A batch with items still
+ * running, such as scans waiting on FakeCatcher, stays PROCESSING.
+ */
+export async function finalizeBatch(batchId: string) {
+  const batch = await Batch.findOne({ batchId }) as IBatch | null;
+  if (!batch) return null;
+
+  const failed = batch.items.filter((item) => item.status === "ERROR").length;
+  const toRefund = Math.min(failed, batch.creditsReserved) - batch.creditsRefunded;
+  if (toRefund > 0) {
+    const claimed = await Batch.updateOne(
+      { batchId, creditsRefunded: batch.creditsRefunded },
+      { $inc: { creditsRefunded: toRefund } }
+    );
+    if (claimed.modifiedCount === 1) await refundUserCredits(batch.userId, toRefund);
+  }
+
+  const completed = batch.items.filter((item) => item.status === "DONE").length;
+  const running = batch.items.some((item) => item.status === "QUEUED" || item.status === "PROCESSING");
+  const status = running ? "PROCESSING" : failed === 0 ? "COMPLETED" : failed === batch.total ? "FAILED" : "PARTIAL";
+  await Batch.updateOne(
+    { batchId },
+    { status, summary: summarizeBatch(batch.items), completed, failed, ...(running ? {} : { completedAt: new Date() }) }
+  );
+  return status;
+}
+
+/**
+ * Records the outcome of a batch scan the FakeCatcher reconciler finished, and
+ * settles the batch once no scan of it is waiting any longer. A failed scan is
+ * refunded here, as part of the batch's reserved credits.
+ */
+export async function settleBatchScan(
+  batchId: string,
+  scanId: string,
+  outcome: { verdict: string; confidenceScore: number } | { error: string }
+) {
+  await connectToDatabase();
+  const settled = await Batch.updateOne(
+    { batchId, items: { $elemMatch: { scanId, status: "PROCESSING" } } },
+    "error" in outcome
+      ? {
+        $set: { "items.$.status": "ERROR", "items.$.error": outcome.error, "items.$.finishedAt": new Date() },
+        $inc: { failed: 1 },
+      }
+      : {
+        $set: {
+          "items.$.status": "DONE",
+          "items.$.verdict": outcome.verdict,
+          "items.$.confidenceScore": outcome.confidenceScore,
+          "items.$.finishedAt": new Date(),
+        },
+        $inc: { completed: 1 },
+      }
+  );
+  if (settled.modifiedCount === 1) await finalizeBatch(batchId);
+}
+
+/** Scans every unfinished item of a batch; safe to re-run after a crash or retry. */
+export async function runBatch(batchId: string, options: { videoSampling?: VideoSamplingOptions } = {}) {
+  await connectToDatabase();
+  const batch = await Batch.findOne({ batchId }) as IBatch | null;
+  if (!batch) throw new Error(`Batch ${batchId} not found`);
+
+  const pending = batch.items
+    .map((item, position) => ({ item, position }))
+    .filter(({ item }) => (item.status === "QUEUED" || item.status === "PROCESSING") && !isAwaitingScan(item));
+
+  if (pending.length > 0) {
+    await Batch.updateOne(
+      { batchId },
+      { $set: { "items.$[item].status": "PROCESSING" } },
+      { arrayFilters: [{ "item.status": "QUEUED" }] }
+    );
+
+    await verifyMediaBulk(
+      pending.map(({ item }) => ({ filePath: item.filePath, url: item.url, fileName: item.fileName })),
+      BATCH_CONCURRENCY,
+      {
+        videoSampling: options.videoSampling,
+        onResult: async (result) => {
+          const { item, position } = pending[result.index];
+          try {
+            await recordItemResult(batch, result, position);
+          } finally {
+            if (item.filePath) await rm(item.filePath, { force: true }).catch(() => {});
+          }
+        },
+      }
+    );
+
+    // An item whose result could not be recorded would otherwise stay PROCESSING and never be refunded.
+    const scanned = await Batch.findOne({ batchId }) as IBatch | null;
+    if (scanned) await failUnfinishedItems(scanned, "Result could not be recorded");
+  }
+
+  return finalizeBatch(batchId);
+}
+
+/** Used when the batch job exhausts its retries: unfinished items fail and are refunded. */
+export async function failBatch(batchId: string, reason: string) {
+  await connectToDatabase();
+  const batch = await Batch.findOne({ batchId }) as IBatch | null;
+  if (!batch) return;
+
+  await failUnfinishedItems(batch, reason);
+  await finalizeBatch(batchId);
+}
@@ -0,0 +1,756 @@
+import { constants, createHash, verify as verifySignature, X509Certificate } from "crypto";
+import { readFileSync } from "fs";
+import { open, type FileHandle } from "fs/promises";
+import { isMediaFile, type MediaInput } from "./mediaInput";
+
+// Comma-separated PEM bundles of trusted C2PA signing roots (and any end-entity certificates trusted directly).
+const C2PA_TRUST_LIST = process.env.C2PA_TRUST_LIST || "";
+// Manifest stores are kilobytes to a few megabytes; anything larger is treated as malformed rather than buffered.
+const MAX_MANIFEST_BYTES = 32 * 1024 * 1024;
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const C2PA_BMFF_UUID = Buffer.from("d8fec3d61b0e483c92975828877ec481", "hex");
+
+/**
+ * "valid": signed by a trusted credential and bound to these exact bytes.
+ * "untrusted": intact and bound, but the signer is not on the trust list (or its certificate has expired).
+ * "invalid": the signature, an assertion or the hard binding does not match, i.e. the file or manifest was altered.
+ */
+export type ProvenanceState = "absent" | "valid" | "untrusted" | "invalid";
+
+export type ProvenanceCheck = { code: string; passed: boolean; explanation?: string };
+
+export type ProvenanceAction = { action: string; softwareAgent?: string; digitalSourceType?: string; when?: string };
+
+export type ProvenanceRecord = {
+  state: ProvenanceState;
+  manifestLabel?: string;
+  claimGenerator?: string;
+  title?: string;
+  format?: string;
+  signer?: {
+    commonName?: string;
+    organization?: string;
+    issuer?: string;
+    serialNumber?: string;
+    validFrom?: string;
+    validTo?: string;
+  };
+  signatureAlgorithm?: string;
+  actions: ProvenanceAction[];
+  /** Manifests of earlier versions of the asset carried in the same store. */
+  ingredientCount?: number;
+  /** Validation status codes as named in the C2PA specification, e.g. "assertion.dataHash.mismatch". */
+  checks: ProvenanceCheck[];
+  verifiedAt: string;
+};
+
+class ManifestFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestFormatError";
+  }
+}
+
+// Failing any of these means the bytes or the manifest changed after signing.
+const TAMPER_CODES = new Set([
+  "claim.missing",
+  "claim.malformed",
+  "claimSignature.mismatch",
+  "signingCredential.invalid",
+  "assertion.missing",
+  "assertion.hashedURI.mismatch",
+  "assertion.dataHash.mismatch",
+  "assertion.bmffHash.mismatch",
+  "claim.hardBindings.missing",
+  "algorithm.unsupported",
+]);
+
+const COSE_ALGORITHMS: Record<number, { name: string; hash: string | null; kind: "ecdsa" | "pss" | "eddsa" }> = {
+  [-7]: { name: "ES256", hash: "sha256", kind: "ecdsa" },
+  [-35]: { name: "ES384", hash: "sha384", kind: "ecdsa" },
+  [-36]: { name: "ES512", hash: "sha512", kind: "ecdsa" },
+  [-37]: { name: "PS256", hash: "sha256", kind: "pss" },
+  [-38]: { name: "PS384", hash: "sha384", kind: "pss" },
+  [-39]: { name: "PS512", hash: "sha512", kind: "pss" },
+  [-8]: { name: "Ed25519", hash: null, kind: "eddsa" },
+};
+
+const HASH_ALGORITHMS = ["sha256", "sha384", "sha512"];
+
+// --- Byte access -----------------------------------------------------------
+
+type ByteSource = { size: number; read: (offset: number, length: number) => Promise<Buffer> };
+
+function bufferSource(buffer: Buffer): ByteSource {
+  return { size: buffer.length, read: async (offset, length) => buffer.subarray(offset, Math.min(buffer.length, offset + length)) };
+}
+
+async function fileSource(handle: FileHandle): Promise<ByteSource> {
+  const { size } = await handle.stat();
+  return {
+    size,
+    read: async (offset, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+      return buffer.subarray(0, bytesRead);
+    },
+  };
+}
+
+async function readBounded(source: ByteSource, offset: number, length: number) {
+  if (length > MAX_MANIFEST_BYTES || offset + length > source.size) throw new ManifestFormatError("Manifest store is truncated or too large");
+  return source.read(offset, length);
+}
+
+/** Hashes the whole source except the given byte ranges, in order. */
+async function hashExcluding(source: ByteSource, alg: string, exclusions: Array<{ start: number; length: number }>) {
+  const hash = createHash(alg);
+  let position = 0;
+  const hashUntil = async (end: number) => {
+    while (position < end) {
+      const chunk = await source.read(position, Math.min(HASH_CHUNK_BYTES, end - position));
+      if (chunk.length === 0) break;
+      hash.update(chunk);
+      position += chunk.length;
+    }
+  };
+  for (const exclusion of [...exclusions].sort((a, b) => a.start - b.start)) {
+    await hashUntil(exclusion.start);
+    position = Math.max(position, exclusion.start + exclusion.length);
+  }
+  await hashUntil(source.size);
+  return hash.digest();
+}
+
+// --- CBOR ------------------------------------------------------------------
+
+type CborValue = number | string | boolean | null | undefined | Buffer | CborValue[] | { [key: string]: CborValue };
+type CborMap = { [key: string]: CborValue };
+
+function halfToFloat(half: number) {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder for claims, assertions and COSE structures.
+ * Map keys become strings (COSE's integer labels read as "1", "33"), tags are
+ * unwrapped and byte strings stay Buffers.
+ */
+function decodeCbor(data: Buffer): CborValue {
+  let offset = 0;
+  const need = (count: number) => {
+    if (offset + count > data.length) throw new ManifestFormatError("Truncated CBOR");
+  };
+  const readArgument = (info: number) => {
+    if (info < 24) return info;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) throw new ManifestFormatError("Unsupported CBOR encoding");
+    need(size);
+    const value = size === 1 ? data[offset] : size === 2 ? data.readUInt16BE(offset) : size === 4 ? data.readUInt32BE(offset) : Number(data.readBigUInt64BE(offset));
+    offset += size;
+    return value;
+  };
+  const isBreak = () => {
+    need(1);
+    if (data[offset] !== 0xff) return false;
+    offset++;
+    return true;
+  };
+
+  const item = (): CborValue => {
+    need(1);
+    const initial = data[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      if (info === 23) return undefined;
+      if (info === 25) { need(2); offset += 2; return halfToFloat(data.readUInt16BE(offset - 2)); }
+      if (info === 26) { need(4); offset += 4; return data.readFloatBE(offset - 4); }
+      if (info === 27) { need(8); offset += 8; return data.readDoubleBE(offset - 8); }
+      throw new ManifestFormatError("Unsupported CBOR simple value");
+    }
+
+    if (info === 31 && (major === 4 || major === 5)) {
+      if (major === 4) {
+        const items: CborValue[] = [];
+        while (!isBreak()) items.push(item());
+        return items;
+      }
+      const map: CborMap = {};
+      while (!isBreak()) map[String(item())] = item();
+      return map;
+    }
+
+    const argument = readArgument(info);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+      case 3: {
+        need(argument);
+        const bytes = data.subarray(offset, offset + argument);
+        offset += argument;
+        return major === 2 ? bytes : bytes.toString("utf8");
+      }
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; i < argument; i++) items.push(item());
+        return items;
+      }
+      case 5: {
+        const map: CborMap = {};
+        for (let i = 0; i < argument; i++) map[String(item())] = item();
+        return map;
+      }
+      default:
+        return item(); // tag: the tagged item is all we need
+    }
+  };
+
+  return item();
+}
+
+function asMap(value: CborValue): CborMap {
+  return value && typeof value === "object" && !Array.isArray(value) && !Buffer.isBuffer(value) ? value : {};
+}
+
+function asString(value: CborValue) {
+  return typeof value === "string" ? value : undefined;
+}
+
+function cborHead(major: number, length: number) {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = (major << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+  const head = Buffer.alloc(5);
+  head[0] = (major << 5) | 26;
+  head.writeUInt32BE(length, 1);
+  return head;
+}
+
+/** COSE Sig_structure for a Sign1 message with a detached payload and no external AAD. */
+function sigStructure(protectedHeader: Buffer, payload: Buffer) {
+  const context = Buffer.from("Signature1");
+  return Buffer.concat([
+    cborHead(4, 4),
+    cborHead(3, context.length), context,
+    cborHead(2, protectedHeader.length), protectedHeader,
+    cborHead(2, 0),
+    cborHead(2, payload.length), payload,
+  ]);
+}
+
+// --- JUMBF -----------------------------------------------------------------
+
+type RawBox = { type: string; payload: Buffer; raw: Buffer };
+
+type JumbfBox = {
+  /** First four characters of the description box's content type UUID, e.g. "c2ma" for a manifest. */
+  type: string;
+  label: string;
+  children: JumbfBox[];
+  content: Array<{ type: string; data: Buffer }>;
+  /** Everything after the superbox's own header; this is what hashed URIs cover. */
+  payload: Buffer;
+};
+
+function readBoxes(data: Buffer) {
+  const boxes: RawBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    let size = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > data.length) throw new ManifestFormatError(`Malformed ${type} box`);
+      size = Number(data.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = data.length - offset;
+    }
+    if (size < header || offset + size > data.length) throw new ManifestFormatError(`Malformed ${type} box`);
+    boxes.push({ type, payload: data.subarray(offset + header, offset + size), raw: data.subarray(offset, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function parseSuperbox(payload: Buffer): JumbfBox {
+  const [description, ...rest] = readBoxes(payload);
+  if (description?.type !== "jumd" || description.payload.length < 17) throw new ManifestFormatError("JUMBF superbox has no description");
+  const descriptor = description.payload;
+  const toggles = descriptor[16];
+  let label = "";
+  if (toggles & 0x02) {
+    const end = descriptor.indexOf(0, 17);
+    label = descriptor.toString("utf8", 17, end < 0 ? descriptor.length : end);
+  }
+
+  const box: JumbfBox = { type: descriptor.toString("latin1", 0, 4), label, children: [], content: [], payload };
+  for (const child of rest) {
+    if (child.type === "jumb") box.children.push(parseSuperbox(child.payload));
+    else box.content.push({ type: child.type, data: child.payload });
+  }
+  return box;
+}
+
+function isManifestStore(data: Buffer) {
+  return data.length > 24 && data.toString("latin1", 4, 8) === "jumb" && data.toString("latin1", 12, 16) === "jumd" && data.toString("latin1", 16, 20) === "c2pa";
+}
+
+/** Follows a "self#jumbf=" reference, either absolute from the store or relative to the manifest. */
+function resolveJumbfUri(store: JumbfBox, manifest: JumbfBox, uri: string) {
+  const reference = uri.replace(/^self#jumbf=/, "");
+  const segments = reference.split("/").filter(Boolean);
+  let node: JumbfBox | undefined = manifest;
+  if (reference.startsWith("/")) node = segments.shift() === store.label ? store : undefined;
+  for (const segment of segments) node = node?.children.find((child) => child.label === segment);
+  return node;
+}
+
+function cborContent(box: JumbfBox | undefined) {
+  const data = box?.content.find((c) => c.type === "cbor")?.data;
+  return data ? decodeCbor(data) : undefined;
+}
+
+// --- Locating the manifest store ---------------------------------------------
+
+async function findInJpeg(source: ByteSource) {
+  // APP11 segments carry the store in pieces, grouped by box instance and ordered by sequence number.
+  const instances = new Map<number, Buffer[]>();
+  let offset = 2;
+  while (offset + 4 <= source.size) {
+    const header = await source.read(offset, 4);
+    if (header[0] !== 0xff) break;
+    const marker = header[1];
+    if (marker === 0xff) { offset += 1; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { offset += 2; continue; }
+    // Metadata segments all precede the scan data.
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = header.readUInt16BE(2);
+    if (marker === 0xeb && length > 10) {
+      const segment = await source.read(offset + 4, length - 2);
+      if (segment.toString("latin1", 0, 2) === "JP") {
+        const instance = segment.readUInt16BE(2);
+        const sequence = segment.readUInt32BE(4);
+        let body = segment.subarray(8);
+        // Continuation segments repeat the superbox header (LBox and TBox, plus XLBox when LBox is 1).
+        if (sequence > 1 && body.length >= 8) body = body.subarray(body.readUInt32BE(0) === 1 ? 16 : 8);
+        instances.set(instance, [...(instances.get(instance) || []), body]);
+      }
+    }
+    offset += 2 + length;
+  }
+  for (const parts of instances.values()) {
+    const store = Buffer.concat(parts);
+    if (isManifestStore(store)) return store;
+  }
+  return null;
+}
+
+async function findInPng(source: ByteSource) {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 8);
+    const length = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    if (type === "caBX") return readBounded(source, offset + 8, length);
+    if (type === "IEND") break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+async function findInRiff(source: ByteSource) {
+  let offset = 12;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 8);
+    const length = header.readUInt32LE(4);
+    if (header.toString("latin1", 0, 4) === "C2PA") return readBounded(source, offset + 8, length);
+    offset += 8 + length + (length % 2);
+  }
+  return null;
+}
+
+type TopLevelBox = { type: string; offset: number; size: number; headerSize: number };
+
+async function readTopLevelBoxes(source: ByteSource) {
+  const boxes: TopLevelBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    let size = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (size === 1 && header.length >= 16) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = source.size - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: header.toString("latin1", 4, 8), offset, size, headerSize });
+    offset += size;
+  }
+  return boxes;
+}
+
+async function findInBmff(source: ByteSource) {
+  for (const box of await readTopLevelBoxes(source)) {
+    if (box.type !== "uuid") continue;
+    const userType = await source.read(box.offset + box.headerSize, 16);
+    if (!userType.equals(C2PA_BMFF_UUID)) continue;
+    const body = await readBounded(source, box.offset + box.headerSize + 16, box.size - box.headerSize - 16);
+    // Version and flags, a null-terminated purpose, then for "manifest" an 8-byte Merkle offset before the store.
+    const purposeEnd = body.indexOf(0, 4);
+    if (purposeEnd < 0 || body.toString("latin1", 4, purposeEnd) !== "manifest") continue;
+    return body.subarray(purposeEnd + 1 + 8);
+  }
+  return null;
+}
+
+async function findManifestStore(source: ByteSource) {
+  const head = await source.read(0, 12);
+  if (head[0] === 0xff && head[1] === 0xd8) return findInJpeg(source);
+  if (head.subarray(0, 8).equals(PNG_SIGNATURE)) return findInPng(source);
+  if (head.toString("latin1", 0, 4) === "RIFF") return findInRiff(source);
+  if (head.toString("latin1", 4, 8) === "ftyp") return findInBmff(source);
+  return null;
+}
+
+// --- Hard bindings -----------------------------------------------------------
+
+async function checkDataHash(source: ByteSource, assertion: CborMap, claimAlg: string): Promise<ProvenanceCheck> {
+  const alg = asString(assertion.alg) || claimAlg;
+  if (!HASH_ALGORITHMS.includes(alg)) return { code: "algorithm.unsupported", passed: false, explanation: `Data hash algorithm ${alg}` };
+  const exclusions = (Array.isArray(assertion.exclusions) ? assertion.exclusions : []).map((entry) => {
+    const range = asMap(entry);
+    return { start: Number(range.start) || 0, length: Number(range.length) || 0 };
+  });
+  const expected = assertion.hash;
+  const actual = await hashExcluding(source, alg, exclusions);
+  return Buffer.isBuffer(expected) && actual.equals(expected)
+    ? { code: "assertion.dataHash.match", passed: true }
+    : { code: "assertion.dataHash.mismatch", passed: false, explanation: "The file's bytes differ from the ones that were signed" };
+}
+
+async function checkBmffHash(source: ByteSource, assertion: CborMap, claimAlg: string, version: number): Promise<ProvenanceCheck> {
+  const alg = asString(assertion.alg) || claimAlg;
+  if (!HASH_ALGORITHMS.includes(alg)) return { code: "algorithm.unsupported", passed: false, explanation: `BMFF hash algorithm ${alg}` };
+  // Fragmented files are bound through per-fragment Merkle trees, which are not evaluated here.
+  if (assertion.merkle || !Buffer.isBuffer(assertion.hash)) {
+    return { code: "assertion.bmffHash.unsupported", passed: false, explanation: "Fragmented MP4 bindings are not verified" };
+  }
+
+  const rules = (Array.isArray(assertion.exclusions) ? assertion.exclusions : []).map(asMap);
+  if (rules.some((rule) => (asString(rule.xpath) || "").split("/").filter(Boolean).length !== 1)) {
+    return { code: "assertion.bmffHash.unsupported", passed: false, explanation: "Exclusions below the top level are not verified" };
+  }
+
+  const boxes = await readTopLevelBoxes(source);
+  const excluded: TopLevelBox[] = [];
+  for (const box of boxes) {
+    const rule = await Promise.all(rules.map(async (candidate) => {
+      if (asString(candidate.xpath) !== `/${box.type}`) return false;
+      // "data" constraints pin the exclusion to boxes with given bytes, e.g. the C2PA uuid.
+      for (const constraint of (Array.isArray(candidate.data) ? candidate.data : []).map(asMap)) {
+        const value = constraint.value;
+        if (!Buffer.isBuffer(value)) return false;
+        const actual = await source.read(box.offset + (Number(constraint.offset) || 0), value.length);
+        if (!actual.equals(value)) return false;
+      }
+      return true;
+    }));
+    if (rule.some(Boolean)) excluded.push(box);
+  }
+
+  const hash = createHash(alg);
+  for (const box of boxes) {
+    if (excluded.includes(box)) continue;
+    // From v2 on, each hashed box is preceded by its file offset so boxes cannot be reordered.
+    if (version >= 2) {
+      const offset = Buffer.alloc(8);
+      offset.writeBigUInt64BE(BigInt(box.offset));
+      hash.update(offset);
+    }
+    for (let position = box.offset; position < box.offset + box.size; position += HASH_CHUNK_BYTES) {
+      hash.update(await source.read(position, Math.min(HASH_CHUNK_BYTES, box.offset + box.size - position)));
+    }
+  }
+
+  return hash.digest().equals(assertion.hash)
+    ? { code: "assertion.bmffHash.match", passed: true }
+    : { code: "assertion.bmffHash.mismatch", passed: false, explanation: "The file's boxes differ from the ones that were signed" };
+}
+
+// --- Signature and trust -------------------------------------------------------
+
+let trustAnchors: X509Certificate[] | null = null;
+
+/** Certificates from C2PA_TRUST_LIST, loaded once per process. */
+function getTrustAnchors() {
+  if (!trustAnchors) {
+    trustAnchors = [];
+    for (const file of C2PA_TRUST_LIST.split(",").map((f) => f.trim()).filter(Boolean)) {
+      try {
+        const pem = readFileSync(file, "utf8");
+        for (const block of pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || []) {
+          trustAnchors.push(new X509Certificate(block));
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable C2PA trust list ${file}:`, error);
+      }
+    }
+  }
+  return trustAnchors;
+}
+
+function distinguishedName(value: string) {
+  const fields: Record<string, string> = {};
+  for (const line of value.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator > 0) fields[line.slice(0, separator)] = line.slice(separator + 1);
+  }
+  return fields;
+}
+
+function checkSignature(protectedHeader: Buffer, signature: Buffer, claimBytes: Buffer, alg: number, signer: X509Certificate) {
+  const algorithm = COSE_ALGORITHMS[alg];
+  const data = sigStructure(protectedHeader, claimBytes);
+  try {
+    if (algorithm.kind === "ecdsa") return verifySignature(algorithm.hash, data, { key: signer.publicKey, dsaEncoding: "ieee-p1363" }, signature);
+    if (algorithm.kind === "pss") {
+      return verifySignature(algorithm.hash, data, {
+        key: signer.publicKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      }, signature);
+    }
+    return verifySignature(null, data, signer.publicKey, signature);
+  } catch {
+    return false;
+  }
+}
+
+function checkCredential(chain: X509Certificate[]): ProvenanceCheck[] {
+  const checks: ProvenanceCheck[] = [];
+  for (let i = 0; i < chain.length - 1; i++) {
+    if (!chain[i].checkIssued(chain[i + 1]) || !chain[i].verify(chain[i + 1].publicKey)) {
+      return [{ code: "signingCredential.invalid", passed: false, explanation: `${chain[i].subject.replace(/\n/g, ", ")} is not signed by the next certificate in the chain` }];
+    }
+  }
+
+  const signer = chain[0];
+  const now = Date.now();
+  if (now < new Date(signer.validFrom).getTime() || now > new Date(signer.validTo).getTime()) {
+    // Time-stamp tokens are not evaluated, so a certificate that expired after signing still counts against trust.
+    checks.push({ code: "signingCredential.expired", passed: false, explanation: `Certificate valid ${signer.validFrom} to ${signer.validTo}` });
+  }
+
+  const anchors = getTrustAnchors();
+  const last = chain[chain.length - 1];
+  const trusted = anchors.some((anchor) =>
+    chain.some((cert) => cert.fingerprint256 === anchor.fingerprint256)
+    || (last.checkIssued(anchor) && last.verify(anchor.publicKey)));
+  checks.push(trusted
+    ? { code: "signingCredential.trusted", passed: true }
+    : { code: "signingCredential.untrusted", passed: false, explanation: anchors.length ? "The signer does not chain to the configured trust list" : "No C2PA trust list is configured" });
+  return checks;
+}
+
+// --- Verification --------------------------------------------------------------
+
+function claimGeneratorName(claim: CborMap) {
+  const info = Array.isArray(claim.claim_generator_info) ? asMap(claim.claim_generator_info[0]) : asMap(claim.claim_generator_info);
+  const fromInfo = [asString(info.name), asString(info.version)].filter(Boolean).join(" ");
+  return asString(claim.claim_generator) || fromInfo || undefined;
+}
+
+function readActions(box: JumbfBox): ProvenanceAction[] {
+  const actions = asMap(cborContent(box) ?? null).actions;
+  return (Array.isArray(actions) ? actions : []).map(asMap).map((entry) => {
+    const agent = entry.softwareAgent;
+    const agentName = typeof agent === "string" ? agent : [asString(asMap(agent ?? null).name), asString(asMap(agent ?? null).version)].filter(Boolean).join(" ");
+    return {
+      action: asString(entry.action) || "unknown",
+      ...(agentName ? { softwareAgent: agentName } : {}),
+      ...(asString(entry.digitalSourceType) ? { digitalSourceType: asString(entry.digitalSourceType) } : {}),
+      ...(asString(entry.when) ? { when: asString(entry.when) } : {}),
+    };
+  });
+}
+
+/** Labels may carry an instance suffix, e.g. "c2pa.actions__1". */
+function baseLabel(label: string) {
+  return label.replace(/__\d+$/, "");
+}
+
+async function verifyManifestStore(storeBytes: Buffer, source: ByteSource): Promise<ProvenanceRecord> {
+  const verifiedAt = new Date().toISOString();
+  const checks: ProvenanceCheck[] = [];
+  const record: ProvenanceRecord = { state: "invalid", actions: [], checks, verifiedAt };
+
+  const [storeBox] = readBoxes(storeBytes);
+  const store = parseSuperbox(storeBox.payload);
+  const manifests = store.children.filter((child) => child.type === "c2ma" || child.type === "c2um");
+  // The active manifest is the last one; earlier ones describe ingredients.
+  const manifest = manifests[manifests.length - 1];
+  if (!manifest) throw new ManifestFormatError("Manifest store contains no manifest");
+  record.manifestLabel = manifest.label;
+  record.ingredientCount = manifests.length - 1;
+
+  const claimBox = manifest.children.find((child) => child.type === "c2cl");
+  const claimBytes = claimBox?.content.find((c) => c.type === "cbor")?.data;
+  const signatureBytes = manifest.children.find((child) => child.type === "c2cs")?.content.find((c) => c.type === "cbor")?.data;
+  if (!claimBytes || !signatureBytes) {
+    checks.push({ code: "claim.missing", passed: false, explanation: "The active manifest has no claim or claim signature" });
+    return record;
+  }
+
+  const claim = asMap(decodeCbor(claimBytes));
+  const claimAlg = asString(claim.alg) || "sha256";
+  record.claimGenerator = claimGeneratorName(claim);
+  record.title = asString(claim["dc:title"]) || asString(claim.title);
+  record.format = asString(claim["dc:format"]);
+
+  // --- Claim signature (COSE_Sign1 with the claim as detached payload)
+  const cose = decodeCbor(signatureBytes);
+  if (!Array.isArray(cose) || cose.length !== 4 || !Buffer.isBuffer(cose[0]) || !Buffer.isBuffer(cose[3])) {
+    checks.push({ code: "claim.malformed", passed: false, explanation: "Claim signature is not a COSE_Sign1 structure" });
+    return record;
+  }
+  const protectedHeader = cose[0];
+  const protectedMap = protectedHeader.length ? asMap(decodeCbor(protectedHeader)) : {};
+  const unprotectedMap = asMap(cose[1]);
+  const alg = Number(protectedMap["1"]);
+  const x5chain = protectedMap["33"] ?? unprotectedMap["33"] ?? unprotectedMap.x5chain;
+  const chainDer = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter((der): der is Buffer => Buffer.isBuffer(der));
+  if (!COSE_ALGORITHMS[alg]) {
+    checks.push({ code: "algorithm.unsupported", passed: false, explanation: `COSE algorithm ${protectedMap["1"]}` });
+    return record;
+  }
+  if (chainDer.length === 0) {
+    checks.push({ code: "signingCredential.invalid", passed: false, explanation: "The signature carries no certificate chain" });
+    return record;
+  }
+
+  let chain: X509Certificate[];
+  try {
+    chain = chainDer.map((der) => new X509Certificate(der));
+  } catch {
+    throw new ManifestFormatError("The signing certificate chain cannot be parsed");
+  }
+  const signer = chain[0];
+  const subject = distinguishedName(signer.subject);
+  const issuer = distinguishedName(signer.issuer);
+  record.signatureAlgorithm = COSE_ALGORITHMS[alg].name;
+  record.signer = {
+    commonName: subject.CN,
+    organization: subject.O,
+    issuer: issuer.O || issuer.CN,
+    serialNumber: signer.serialNumber,
+    validFrom: new Date(signer.validFrom).toISOString(),
+    validTo: new Date(signer.validTo).toISOString(),
+  };
+
+  checks.push(checkSignature(protectedHeader, cose[3], claimBytes, alg, signer)
+    ? { code: "claimSignature.validated", passed: true }
+    : { code: "claimSignature.mismatch", passed: false, explanation: "The claim signature does not verify against the signing certificate" });
+  checks.push(...checkCredential(chain));
+
+  // --- Assertions referenced by the claim, each pinned by a hash of its JUMBF box
+  const references = [
+    ...(Array.isArray(claim.assertions) ? claim.assertions : []),
+    ...(Array.isArray(claim.created_assertions) ? claim.created_assertions : []),
+    ...(Array.isArray(claim.gathered_assertions) ? claim.gathered_assertions : []),
+  ].map(asMap);
+
+  let hardBindings = 0;
+  for (const reference of references) {
+    const url = asString(reference.url) || "";
+    const box = resolveJumbfUri(store, manifest, url);
+    if (!box) {
+      checks.push({ code: "assertion.missing", passed: false, explanation: url });
+      continue;
+    }
+    const alg = asString(reference.alg) || claimAlg;
+    if (!HASH_ALGORITHMS.includes(alg)) {
+      checks.push({ code: "algorithm.unsupported", passed: false, explanation: `Assertion hash algorithm ${alg}` });
+      continue;
+    }
+    const expected = reference.hash;
+    if (!Buffer.isBuffer(expected) || !createHash(alg).update(box.payload).digest().equals(expected)) {
+      checks.push({ code: "assertion.hashedURI.mismatch", passed: false, explanation: box.label });
+      continue;
+    }
+
+    const label = baseLabel(box.label);
+    if (label === "c2pa.actions" || label === "c2pa.actions.v2") {
+      record.actions.push(...readActions(box));
+    } else if (label === "c2pa.hash.data") {
+      hardBindings++;
+      checks.push(await checkDataHash(source, asMap(cborContent(box) ?? null), claimAlg));
+    } else if (label === "c2pa.hash.bmff" || label === "c2pa.hash.bmff.v2" || label === "c2pa.hash.bmff.v3") {
+      hardBindings++;
+      const version = label === "c2pa.hash.bmff" ? 1 : parseInt(label.slice(-1), 10);
+      checks.push(await checkBmffHash(source, asMap(cborContent(box) ?? null), claimAlg, version));
+    } else if (label === "c2pa.hash.boxes" || label === "c2pa.hash.collection.data") {
+      hardBindings++;
+      checks.push({ code: "assertion.boxesHash.unsupported", passed: false, explanation: `${label} bindings are not verified` });
+    }
+  }
+  if (references.length && !checks.some((c) => c.code === "assertion.missing" || c.code === "assertion.hashedURI.mismatch")) {
+    checks.push({ code: "assertion.hashedURI.match", passed: true });
+  }
+  if (hardBindings === 0) {
+    checks.push({ code: "claim.hardBindings.missing", passed: false, explanation: "The claim is not bound to the file's bytes" });
+  }
+
+  const failed = checks.filter((c) => !c.passed);
+  record.state = failed.some((c) => TAMPER_CODES.has(c.code)) ? "invalid" : failed.length ? "untrusted" : "valid";
+  return record;
+}
+
+/**
+ * Looks for an embedded C2PA manifest store (JPEG APP11, PNG caBX, RIFF C2PA
+ * chunk or the BMFF C2PA uuid box) and validates the active manifest offline:
+ * the COSE claim signature, the certificate chain against C2PA_TRUST_LIST,
+ * every assertion's hashed URI and the hard binding to the file's bytes.
+ * Must be given the original upload; normalised or transcoded copies lose it.
+ */
+export async function verifyContentCredentials(media: MediaInput): Promise<ProvenanceRecord> {
+  const handle = isMediaFile(media) ? await open(media.filePath, "r") : null;
+  try {
+    const source = handle ? await fileSource(handle) : bufferSource(media as Buffer);
+    const storeBytes = await findManifestStore(source);
+    if (!storeBytes) return { state: "absent", actions: [], checks: [], verifiedAt: new Date().toISOString() };
+    return await verifyManifestStore(storeBytes, source);
+  } catch (error) {
+    if (!(error instanceof ManifestFormatError)) throw error;
+    return {
+      state: "invalid",
+      actions: [],
+      checks: [{ code: "claim.malformed", passed: false, explanation: error.message }],
+      verifiedAt: new Date().toISOString(),
+    };
+  } finally {
+    await handle?.close();
+  }
+}
@@ -0,0 +1,65 @@
+import { connectToDatabase } from "./db";
+import { User } from "./models/User";
+
+export const CREDIT_COST_PER_SCAN = 1;
+
+export async function consumeUserCredit(userId: string) {
+  await connectToDatabase();
+
+  const updatedUser = await User.findOneAndUpdate(
+    { clerkId: userId, credits: { $gte: CREDIT_COST_PER_SCAN } },
+    { $inc: { credits: -CREDIT_COST_PER_SCAN, creditsUsed: CREDIT_COST_PER_SCAN, scanCount: 1 } },
+    { new: true }
+  ).select("credits creditsUsed scanCount");
+
+  if (updatedUser) {
+    return { ok: true as const };
+  }
+
+  const existingUser = await User.findOne({ clerkId: userId }).select("_id");
+  if (!existingUser) {
+    return { ok: false as const, reason: "USER_NOT_FOUND" as const };
+  }
+
+  return { ok: false as const, reason: "INSUFFICIENT_CREDITS" as const };
+}
+
+export async function refundUserCredit(userId: string) {
+  await connectToDatabase();
+  await User.updateOne(
+    { clerkId: userId },
+    { $inc: { credits: CREDIT_COST_PER_SCAN, creditsUsed: -CREDIT_COST_PER_SCAN, scanCount: -1 } }
+  );
+}
+
+/** Takes credits for a whole batch in one atomic update, or none if the balance is short. */
+export async function reserveUserCredits(userId: string, count: number) {
+  await connectToDatabase();
+  const cost = count * CREDIT_COST_PER_SCAN;
+
+  const updatedUser = await User.findOneAndUpdate(
+    { clerkId: userId, credits: { $gte: cost } },
+    { $inc: { credits: -cost, creditsUsed: cost, scanCount: count } },
+    { new: true }
+  ).select("credits");
+
+  if (updatedUser) {
+    return { ok: true as const };
+  }
+
+  const existingUser = await User.findOne({ clerkId: userId }).select("_id");
+  if (!existingUser) {
+    return { ok: false as const, reason: "USER_NOT_FOUND" as const };
+  }
+
+  return { ok: false as const, reason: "INSUFFICIENT_CREDITS" as const };
+}
+
+export async function refundUserCredits(userId: string, count: number) {
+  if (count <= 0) return;
+  await connectToDatabase();
+  await User.updateOne(
+    { clerkId: userId },
+    { $inc: { credits: count * CREDIT_COST_PER_SCAN, creditsUsed: -count * CREDIT_COST_PER_SCAN, scanCount: -count } }
+  );
+}
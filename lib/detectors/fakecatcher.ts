@@ -0,0 +1,153 @@
+import { openAsBlob } from "fs";
+import { errorResult, timeHealthCheck, type DetectorAdapter } from "./types";
+
+const BACKEND_API_URL = (
+  process.env.BACKEND_API_URL ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  "https://facedetectionsystem.onrender.com"
+).replace(/\/$/, "");
+const BACKEND_REQUEST_TIMEOUT_MS = Math.max(
+  5000,
+  parseInt(process.env.BACKEND_REQUEST_TIMEOUT_MS || "90000", 10)
+);
+
+export function buildFakecatcherUrl(path: string) {
+  return `${BACKEND_API_URL}/v1/video${path}`;
+}
+
+function parseBackendError(raw: string) {
+  try {
+    const parsed = JSON.parse(raw) as { error?: string; detail?: string; message?: string };
+    return parsed.error || parsed.detail || parsed.message || raw;
+  } catch {
+    return raw || "Backend error";
+  }
+}
+
+/** Submits a video, retrying once on network errors and 429/503 responses. */
+async function postVideoWithRetry(payload: FormData, attempts = 2) {
+  const url = buildFakecatcherUrl("/predict/video");
+  let lastStatus = 503;
+  let lastBody = "";
+
+  for (let i = 0; i < attempts; i++) {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        body: payload,
+        cache: "no-store",
+        signal: AbortSignal.timeout(BACKEND_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const err = error as { message?: string; cause?: { code?: string } };
+      const causeCode = err.cause?.code;
+      const timeoutLike =
+        causeCode === "UND_ERR_HEADERS_TIMEOUT" ||
+        causeCode === "UND_ERR_CONNECT_TIMEOUT" ||
+        causeCode === "ABORT_ERR";
+
+      lastStatus = timeoutLike ? 504 : 502;
+      lastBody = timeoutLike
+        ? `Backend request timed out after ${Math.round(BACKEND_REQUEST_TIMEOUT_MS / 1000)}s while calling ${url}.`
+        : `Failed to reach backend ${url}: ${err.message || "network error"}`;
+
+      if (i < attempts - 1) {
+        await new Promise((resolve) => setTimeout(resolve, 1200 * (i + 1)));
+        continue;
+      }
+
+      break;
+    }
+
+    const responseBody = await response.text();
+    if (response.ok) {
+      return { ok: true as const, status: response.status, body: responseBody };
+    }
+
+    lastStatus = response.status;
+    lastBody = responseBody;
+
+    const isTransient = response.status === 503 || response.status === 429;
+    if (!isTransient || i === attempts - 1) {
+      break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1200 * (i + 1)));
+  }
+
+  return { ok: false as const, status: lastStatus, body: lastBody };
+}
+
+export type FakecatcherJob = {
+  job_id: string;
+  status: "queued" | "processing" | "done" | "error";
+  filename?: string;
+  age_sec?: number;
+  result?: {
+    label?: "REAL" | "FAKE" | "UNCERTAIN" | string;
+    confidence?: number;
+    fake_prob?: number;
+    total_frames?: number;
+    face_pct?: number;
+    n_segments?: number;
+  };
+  error?: string | null;
+};
+
+/** Current state of a submitted job; null once the backend no longer knows it (expired or lost on restart). */
+export async function fetchFakecatcherJob(jobId: string): Promise<FakecatcherJob | null> {
+  const response = await fetch(buildFakecatcherUrl(`/jobs/${encodeURIComponent(jobId)}`), {
+    cache: "no-store",
+    signal: AbortSignal.timeout(Math.min(BACKEND_REQUEST_TIMEOUT_MS, 15000)),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`FakeCatcher job lookup returned ${response.status}: ${parseBackendError(await response.text())}`);
+  }
+  return (await response.json()) as FakecatcherJob;
+}
+
+/**
+ * Intel FakeCatcher (rPPG) behind the video backend. Jobs are queued remotely,
+ * so invoke returns PENDING with the job id and the label arrives later.
+ */
+export const fakecatcherDetector: DetectorAdapter = {
+  name: "fakecatcher",
+  model: "fakecatcher",
+  displayName: "fakecatcher-rppg",
+  capabilities: ["video"],
+
+  async invoke({ buffer, filePath, fileName }) {
+    // A file reference is streamed from disk rather than loaded into memory.
+    const file = buffer
+      ? new Blob([new Uint8Array(buffer)], { type: "video/mp4" })
+      : await openAsBlob(filePath as string, { type: "video/mp4" });
+    const payload = new FormData();
+    payload.append("file", file, fileName || "upload.mp4");
+
+    const response = await postVideoWithRetry(payload);
+    if (!response.ok) {
+      return errorResult(this.name, `FakeCatcher returned ${response.status}: ${parseBackendError(response.body)}`);
+    }
+
+    try {
+      const parsed = JSON.parse(response.body) as { job_id?: string };
+      if (!parsed.job_id) return errorResult(this.name, "FakeCatcher did not return a job ID");
+      return { detector: this.name, status: "PENDING", jobId: parsed.job_id };
+    } catch (error) {
+      return errorResult(this.name, error);
+    }
+  },
+
+  healthCheck() {
+    return timeHealthCheck(this.name, async () => {
+      const response = await fetch(buildFakecatcherUrl("/health"), {
+        cache: "no-store",
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) throw new Error(`FakeCatcher health returned ${response.status}`);
+    });
+  },
+};
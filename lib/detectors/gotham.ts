@@ -0,0 +1,85 @@
+import { SageMakerRuntimeClient, InvokeEndpointCommand } from "@aws-sdk/client-sagemaker-runtime";
+import { errorResult, inputBuffer, timeHealthCheck, type DetectorAdapter, type DetectorResult } from "./types";
+
+const SAGEMAKER_ENDPOINT_NAME = process.env.SAGEMAKER_ENDPOINT_NAME || "";
+const SAGEMAKER_AUDIO_ENDPOINT_NAME = process.env.SAGEMAKER_AUDIO_ENDPOINT_NAME || "";
+const SAGEMAKER_REGION = process.env.SAGEMAKER_REGION || "us-east-1";
+
+let sagemakerClient: SageMakerRuntimeClient | null = null;
+
+function getClient() {
+  if (!sagemakerClient) sagemakerClient = new SageMakerRuntimeClient({ region: SAGEMAKER_REGION });
+  return sagemakerClient;
+}
+
+async function invokeEndpoint(endpointName: string, contentType: string, body: Buffer) {
+  const command = new InvokeEndpointCommand({ EndpointName: endpointName, ContentType: contentType, Accept: "application/json", Body: body });
+  const response = await getClient().send(command);
+  return JSON.parse(Buffer.from(response.Body as Uint8Array).toString("utf-8")) as { label?: string; score?: number; confidence?: number };
+}
+
+/** The Swin endpoint scores one face crop or frame, already resized for the model. */
+export const gothamDetector: DetectorAdapter = {
+  name: "gotham",
+  model: "gotham",
+  displayName: "GothamSwinV3",
+  capabilities: ["image", "video"],
+
+  async invoke(input): Promise<DetectorResult> {
+    if (!SAGEMAKER_ENDPOINT_NAME) return errorResult(this.name, "SAGEMAKER_ENDPOINT_NAME not set");
+    try {
+      const parsed = await invokeEndpoint(SAGEMAKER_ENDPOINT_NAME, "application/x-image", await inputBuffer(input));
+      if (typeof parsed.score !== "number") return errorResult(this.name, "Gotham endpoint returned no score");
+      return {
+        detector: this.name,
+        status: "DONE",
+        score: parsed.score,
+        label: parsed.label,
+        confidence: parsed.confidence,
+      };
+    } catch (error) {
+      console.error("SageMaker invocation failed:", error);
+      return errorResult(this.name, error);
+    }
+  },
+
+  healthCheck() {
+    return timeHealthCheck(this.name, async () => {
+      if (!SAGEMAKER_ENDPOINT_NAME) throw new Error("SAGEMAKER_ENDPOINT_NAME not set");
+      await getClient().config.credentials();
+      return SAGEMAKER_ENDPOINT_NAME;
+    });
+  },
+};
+
+/** Voice-clone detector; expects one 16 kHz mono WAV segment per call. */
+export const gothamVoiceDetector: DetectorAdapter = {
+  name: "gotham-voice",
+  model: "audio",
+  displayName: "GothamVoiceSageMaker",
+  capabilities: ["audio"],
+
+  async invoke(input): Promise<DetectorResult> {
+    if (!SAGEMAKER_AUDIO_ENDPOINT_NAME) return errorResult(this.name, "SAGEMAKER_AUDIO_ENDPOINT_NAME not set");
+    try {
+      const parsed = await invokeEndpoint(SAGEMAKER_AUDIO_ENDPOINT_NAME, "audio/wav", await inputBuffer(input));
+      const score = Math.max(0, Math.min(1, typeof parsed.score === "number" ? parsed.score : 0.5));
+      return {
+        detector: this.name,
+        status: "DONE",
+        score,
+        label: parsed.label === "FAKE" ? "MANIPULATED" : parsed.label === "REAL" ? "AUTHENTIC" : "SUSPICIOUS",
+      };
+    } catch (error) {
+      return errorResult(this.name, error);
+    }
+  },
+
+  healthCheck() {
+    return timeHealthCheck(this.name, async () => {
+      if (!SAGEMAKER_AUDIO_ENDPOINT_NAME) throw new Error("SAGEMAKER_AUDIO_ENDPOINT_NAME not set");
+      await getClient().config.credentials();
+      return SAGEMAKER_AUDIO_ENDPOINT_NAME;
+    });
+  },
+};
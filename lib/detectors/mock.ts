@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import { hashMediaInput } from "../mediaInput";
+import type { DetectorAdapter, DetectorResult } from "./types";
+
+/** Stable pseudo-score in [0, 1) derived from the detector name and the content hash. */
+export function mockScore(seed: string, contentHash: string) {
+  const digest = createHash("sha256").update(seed).update(contentHash).digest();
+  return Math.round((digest.readUInt32BE(0) / 0x100000000) * 1000) / 1000;
+}
+
+function mockLabel(model: DetectorAdapter["model"], score: number) {
+  if (model === "realityDefender" || model === "audio") {
+    return score >= 0.65 ? "MANIPULATED" : score <= 0.35 ? "AUTHENTIC" : "SUSPICIOUS";
+  }
+  return score >= 0.5 ? "FAKE" : "REAL";
+}
+
+/**
+ * Offline stand-in for a real adapter: same capabilities and verdict family,
+ * no network, and the same input always yields the same result. FakeCatcher's
+ * mock completes synchronously instead of returning PENDING.
+ */
+export function createMockDetector(real: DetectorAdapter): DetectorAdapter {
+  const name = `mock-${real.name}`;
+  return {
+    name,
+    model: real.model,
+    displayName: `${real.displayName}Mock`,
+    capabilities: real.capabilities,
+
+    async invoke({ buffer, filePath }) {
+      const contentHash = await hashMediaInput(buffer ?? { filePath: filePath as string });
+      const score = mockScore(real.name, contentHash);
+      const result: DetectorResult = {
+        detector: name,
+        status: "DONE",
+        score,
+        label: mockLabel(real.model, score),
+        confidence: Math.round(Math.abs(score - 0.5) * 200) / 100,
+      };
+      if (real.model === "realityDefender") {
+        result.requestId = `mock-${contentHash.slice(0, 16)}`;
+        result.models = [
+          { name: "rd-context-img", status: mockLabel(real.model, mockScore("rd-context-img", contentHash)), score: mockScore("rd-context-img", contentHash) },
+          { name: "rd-img-ensemble", status: mockLabel(real.model, score), score },
+        ];
+      }
+      return result;
+    },
+
+    async healthCheck() {
+      return { detector: name, healthy: true, latencyMs: 0, message: "mock" };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import verifyMedia from "../realityDefender";
+import { errorResult, timeHealthCheck, type DetectorAdapter } from "./types";
+
+export const realityDefenderDetector: DetectorAdapter = {
+  name: "reality-defender",
+  model: "realityDefender",
+  displayName: "RealityDefender",
+  capabilities: ["image", "video", "audio"],
+
+  async invoke({ buffer, filePath, mediaType }) {
+    try {
+      const rd = await verifyMedia({ fileBuffer: buffer, filePath, fileType: mediaType });
+      return {
+        detector: this.name,
+        status: "DONE",
+        score: Math.max(0, Math.min(1, rd.score)),
+        label: rd.status,
+        requestId: rd.requestId,
+        models: rd.models,
+      };
+    } catch (error) {
+      return errorResult(this.name, error);
+    }
+  },
+
+  healthCheck() {
+    return timeHealthCheck(this.name, async () => {
+      if (!process.env.REALITY_DEFENDER_API_KEY) throw new Error("REALITY_DEFENDER_API_KEY not set");
+      await import("@realitydefender/realitydefender");
+    });
+  },
+};
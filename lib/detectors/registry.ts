@@ -0,0 +1,75 @@
+import type { MediaType } from "../scanPipeline";
+import { realityDefenderDetector } from "./realityDefender";
+import { gothamDetector, gothamVoiceDetector } from "./gotham";
+import { fakecatcherDetector } from "./fakecatcher";
+import { createMockDetector } from "./mock";
+import type { DetectorAdapter, DetectorHealth } from "./types";
+
+export type { DetectorAdapter, DetectorHealth, DetectorInput, DetectorResult } from "./types";
+
+// DETECTOR_MOCK=true swaps every configured detector for its deterministic mock
+// so the whole pipeline runs offline; "mock-<name>" in a list mocks just one.
+const DETECTOR_MOCK = (process.env.DETECTOR_MOCK || "false").toLowerCase() === "true";
+const AUDIO_DETECTOR = (process.env.AUDIO_DETECTOR || "realitydefender").toLowerCase();
+
+const DEFAULT_DETECTORS: Record<MediaType, string> = {
+  image: "reality-defender,gotham",
+  video: "gotham",
+  audio: AUDIO_DETECTOR === "sagemaker" ? "gotham-voice" : "reality-defender",
+};
+
+const REAL_DETECTORS = [realityDefenderDetector, gothamDetector, gothamVoiceDetector, fakecatcherDetector];
+
+const registry = new Map<string, DetectorAdapter>();
+for (const detector of REAL_DETECTORS) {
+  registry.set(detector.name, detector);
+  const mock = createMockDetector(detector);
+  registry.set(mock.name, mock);
+}
+
+export function getDetector(name: string): DetectorAdapter | undefined {
+  const adapter = registry.get(name);
+  if (adapter && DETECTOR_MOCK && !name.startsWith("mock-")) return registry.get(`mock-${name}`);
+  return adapter;
+}
+
+export function listDetectors(): DetectorAdapter[] {
+  return REAL_DETECTORS.map((detector) => getDetector(detector.name) as DetectorAdapter);
+}
+
+function configuredNames(mediaType: MediaType) {
+  const raw = process.env[`DETECTORS_${mediaType.toUpperCase()}`] || DEFAULT_DETECTORS[mediaType];
+  return raw.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/** Detectors configured for a media type, in config order; unknown or incapable entries are skipped. */
+export function getDetectorsFor(mediaType: MediaType): DetectorAdapter[] {
+  const selected: DetectorAdapter[] = [];
+  for (const name of configuredNames(mediaType)) {
+    const adapter = getDetector(name);
+    if (!adapter) {
+      console.warn(`Unknown detector "${name}" in DETECTORS_${mediaType.toUpperCase()}`);
+      continue;
+    }
+    if (!adapter.capabilities.includes(mediaType)) {
+      console.warn(`Detector "${name}" does not support ${mediaType}; skipping`);
+      continue;
+    }
+    if (!selected.some((existing) => existing.name === adapter.name)) selected.push(adapter);
+  }
+  return selected;
+}
+
+/** First configured detector of a verdict family for a media type, if any. */
+export function findDetector(mediaType: MediaType, model: DetectorAdapter["model"]) {
+  return getDetectorsFor(mediaType).find((adapter) => adapter.model === model);
+}
+
+export async function checkDetectorHealth(): Promise<Array<DetectorHealth & { capabilities: MediaType[]; mediaTypes: MediaType[] }>> {
+  const mediaTypes: MediaType[] = ["image", "video", "audio"];
+  return Promise.all(listDetectors().map(async (adapter) => ({
+    ...(await adapter.healthCheck()),
+    capabilities: adapter.capabilities,
+    mediaTypes: mediaTypes.filter((type) => getDetectorsFor(type).some((d) => d.name === adapter.name)),
+  })));
+}
@@ -0,0 +1,69 @@
+import type { MediaType } from "../scanPipeline";
+import type { DetectorId } from "../verdictEngine";
+import { readMediaInput } from "../mediaInput";
+
+/** Exactly one of `buffer` or `filePath` is set; large videos arrive as a file reference. */
+export type DetectorInput = {
+  buffer?: Buffer;
+  filePath?: string;
+  mediaType: MediaType;
+  fileName?: string;
+};
+
+/**
+ * Normalised output of one detector call. `score` is always a manipulation
+ * probability in [0, 1]; asynchronous detectors return PENDING with a jobId.
+ */
+export type DetectorResult = {
+  detector: string;
+  status: "DONE" | "PENDING" | "ERROR";
+  score?: number;
+  /** Detector-native label, e.g. "MANIPULATED" from Reality Defender or "FAKE" from FakeCatcher. */
+  label?: string;
+  confidence?: number;
+  requestId?: string;
+  jobId?: string;
+  models?: Array<{ name: string; status: string; score: number }>;
+  error?: string;
+};
+
+export type DetectorHealth = {
+  detector: string;
+  healthy: boolean;
+  latencyMs: number;
+  message?: string;
+};
+
+export interface DetectorAdapter {
+  /** Registry key, e.g. "reality-defender" or "mock-gotham". */
+  name: string;
+  /** Verdict-engine family the scores feed into. */
+  model: DetectorId;
+  /** Display name persisted in modelsUsed. */
+  displayName: string;
+  capabilities: MediaType[];
+  invoke(input: DetectorInput): Promise<DetectorResult>;
+  healthCheck(): Promise<DetectorHealth>;
+}
+
+/** For detectors that need the bytes in memory. */
+export async function inputBuffer(input: DetectorInput) {
+  if (input.buffer) return input.buffer;
+  if (!input.filePath) throw new Error("Detector input has no media");
+  return readMediaInput({ filePath: input.filePath });
+}
+
+export function errorResult(detector: string, error: unknown): DetectorResult {
+  return { detector, status: "ERROR", error: error instanceof Error ? error.message : String(error) };
+}
+
+/** Times a probe and turns thrown errors into an unhealthy report. */
+export async function timeHealthCheck(detector: string, probe: () => Promise<string | void>): Promise<DetectorHealth> {
+  const started = Date.now();
+  try {
+    const message = await probe();
+    return { detector, healthy: true, latencyMs: Date.now() - started, ...(message ? { message } : {}) };
+  } catch (error) {
+    return { detector, healthy: false, latencyMs: Date.now() - started, message: error instanceof Error ? error.message : String(error) };
+  }
+}
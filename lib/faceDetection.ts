@@ -0,0 +1,173 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { existsSync } from "fs";
+import { writeFile, mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { InferenceSession } from "onnxruntime-node";
+
+const execFileAsync = promisify(execFile);
+
+// UltraFace RFB-320 (~1.2 MB); fetched into models/face by scripts/fetch-face-model.js, pinned by commit and SHA-256.
+const FACE_DETECTOR_MODEL_PATH = process.env.FACE_DETECTOR_MODEL_PATH || path.join(process.cwd(), "models", "face", "version-RFB-320.onnx");
+const FACE_DETECTION_ENABLED = (process.env.FACE_DETECTION || "on").toLowerCase() !== "off";
+const FACE_SCORE_THRESHOLD = parseFloat(process.env.FACE_SCORE_THRESHOLD || "0.7");
+const FACE_MAX_PER_IMAGE = Math.max(1, parseInt(process.env.FACE_MAX_PER_IMAGE || "4", 10));
+// Faces smaller than this fraction of the shorter image side are too small to classify.
+const FACE_MIN_SIZE = 0.04;
+const NMS_IOU_THRESHOLD = 0.3;
+// Context kept around the box, matching the 1.3x margin used for the Swin training crops.
+const FACE_CROP_MARGIN = 1.3;
+
+const DETECTOR_WIDTH = 320;
+const DETECTOR_HEIGHT = 240;
+export const MODEL_INPUT_SIZE = 224;
+
+export const FACE_DETECTOR_NAME = "UltraFace-RFB-320";
+
+/** Box in pixels of the source image. */
+export type FaceBox = { x: number; y: number; width: number; height: number; score: number };
+
+export type FaceCrop = { box: FaceBox; buffer: Buffer };
+
+const globalWithDetector = globalThis as typeof globalThis & { faceDetectorSession?: Promise<InferenceSession | null> };
+
+/**
+ * Loads the ONNX session once per process. Resolves to null when detection is
+ * switched off or the model is missing, so callers fall back to whole frames.
+ */
+export function getFaceDetector(): Promise<InferenceSession | null> {
+  if (!globalWithDetector.faceDetectorSession) {
+    globalWithDetector.faceDetectorSession = (async () => {
+      if (!FACE_DETECTION_ENABLED) return null;
+      if (!existsSync(FACE_DETECTOR_MODEL_PATH)) {
+        console.warn(`Face detector model not found at ${FACE_DETECTOR_MODEL_PATH}; scoring whole frames.`);
+        return null;
+      }
+      try {
+        const ort = await import("onnxruntime-node");
+        return await ort.InferenceSession.create(FACE_DETECTOR_MODEL_PATH, { executionProviders: ["cpu"] });
+      } catch (error) {
+        console.error("Failed to load face detector:", error);
+        return null;
+      }
+    })();
+  }
+  return globalWithDetector.faceDetectorSession;
+}
+
+async function probeDimensions(inputPath: string) {
+  const probeResult = await execFileAsync(ffmpegStatic as string, ["-i", inputPath, "-hide_banner"], { encoding: "utf8" }).catch(e => e);
+  const match = (probeResult.stderr || "").match(/Video:.*?(\d{2,5})x(\d{2,5})/);
+  if (!match) throw new Error("Unable to read image dimensions");
+  return { width: parseInt(match[1]), height: parseInt(match[2]) };
+}
+
+function iou(a: FaceBox, b: FaceBox) {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function nonMaxSuppression(boxes: FaceBox[]) {
+  const kept: FaceBox[] = [];
+  for (const box of [...boxes].sort((a, b) => b.score - a.score)) {
+    if (kept.every((existing) => iou(existing, box) < NMS_IOU_THRESHOLD)) kept.push(box);
+    if (kept.length >= FACE_MAX_PER_IMAGE) break;
+  }
+  return kept;
+}
+
+/**
+ * Square box centred on the face, grown by the crop margin and shifted to stay
+ * inside the image. UltraFace returns no landmarks, so the face is not rotated upright.
+ */
+function centeredSquare(box: FaceBox, width: number, height: number) {
+  const side = Math.min(width, height, Math.round(Math.max(box.width, box.height) * FACE_CROP_MARGIN));
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const x = Math.round(Math.min(Math.max(0, centerX - side / 2), width - side));
+  const y = Math.round(Math.min(Math.max(0, centerY - side / 2), height - side));
+  return { x, y, side };
+}
+
+async function detectInFile(session: InferenceSession, inputPath: string, width: number, height: number): Promise<FaceBox[]> {
+  const { stdout } = await execFileAsync(
+    ffmpegStatic as string,
+    ["-hide_banner", "-loglevel", "error", "-i", inputPath, "-vf", `scale=${DETECTOR_WIDTH}:${DETECTOR_HEIGHT}`, "-frames:v", "1", "-f", "rawvideo", "-pix_fmt", "rgb24", "-"],
+    { encoding: "buffer", maxBuffer: DETECTOR_WIDTH * DETECTOR_HEIGHT * 3 * 2 }
+  );
+
+  // UltraFace expects planar RGB normalised to roughly [-1, 1].
+  const plane = DETECTOR_WIDTH * DETECTOR_HEIGHT;
+  const input = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    input[i] = (stdout[i * 3] - 127) / 128;
+    input[plane + i] = (stdout[i * 3 + 1] - 127) / 128;
+    input[plane * 2 + i] = (stdout[i * 3 + 2] - 127) / 128;
+  }
+
+  const ort = await import("onnxruntime-node");
+  const outputs = await session.run({
+    [session.inputNames[0]]: new ort.Tensor("float32", input, [1, 3, DETECTOR_HEIGHT, DETECTOR_WIDTH]),
+  });
+  const scores = (outputs.scores ?? outputs[session.outputNames[0]]).data as Float32Array;
+  const boxes = (outputs.boxes ?? outputs[session.outputNames[1]]).data as Float32Array;
+
+  const minSide = Math.min(width, height) * FACE_MIN_SIZE;
+  const candidates: FaceBox[] = [];
+  for (let i = 0; i < scores.length / 2; i++) {
+    const score = scores[i * 2 + 1];
+    if (score < FACE_SCORE_THRESHOLD) continue;
+    const x1 = Math.max(0, boxes[i * 4]) * width;
+    const y1 = Math.max(0, boxes[i * 4 + 1]) * height;
+    const x2 = Math.min(1, boxes[i * 4 + 2]) * width;
+    const y2 = Math.min(1, boxes[i * 4 + 3]) * height;
+    if (x2 - x1 < minSide || y2 - y1 < minSide) continue;
+    candidates.push({ x: Math.round(x1), y: Math.round(y1), width: Math.round(x2 - x1), height: Math.round(y2 - y1), score });
+  }
+  return nonMaxSuppression(candidates);
+}
+
+/** Scales a whole image to the classifier input size; used when no detector is configured. */
+export async function resizeForModel(imageBuffer: Buffer): Promise<Buffer> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-resize-"));
+  const inputPath = path.join(workDir, "input.img");
+  const outPath = path.join(workDir, "resized.jpg");
+  await writeFile(inputPath, imageBuffer);
+  try {
+    await execFileAsync(ffmpegStatic as string, ["-i", inputPath, "-vframes", "1", "-vf", `scale=${MODEL_INPUT_SIZE}:${MODEL_INPUT_SIZE}`, "-y", outPath]);
+    return await readFile(outPath);
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Detects faces in an image or video frame and returns one square,
+ * face-centred 224x224 crop per face. An empty array means no face was found.
+ */
+export async function extractFaceCrops(session: InferenceSession, imageBuffer: Buffer): Promise<FaceCrop[]> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-faces-"));
+  const inputPath = path.join(workDir, "input.img");
+  await writeFile(inputPath, imageBuffer);
+  try {
+    const { width, height } = await probeDimensions(inputPath);
+    const faces = await detectInFile(session, inputPath, width, height);
+
+    const crops: FaceCrop[] = [];
+    for (const [index, box] of faces.entries()) {
+      const { x, y, side } = centeredSquare(box, width, height);
+      const outPath = path.join(workDir, "face_" + index + ".jpg");
+      await execFileAsync(ffmpegStatic as string, ["-i", inputPath, "-vframes", "1", "-vf", `crop=${side}:${side}:${x}:${y},scale=${MODEL_INPUT_SIZE}:${MODEL_INPUT_SIZE}`, "-y", outPath]);
+      crops.push({ box, buffer: await readFile(outPath) });
+    }
+    return crops;
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,165 @@
+import { connectToDatabase } from "./db";
+import { VerificationResult } from "./models/VerificationResult";
+import { refundUserCredit } from "./credits";
+import { settleBatchScan } from "./batchScan";
+import { setJobFakeCatcherAnalysis } from "./fakecatcherStore";
+import { fetchFakecatcherJob, type FakecatcherJob } from "./detectors/fakecatcher";
+import { collectDetectorOutputs, computeVerdict, toVerdictRecord } from "./verdictEngine";
+import { fakecatcherConfidencePercent, type FakecatcherAnalysisRecord } from "./scanPipeline";
+
+// The backend drops finished and unfinished jobs two hours after submission.
+const FAKECATCHER_JOB_TTL_MS = 2 * 3600 * 1000;
+const FAKECATCHER_RECONCILE_INTERVAL_MS = Math.max(5000, parseInt(process.env.FAKECATCHER_RECONCILE_INTERVAL_MS || "30000", 10));
+const FAKECATCHER_RECONCILE_BATCH = Math.max(1, parseInt(process.env.FAKECATCHER_RECONCILE_BATCH || "25", 10));
+
+type PendingScan = {
+  scanId: string;
+  userId: string;
+  batchId?: string;
+  fileType: "image" | "video" | "audio";
+  status: string;
+  rdAnalysis?: { status?: string; score?: number; error?: string } | null;
+  videoAnalysis?: { detector?: string; score?: number; frames?: Array<{ status?: string }> } | null;
+  fcAnalysis: FakecatcherAnalysisRecord;
+};
+
+/**
+ * Writes the final FakeCatcher record and re-runs the ensemble with it. The
+ * update only applies while the record is still PENDING, so overlapping runs
+ * (several worker instances) finalise and refund a scan once.
+ */
+async function finalizeScan(scan: PendingScan, fcAnalysis: FakecatcherAnalysisRecord) {
+  const verdict = computeVerdict(scan.fileType, collectDetectorOutputs({ ...scan, fcAnalysis }));
+  // Other detectors may already have decided the scan; only a scan that was waiting on FakeCatcher alone fails.
+  const failed = !verdict && scan.status === "PROCESSING";
+  const scored = verdict?.contributions.filter((c) => c.score !== null).map((c) => c.name) || [];
+
+  const updated = await VerificationResult.findOneAndUpdate(
+    { scanId: scan.scanId, "fcAnalysis.status": "PENDING" },
+    {
+      fcAnalysis,
+      ...(verdict ? {
+        status: verdict.status,
+        confidenceScore: verdict.confidenceScore,
+        verdict: toVerdictRecord(verdict),
+        ...(scored.length ? { modelsUsed: scored } : {}),
+      } : {}),
+      ...(failed ? { status: "ERROR", failureReason: fcAnalysis.error || "FakeCatcher analysis failed" } : {}),
+    }
+  );
+  if (!updated) return;
+
+  if (fcAnalysis.jobId && fcAnalysis.label) {
+    await setJobFakeCatcherAnalysis(fcAnalysis.jobId, {
+      label: fcAnalysis.label,
+      confidence: fcAnalysis.confidence,
+      fake_prob: fcAnalysis.fake_prob,
+      total_frames: fcAnalysis.total_frames,
+      face_pct: fcAnalysis.face_pct,
+      analyzedAt: fcAnalysis.analyzedAt as string,
+    }).catch((error) => console.warn(`Failed to cache FakeCatcher result for ${scan.scanId}:`, error));
+  }
+  if (scan.batchId) {
+    // Batch scans are refunded with the rest of their batch when it settles.
+    if (verdict) {
+      await settleBatchScan(scan.batchId, scan.scanId, { verdict: verdict.status, confidenceScore: verdict.confidenceScore });
+    } else if (failed) {
+      await settleBatchScan(scan.batchId, scan.scanId, { error: fcAnalysis.error || "FakeCatcher analysis failed" });
+    }
+  } else if (failed) {
+    await refundUserCredit(scan.userId);
+  }
+}
+
+function resultRecord(scan: PendingScan, job: FakecatcherJob): FakecatcherAnalysisRecord {
+  const result = job.result || {};
+  return {
+    ...scan.fcAnalysis,
+    status: "DONE",
+    label: result.label,
+    confidence: fakecatcherConfidencePercent(result.confidence),
+    fake_prob: result.fake_prob,
+    total_frames: result.total_frames,
+    face_pct: result.face_pct,
+    analyzedAt: new Date().toISOString(),
+    error: undefined,
+  };
+}
+
+function failedRecord(scan: PendingScan, error: string): FakecatcherAnalysisRecord {
+  return { ...scan.fcAnalysis, status: "ERROR", analyzedAt: new Date().toISOString(), error };
+}
+
+async function reconcileScan(scan: PendingScan) {
+  const jobId = scan.fcAnalysis.jobId;
+  const age = Date.now() - new Date(scan.fcAnalysis.submittedAt).getTime();
+  if (!jobId) {
+    return finalizeScan(scan, failedRecord(scan, "FakeCatcher job id missing"));
+  }
+
+  const job = await fetchFakecatcherJob(jobId);
+  if (!job) {
+    return finalizeScan(scan, failedRecord(scan, age > FAKECATCHER_JOB_TTL_MS ? "FakeCatcher job expired" : "FakeCatcher job no longer exists"));
+  }
+  if (job.status === "done") {
+    return finalizeScan(scan, resultRecord(scan, job));
+  }
+  if (job.status === "error") {
+    return finalizeScan(scan, failedRecord(scan, job.error || "FakeCatcher job failed"));
+  }
+  if (age > FAKECATCHER_JOB_TTL_MS) {
+    return finalizeScan(scan, failedRecord(scan, `FakeCatcher job still ${job.status} after ${Math.round(age / 60000)} minutes`));
+  }
+}
+
+/**
+ * One pass over every pending FakeCatcher job, fetched a batch at a time in _id
+ * order so jobs still running do not hold later ones back; returns how many were checked.
+ */
+export async function reconcileFakecatcherJobs() {
+  await connectToDatabase();
+  let checked = 0;
+  let lastId: unknown;
+
+  for (;;) {
+    const pending = await VerificationResult.find({
+      "fcAnalysis.status": "PENDING",
+      ...(lastId ? { _id: { $gt: lastId } } : {}),
+    })
+      .sort({ _id: 1 })
+      .limit(FAKECATCHER_RECONCILE_BATCH)
+      .select("_id scanId userId batchId fileType status rdAnalysis videoAnalysis.detector videoAnalysis.score videoAnalysis.frames.status fcAnalysis")
+      .lean<Array<PendingScan & { _id: unknown }>>();
+    if (!pending.length) break;
+
+    for (const scan of pending) {
+      try {
+        await reconcileScan(scan);
+      } catch (error) {
+        // Backend hiccups are retried on the next pass; the TTL check still applies then.
+        console.warn(`FakeCatcher reconciliation for ${scan.scanId} failed:`, error);
+      }
+    }
+    checked += pending.length;
+    lastId = pending[pending.length - 1]._id;
+    if (pending.length < FAKECATCHER_RECONCILE_BATCH) break;
+  }
+  return checked;
+}
+
+/** Polls pending FakeCatcher jobs on an interval; returns a function that stops the loop. */
+export function startFakecatcherReconciler() {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await reconcileFakecatcherJobs();
+    } catch (error) {
+      console.error("FakeCatcher reconciliation pass failed:", error);
+    } finally {
+      running = false;
+    }
+  }, FAKECATCHER_RECONCILE_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -1,3 +1,14 @@
+import Redis, { type RedisOptions } from "ioredis";
+import { connectToDatabase } from "./db";
+import { JobState, type IJobState } from "./models/JobState";
+import { getRedisConnection } from "./scanQueue";
+
+// Job state is kept for this long after it was last written; Mongo's TTL index removes it afterwards.
+const JOB_STORE_TTL_HOURS = Math.max(1, parseFloat(process.env.JOB_STORE_TTL_HOURS || "168"));
+// Read-through Redis cache in front of Mongo; 0 turns it off.
+const JOB_STORE_CACHE_SECONDS = Math.max(0, parseInt(process.env.JOB_STORE_CACHE_SECONDS || "300", 10));
+const CACHE_PREFIX = "jobstore:";
+
 type JobMeta = {
   userId: string;
   fileName: string;
@@ -26,93 +37,155 @@ export type FcAnalysis = {
   label?: "REAL" | "FAKE" | "UNCERTAIN" | string;
   confidence?: number;
   fake_prob?: number;
+  total_frames?: number;
+  face_pct?: number;
   analyzedAt: string;
 };
 
-export type FeedbackLabel = "FALSE_POSITIVE" | "FALSE_NEGATIVE";
+/** A JobState document as read with lean(). */
+type JobStateRecord = Pick<IJobState, "jobId" | "meta" | "rdAnalysis" | "fcAnalysis">;
 
-type FeedbackEntry = {
-  userId: string;
-  label: FeedbackLabel;
-  comment?: string;
-  createdAt: string;
+type StoredJob = {
+  meta?: JobMeta;
+  rd?: RdAnalysis;
+  fc?: FcAnalysis;
 };
 
-const jobMetaStore = new Map<string, JobMeta>();
-const jobFeedbackStore = new Map<string, FeedbackEntry[]>();
-const jobAnalysisStore = new Map<string, { rd?: RdAnalysis; fc?: FcAnalysis }>();
+const globalWithCache = globalThis as typeof globalThis & { jobStoreCache?: Redis | null };
+
+/** Lazily connected client for the optional cache; null when caching is off. */
+function getCache(): Redis | null {
+  if (globalWithCache.jobStoreCache === undefined) {
+    globalWithCache.jobStoreCache = null;
+    if (JOB_STORE_CACHE_SECONDS > 0) {
+      let warned = false;
+      const client = new Redis({
+        ...(getRedisConnection() as RedisOptions),
+        // Fail fast: a missing cache must not slow requests down, Mongo answers instead.
+        maxRetriesPerRequest: 1,
+        enableOfflineQueue: false,
+      });
+      client.on("error", (error) => {
+        if (!warned) console.warn("Job store cache unavailable, reading from MongoDB:", error.message);
+        warned = true;
+      });
+      client.on("ready", () => {
+        warned = false;
+      });
+      globalWithCache.jobStoreCache = client;
+    }
+  }
+  return globalWithCache.jobStoreCache;
+}
+
+function toStoredJob(doc: JobStateRecord | null): StoredJob | null {
+  if (!doc) return null;
+  return {
+    ...(doc.meta?.userId ? { meta: doc.meta } : {}),
+    ...(doc.rdAnalysis?.status ? { rd: doc.rdAnalysis } : {}),
+    ...(doc.fcAnalysis?.analyzedAt ? { fc: doc.fcAnalysis } : {}),
+  };
+}
 
-export function setJobMeta(jobId: string, meta: JobMeta) {
-  jobMetaStore.set(jobId, meta);
+async function cacheJob(jobId: string, job: StoredJob | null) {
+  const cache = getCache();
+  if (!cache || !job) return;
+  await cache.set(CACHE_PREFIX + jobId, JSON.stringify(job), "EX", JOB_STORE_CACHE_SECONDS).catch(() => {});
 }
 
-export function getJobMeta(jobId: string) {
-  return jobMetaStore.get(jobId);
+async function loadJob(jobId: string): Promise<StoredJob | null> {
+  const cache = getCache();
+  if (cache) {
+    const cached = await cache.get(CACHE_PREFIX + jobId).catch(() => null);
+    if (cached) return JSON.parse(cached) as StoredJob;
+  }
+  await connectToDatabase();
+  const job = toStoredJob(await JobState.findOne({ jobId }).lean<JobStateRecord>());
+  await cacheJob(jobId, job);
+  return job;
 }
 
-export function listUserJobMeta(userId: string) {
-  return Array.from(jobMetaStore.entries())
-    .filter(([, meta]) => meta.userId === userId)
-    .map(([jobId, meta]) => ({ jobId, ...meta }));
+/**
+ * Loads several jobs at once for the history lists: cached jobs come from one
+ * Redis MGET, the rest from one Mongo query. Unknown jobs are left out of the map.
+ */
+export async function getJobs(jobIds: string[]): Promise<Map<string, StoredJob>> {
+  const jobs = new Map<string, StoredJob>();
+  const ids = [...new Set(jobIds)];
+  if (ids.length === 0) return jobs;
+
+  const cache = getCache();
+  if (cache) {
+    const cached = await cache.mget(ids.map((jobId) => CACHE_PREFIX + jobId)).catch(() => [] as Array<string | null>);
+    cached.forEach((value, i) => {
+      if (value) jobs.set(ids[i], JSON.parse(value) as StoredJob);
+    });
+  }
+
+  const missing = ids.filter((jobId) => !jobs.has(jobId));
+  if (missing.length === 0) return jobs;
+
+  await connectToDatabase();
+  const docs = await JobState.find({ jobId: { $in: missing } }).lean<JobStateRecord[]>();
+  const loaded = new Map<string, StoredJob>();
+  for (const doc of docs) {
+    const job = toStoredJob(doc);
+    if (job) loaded.set(doc.jobId, job);
+  }
+  if (cache && loaded.size > 0) {
+    const pipeline = cache.pipeline();
+    for (const [jobId, job] of loaded) pipeline.set(CACHE_PREFIX + jobId, JSON.stringify(job), "EX", JOB_STORE_CACHE_SECONDS);
+    await pipeline.exec().catch(() => {});
+  }
+  for (const [jobId, job] of loaded) jobs.set(jobId, job);
+  return jobs;
 }
 
-export function upsertJobFeedback(
-  jobId: string,
-  payload: { userId: string; label: FeedbackLabel; comment?: string }
-) {
-  const existing = jobFeedbackStore.get(jobId) || [];
-  const withoutCurrentUser = existing.filter((entry) => entry.userId !== payload.userId);
-
-  const nextEntry: FeedbackEntry = {
-    userId: payload.userId,
-    label: payload.label,
-    comment: payload.comment,
-    createdAt: new Date().toISOString(),
-  };
+/** Applies an update, pushes the expiry out and refreshes the cached copy. */
+async function updateJob(jobId: string, update: Record<string, unknown>) {
+  await connectToDatabase();
+  const expiresAt = new Date(Date.now() + JOB_STORE_TTL_HOURS * 3600 * 1000);
+  const doc = await JobState.findOneAndUpdate(
+    { jobId },
+    { ...update, $set: { ...(update.$set as Record<string, unknown> | undefined), expiresAt } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean<JobStateRecord>();
+  const job = toStoredJob(doc);
+  await cacheJob(jobId, job);
+  return job;
+}
 
-  const next = [...withoutCurrentUser, nextEntry];
-  jobFeedbackStore.set(jobId, next);
-  return nextEntry;
+export async function setJobMeta(jobId: string, meta: JobMeta) {
+  await updateJob(jobId, { $set: { meta } });
 }
 
-export function getUserJobFeedback(jobId: string, userId: string) {
-  return (jobFeedbackStore.get(jobId) || []).find((entry) => entry.userId === userId) || null;
+export async function getJobMeta(jobId: string) {
+  return (await loadJob(jobId))?.meta;
 }
 
-export function getJobFeedbackSummary(jobId: string) {
-  const all = jobFeedbackStore.get(jobId) || [];
-
-  return all.reduce(
-    (acc, entry) => {
-      if (entry.label === "FALSE_POSITIVE") acc.falsePositive += 1;
-      if (entry.label === "FALSE_NEGATIVE") acc.falseNegative += 1;
-      acc.total += 1;
-      return acc;
-    },
-    { falsePositive: 0, falseNegative: 0, total: 0 }
-  );
+/** The user's newest jobs, optionally of one source only; the history lists show at most 200 of them. */
+export async function listUserJobMeta(userId: string, options: { source?: JobMeta["source"]; limit?: number } = {}) {
+  await connectToDatabase();
+  const docs = await JobState.find({ "meta.userId": userId, ...(options.source ? { "meta.source": options.source } : {}) })
+    .sort({ "meta.createdAt": -1 })
+    .limit(options.limit ?? 200)
+    .select("jobId meta")
+    .lean<Array<{ jobId: string; meta: JobMeta }>>();
+  return docs.map((doc) => ({ jobId: doc.jobId, ...doc.meta }));
 }
 
-export function setJobRdAnalysis(jobId: string, analysis: RdAnalysis) {
-  const existing = jobAnalysisStore.get(jobId) || {};
-  jobAnalysisStore.set(jobId, {
-    ...existing,
-    rd: analysis,
-  });
+export async function setJobRdAnalysis(jobId: string, analysis: RdAnalysis) {
+  await updateJob(jobId, { $set: { rdAnalysis: analysis } });
 }
 
-export function getJobRdAnalysis(jobId: string) {
-  return jobAnalysisStore.get(jobId)?.rd;
+export async function getJobRdAnalysis(jobId: string) {
+  return (await loadJob(jobId))?.rd;
 }
 
-export function setJobFakeCatcherAnalysis(jobId: string, analysis: FcAnalysis) {
-  const existing = jobAnalysisStore.get(jobId) || {};
-  jobAnalysisStore.set(jobId, {
-    ...existing,
-    fc: analysis,
-  });
+export async function setJobFakeCatcherAnalysis(jobId: string, analysis: FcAnalysis) {
+  await updateJob(jobId, { $set: { fcAnalysis: analysis } });
 }
 
-export function getJobFakeCatcherAnalysis(jobId: string) {
-  return jobAnalysisStore.get(jobId)?.fc;
+export async function getJobFakeCatcherAnalysis(jobId: string) {
+  return (await loadJob(jobId))?.fc;
 }
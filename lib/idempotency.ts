@@ -0,0 +1,177 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "./db";
+import { IdempotencyKey } from "./models/IdempotencyKey";
+
+// How long a stored response is replayed for the same Idempotency-Key.
+const IDEMPOTENCY_TTL_HOURS = Math.max(1, parseFloat(process.env.IDEMPOTENCY_TTL_HOURS || "24"));
+// How long a request may hold its key while processing; after that a retry takes the key over,
+// so a crash mid-request does not block the key for the whole replay window.
+const IDEMPOTENCY_LEASE_SECONDS = Math.max(30, parseInt(process.env.IDEMPOTENCY_LEASE_SECONDS || "300", 10));
+const COMPLETION_WRITE_ATTEMPTS = 3;
+const MAX_KEY_LENGTH = 255;
+
+/** Recursively sorts object keys so semantically equal JSON bodies hash the same. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value as Record<string, unknown>).sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Fingerprints the request body. Multipart bodies are hashed field by field
+ * (files by name, type and content) because clients pick a new boundary on
+ * every retry, so the raw bytes of an identical upload differ.
+ */
+async function hashRequestBody(req: NextRequest) {
+  const hash = createHash("sha256");
+  const contentType = req.headers.get("content-type") || "";
+  const copy = req.clone();
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await copy.formData();
+    const entries = Array.from(form.entries()).sort(([a], [b]) => a.localeCompare(b));
+    for (const [name, value] of entries) {
+      hash.update(`${name}\0`);
+      if (typeof value === "string") {
+        hash.update(`${value}\0`);
+      } else {
+        hash.update(`${value.name}\0${value.type}\0`);
+        hash.update(Buffer.from(await value.arrayBuffer()));
+      }
+    }
+  } else {
+    const raw = await copy.text();
+    try {
+      hash.update(canonicalJson(JSON.parse(raw)));
+    } catch {
+      hash.update(raw);
+    }
+  }
+
+  hash.update(`\0${req.nextUrl.search}`);
+  return hash.digest("hex");
+}
+
+function replay(record: { responseStatus?: number; responseBody?: string; responseContentType?: string }) {
+  return new NextResponse(record.responseBody ?? "", {
+    status: record.responseStatus ?? 200,
+    headers: {
+      "Content-Type": record.responseContentType || "application/json",
+      "Idempotent-Replayed": "true",
+    },
+  });
+}
+
+/**
+ * Runs `handler` at most once per user, scope and Idempotency-Key header.
+ * Retries within the window get the stored response; a different body under
+ * the same key, or a retry while the first call is still running, gets a 409.
+ * A call that has held the key past its lease (the process died, say) is
+ * taken over by the next retry. 5xx responses are not stored, so a failed
+ * (and refunded) call can be retried.
+ * Requests without the header run as before.
+ */
+export async function withIdempotency(
+  req: NextRequest,
+  userId: string,
+  scope: string,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = req.headers.get("idempotency-key")?.trim();
+  if (!key) return handler();
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` }, { status: 400 });
+  }
+
+  const requestHash = await hashRequestBody(req);
+  await connectToDatabase();
+
+  const now = new Date();
+  // The TTL monitor runs about once a minute, so clear an expired key ourselves before claiming it.
+  await IdempotencyKey.deleteOne({ userId, scope, key, expiresAt: { $lte: now } });
+
+  const leaseUntil = () => new Date(Date.now() + IDEMPOTENCY_LEASE_SECONDS * 1000);
+  try {
+    await IdempotencyKey.create({
+      userId,
+      scope,
+      key,
+      requestHash,
+      state: "processing",
+      processingExpiresAt: leaseUntil(),
+      expiresAt: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 3600 * 1000),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+
+    const existing = await IdempotencyKey.findOne({ userId, scope, key });
+    if (!existing) return withIdempotency(req, userId, scope, handler);
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { error: "Idempotency-Key has already been used with a different request body" },
+        { status: 409 }
+      );
+    }
+    if (existing.state === "completed") return replay(existing);
+
+    // Only one retry wins the takeover of an abandoned key; the others see it held again.
+    const takenOver = await IdempotencyKey.findOneAndUpdate(
+      { _id: existing._id, state: "processing", processingExpiresAt: { $lte: new Date() } },
+      { processingExpiresAt: leaseUntil() }
+    );
+    if (!takenOver) {
+      return NextResponse.json(
+        { error: "A request with this Idempotency-Key is still being processed" },
+        { status: 409, headers: { "Retry-After": "5" } }
+      );
+    }
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await IdempotencyKey.deleteOne({ userId, scope, key }).catch(() => {});
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await IdempotencyKey.deleteOne({ userId, scope, key }).catch(() => {});
+    return response;
+  }
+
+  const responseBody = await response.clone().text();
+  // Without the stored response a retry after the lease would run the request again, so this write is retried.
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await IdempotencyKey.updateOne(
+        { userId, scope, key },
+        {
+          $set: {
+            state: "completed",
+            responseStatus: response.status,
+            responseBody,
+            responseContentType: response.headers.get("content-type") || "application/json",
+          },
+          $unset: { processingExpiresAt: 1 },
+        }
+      );
+      break;
+    } catch (error) {
+      if (attempt >= COMPLETION_WRITE_ATTEMPTS) {
+        // The request has taken effect (and been charged), so the client still gets its response. Dropping the
+        // lease keeps the key held until it expires: retries get 409 instead of running the request again.
+        console.error("Failed to store idempotent response; key stays held until it expires:", error);
+        await IdempotencyKey.updateOne({ userId, scope, key }, { $unset: { processingExpiresAt: 1 } }).catch(() => {});
+        break;
+      }
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,337 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { mediaInputPath, type MediaInput } from "./mediaInput";
+import { deleteObject, getObject, putObject } from "./objectStorage";
+import { probeMedia } from "./mediaNormalize";
+
+const execFileAsync = promisify(execFile);
+
+const FORENSIC_MAPS = (process.env.FORENSIC_MAPS || "on").toLowerCase() !== "off";
+// Maps now live in object storage (lib/objectStorage); this directory is only read for older scans.
+const LEGACY_FORENSIC_MAP_DIR = process.env.FORENSIC_MAP_DIR;
+const FORENSIC_MAP_VIDEO_FRAMES = Math.max(1, parseInt(process.env.FORENSIC_MAP_VIDEO_FRAMES || "4", 10));
+// Larger pictures are scaled down first; ELA is less telling after resampling, which the record notes.
+const FORENSIC_MAX_PIXELS = 24 * 1000 * 1000;
+// Longest side of the stored overlays and base picture.
+const MAP_MAX_SIDE = 768;
+// ffmpeg MJPEG qscale for the ELA resave, roughly JPEG quality 90.
+const ELA_QSCALE = 3;
+// Mean per-pixel error level rendered at full heat.
+const ELA_FULL_SCALE = 24;
+// JPEG grid blocks for ELA statistics, larger blocks for estimating local noise.
+const ELA_BLOCK = 8;
+const NOISE_BLOCK = 32;
+// A noise block this many times noisier or cleaner than the median is inconsistent.
+const NOISE_INCONSISTENT_RATIO = 3;
+// Width of the frame thumbnails on the video anomaly timeline.
+const THUMBNAIL_WIDTH = 160;
+
+export type ForensicMapSet = {
+  /** Resolution the maps were computed at. */
+  width: number;
+  height: number;
+  downscaled: boolean;
+  /** Storage key of the picture the overlays align with, scaled like the overlays. */
+  base: string;
+  ela: { key: string; mean: number; p99: number; hotspotRatio: number };
+  noise: { key: string; medianLevel: number; inconsistency: number };
+};
+
+export type ForensicMapsRecord = {
+  image?: ForensicMapSet;
+  frames?: Array<ForensicMapSet & { index: number; timestamp: number }>;
+  generatedAt: string;
+};
+
+/**
+ * Content-addressed in object storage under maps/: identical maps (e.g. a
+ * re-scanned file) are stored once. Records keep the bare file name, which the
+ * maps route takes as a single path segment.
+ */
+async function storeArtifact(data: Buffer, extension: "png" | "jpg") {
+  const stored = await putObject("maps", data, extension, extension === "png" ? "image/png" : "image/jpeg");
+  return path.posix.basename(stored.key);
+}
+
+/** Reads a stored overlay or base picture; null for unknown or malformed keys. */
+export async function readForensicArtifact(key: string) {
+  if (!/^[a-f0-9]{64}\.(png|jpg)$/.test(key)) return null;
+  const stored = await getObject(`maps/${key}`);
+  // Maps written before object storage live in the old FORENSIC_MAP_DIR volume.
+  if (stored || !LEGACY_FORENSIC_MAP_DIR) return stored;
+  return readFile(path.join(LEGACY_FORENSIC_MAP_DIR, key)).catch(() => null);
+}
+
+/** Removes a stored overlay or base picture, including a copy left in the legacy FORENSIC_MAP_DIR. */
+export async function deleteForensicArtifact(key: string) {
+  if (!/^[a-f0-9]{64}\.(png|jpg)$/.test(key)) return;
+  await deleteObject(`maps/${key}`);
+  if (LEGACY_FORENSIC_MAP_DIR) await rm(path.join(LEGACY_FORENSIC_MAP_DIR, key), { force: true });
+}
+
+/** Every storage key a record references, for access checks. */
+export function forensicArtifactKeys(record: ForensicMapsRecord | undefined) {
+  if (!record) return [];
+  return [...(record.image ? [record.image] : []), ...(record.frames || [])].flatMap((set) => [set.base, set.ela.key, set.noise.key]);
+}
+
+/** Where a stored artifact of a scan is served from (app/api/results/[id]/maps). */
+export function forensicArtifactUrl(scanId: string, key: string) {
+  return `/api/results/${encodeURIComponent(scanId)}/maps/${key}`;
+}
+
+/** API shape of one map set: stats plus the URLs the maps are served from. */
+function mapSetView(scanId: string, set: ForensicMapSet) {
+  const url = (key: string) => forensicArtifactUrl(scanId, key);
+  return {
+    width: set.width,
+    height: set.height,
+    downscaled: set.downscaled,
+    baseUrl: url(set.base),
+    ela: { url: url(set.ela.key), mean: set.ela.mean, p99: set.ela.p99, hotspotRatio: set.ela.hotspotRatio },
+    noise: { url: url(set.noise.key), medianLevel: set.noise.medianLevel, inconsistency: set.noise.inconsistency },
+  };
+}
+
+export type ForensicMapView = ReturnType<typeof mapSetView> & { index?: number; timestamp?: number };
+
+/** Maps of a scan as served to clients: the image's set, or one per sampled video frame. */
+export function forensicMapViews(scanId: string, record: ForensicMapsRecord | undefined): ForensicMapView[] {
+  if (!record) return [];
+  if (record.image) return [mapSetView(scanId, record.image)];
+  return (record.frames || []).map((frame) => ({ index: frame.index, timestamp: frame.timestamp, ...mapSetView(scanId, frame) }));
+}
+
+/** Decodes one picture (or the frame at `seekSeconds`) to packed RGB, capped at FORENSIC_MAX_PIXELS. */
+async function decodeRgb(inputPath: string, outputPath: string, seekSeconds?: number) {
+  const cap = `scale='if(gt(iw*ih,${FORENSIC_MAX_PIXELS}),trunc(iw*sqrt(${FORENSIC_MAX_PIXELS}/(iw*ih))),iw)':-1`;
+  const { stderr } = await execFileAsync(ffmpegStatic as string, [
+    "-hide_banner",
+    ...(seekSeconds !== undefined ? ["-ss", seekSeconds.toFixed(3)] : []),
+    "-i", inputPath,
+    "-frames:v", "1", "-vf", cap, "-pix_fmt", "rgb24", "-f", "rawvideo", "-y", outputPath,
+  ], { encoding: "utf8" });
+  const input = stderr.match(/Input #0[\s\S]*?Video:.*?, (\d{1,5})x(\d{1,5})\b/);
+  const output = stderr.split("Output #0")[1]?.match(/Video:.*?, (\d{1,5})x(\d{1,5})\b/);
+  if (!output) throw new Error("Unable to decode picture for forensic maps");
+  const width = parseInt(output[1]);
+  const height = parseInt(output[2]);
+  const downscaled = !!input && parseInt(input[1]) * parseInt(input[2]) > FORENSIC_MAX_PIXELS;
+  return { rgb: await readFile(outputPath), width, height, downscaled };
+}
+
+/** Encodes packed pixels with the given output options and returns the path of the result. */
+async function encodeRaw(workDir: string, name: string, raw: Buffer, pixelFormat: "rgb24" | "rgba", width: number, height: number, outputArgs: string[]) {
+  const rawPath = path.join(workDir, `${name}.raw`);
+  const outPath = path.join(workDir, `${name}.out`);
+  await writeFile(rawPath, raw);
+  await execFileAsync(ffmpegStatic as string, [
+    "-hide_banner", "-loglevel", "error",
+    "-f", "rawvideo", "-pix_fmt", pixelFormat, "-s", `${width}x${height}`, "-i", rawPath,
+    "-frames:v", "1", ...outputArgs, "-y", outPath,
+  ]);
+  return outPath;
+}
+
+/** Transparent at zero, through amber to opaque red at full intensity. */
+function heatOverlay(intensity: Float32Array) {
+  const rgba = Buffer.alloc(intensity.length * 4);
+  for (let i = 0; i < intensity.length; i++) {
+    const v = Math.min(1, Math.max(0, intensity[i]));
+    if (v < 0.05) continue;
+    rgba[i * 4] = 255;
+    rgba[i * 4 + 1] = Math.round(200 * (1 - v));
+    rgba[i * 4 + 3] = Math.round(255 * Math.min(1, v * 1.5));
+  }
+  return rgba;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Error level analysis: the picture is resaved as JPEG and compared with
+ * itself. Regions pasted in or retouched after the last save recompress
+ * differently from their surroundings and stand out in the difference.
+ */
+function errorLevels(rgb: Buffer, resaved: Buffer, width: number, height: number, cell: number, mapWidth: number, mapHeight: number) {
+  const cellSum = new Float64Array(mapWidth * mapHeight);
+  const cellCount = new Uint32Array(mapWidth * mapHeight);
+  const blocksX = Math.ceil(width / ELA_BLOCK);
+  const blockSum = new Float64Array(blocksX * Math.ceil(height / ELA_BLOCK));
+  const histogram = new Uint32Array(256);
+  let total = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 3;
+      const level = Math.max(Math.abs(rgb[p] - resaved[p]), Math.abs(rgb[p + 1] - resaved[p + 1]), Math.abs(rgb[p + 2] - resaved[p + 2]));
+      const c = Math.floor(y / cell) * mapWidth + Math.floor(x / cell);
+      cellSum[c] += level;
+      cellCount[c]++;
+      blockSum[Math.floor(y / ELA_BLOCK) * blocksX + Math.floor(x / ELA_BLOCK)] += level;
+      histogram[level]++;
+      total += level;
+    }
+  }
+
+  const intensity = new Float32Array(mapWidth * mapHeight);
+  for (let i = 0; i < intensity.length; i++) intensity[i] = cellCount[i] ? cellSum[i] / cellCount[i] / ELA_FULL_SCALE : 0;
+
+  const pixels = width * height;
+  let p99 = 0;
+  for (let seen = 0; p99 < 255 && seen + histogram[p99] < pixels * 0.99; p99++) seen += histogram[p99];
+
+  // Hotspots: JPEG blocks recompressing far worse than the typical block.
+  const blockMeans = Array.from(blockSum, (sum) => sum / (ELA_BLOCK * ELA_BLOCK));
+  const typical = median(blockMeans);
+  const hotspots = blockMeans.filter((mean) => mean > Math.max(typical * 3, typical + 6)).length;
+
+  return {
+    intensity,
+    mean: Math.round((total / pixels) * 100) / 100,
+    p99,
+    hotspotRatio: Math.round((hotspots / blockMeans.length) * 10000) / 10000,
+  };
+}
+
+/**
+ * Noise-residual inconsistency: a high-pass residual estimates the sensor and
+ * compression noise of each block. Spliced or synthesised regions rarely match
+ * the noise level of the rest of the picture.
+ */
+function noiseInconsistency(rgb: Buffer, width: number, height: number, cell: number, mapWidth: number, mapHeight: number) {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+
+  const blocksX = Math.ceil(width / NOISE_BLOCK);
+  const blocksY = Math.ceil(height / NOISE_BLOCK);
+  const residualSum = new Float64Array(blocksX * blocksY);
+  const graySum = new Float64Array(blocksX * blocksY);
+  const counts = new Uint32Array(blocksX * blocksY);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const residual = Math.abs(4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width]) / 4;
+      const b = Math.floor(y / NOISE_BLOCK) * blocksX + Math.floor(x / NOISE_BLOCK);
+      residualSum[b] += residual;
+      graySum[b] += gray[i];
+      counts[b]++;
+    }
+  }
+
+  // Clipped highlights and shadows carry no noise, so they are left out rather than flagged.
+  const levels = Array.from(residualSum, (sum, b) => {
+    if (!counts[b]) return null;
+    const brightness = graySum[b] / counts[b];
+    return brightness < 16 || brightness > 240 ? null : sum / counts[b];
+  });
+  const valid = levels.filter((level): level is number => level !== null);
+  const medianLevel = median(valid);
+  const deviation = levels.map((level) => (level === null ? 0 : Math.abs(Math.log((level + 0.5) / (medianLevel + 0.5)))));
+  const inconsistent = deviation.filter((d) => d > Math.log(NOISE_INCONSISTENT_RATIO)).length;
+
+  const intensity = new Float32Array(mapWidth * mapHeight);
+  for (let my = 0; my < mapHeight; my++) {
+    for (let mx = 0; mx < mapWidth; mx++) {
+      const sx = Math.min(width - 1, Math.floor((mx + 0.5) * cell));
+      const sy = Math.min(height - 1, Math.floor((my + 0.5) * cell));
+      const d = deviation[Math.floor(sy / NOISE_BLOCK) * blocksX + Math.floor(sx / NOISE_BLOCK)];
+      // Full heat at twice the inconsistency threshold.
+      intensity[my * mapWidth + mx] = d / (2 * Math.log(NOISE_INCONSISTENT_RATIO));
+    }
+  }
+
+  return {
+    intensity,
+    medianLevel: Math.round(medianLevel * 100) / 100,
+    inconsistency: valid.length ? Math.round((inconsistent / valid.length) * 10000) / 10000 : 0,
+  };
+}
+
+async function mapPicture(inputPath: string, workDir: string, name: string, seekSeconds?: number): Promise<ForensicMapSet> {
+  const { rgb, width, height, downscaled } = await decodeRgb(inputPath, path.join(workDir, `${name}.rgb`), seekSeconds);
+  if (rgb.length < width * height * 3) throw new Error("Truncated picture decode");
+
+  const resavedPath = await encodeRaw(workDir, `${name}-resaved`, rgb, "rgb24", width, height, ["-q:v", String(ELA_QSCALE), "-f", "mjpeg"]);
+  const resaved = (await decodeRgb(resavedPath, path.join(workDir, `${name}-resaved.rgb`))).rgb;
+
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / MAP_MAX_SIDE));
+  const mapWidth = Math.ceil(width / cell);
+  const mapHeight = Math.ceil(height / cell);
+  const ela = errorLevels(rgb, resaved, width, height, cell, mapWidth, mapHeight);
+  const noise = noiseInconsistency(rgb, width, height, cell, mapWidth, mapHeight);
+
+  const png = ["-f", "image2", "-c:v", "png"];
+  const [base, elaPng, noisePng] = await Promise.all([
+    encodeRaw(workDir, `${name}-base`, rgb, "rgb24", width, height, ["-vf", `scale=${mapWidth}:${mapHeight}`, "-q:v", "4", "-f", "mjpeg"]).then((file) => readFile(file)),
+    encodeRaw(workDir, `${name}-ela-map`, heatOverlay(ela.intensity), "rgba", mapWidth, mapHeight, png).then((file) => readFile(file)),
+    encodeRaw(workDir, `${name}-noise-map`, heatOverlay(noise.intensity), "rgba", mapWidth, mapHeight, png).then((file) => readFile(file)),
+  ]);
+
+  return {
+    width,
+    height,
+    downscaled,
+    base: await storeArtifact(base, "jpg"),
+    ela: { key: await storeArtifact(elaPng, "png"), mean: ela.mean, p99: ela.p99, hotspotRatio: ela.hotspotRatio },
+    noise: { key: await storeArtifact(noisePng, "png"), medianLevel: noise.medianLevel, inconsistency: noise.inconsistency },
+  };
+}
+
+/** Stores a small JPEG of a sampled video frame for the anomaly timeline and returns its key. */
+export async function storeFrameThumbnail(frame: Buffer) {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-thumb-"));
+  try {
+    const inputPath = path.join(workDir, "frame.jpg");
+    const outputPath = path.join(workDir, "thumb.jpg");
+    await writeFile(inputPath, frame);
+    await execFileAsync(ffmpegStatic as string, [
+      "-hide_banner", "-loglevel", "error",
+      "-i", inputPath,
+      "-frames:v", "1", "-vf", `scale='min(${THUMBNAIL_WIDTH},iw)':-2`, "-q:v", "5", "-f", "mjpeg", "-y", outputPath,
+    ]);
+    return await storeArtifact(await readFile(outputPath), "jpg");
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * ELA and noise-residual overlays for an image, or for evenly spaced frames
+ * of a video, computed on the CPU. Returns undefined for audio or when the
+ * stage is switched off with FORENSIC_MAPS=off.
+ */
+export async function generateForensicMaps(media: MediaInput, fileType: "image" | "video" | "audio"): Promise<ForensicMapsRecord | undefined> {
+  if (!FORENSIC_MAPS || fileType === "audio") return undefined;
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-forensics-"));
+  try {
+    const inputPath = await mediaInputPath(media, workDir, fileType === "video" ? "input.mp4" : "input.img");
+    if (fileType === "image") {
+      return { image: await mapPicture(inputPath, workDir, "image"), generatedAt: new Date().toISOString() };
+    }
+
+    const duration = (await probeMedia(inputPath)).duration || 0;
+    const timestamps = Array.from({ length: FORENSIC_MAP_VIDEO_FRAMES }, (_, i) => (duration * (i + 1)) / (FORENSIC_MAP_VIDEO_FRAMES + 1));
+    const frames: NonNullable<ForensicMapsRecord["frames"]> = [];
+    for (const timestamp of timestamps) {
+      try {
+        const set = await mapPicture(inputPath, workDir, `frame-${frames.length}`, timestamp);
+        frames.push({ index: frames.length, timestamp: Math.round(timestamp * 1000) / 1000, ...set });
+      } catch (error) {
+        // A seek past the last decodable frame yields nothing; the other frames still count.
+        console.warn(`Forensic maps for frame at ${timestamp.toFixed(3)}s failed:`, error);
+      }
+    }
+    return frames.length ? { frames, generatedAt: new Date().toISOString() } : undefined;
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
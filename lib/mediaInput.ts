@@ -0,0 +1,40 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Media handed to the scan pipeline: either bytes in memory or a file on disk
+ * (a spooled upload or an assembled resumable upload) that is read by reference.
+ */
+export type MediaInput = Buffer | { filePath: string };
+
+export function isMediaFile(input: MediaInput): input is { filePath: string } {
+  return !Buffer.isBuffer(input);
+}
+
+/** Loads the whole input; only for media that is small by construction (images, frames, segments). */
+export async function readMediaInput(input: MediaInput) {
+  return isMediaFile(input) ? readFile(input.filePath) : input;
+}
+
+/** A path ffmpeg can read: the referenced file itself, or the buffer written into workDir. */
+export async function mediaInputPath(input: MediaInput, workDir: string, fileName: string) {
+  if (isMediaFile(input)) return input.filePath;
+  const inputPath = path.join(workDir, fileName);
+  await writeFile(inputPath, input);
+  return inputPath;
+}
+
+/** SHA-256 of the input, streamed from disk for file references. */
+export async function hashMediaInput(input: MediaInput) {
+  const hash = createHash("sha256");
+  if (!isMediaFile(input)) return hash.update(input).digest("hex");
+  for await (const chunk of createReadStream(input.filePath)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+/** Detector call fields for the input, see DetectorInput. */
+export function detectorMedia(input: MediaInput) {
+  return isMediaFile(input) ? { filePath: input.filePath } : { buffer: input };
+}
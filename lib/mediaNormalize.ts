@@ -0,0 +1,217 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { mediaInputPath, type MediaInput } from "./mediaInput";
+
+const execFileAsync = promisify(execFile);
+
+// Transcodes of long or high-resolution uploads are bounded so one scan cannot hold a worker forever.
+const VIDEO_NORMALIZE_TIMEOUT_MS = Math.max(10000, parseInt(process.env.VIDEO_NORMALIZE_TIMEOUT_MS || "600000", 10));
+// "auto" normalises only when the probe finds a reason to, "always" re-encodes every video, "off" skips the stage.
+const VIDEO_NORMALIZE = (process.env.VIDEO_NORMALIZE || "auto").toLowerCase();
+
+const CANONICAL_FORMATS = ["mov,mp4,m4a,3gp,3g2,mj2"];
+const CANONICAL_VIDEO_CODECS = ["h264"];
+const CANONICAL_PIXEL_FORMATS = ["yuv420p", "yuvj420p"];
+const CANONICAL_AUDIO_CODECS = ["aac"];
+
+export type AudioTrackProbe = {
+  index: number;
+  codec: string;
+  sampleRate?: number;
+  channels?: string;
+  bitrate?: number; // kb/s
+  language?: string;
+};
+
+export type MediaProbeRecord = {
+  format?: string; // ffmpeg demuxer name, e.g. "matroska,webm"
+  duration?: number; // seconds
+  bitrate?: number; // overall kb/s
+  videoCodec?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  videoBitrate?: number; // kb/s
+  pixelFormat?: string;
+  rotation?: number; // degrees clockwise the frames must be turned to display upright
+  variableFrameRate?: boolean;
+  audioTracks: AudioTrackProbe[];
+  /** How the file was brought to canonical form before detection, if at all. */
+  normalization?: "remux" | "transcode";
+  normalizationReasons?: string[];
+  probedAt: string;
+};
+
+function parseNumber(value: string | undefined) {
+  if (!value) return undefined;
+  const parsed = value.endsWith("k") ? parseFloat(value) * 1000 : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Reads container, stream and rotation details from ffmpeg's input banner.
+ * ffmpeg-static ships no ffprobe, so the banner is the probe.
+ */
+export function parseProbeOutput(stderr: string): Omit<MediaProbeRecord, "probedAt"> {
+  const probe: Omit<MediaProbeRecord, "probedAt"> = { audioTracks: [] };
+  probe.format = stderr.match(/Input #0, ([^ ]+), from/)?.[1];
+
+  const durationMatch = stderr.match(/Duration:\s*(\d+):(\d+):([\d.]+)/);
+  if (durationMatch) {
+    probe.duration = parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3]);
+  }
+  probe.bitrate = parseNumber(stderr.match(/Duration:.*bitrate:\s*(\d+) kb\/s/)?.[1]);
+
+  let section: "video" | "audio" | "other" | null = null;
+  for (const line of stderr.split("\n")) {
+    const stream = line.match(/Stream #0:(\d+)(?:\[[^\]]*\])?(?:\(([a-z]+)\))?: (Video|Audio|\w+): (\w+)(.*)/);
+    if (stream) {
+      const [, index, language, kind, codec, details] = stream;
+      section = "other";
+      if (kind === "Video" && !probe.videoCodec && !/attached pic/.test(details)) {
+        section = "video";
+        probe.videoCodec = codec;
+        const size = details.match(/, (\d{2,5})x(\d{2,5})/);
+        if (size) {
+          probe.width = parseInt(size[1]);
+          probe.height = parseInt(size[2]);
+        }
+        probe.pixelFormat = details.match(/^, ([a-z0-9_]+)(?:\(|,)/)?.[1] || details.match(/\), ([a-z0-9_]+)(?:\(|,)/)?.[1];
+        probe.videoBitrate = parseNumber(details.match(/(\d+) kb\/s/)?.[1]);
+        const fps = parseNumber(details.match(/([\d.]+k?) fps/)?.[1]);
+        const tbr = parseNumber(details.match(/([\d.]+k?) tbr/)?.[1]);
+        probe.fps = fps ?? tbr;
+        // The average rate (fps) drifting from the base rate (tbr) is the banner's sign of variable frame timing.
+        probe.variableFrameRate = fps !== undefined && tbr !== undefined && Math.abs(fps - tbr) > 0.01 * tbr;
+      } else if (kind === "Audio") {
+        section = "audio";
+        probe.audioTracks.push({
+          index: parseInt(index),
+          codec,
+          sampleRate: parseNumber(details.match(/(\d+) Hz/)?.[1]),
+          channels: details.match(/Hz, ([^,]+)/)?.[1]?.trim(),
+          bitrate: parseNumber(details.match(/(\d+) kb\/s/)?.[1]),
+          ...(language && language !== "und" ? { language } : {}),
+        });
+      }
+      continue;
+    }
+
+    if (section !== "video") continue;
+    const rotate = line.match(/^\s+rotate\s*:\s*(-?\d+)/);
+    if (rotate) probe.rotation = ((parseInt(rotate[1]) % 360) + 360) % 360;
+    // Newer muxers carry rotation only in the display matrix, expressed counter-clockwise.
+    const matrix = line.match(/displaymatrix: rotation of (-?[\d.]+) degrees/);
+    if (matrix && probe.rotation === undefined) probe.rotation = ((Math.round(-parseFloat(matrix[1])) % 360) + 360) % 360;
+  }
+
+  return probe;
+}
+
+export async function probeMedia(inputPath: string): Promise<MediaProbeRecord> {
+  // ffmpeg exits non-zero without an output file; the banner is on stderr either way.
+  const result = await execFileAsync(ffmpegStatic as string, ["-hide_banner", "-i", inputPath], { encoding: "utf8" }).catch((e) => e);
+  return { ...parseProbeOutput(result.stderr || ""), probedAt: new Date().toISOString() };
+}
+
+/** Why a probed video is not in canonical form; an empty list means it can go to detectors as is. */
+function normalizationReasons(probe: MediaProbeRecord) {
+  const reasons: string[] = [];
+  if (!probe.videoCodec) return reasons;
+  if (VIDEO_NORMALIZE === "always") reasons.push("forced");
+  if (!CANONICAL_FORMATS.includes(probe.format || "")) reasons.push(`container ${probe.format || "unknown"}`);
+  if (!CANONICAL_VIDEO_CODECS.includes(probe.videoCodec)) reasons.push(`video codec ${probe.videoCodec}`);
+  if (probe.pixelFormat && !CANONICAL_PIXEL_FORMATS.includes(probe.pixelFormat)) reasons.push(`pixel format ${probe.pixelFormat}`);
+  if (probe.rotation) reasons.push(`rotated ${probe.rotation}°`);
+  if (probe.variableFrameRate) reasons.push("variable frame rate");
+  if (probe.audioTracks.length > 1) reasons.push(`${probe.audioTracks.length} audio tracks`);
+  if (probe.audioTracks[0] && !CANONICAL_AUDIO_CODECS.includes(probe.audioTracks[0].codec)) {
+    reasons.push(`audio codec ${probe.audioTracks[0].codec}`);
+  }
+  return reasons;
+}
+
+/** Only the wrapper (or extra audio tracks) is wrong, so streams can be copied instead of re-encoded. */
+function canRemux(probe: MediaProbeRecord) {
+  return VIDEO_NORMALIZE !== "always"
+    && CANONICAL_VIDEO_CODECS.includes(probe.videoCodec || "")
+    && CANONICAL_PIXEL_FORMATS.includes(probe.pixelFormat || "yuv420p")
+    && !probe.rotation
+    && !probe.variableFrameRate
+    && (!probe.audioTracks[0] || CANONICAL_AUDIO_CODECS.includes(probe.audioTracks[0].codec));
+}
+
+export type NormalizedVideo = {
+  /** What detectors should read: the canonical file, or the original when it was already canonical. */
+  media: MediaInput;
+  probe: MediaProbeRecord;
+  /** Removes the work directory; call once every detector has finished with `media`. */
+  cleanup: () => Promise<void>;
+};
+
+/**
+ * Probes a video and, when its container, codec, pixel format, rotation,
+ * frame timing or audio layout is not canonical, rewrites it as H.264/AAC MP4
+ * at a constant frame rate with the rotation applied. Streams are copied when
+ * only the container needs to change. A failed transcode leaves the original.
+ */
+export async function normalizeVideo(media: MediaInput): Promise<NormalizedVideo> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-normalize-"));
+  const cleanup = () => rm(workDir, { recursive: true, force: true }).catch(() => {});
+  try {
+    const inputPath = await mediaInputPath(media, workDir, "input.bin");
+    const probe = await probeMedia(inputPath);
+    const reasons = VIDEO_NORMALIZE === "off" ? [] : normalizationReasons(probe);
+    if (reasons.length === 0) return { media, probe, cleanup };
+
+    const outputPath = path.join(workDir, "normalized.mp4");
+    const remux = canRemux(probe);
+    const streamArgs = remux
+      ? ["-c", "copy"]
+      : [
+          // ffmpeg applies the rotation while decoding; even dimensions keep yuv420p valid.
+          "-vf", "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+          "-c:v", "libx264", "-preset", "veryfast", "-crf", "18", "-pix_fmt", "yuv420p",
+          ...(probe.fps ? ["-vsync", "cfr", "-r", String(Math.min(60, Math.round(probe.fps * 1000) / 1000))] : []),
+          "-c:a", "aac", "-b:a", "128k",
+          "-metadata:s:v:0", "rotate=0",
+        ];
+
+    try {
+      await execFileAsync(ffmpegStatic as string, [
+        "-hide_banner", "-loglevel", "error",
+        "-i", inputPath,
+        "-map", "0:v:0", "-map", "0:a:0?",
+        ...streamArgs,
+        "-movflags", "+faststart",
+        "-y", outputPath,
+      ], { timeout: VIDEO_NORMALIZE_TIMEOUT_MS, maxBuffer: 8 * 1024 * 1024 });
+    } catch (error) {
+      console.warn(`Video normalisation (${reasons.join(", ")}) failed; scanning the original:`, error);
+      return { media, probe, cleanup };
+    }
+
+    return {
+      media: { filePath: outputPath },
+      probe: { ...probe, normalization: remux ? "remux" : "transcode", normalizationReasons: reasons },
+      cleanup,
+    };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/** Probe only, for audio uploads; lib/audioAnalysis converts them to 16 kHz WAV itself. */
+export async function probeMediaInput(media: MediaInput, fileName: string) {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-probe-"));
+  try {
+    return await probeMedia(await mediaInputPath(media, workDir, "input" + (path.extname(fileName) || ".bin")));
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,358 @@
+import { open, type FileHandle } from "fs/promises";
+
+export type SniffedMedia = {
+  fileType: "image" | "video" | "audio";
+  mime: string;
+  ext: string;
+};
+
+function ascii(buffer: Buffer, start: number, end: number) {
+  return buffer.length >= end ? buffer.subarray(start, end).toString("latin1") : "";
+}
+
+/**
+ * Identifies the media type from the leading bytes of a file. Returns null when
+ * the signature is not one of the image, video or audio formats we accept.
+ */
+export function sniffMediaType(buffer: Buffer): SniffedMedia | null {
+  if (buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return { fileType: "image", mime: "image/jpeg", ext: ".jpg" };
+  if (buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return { fileType: "image", mime: "image/png", ext: ".png" };
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") return { fileType: "image", mime: "image/gif", ext: ".gif" };
+  if (ascii(buffer, 0, 2) === "BM") return { fileType: "image", mime: "image/bmp", ext: ".bmp" };
+
+  if (ascii(buffer, 0, 4) === "RIFF") {
+    const format = ascii(buffer, 8, 12);
+    if (format === "WEBP") return { fileType: "image", mime: "image/webp", ext: ".webp" };
+    if (format === "WAVE") return { fileType: "audio", mime: "audio/wav", ext: ".wav" };
+    if (format === "AVI ") return { fileType: "video", mime: "video/x-msvideo", ext: ".avi" };
+    return null;
+  }
+
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (brand === "qt  ") return { fileType: "video", mime: "video/quicktime", ext: ".mov" };
+    if (brand.startsWith("M4A") || brand.startsWith("M4B")) return { fileType: "audio", mime: "audio/mp4", ext: ".m4a" };
+    return { fileType: "video", mime: "video/mp4", ext: ".mp4" };
+  }
+
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) return { fileType: "video", mime: "video/x-matroska", ext: ".mkv" };
+
+  if (ascii(buffer, 0, 4) === "OggS") return { fileType: "audio", mime: "audio/ogg", ext: ".ogg" };
+  if (ascii(buffer, 0, 4) === "fLaC") return { fileType: "audio", mime: "audio/flac", ext: ".flac" };
+  if (ascii(buffer, 0, 3) === "ID3") return { fileType: "audio", mime: "audio/mpeg", ext: ".mp3" };
+  // MPEG audio frame sync (MP3) and ADTS (AAC) share the 0xFFF sync word; layer bits tell them apart.
+  if (buffer[0] === 0xff && (buffer[1] & 0xf0) === 0xf0) {
+    const layer = (buffer[1] >> 1) & 0x03;
+    return layer === 0
+      ? { fileType: "audio", mime: "audio/aac", ext: ".aac" }
+      : { fileType: "audio", mime: "audio/mpeg", ext: ".mp3" };
+  }
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return { fileType: "audio", mime: "audio/mpeg", ext: ".mp3" };
+
+  return null;
+}
+
+export class MediaInspectionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 415) {
+    super(message);
+    this.name = "MediaInspectionError";
+    this.status = status;
+  }
+}
+
+export type MediaInspection = SniffedMedia & {
+  container: string;
+  codec?: string;
+  audioCodec?: string;
+};
+
+// Extensions that legitimately share a container family are treated as equivalent.
+const EXTENSION_FAMILIES: Record<string, string> = {
+  ".jpg": "jpeg",
+  ".jpeg": "jpeg",
+  ".png": "png",
+  ".gif": "gif",
+  ".webp": "webp",
+  ".bmp": "bmp",
+  ".mp4": "isobmff",
+  ".mov": "isobmff",
+  ".m4a": "isobmff",
+  ".mkv": "matroska",
+  ".avi": "avi",
+  ".wav": "wav",
+  ".mp3": "mpeg-audio",
+  ".aac": "adts",
+  ".ogg": "ogg",
+  ".flac": "flac",
+};
+
+// Signatures of formats that should never be embedded inside media we forward to detectors.
+const FOREIGN_SIGNATURES = [
+  { label: "ZIP archive", bytes: Buffer.from("PK\x03\x04", "latin1") },
+  { label: "ZIP archive", bytes: Buffer.from("PK\x05\x06", "latin1") },
+  { label: "PDF document", bytes: Buffer.from("%PDF-", "latin1") },
+  { label: "RAR archive", bytes: Buffer.from("Rar!\x1a\x07", "latin1") },
+  { label: "7-Zip archive", bytes: Buffer.from("7z\xbc\xaf\x27\x1c", "latin1") },
+  { label: "HTML", bytes: Buffer.from("<html", "latin1") },
+  { label: "script", bytes: Buffer.from("<script", "latin1") },
+  { label: "PHP", bytes: Buffer.from("<?php", "latin1") },
+];
+
+function findForeignSignature(region: Buffer) {
+  const lower = Buffer.from(region.toString("latin1").toLowerCase(), "latin1");
+  return FOREIGN_SIGNATURES.find((sig) => lower.includes(Buffer.from(sig.bytes.toString("latin1").toLowerCase(), "latin1")))?.label;
+}
+
+/** Returns the bytes that follow the format's own end marker, if the format has one. */
+function trailingData(buffer: Buffer, mime: string) {
+  if (mime === "image/jpeg") {
+    const eoi = buffer.lastIndexOf(Buffer.from([0xff, 0xd9]));
+    return eoi >= 0 ? buffer.subarray(eoi + 2) : Buffer.alloc(0);
+  }
+  if (mime === "image/png") {
+    const iend = buffer.lastIndexOf(Buffer.from("IEND", "latin1"));
+    return iend >= 0 ? buffer.subarray(iend + 8) : Buffer.alloc(0);
+  }
+  if (mime === "image/gif") {
+    return buffer[buffer.length - 1] === 0x3b ? Buffer.alloc(0) : buffer.subarray(buffer.lastIndexOf(0x3b) + 1);
+  }
+  return Buffer.alloc(0);
+}
+
+type Box = { type: string; start: number; end: number };
+
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.subarray(offset + 4, offset + 8).toString("latin1");
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function isoBmffCodecs(buffer: Buffer) {
+  const codecs: { video?: string; audio?: string } = {};
+  const moov = readBoxes(buffer, 0, buffer.length).find((b) => b.type === "moov");
+  if (!moov) return codecs;
+
+  for (const trak of readBoxes(buffer, moov.start, moov.end).filter((b) => b.type === "trak")) {
+    const mdia = readBoxes(buffer, trak.start, trak.end).find((b) => b.type === "mdia");
+    if (!mdia) continue;
+    const mdiaChildren = readBoxes(buffer, mdia.start, mdia.end);
+    const hdlr = mdiaChildren.find((b) => b.type === "hdlr");
+    const handler = hdlr ? buffer.subarray(hdlr.start + 8, hdlr.start + 12).toString("latin1") : "";
+    const minf = mdiaChildren.find((b) => b.type === "minf");
+    const stbl = minf && readBoxes(buffer, minf.start, minf.end).find((b) => b.type === "stbl");
+    const stsd = stbl && readBoxes(buffer, stbl.start, stbl.end).find((b) => b.type === "stsd");
+    if (!stsd || stsd.start + 16 > stsd.end) continue;
+    // stsd: version/flags (4) + entry count (4), then the first sample entry box.
+    const fourcc = buffer.subarray(stsd.start + 12, stsd.start + 16).toString("latin1").trim();
+    if (handler === "vide" && !codecs.video) codecs.video = fourcc;
+    if (handler === "soun" && !codecs.audio) codecs.audio = fourcc;
+  }
+  return codecs;
+}
+
+function matroskaCodecs(buffer: Buffer) {
+  const codecs: { video?: string; audio?: string; docType?: string } = {};
+  const limit = Math.min(buffer.length, 4 * 1024 * 1024);
+  for (let i = 0; i < limit - 2; i++) {
+    // CodecID element (0x86) with a one-byte size, or DocType (0x42 0x82).
+    if (buffer[i] === 0x86 && (buffer[i + 1] & 0x80)) {
+      const len = buffer[i + 1] & 0x7f;
+      const value = buffer.subarray(i + 2, i + 2 + len).toString("latin1");
+      if (/^V_[A-Z0-9/_.]+$/.test(value) && !codecs.video) codecs.video = value;
+      if (/^A_[A-Z0-9/_.]+$/.test(value) && !codecs.audio) codecs.audio = value;
+    } else if (buffer[i] === 0x42 && buffer[i + 1] === 0x82 && (buffer[i + 2] & 0x80) && !codecs.docType) {
+      const len = buffer[i + 2] & 0x7f;
+      codecs.docType = buffer.subarray(i + 3, i + 3 + len).toString("latin1");
+    }
+    if (codecs.video && codecs.audio && codecs.docType) break;
+  }
+  return codecs;
+}
+
+function aviCodecs(buffer: Buffer) {
+  const codecs: { video?: string; audio?: string } = {};
+  let offset = buffer.indexOf("strh", 0, "latin1");
+  while (offset >= 0 && offset + 16 <= buffer.length) {
+    const kind = buffer.subarray(offset + 8, offset + 12).toString("latin1");
+    const handler = buffer.subarray(offset + 12, offset + 16).toString("latin1").replace(/\0/g, "").trim();
+    if (kind === "vids" && !codecs.video) codecs.video = handler || "unknown";
+    if (kind === "auds" && !codecs.audio) codecs.audio = "audio";
+    offset = buffer.indexOf("strh", offset + 4, "latin1");
+  }
+  return codecs;
+}
+
+function containerAndCodec(buffer: Buffer, sniffed: SniffedMedia): Omit<MediaInspection, keyof SniffedMedia> {
+  switch (sniffed.mime) {
+    case "video/mp4":
+    case "video/quicktime":
+    case "audio/mp4": {
+      const codecs = isoBmffCodecs(buffer);
+      return {
+        container: sniffed.mime === "video/quicktime" ? "mov" : sniffed.fileType === "audio" ? "m4a" : "mp4",
+        codec: sniffed.fileType === "audio" ? codecs.audio : codecs.video,
+        audioCodec: codecs.audio,
+      };
+    }
+    case "video/x-matroska": {
+      const codecs = matroskaCodecs(buffer);
+      return { container: codecs.docType === "webm" ? "webm" : "matroska", codec: codecs.video, audioCodec: codecs.audio };
+    }
+    case "video/x-msvideo": {
+      const codecs = aviCodecs(buffer);
+      return { container: "avi", codec: codecs.video, audioCodec: codecs.audio };
+    }
+    case "audio/wav": {
+      const formatTag = buffer.length >= 22 ? buffer.readUInt16LE(20) : 0;
+      const codec = formatTag === 1 ? "pcm" : formatTag === 3 ? "pcm_float" : formatTag === 0x55 ? "mp3" : `wav_0x${formatTag.toString(16)}`;
+      return { container: "wav", codec, audioCodec: codec };
+    }
+    case "audio/ogg": {
+      const head = buffer.subarray(0, 512);
+      const codec = head.includes("OpusHead") ? "opus" : head.includes("vorbis") ? "vorbis" : head.includes("FLAC") ? "flac" : undefined;
+      return { container: "ogg", codec, audioCodec: codec };
+    }
+    case "audio/flac":
+      return { container: "flac", codec: "flac", audioCodec: "flac" };
+    case "audio/mpeg":
+      return { container: "mp3", codec: "mp3", audioCodec: "mp3" };
+    case "audio/aac":
+      return { container: "adts", codec: "aac", audioCodec: "aac" };
+    default:
+      return { container: sniffed.ext.replace(".", ""), codec: sniffed.ext.replace(".", "") };
+  }
+}
+
+function assertMatchesDeclared(
+  sniffed: SniffedMedia,
+  declared: { fileName: string; fileType?: "image" | "video" | "audio" | null; mimeType?: string }
+) {
+  const ext = (declared.fileName.match(/\.[^.]+$/)?.[0] || "").toLowerCase();
+  const declaredFamily = EXTENSION_FAMILIES[ext];
+  const actualFamily = EXTENSION_FAMILIES[sniffed.ext];
+  if (declaredFamily && actualFamily && declaredFamily !== actualFamily) {
+    throw new MediaInspectionError(
+      `File content does not match its extension: "${declared.fileName}" is named ${ext} but contains ${sniffed.mime}.`
+    );
+  }
+
+  if (declared.fileType && declared.fileType !== sniffed.fileType) {
+    throw new MediaInspectionError(`File was submitted as ${declared.fileType} but contains ${sniffed.fileType} (${sniffed.mime}).`);
+  }
+
+  const declaredMime = (declared.mimeType || "").toLowerCase();
+  const mimeTopLevel = declaredMime.split("/")[0];
+  if (["image", "video", "audio"].includes(mimeTopLevel) && mimeTopLevel !== sniffed.fileType) {
+    throw new MediaInspectionError(`Declared content type ${declaredMime} does not match file content (${sniffed.mime}).`);
+  }
+}
+
+/** `head` and `tail` are the start and the end of the file; for small files both are the whole buffer. */
+function assertNotPolyglot(sniffed: SniffedMedia, head: Buffer, tail: Buffer) {
+  const headForeign = findForeignSignature(head.subarray(0, 2048));
+  const tailForeign = findForeignSignature(trailingData(tail, sniffed.mime));
+  const zipDirectory = tail.subarray(Math.max(0, tail.length - 65536)).includes(Buffer.from("PK\x05\x06", "latin1"));
+  if (headForeign || tailForeign || (sniffed.fileType === "image" && zipDirectory)) {
+    throw new MediaInspectionError(
+      `File appears to be a polyglot: ${sniffed.mime} content also contains ${headForeign || tailForeign || "ZIP archive"} data.`
+    );
+  }
+}
+
+/**
+ * Content-based validation run before a scan is charged. Rejects files whose
+ * bytes do not match the declared name, type or MIME type, and files that
+ * smuggle another format (archives, documents, markup) alongside the media.
+ */
+export function inspectMedia(
+  buffer: Buffer,
+  declared: { fileName: string; fileType?: "image" | "video" | "audio" | null; mimeType?: string }
+): MediaInspection {
+  const sniffed = sniffMediaType(buffer);
+  if (!sniffed) {
+    throw new MediaInspectionError("File content is not a recognised image, video or audio format.");
+  }
+
+  assertMatchesDeclared(sniffed, declared);
+  assertNotPolyglot(sniffed, buffer, buffer);
+
+  return { ...sniffed, ...containerAndCodec(buffer, sniffed) };
+}
+
+// Regions read by inspectMediaFile; files up to the head size are inspected whole.
+const FILE_HEAD_BYTES = 4 * 1024 * 1024;
+const FILE_TAIL_BYTES = 64 * 1024;
+const FILE_MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+async function readRegion(handle: FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/** Walks the top-level boxes on disk and returns the moov box, which encoders often write last. */
+async function readMoovBox(handle: FileHandle, size: number) {
+  let offset = 0;
+  for (let i = 0; i < 1024 && offset + 8 <= size; i++) {
+    const header = await readRegion(handle, offset, 16);
+    if (header.length < 8) break;
+    let boxSize = header.readUInt32BE(0);
+    const type = header.subarray(4, 8).toString("latin1");
+    if (boxSize === 1 && header.length >= 16) boxSize = Number(header.readBigUInt64BE(8));
+    else if (boxSize === 0) boxSize = size - offset;
+    if (boxSize < 8 || offset + boxSize > size) break;
+    if (type === "moov") return boxSize <= FILE_MAX_MOOV_BYTES ? readRegion(handle, offset, boxSize) : null;
+    offset += boxSize;
+  }
+  return null;
+}
+
+/**
+ * inspectMedia for a file on disk, e.g. an assembled resumable upload. Large
+ * files are judged from their head and tail (plus the moov box for MP4/MOV)
+ * instead of being read into memory.
+ */
+export async function inspectMediaFile(
+  filePath: string,
+  declared: { fileName: string; fileType?: "image" | "video" | "audio" | null; mimeType?: string }
+): Promise<MediaInspection> {
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    if (size <= FILE_HEAD_BYTES) return inspectMedia(await handle.readFile(), declared);
+
+    const head = await readRegion(handle, 0, FILE_HEAD_BYTES);
+    const tail = await readRegion(handle, size - FILE_TAIL_BYTES, FILE_TAIL_BYTES);
+    const sniffed = sniffMediaType(head);
+    if (!sniffed) {
+      throw new MediaInspectionError("File content is not a recognised image, video or audio format.");
+    }
+
+    assertMatchesDeclared(sniffed, declared);
+    assertNotPolyglot(sniffed, head, tail);
+
+    const isoBmff = ["video/mp4", "video/quicktime", "audio/mp4"].includes(sniffed.mime);
+    const codecSource = isoBmff ? (await readMoovBox(handle, size)) || Buffer.alloc(0) : head;
+    return { ...sniffed, ...containerAndCodec(codecSource, sniffed) };
+  } finally {
+    await handle.close();
+  }
+}
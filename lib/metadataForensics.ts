@@ -0,0 +1,555 @@
+import { inflateSync } from "zlib";
+import { imageDHash, hammingDistance } from "./scanCache";
+
+// dHash distance (of 64 bits) above which the embedded thumbnail no longer shows the main picture.
+const THUMBNAIL_MAX_DISTANCE = Math.max(0, parseInt(process.env.METADATA_THUMBNAIL_MAX_DISTANCE || "12", 10));
+// Two capture timestamps further apart than this disagree; EXIF only has second precision.
+const TIMESTAMP_TOLERANCE_MS = 60 * 1000;
+// GPS time is UTC while EXIF times are local, so only a gap beyond every time zone counts.
+const GPS_TOLERANCE_MS = 26 * 3600 * 1000;
+// Text chunks can carry whole generation workflows; only their head is searched for signatures.
+const MAX_TEXT_SCAN = 4096;
+
+export type MetadataFlag =
+  | "metadata_stripped"
+  | "camera_data_missing"
+  | "editing_software"
+  | "timestamp_mismatch"
+  | "modified_after_capture"
+  | "dimension_mismatch"
+  | "thumbnail_mismatch"
+  | "ai_generator";
+
+export type MetadataFinding = { flag: MetadataFlag; detail: string };
+
+export type MetadataTimestamps = {
+  original?: string;
+  digitized?: string;
+  modified?: string;
+  xmpCreated?: string;
+  xmpModified?: string;
+  iptcCreated?: string;
+  gps?: string;
+};
+
+export type MetadataAnalysisRecord = {
+  format: "jpeg" | "png" | "webp" | "other";
+  hasExif: boolean;
+  hasXmp: boolean;
+  hasIptc: boolean;
+  hasGps: boolean;
+  camera?: { make?: string; model?: string; lens?: string };
+  /** Every software name found in EXIF, XMP (including edit history) and IPTC, deduplicated. */
+  software: string[];
+  editingSoftware: string[];
+  aiGenerator?: string;
+  timestamps: MetadataTimestamps;
+  dimensions?: { width: number; height: number };
+  exifDimensions?: { width: number; height: number };
+  thumbnail?: { width?: number; height?: number; distance?: number };
+  flags: MetadataFlag[];
+  findings: MetadataFinding[];
+  analyzedAt: string;
+};
+
+const EDITING_SOFTWARE: Array<[RegExp, string]> = [
+  [/photoshop/i, "Adobe Photoshop"],
+  [/lightroom/i, "Adobe Lightroom"],
+  [/\bgimp\b/i, "GIMP"],
+  [/affinity photo/i, "Affinity Photo"],
+  [/pixelmator/i, "Pixelmator"],
+  [/snapseed/i, "Snapseed"],
+  [/picsart/i, "PicsArt"],
+  [/facetune/i, "Facetune"],
+  [/faceapp/i, "FaceApp"],
+  [/\bcanva\b/i, "Canva"],
+  [/luminar/i, "Luminar"],
+  [/capture one/i, "Capture One"],
+  [/paint\.net/i, "Paint.NET"],
+  [/photopea/i, "Photopea"],
+  [/fotor/i, "Fotor"],
+  [/meitu/i, "Meitu"],
+  [/remini/i, "Remini"],
+  [/airbrush/i, "AirBrush"],
+  [/darktable/i, "darktable"],
+  [/rawtherapee/i, "RawTherapee"],
+  [/paintshop/i, "PaintShop Pro"],
+];
+
+const AI_GENERATORS: Array<[RegExp, string]> = [
+  [/midjourney/i, "Midjourney"],
+  [/dall[\s·-]?e|openai|chatgpt/i, "DALL-E"],
+  [/stable[\s_-]?diffusion|stability\.?ai|\bsdxl\b|dreamstudio/i, "Stable Diffusion"],
+  [/comfyui/i, "ComfyUI"],
+  [/novelai/i, "NovelAI"],
+  [/invokeai/i, "InvokeAI"],
+  [/adobe firefly/i, "Adobe Firefly"],
+  [/\bimagen\b|google gemini/i, "Google Imagen"],
+  [/leonardo\.?ai/i, "Leonardo.Ai"],
+  [/ideogram/i, "Ideogram"],
+  [/black forest labs|\bflux\.1\b/i, "FLUX"],
+  [/runwayml|runway gen/i, "Runway"],
+  [/bing image creator|microsoft designer/i, "Microsoft Designer"],
+  [/craiyon/i, "Craiyon"],
+];
+
+// IPTC digital source types (also used by C2PA) that declare generated or AI-composited content.
+const AI_SOURCE_TYPES = ["trainedAlgorithmicMedia", "compositeWithTrainedAlgorithmicMedia", "algorithmicMedia", "compositeSynthetic"];
+// AUTOMATIC1111 writes its generation parameters as "Steps: 20, Sampler: Euler a, CFG scale: 7, ...".
+const A1111_PARAMETERS = /Steps: \d+, Sampler: /;
+
+type IfdValue = string | number | number[] | Buffer;
+type Ifd = Map<number, IfdValue>;
+
+type ExifData = {
+  ifd0: Ifd;
+  exif: Ifd;
+  gps: Ifd;
+  thumbnail?: Buffer;
+};
+
+type ExtractedMetadata = {
+  format: MetadataAnalysisRecord["format"];
+  exif?: ExifData;
+  xmp?: string;
+  iptc?: Map<number, string>;
+  /** PNG text chunks and JPEG comments, keyed by chunk keyword. */
+  text: Map<string, string>;
+  dimensions?: { width: number; height: number };
+};
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/** Reads IFD0, the Exif and GPS sub-IFDs and the IFD1 thumbnail from a TIFF header; null when it is not one. */
+function readTiff(tiff: Buffer): ExifData | null {
+  if (tiff.length < 8) return null;
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+  const little = order === "II";
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  const i32 = (offset: number) => (little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset));
+  if (u16(2) !== 42) return null;
+
+  const readIfd = (offset: number): { entries: Ifd; next: number } => {
+    const entries: Ifd = new Map();
+    if (offset < 8 || offset + 2 > tiff.length) return { entries, next: 0 };
+    const count = Math.min(u16(offset), Math.floor((tiff.length - offset - 2) / 12));
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const n = u32(entry + 4);
+      const unit = TIFF_TYPE_SIZES[type];
+      if (!unit) continue;
+      const size = unit * n;
+      const at = size <= 4 ? entry + 8 : u32(entry + 8);
+      if (at + size > tiff.length) continue;
+      if (type === 2) {
+        entries.set(tag, tiff.toString("latin1", at, at + size).replace(/\0[\s\S]*$/, "").trim());
+      } else if (type === 1 || type === 7) {
+        entries.set(tag, tiff.subarray(at, at + size));
+      } else {
+        const values = Array.from({ length: n }, (_, k) => {
+          const p = at + k * unit;
+          if (type === 3) return u16(p);
+          if (type === 4) return u32(p);
+          if (type === 9) return i32(p);
+          const denominator = type === 5 ? u32(p + 4) : i32(p + 4);
+          return denominator ? (type === 5 ? u32(p) : i32(p)) / denominator : 0;
+        });
+        entries.set(tag, n === 1 ? values[0] : values);
+      }
+    }
+    const nextAt = offset + 2 + count * 12;
+    return { entries, next: nextAt + 4 <= tiff.length ? u32(nextAt) : 0 };
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const pointer = (ifd: Ifd, tag: number) => (typeof ifd.get(tag) === "number" ? (ifd.get(tag) as number) : 0);
+  const exif = readIfd(pointer(ifd0.entries, 0x8769)).entries;
+  const gps = readIfd(pointer(ifd0.entries, 0x8825)).entries;
+
+  let thumbnail: Buffer | undefined;
+  if (ifd0.next) {
+    const ifd1 = readIfd(ifd0.next).entries;
+    const start = pointer(ifd1, 0x0201);
+    const length = pointer(ifd1, 0x0202);
+    if (start && length && start + length <= tiff.length) thumbnail = tiff.subarray(start, start + length);
+  }
+  return { ifd0: ifd0.entries, exif, gps, thumbnail };
+}
+
+/** IPTC IIM application records (2:xx) from a Photoshop APP13 resource block. */
+function readIptc(resources: Buffer) {
+  const records = new Map<number, string>();
+  let offset = 0;
+  while (offset + 12 <= resources.length && resources.toString("latin1", offset, offset + 4) === "8BIM") {
+    const id = resources.readUInt16BE(offset + 4);
+    const nameLength = resources[offset + 6];
+    const nameEnd = offset + 6 + ((nameLength + 2) & ~1); // Pascal string padded to an even length
+    if (nameEnd + 4 > resources.length) break;
+    const size = resources.readUInt32BE(nameEnd);
+    const data = resources.subarray(nameEnd + 4, Math.min(resources.length, nameEnd + 4 + size));
+    if (id === 0x0404) {
+      for (let p = 0; p + 5 <= data.length && data[p] === 0x1c; ) {
+        const length = data.readUInt16BE(p + 3);
+        if (data[p + 1] === 2 && !records.has(data[p + 2])) {
+          records.set(data[p + 2], data.toString("utf8", p + 5, p + 5 + length).trim());
+        }
+        p += 5 + length;
+      }
+    }
+    offset = nameEnd + 4 + size + (size & 1);
+  }
+  return records;
+}
+
+function extractJpeg(buffer: Buffer): ExtractedMetadata {
+  const meta: ExtractedMetadata = { format: "jpeg", text: new Map() };
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break; // metadata segments all precede the scan data
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, Math.min(buffer.length, offset + 2 + length));
+
+    if (marker === 0xe1 && segment.toString("latin1", 0, 6) === "Exif\0\0" && !meta.exif) {
+      meta.exif = readTiff(segment.subarray(6)) || undefined;
+    } else if (marker === 0xe1 && segment.toString("latin1", 0, 29) === "http://ns.adobe.com/xap/1.0/\0") {
+      meta.xmp = segment.toString("utf8", 29);
+    } else if (marker === 0xed && segment.toString("latin1", 0, 14) === "Photoshop 3.0\0") {
+      const iptc = readIptc(segment.subarray(14));
+      if (iptc.size) meta.iptc = iptc;
+    } else if (marker === 0xfe) {
+      meta.text.set("Comment", segment.toString("utf8").replace(/\0+$/, ""));
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && segment.length >= 5 && !meta.dimensions) {
+      meta.dimensions = { height: segment.readUInt16BE(1), width: segment.readUInt16BE(3) };
+    }
+    offset += 2 + length;
+  }
+  return meta;
+}
+
+function extractPng(buffer: Buffer): ExtractedMetadata {
+  const meta: ExtractedMetadata = { format: "png", text: new Map() };
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, Math.min(buffer.length, offset + 8 + length));
+    if (type === "IHDR" && data.length >= 8) {
+      meta.dimensions = { width: data.readUInt32BE(0), height: data.readUInt32BE(4) };
+    } else if (type === "eXIf") {
+      meta.exif = readTiff(data) || undefined;
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const keywordEnd = data.indexOf(0);
+      if (keywordEnd > 0) {
+        const keyword = data.toString("latin1", 0, keywordEnd);
+        let text = "";
+        try {
+          if (type === "tEXt") {
+            text = data.toString("latin1", keywordEnd + 1);
+          } else if (type === "zTXt") {
+            text = inflateSync(data.subarray(keywordEnd + 2)).toString("latin1");
+          } else {
+            // iTXt: compression flag and method, then language tag and translated keyword, both null-terminated.
+            const compressed = data[keywordEnd + 1] === 1;
+            const languageEnd = data.indexOf(0, keywordEnd + 3);
+            const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+            if (translatedEnd >= 0) {
+              const body = data.subarray(translatedEnd + 1);
+              text = (compressed ? inflateSync(body) : body).toString("utf8");
+            }
+          }
+        } catch {
+          text = "";
+        }
+        if (keyword === "XML:com.adobe.xmp") meta.xmp = text;
+        else if (text) meta.text.set(keyword, text);
+      }
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return meta;
+}
+
+function extractWebp(buffer: Buffer): ExtractedMetadata {
+  const meta: ExtractedMetadata = { format: "webp", text: new Map() };
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const data = buffer.subarray(offset + 8, Math.min(buffer.length, offset + 8 + size));
+    if (type === "VP8X" && data.length >= 10) {
+      meta.dimensions = { width: data.readUIntLE(4, 3) + 1, height: data.readUIntLE(7, 3) + 1 };
+    } else if (type === "EXIF") {
+      // Some writers keep the JPEG "Exif\0\0" prefix in front of the TIFF header.
+      meta.exif = readTiff(data.toString("latin1", 0, 6) === "Exif\0\0" ? data.subarray(6) : data) || undefined;
+    } else if (type === "XMP ") {
+      meta.xmp = data.toString("utf8");
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return meta;
+}
+
+function extractMetadata(buffer: Buffer): ExtractedMetadata {
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return extractJpeg(buffer);
+  if (buffer.toString("latin1", 1, 4) === "PNG") return extractPng(buffer);
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") return extractWebp(buffer);
+  return { format: "other", text: new Map() };
+}
+
+function decodeXmlEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Every value of an XMP property, whether serialised as an attribute or as an
+ * element (for rdf:Alt/Seq/Bag containers, each rdf:li counts as a value).
+ */
+function xmpValues(xmp: string, name: string) {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const values: string[] = [];
+  for (const match of xmp.matchAll(new RegExp(`\\b${escaped}="([^"]*)"`, "g"))) values.push(decodeXmlEntities(match[1]));
+  for (const match of xmp.matchAll(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, "g"))) {
+    const items = [...match[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map((item) => item[1]);
+    values.push(...(items.length ? items : [match[1]]).map(decodeXmlEntities));
+  }
+  // rdf:resource attributes carry URI values such as the IPTC digital source type.
+  for (const match of xmp.matchAll(new RegExp(`<${escaped}\\s[^>]*rdf:resource="([^"]*)"`, "g"))) values.push(decodeXmlEntities(match[1]));
+  return values.filter(Boolean);
+}
+
+/** EXIF "YYYY:MM:DD HH:MM:SS", XMP ISO 8601 or IPTC "YYYYMMDD" as "YYYY-MM-DDTHH:MM:SS", dropping any zone. */
+function normalizeTimestamp(value: string | undefined, time?: string) {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})[:-]?(\d{2})[:-]?(\d{2})(?:[T ](\d{2}):?(\d{2})(?::?(\d{2}))?)?/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, year, month, day] = match;
+  const clock = match[4] ? [match[4], match[5], match[6] || "00"] : time?.match(/^(\d{2}):?(\d{2}):?(\d{2})/)?.slice(1);
+  return `${year}-${month}-${day}T${clock ? clock.join(":") : "00:00:00"}`;
+}
+
+/** Wall-clock milliseconds of a normalised timestamp, compared as if every value were in the same zone. */
+function wallClock(value: string | undefined) {
+  if (!value) return null;
+  const time = Date.parse(value + "Z");
+  return Number.isNaN(time) ? null : time;
+}
+
+function asString(value: IfdValue | undefined) {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** EXIF UserComment: an 8-byte character-code prefix ahead of the text. */
+function userComment(value: IfdValue | undefined) {
+  if (!Buffer.isBuffer(value) || value.length <= 8) return undefined;
+  const code = value.toString("latin1", 0, 8);
+  const body = value.subarray(8);
+  const even = body.subarray(0, body.length & ~1);
+  const text = code.startsWith("UNICODE")
+    ? (even[0] === 0 ? Buffer.from(even).swap16() : even).toString("utf16le")
+    : body.toString("utf8");
+  return text.replace(/\0+/g, "").trim() || undefined;
+}
+
+function matchNames(patterns: Array<[RegExp, string]>, values: string[]) {
+  return Array.from(new Set(values.flatMap((value) => patterns.filter(([pattern]) => pattern.test(value)).map(([, name]) => name))));
+}
+
+function dimensionsMatch(a: { width: number; height: number }, b: { width: number; height: number }) {
+  return (a.width === b.width && a.height === b.height) || (a.width === b.height && a.height === b.width);
+}
+
+/**
+ * Extracts EXIF, XMP and IPTC metadata (and PNG text chunks) from an image
+ * and flags what contradicts a straight-from-camera capture: editing software,
+ * stripped camera data, conflicting timestamps, resized or replaced pixels and
+ * AI generator signatures. Metadata is easy to strip or forge, so flags are
+ * signals for analysts, not evidence on their own.
+ */
+export async function analyzeImageMetadata(image: Buffer): Promise<MetadataAnalysisRecord> {
+  const meta = extractMetadata(image);
+  const ifd0 = meta.exif?.ifd0 || new Map<number, IfdValue>();
+  const exif = meta.exif?.exif || new Map<number, IfdValue>();
+  const gps = meta.exif?.gps || new Map<number, IfdValue>();
+  const xmp = meta.xmp || "";
+  const iptc = meta.iptc || new Map<number, string>();
+  const findings: MetadataFinding[] = [];
+
+  const camera = {
+    make: asString(ifd0.get(0x010f)) || xmpValues(xmp, "tiff:Make")[0],
+    model: asString(ifd0.get(0x0110)) || xmpValues(xmp, "tiff:Model")[0],
+    lens: asString(exif.get(0xa434)) || xmpValues(xmp, "aux:Lens")[0],
+  };
+
+  const software = Array.from(new Set([
+    asString(ifd0.get(0x0131)),
+    ...xmpValues(xmp, "xmp:CreatorTool"),
+    ...xmpValues(xmp, "stEvt:softwareAgent"),
+    iptc.get(65) && [iptc.get(65), iptc.get(70)].filter(Boolean).join(" "),
+    meta.text.get("Software"),
+  ].filter((value): value is string => !!value)));
+
+  const editingSoftware = matchNames(EDITING_SOFTWARE, [...software, ...xmpValues(xmp, "photoshop:History")]);
+  for (const name of editingSoftware) findings.push({ flag: "editing_software", detail: `Metadata names ${name}` });
+
+  // AI generators identify themselves in software tags, descriptions, text chunks or a declared digital source type.
+  const describedText = [
+    asString(ifd0.get(0x010e)),
+    asString(ifd0.get(0x013b)),
+    userComment(exif.get(0x9286)),
+    ...xmpValues(xmp, "dc:creator"),
+    ...xmpValues(xmp, "dc:description"),
+    ...xmpValues(xmp, "photoshop:Credit"),
+    iptc.get(80),
+    iptc.get(110),
+    iptc.get(115),
+    ...[...meta.text.values()].map((text) => text.slice(0, MAX_TEXT_SCAN)),
+  ].filter((value): value is string => !!value);
+  const aiSignals: Array<{ name: string; detail: string }> = matchNames(AI_GENERATORS, [...software, ...describedText])
+    .map((name) => ({ name, detail: `Metadata names ${name}` }));
+  if (describedText.some((text) => A1111_PARAMETERS.test(text)) && !aiSignals.some((s) => s.name === "Stable Diffusion")) {
+    aiSignals.push({ name: "Stable Diffusion", detail: "Stable Diffusion generation parameters embedded" });
+  }
+  if ((meta.text.has("prompt") || meta.text.has("workflow")) && !aiSignals.some((s) => s.name === "ComfyUI")) {
+    aiSignals.push({ name: "ComfyUI", detail: "ComfyUI prompt/workflow embedded" });
+  }
+  if ((meta.text.has("invokeai_metadata") || meta.text.has("sd-metadata")) && !aiSignals.some((s) => s.name === "InvokeAI")) {
+    aiSignals.push({ name: "InvokeAI", detail: "InvokeAI generation metadata embedded" });
+  }
+  const sourceType = xmpValues(xmp, "Iptc4xmpExt:DigitalSourceType").find((value) => AI_SOURCE_TYPES.some((type) => value.endsWith("/" + type)));
+  if (sourceType) {
+    aiSignals.push({ name: aiSignals[0]?.name || "Generative AI", detail: `Declared digital source type ${sourceType.split("/").pop()}` });
+  }
+  for (const signal of aiSignals) findings.push({ flag: "ai_generator", detail: signal.detail });
+
+  const hasExif = !!meta.exif && ifd0.size + exif.size > 0;
+  const hasXmp = !!xmp;
+  const hasIptc = iptc.size > 0;
+  // Encoders such as libjpeg add a comment of their own, so a comment alone does not count as metadata.
+  const hasText = [...meta.text.keys()].some((keyword) => keyword !== "Comment");
+  if (!hasExif && !hasXmp && !hasIptc && !hasText) {
+    findings.push({ flag: "metadata_stripped", detail: "No EXIF, XMP or IPTC metadata present" });
+  } else if (meta.format === "jpeg" && !camera.make && !camera.model && aiSignals.length === 0) {
+    findings.push({ flag: "camera_data_missing", detail: hasExif ? "EXIF present without camera make or model" : "Metadata present but no EXIF camera data" });
+  }
+
+  const gpsTime = gps.get(0x0007);
+  const timestamps: MetadataTimestamps = {
+    original: normalizeTimestamp(asString(exif.get(0x9003))),
+    digitized: normalizeTimestamp(asString(exif.get(0x9004))),
+    modified: normalizeTimestamp(asString(ifd0.get(0x0132))),
+    xmpCreated: normalizeTimestamp(xmpValues(xmp, "xmp:CreateDate")[0] || xmpValues(xmp, "photoshop:DateCreated")[0]),
+    xmpModified: normalizeTimestamp(xmpValues(xmp, "xmp:ModifyDate")[0]),
+    iptcCreated: normalizeTimestamp(iptc.get(55), iptc.get(60)),
+    gps: normalizeTimestamp(
+      asString(gps.get(0x001d)),
+      Array.isArray(gpsTime) ? gpsTime.map((part) => String(Math.floor(part)).padStart(2, "0")).join(":") : undefined
+    ),
+  };
+  const captured = wallClock(timestamps.original) ?? wallClock(timestamps.digitized) ?? wallClock(timestamps.xmpCreated);
+  const compare = (label: string, value: string | undefined, tolerance = TIMESTAMP_TOLERANCE_MS) => {
+    const time = wallClock(value);
+    if (captured === null || time === null || Math.abs(time - captured) <= tolerance) return;
+    findings.push({ flag: "timestamp_mismatch", detail: `${label} ${value} disagrees with capture time ${timestamps.original || timestamps.digitized}` });
+  };
+  if (timestamps.original) {
+    compare("Digitized time", timestamps.digitized);
+    compare("XMP create date", timestamps.xmpCreated);
+  }
+  compare("GPS date", timestamps.gps, GPS_TOLERANCE_MS);
+  // IPTC often carries only the date, which is then compared by day.
+  compare("IPTC date", timestamps.iptcCreated, iptc.has(60) ? TIMESTAMP_TOLERANCE_MS : 24 * 3600 * 1000);
+  const modified = [timestamps.modified, timestamps.xmpModified].map(wallClock).filter((time): time is number => time !== null);
+  if (captured !== null && modified.some((time) => time < captured - TIMESTAMP_TOLERANCE_MS)) {
+    findings.push({ flag: "timestamp_mismatch", detail: "Modification time precedes capture time" });
+  } else if (captured !== null && modified.some((time) => time > captured + TIMESTAMP_TOLERANCE_MS)) {
+    findings.push({ flag: "modified_after_capture", detail: `Modified ${timestamps.modified || timestamps.xmpModified} after capture` });
+  }
+  const latest = Math.max(...Object.values(timestamps).map(wallClock).filter((time): time is number => time !== null));
+  if (latest > Date.now() + 24 * 3600 * 1000) {
+    findings.push({ flag: "timestamp_mismatch", detail: "Timestamp lies in the future" });
+  }
+
+  const exifWidth = exif.get(0xa002);
+  const exifHeight = exif.get(0xa003);
+  const exifDimensions = typeof exifWidth === "number" && typeof exifHeight === "number" && exifWidth > 0 && exifHeight > 0
+    ? { width: exifWidth, height: exifHeight }
+    : undefined;
+  if (exifDimensions && meta.dimensions && !dimensionsMatch(exifDimensions, meta.dimensions)) {
+    findings.push({
+      flag: "dimension_mismatch",
+      detail: `EXIF records ${exifDimensions.width}x${exifDimensions.height} but the image is ${meta.dimensions.width}x${meta.dimensions.height}`,
+    });
+  }
+
+  // Editors that rewrite the pixels but keep the camera's EXIF leave the original thumbnail behind.
+  let thumbnail: MetadataAnalysisRecord["thumbnail"];
+  if (meta.exif?.thumbnail) {
+    const thumbDimensions = extractJpeg(meta.exif.thumbnail).dimensions;
+    thumbnail = { width: thumbDimensions?.width, height: thumbDimensions?.height };
+    if (thumbDimensions && meta.dimensions) {
+      const ratio = (d: { width: number; height: number }) => d.width / d.height;
+      if (Math.abs(ratio(thumbDimensions) - ratio(meta.dimensions)) / ratio(meta.dimensions) > 0.05) {
+        findings.push({
+          flag: "thumbnail_mismatch",
+          detail: `Thumbnail aspect ${thumbDimensions.width}x${thumbDimensions.height} differs from image ${meta.dimensions.width}x${meta.dimensions.height}`,
+        });
+      }
+    }
+    const [thumbHash, imageHash] = await Promise.all([imageDHash(meta.exif.thumbnail), imageDHash(image)]);
+    if (thumbHash && imageHash) {
+      thumbnail.distance = hammingDistance(thumbHash, imageHash);
+      if (thumbnail.distance > THUMBNAIL_MAX_DISTANCE) {
+        findings.push({ flag: "thumbnail_mismatch", detail: `Thumbnail content differs from the image (dHash distance ${thumbnail.distance})` });
+      }
+    }
+  }
+
+  return {
+    format: meta.format,
+    hasExif,
+    hasXmp,
+    hasIptc,
+    hasGps: gps.has(0x0002) && gps.has(0x0004),
+    ...(camera.make || camera.model || camera.lens ? { camera } : {}),
+    software,
+    editingSoftware,
+    aiGenerator: aiSignals[0]?.name,
+    timestamps,
+    dimensions: meta.dimensions,
+    exifDimensions,
+    thumbnail,
+    flags: Array.from(new Set(findings.map((finding) => finding.flag))),
+    findings,
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+function featureSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/** Feature strings for VerificationResult.features, e.g. "metadata:editing_software", "editing_software:adobe_photoshop". */
+export function metadataFeatures(analysis: MetadataAnalysisRecord) {
+  return [
+    ...analysis.flags.map((flag) => `metadata:${flag}`),
+    ...analysis.editingSoftware.map((name) => `editing_software:${featureSlug(name)}`),
+    ...(analysis.aiGenerator ? [`ai_generator:${featureSlug(analysis.aiGenerator)}`] : []),
+  ];
+}
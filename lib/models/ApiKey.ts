@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A customer API key. Only a salted hash of the key is stored, plus its first
+ * characters for display; the full key is shown once, when it is generated.
+ */
+export interface IApiKey extends Document {
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  environment: "test" | "live";
+  isActive: boolean;
+  clientName?: string;
+  plan: string;
+  scansUsed: number;
+  lastUsed?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  userId: { type: String, required: true },
+  name: { type: String, required: true },
+  keyPrefix: { type: String, required: true },
+  keyHash: { type: String, required: true, unique: true },
+  environment: { type: String, enum: ["test", "live"], required: true },
+  isActive: { type: Boolean, default: true },
+  clientName: { type: String },
+  plan: { type: String, default: "payg" },
+  scansUsed: { type: Number, default: 0 },
+  lastUsed: { type: Date },
+  revokedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+apiKeySchema.index({ userId: 1, createdAt: -1 });
+
+export const ApiKey =
+  mongoose.models?.ApiKey ||
+  mongoose.model("ApiKey", apiKeySchema);
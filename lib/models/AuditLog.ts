@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IAuditLog extends Document {
+  actorId: string;
+  actorRole?: "admin" | "reviewer" | "system";
+  action: string;
+  target?: string;
+  targetType?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: unknown;
+  createdAt: Date;
+}
+
+// INSERT-only
+const auditLogSchema = new Schema<IAuditLog>({
+  actorId: { type: String, required: true },
+  actorRole: { type: String },
+  action: { type: String, required: true },
+  target: { type: String },
+  targetType: { type: String },
+  ipAddress: { type: String },
+  userAgent: { type: String },
+  details: { type: Schema.Types.Mixed },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Prevent updates
+auditLogSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "findOneAndReplace"], function() {
+  throw new Error("Audit log cannot be updated");
+});
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ target: 1, createdAt: -1 });
+
+export const AuditLog = mongoose.models?.AuditLog || mongoose.model("AuditLog", auditLogSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type BatchItemStatus = "QUEUED" | "PROCESSING" | "DONE" | "ERROR";
+
+export interface IBatchItem {
+  index: number;
+  fileName: string;
+  source: "upload" | "url" | "zip";
+  url?: string;
+  filePath?: string; // spooled upload, removed once the item finishes
+  fileType?: "image" | "video" | "audio";
+  status: BatchItemStatus; // stays PROCESSING, with scanId set, while the scan waits on a FakeCatcher job
+  scanId?: string;
+  verdict?: string; // AUTHENTIC, SUSPICIOUS, DEEPFAKE or NO_FACE once DONE
+  confidenceScore?: number;
+  error?: string;
+  finishedAt?: Date;
+}
+
+export interface IBatch extends Document {
+  batchId: string;
+  userId: string;
+  status: "PROCESSING" | "COMPLETED" | "PARTIAL" | "FAILED";
+  total: number;
+  completed: number;
+  failed: number;
+  creditsReserved: number;
+  creditsRefunded: number;
+  items: IBatchItem[];
+  summary?: {
+    authentic: number;
+    suspicious: number;
+    deepfake: number;
+    noFace: number;
+    errors: number;
+    averageConfidence: number;
+  };
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const batchSchema = new Schema<IBatch>(
+  {
+    batchId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["PROCESSING", "COMPLETED", "PARTIAL", "FAILED"],
+      default: "PROCESSING",
+    },
+    total: { type: Number, required: true },
+    completed: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    creditsReserved: { type: Number, default: 0 },
+    creditsRefunded: { type: Number, default: 0 },
+    items: [{
+      _id: false,
+      index: { type: Number, required: true },
+      fileName: { type: String, required: true },
+      source: { type: String, enum: ["upload", "url", "zip"], required: true },
+      url: { type: String },
+      filePath: { type: String },
+      fileType: { type: String, enum: ["image", "video", "audio"] },
+      status: { type: String, enum: ["QUEUED", "PROCESSING", "DONE", "ERROR"], default: "QUEUED" },
+      scanId: { type: String },
+      verdict: { type: String },
+      confidenceScore: { type: Number },
+      error: { type: String },
+      finishedAt: { type: Date },
+    }],
+    summary: {
+      authentic: { type: Number },
+      suspicious: { type: Number },
+      deepfake: { type: Number },
+      noFace: { type: Number },
+      errors: { type: Number },
+      averageConfidence: { type: Number },
+    },
+    completedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+batchSchema.index({ userId: 1, createdAt: -1 });
+
+export const Batch = mongoose.models?.Batch || mongoose.model("Batch", batchSchema);
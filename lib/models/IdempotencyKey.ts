@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IIdempotencyKey extends Document {
+  userId: string;
+  scope: string; // e.g. "POST /api/scans"
+  key: string;
+  requestHash: string;
+  state: "processing" | "completed";
+  processingExpiresAt?: Date; // while processing: when a retry may take the key over; unset, the key is held until it expires
+  responseStatus?: number;
+  responseBody?: string;
+  responseContentType?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    userId: { type: String, required: true },
+    scope: { type: String, required: true },
+    key: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    state: { type: String, enum: ["processing", "completed"], required: true },
+    processingExpiresAt: { type: Date },
+    responseStatus: { type: Number },
+    responseBody: { type: String },
+    responseContentType: { type: String },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// One stored response per user, endpoint and key
+idempotencyKeySchema.index({ userId: 1, scope: 1, key: 1 }, { unique: true });
+// TTL index: Mongo drops keys once their replay window has passed
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey =
+  mongoose.models?.IdempotencyKey ||
+  mongoose.model("IdempotencyKey", idempotencyKeySchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IJobState extends Document {
+  jobId: string;
+  meta?: {
+    userId: string;
+    fileName: string;
+    fileType: "image" | "video" | "audio";
+    source?: "fakecatcher" | "rd-only";
+    createdAt: string;
+    imageData?: string;
+  };
+  rdAnalysis?: {
+    requestId?: string;
+    status: string;
+    score: number;
+    models: Array<{ name: string; status: string; score: number }>;
+    analyzedAt: string;
+    error?: string;
+  };
+  fcAnalysis?: {
+    label?: string;
+    confidence?: number;
+    fake_prob?: number;
+    total_frames?: number;
+    face_pct?: number;
+    analyzedAt: string;
+  };
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobStateSchema = new Schema<IJobState>(
+  {
+    jobId: { type: String, required: true, unique: true },
+    meta: {
+      userId: { type: String },
+      fileName: { type: String },
+      fileType: { type: String, enum: ["image", "video", "audio"] },
+      source: { type: String, enum: ["fakecatcher", "rd-only"] },
+      createdAt: { type: String },
+      imageData: { type: String },
+    },
+    rdAnalysis: {
+      requestId: { type: String },
+      status: { type: String },
+      score: { type: Number },
+      models: [{
+        _id: false,
+        name: { type: String },
+        status: { type: String },
+        score: { type: Number },
+      }],
+      analyzedAt: { type: String },
+      error: { type: String },
+    },
+    fcAnalysis: {
+      label: { type: String },
+      confidence: { type: Number },
+      fake_prob: { type: Number },
+      total_frames: { type: Number },
+      face_pct: { type: Number },
+      analyzedAt: { type: String },
+    },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// History of RD-only and FakeCatcher jobs per user
+jobStateSchema.index({ "meta.userId": 1, "meta.createdAt": -1 });
+// TTL index: Mongo drops job state once it has not been touched for the retention window
+jobStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const JobState =
+  mongoose.models?.JobState ||
+  mongoose.model("JobState", jobStateSchema);
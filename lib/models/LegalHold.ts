@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Exempts scans from retention purges while active. A hold covers one scan or
+ * every scan of a case, identified by the case reference it was placed under.
+ */
+export interface ILegalHold extends Document {
+  reference: string;
+  reason?: string;
+  scanIds: string[];
+  placedBy: string;
+  releasedAt?: Date;
+  releasedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const legalHoldSchema = new Schema<ILegalHold>(
+  {
+    reference: { type: String, required: true },
+    reason: { type: String },
+    scanIds: [{ type: String, required: true }],
+    placedBy: { type: String, required: true },
+    releasedAt: { type: Date },
+    releasedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+legalHoldSchema.index({ scanIds: 1, releasedAt: 1 });
+legalHoldSchema.index({ reference: 1 });
+
+export const LegalHold =
+  mongoose.models?.LegalHold ||
+  mongoose.model("LegalHold", legalHoldSchema);
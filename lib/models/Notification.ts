@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface INotification extends Document {
+  userId: string;
+  type: "dispute_confirmed" | "dispute_dismissed";
+  title: string;
+  message: string;
+  link?: string;
+  scanId?: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    userId: { type: String, required: true },
+    type: { type: String, enum: ["dispute_confirmed", "dispute_dismissed"], required: true },
+    title: { type: String, required: true },
+    message: { type: String, required: true },
+    link: { type: String },
+    scanId: { type: String },
+    readAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, readAt: 1 });
+notificationSchema.index({ scanId: 1 }, { sparse: true }); // Removed with the scan by the retention purge
+
+export const Notification =
+  mongoose.models?.Notification ||
+  mongoose.model("Notification", notificationSchema);
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IResultFeedback extends Document {
+  resultId: string;
+  userId: string;
+  label: "FALSE_POSITIVE" | "FALSE_NEGATIVE";
+  comment?: string;
+  /** When the current report was filed; a resubmission moves it. */
+  reportedAt: Date;
+  reviewStatus: "pending" | "confirmed" | "dismissed";
+  reviewedAt?: Date;
+  reviewedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const resultFeedbackSchema = new Schema<IResultFeedback>(
+  {
+    resultId: { type: String, required: true },
+    userId: { type: String, required: true },
+    label: { type: String, enum: ["FALSE_POSITIVE", "FALSE_NEGATIVE"], required: true },
+    comment: { type: String },
+    reportedAt: { type: Date, required: true },
+    reviewStatus: { type: String, enum: ["pending", "confirmed", "dismissed"], default: "pending" },
+    reviewedAt: { type: Date },
+    reviewedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+// One report per user and result; a new report replaces the previous one
+resultFeedbackSchema.index({ resultId: 1, userId: 1 }, { unique: true });
+resultFeedbackSchema.index({ reviewStatus: 1, reportedAt: -1 });
+
+export const ResultFeedback =
+  mongoose.models?.ResultFeedback ||
+  mongoose.model("ResultFeedback", resultFeedbackSchema);
@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/** Retention periods of one plan, overriding the defaults in lib/retention. A null period keeps data indefinitely. */
+export interface IRetentionPolicy extends Document {
+  plan: "trial" | "starter" | "growth" | "enterprise";
+  mediaDays: number | null;
+  derivedDays: number | null;
+  metadataDays: number | null;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const retentionPolicySchema = new Schema<IRetentionPolicy>(
+  {
+    plan: { type: String, enum: ["trial", "starter", "growth", "enterprise"], required: true, unique: true },
+    mediaDays: { type: Number, default: null, min: 1 },
+    derivedDays: { type: Number, default: null, min: 1 },
+    metadataDays: { type: Number, default: null, min: 1 },
+    updatedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const RetentionPolicy =
+  mongoose.models?.RetentionPolicy ||
+  mongoose.model("RetentionPolicy", retentionPolicySchema);
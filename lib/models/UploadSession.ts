@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IUploadChunk {
+  index: number;
+  size: number;
+  sha256: string;
+}
+
+export interface IUploadSession extends Document {
+  uploadId: string;
+  userId: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: IUploadChunk[];
+  sha256?: string; // optional whole-file checksum declared by the client, checked on completion
+  state: "uploading" | "assembling" | "complete" | "consumed" | "aborted";
+  filePath?: string; // assembled file, set once complete
+  scanId?: string; // scan that consumed the upload
+  expiresAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const uploadChunkSchema = new Schema<IUploadChunk>(
+  {
+    index: { type: Number, required: true },
+    size: { type: Number, required: true },
+    sha256: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    uploadId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    fileName: { type: String, required: true },
+    size: { type: Number, required: true },
+    chunkSize: { type: Number, required: true },
+    totalChunks: { type: Number, required: true },
+    receivedChunks: { type: [uploadChunkSchema], default: [] },
+    sha256: { type: String },
+    state: {
+      type: String,
+      enum: ["uploading", "assembling", "complete", "consumed", "aborted"],
+      default: "uploading",
+    },
+    filePath: { type: String },
+    scanId: { type: String },
+    expiresAt: { type: Date, required: true },
+    completedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// TTL index with a day of grace, so the expiry sweep can remove chunk files before the record goes
+uploadSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 3600 });
+
+export const UploadSession =
+  mongoose.models?.UploadSession ||
+  mongoose.model("UploadSession", uploadSessionSchema);
@@ -10,6 +10,16 @@ export interface IUser extends Document {
   scanCount?: number;
   plan: "trial" | "starter" | "growth" | "enterprise";
   trialUsed?: boolean;
+  scanCache?: {
+    chargeCacheHits?: boolean;
+    crossTenantReuse?: boolean;
+  };
+  /** Contractual retention for this client; unset periods follow the plan, null keeps data indefinitely. */
+  retention?: {
+    mediaDays?: number | null;
+    derivedDays?: number | null;
+    metadataDays?: number | null;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +35,15 @@ const userSchema = new Schema<IUser>(
     scanCount: { type: Number, default: 0 },
     plan: { type: String, enum: ["trial", "starter", "growth", "enterprise"], default: "trial" },
     trialUsed: { type: Boolean, default: false },
+    scanCache: {
+      chargeCacheHits: { type: Boolean },
+      crossTenantReuse: { type: Boolean },
+    },
+    retention: {
+      mediaDays: { type: Number, min: 1 },
+      derivedDays: { type: Number, min: 1 },
+      metadataDays: { type: Number, min: 1 },
+    },
   },
   { timestamps: true }
 );
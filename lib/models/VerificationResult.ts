@@ -1,27 +1,82 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+type FaceScoreDoc = {
+  box: { x: number; y: number; width: number; height: number };
+  detectionScore: number;
+  status: string;
+  label?: string;
+  score?: number;
+  confidence?: number;
+};
+
+/** ELA and noise-residual overlays for one picture; keys point into the forensic map store (lib/imageForensics). */
+type ForensicMapSetDoc = {
+  width: number;
+  height: number;
+  downscaled: boolean;
+  base: string;
+  ela: { key: string; mean: number; p99: number; hotspotRatio: number };
+  noise: { key: string; medianLevel: number; inconsistency: number };
+};
+
+/** Reference into object storage (lib/objectStorage); the bytes never live in Mongo. */
+type StoredObjectDoc = { key: string; mime: string; size: number };
+
 export interface IVerificationResult extends Document {
   userId: string;
   scanId: string;
   fileName: string;
   fileType: "image" | "video" | "audio";
-  status: "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE";
+  status: "PROCESSING" | "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE" | "NO_FACE" | "ERROR";
   confidenceScore: number;
   modelsUsed: string[];
   uploadedDate: Date;
+  /** Inline data URL of the image on scans from before object storage; newer scans use media. */
   imageUrl?: string;
+  media?: {
+    original?: StoredObjectDoc;
+    /** Image thumbnail, video poster frame or audio waveform. */
+    preview?: StoredObjectDoc;
+    animatedPreview?: StoredObjectDoc;
+  };
   url?: string;    
   description?: string;
   features?: string[];
   requestPath?: string;
   method?: string;
+  processingMode?: "sync" | "async";
+  batchId?: string;
+  /** Public API key the scan was submitted with; absent for scans from the app. */
+  apiKey?: {
+    keyId: string;
+    prefix: string;
+  };
+  mediaInfo?: {
+    mime: string;
+    container: string;
+    codec?: string;
+    audioCodec?: string;
+    declaredMime?: string;
+  };
+  failureReason?: string;
   reviewStatus?: "pending" | "confirmed" | "dismissed";
   feedbackType?: "fp" | "fn";
+  /** How the scan reached the FP/FN queue: a customer dispute or the confidence band. */
+  reviewSource?: "customer_reported" | "auto_escalated";
+  disputedAt?: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string;
   fcAnalysis?: {
+    jobId?: string;
+    status?: "PENDING" | "DONE" | "ERROR";
     label?: string;
     confidence?: number;
     fake_prob?: number;
-    analyzedAt: string;
+    total_frames?: number;
+    face_pct?: number;
+    submittedAt?: string;
+    analyzedAt?: string;
+    error?: string;
   };
   rdAnalysis?: {
     requestId?: string;
@@ -35,31 +90,257 @@ export interface IVerificationResult extends Document {
     analyzedAt: string;
     error?: string;
   };
+  audioAnalysis?: {
+    detector: string;
+    requestIds?: string[];
+    status: string;
+    score: number;
+    maxScore?: number;
+    duration?: number;
+    sampleRate?: number;
+    segments: Array<{
+      index: number;
+      start: number;
+      end: number;
+      status: string;
+      score: number;
+    }>;
+    analyzedAt: string;
+    error?: string;
+  };
+  videoAnalysis?: {
+    detector: string;
+    strategy: string;
+    strategyValue?: number;
+    duration: number;
+    frameCap: number;
+    frameCount: number;
+    failedFrames: number;
+    faceDetector?: string;
+    framesWithFaces?: number;
+    score?: number;
+    maxScore?: number;
+    frames: Array<{
+      index: number;
+      timestamp: number;
+      status: string;
+      label?: string;
+      score?: number;
+      confidence?: number;
+      faces?: FaceScoreDoc[];
+      thumbnail?: string;
+    }>;
+    analyzedAt: string;
+  };
+  mediaProbe?: {
+    format?: string;
+    duration?: number;
+    bitrate?: number;
+    videoCodec?: string;
+    width?: number;
+    height?: number;
+    fps?: number;
+    videoBitrate?: number;
+    pixelFormat?: string;
+    rotation?: number;
+    variableFrameRate?: boolean;
+    audioTracks: Array<{ index: number; codec: string; sampleRate?: number; channels?: string; bitrate?: number; language?: string }>;
+    normalization?: "remux" | "transcode";
+    normalizationReasons?: string[];
+    probedAt: string;
+  };
+  provenance?: {
+    state: "absent" | "valid" | "untrusted" | "invalid";
+    manifestLabel?: string;
+    claimGenerator?: string;
+    title?: string;
+    format?: string;
+    signer?: {
+      commonName?: string;
+      organization?: string;
+      issuer?: string;
+      serialNumber?: string;
+      validFrom?: string;
+      validTo?: string;
+    };
+    signatureAlgorithm?: string;
+    actions: Array<{ action: string; softwareAgent?: string; digitalSourceType?: string; when?: string }>;
+    ingredientCount?: number;
+    checks: Array<{ code: string; passed: boolean; explanation?: string }>;
+    verifiedAt: string;
+  };
+  metadataAnalysis?: {
+    format: string;
+    hasExif: boolean;
+    hasXmp: boolean;
+    hasIptc: boolean;
+    hasGps: boolean;
+    camera?: { make?: string; model?: string; lens?: string };
+    software: string[];
+    editingSoftware: string[];
+    aiGenerator?: string;
+    timestamps: {
+      original?: string;
+      digitized?: string;
+      modified?: string;
+      xmpCreated?: string;
+      xmpModified?: string;
+      iptcCreated?: string;
+      gps?: string;
+    };
+    dimensions?: { width: number; height: number };
+    exifDimensions?: { width: number; height: number };
+    thumbnail?: { width?: number; height?: number; distance?: number };
+    flags: string[];
+    findings: Array<{ flag: string; detail: string }>;
+    analyzedAt: string;
+  };
+  forensicMaps?: {
+    image?: ForensicMapSetDoc;
+    frames?: Array<ForensicMapSetDoc & { index: number; timestamp: number }>;
+    generatedAt: string;
+  };
+  verdict?: {
+    status: string;
+    score: number;
+    confidenceScore: number;
+    thresholds: { deepfake: number; authentic: number };
+    contributions: Array<{
+      model: string;
+      name: string;
+      state: string;
+      score: number | null;
+      weight: number;
+      effectiveWeight: number;
+      contribution: number;
+    }>;
+    explanation: string[];
+    computedAt: string;
+  };
+  faceAnalysis?: {
+    detector: string;
+    faceCount: number;
+    score?: number;
+    faces: FaceScoreDoc[];
+    analyzedAt: string;
+  };
+  contentHash?: string;
+  perceptualHashes?: string[];
+  hashBands?: string[];
+  modelVersion?: string;
+  cacheShareable?: boolean;
+  cachedFrom?: string;
+  cacheMatch?: "exact" | "perceptual";
   createdAt: Date;
   updatedAt: Date;
 }
 
+const faceScoreSchema = new Schema(
+  {
+    box: {
+      x: { type: Number },
+      y: { type: Number },
+      width: { type: Number },
+      height: { type: Number },
+    },
+    detectionScore: { type: Number },
+    status: { type: String },
+    label: { type: String },
+    score: { type: Number },
+    confidence: { type: Number },
+  },
+  { _id: false }
+);
+
+const storedObjectSchema = new Schema(
+  {
+    key: { type: String, required: true },
+    mime: { type: String },
+    size: { type: Number },
+  },
+  { _id: false }
+);
+
+const apiKeyAttributionSchema = new Schema(
+  {
+    keyId: { type: String, required: true },
+    prefix: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const forensicMapFields = {
+  width: { type: Number },
+  height: { type: Number },
+  downscaled: { type: Boolean },
+  base: { type: String },
+  ela: {
+    key: { type: String },
+    mean: { type: Number },
+    p99: { type: Number },
+    hotspotRatio: { type: Number },
+  },
+  noise: {
+    key: { type: String },
+    medianLevel: { type: Number },
+    inconsistency: { type: Number },
+  },
+};
+
+const forensicMapSetSchema = new Schema(forensicMapFields, { _id: false });
+
+const forensicMapFrameSchema = new Schema(
+  {
+    index: { type: Number },
+    timestamp: { type: Number },
+    ...forensicMapFields,
+  },
+  { _id: false }
+);
+
 const verificationResultSchema = new Schema<IVerificationResult>(
   {
     userId: { type: String, required: true },
     scanId: { type: String, required: true, unique: true },
     fileName: { type: String, required: true },
     fileType: { type: String, enum: ["image", "video", "audio"], required: true },
-    status: { type: String, enum: ["PROCESSING","AUTHENTIC", "SUSPICIOUS", "DEEPFAKE"], required: true },
+    status: { type: String, enum: ["PROCESSING","AUTHENTIC", "SUSPICIOUS", "DEEPFAKE", "NO_FACE", "ERROR"], required: true },
     confidenceScore: { type: Number, required: true, min: 0, max: 100 },
     modelsUsed: [{ type: String }],
     uploadedDate: { type: Date, default: Date.now },
     imageUrl: { type: String },
+    media: {
+      original: storedObjectSchema,
+      preview: storedObjectSchema,
+      animatedPreview: storedObjectSchema,
+    },
     url: { type: String },
     description: { type: String },
     features: [{ type: String }],
     requestPath: { type: String },
     method: { type: String },
+    processingMode: { type: String, enum: ["sync", "async"] },
+    batchId: { type: String },
+    apiKey: apiKeyAttributionSchema,
+    mediaInfo: {
+      mime: { type: String },
+      container: { type: String },
+      codec: { type: String },
+      audioCodec: { type: String },
+      declaredMime: { type: String },
+    },
+    failureReason: { type: String },
     fcAnalysis: {
+      jobId: { type: String },
+      status: { type: String, enum: ["PENDING", "DONE", "ERROR"] },
       label: { type: String },
       confidence: { type: Number },
       fake_prob: { type: Number },
+      total_frames: { type: Number },
+      face_pct: { type: Number },
+      submittedAt: { type: String },
       analyzedAt: { type: String },
+      error: { type: String },
     },
     reviewStatus: {
       type: String,
@@ -69,6 +350,13 @@ const verificationResultSchema = new Schema<IVerificationResult>(
       type: String,
       enum: ["fp", "fn"],
     },
+    reviewSource: {
+      type: String,
+      enum: ["customer_reported", "auto_escalated"],
+    },
+    disputedAt: { type: Date },
+    reviewedAt: { type: Date },
+    reviewedBy: { type: String },
     rdAnalysis: {
       requestId: { type: String },
       status: { type: String, required: true },
@@ -81,6 +369,188 @@ const verificationResultSchema = new Schema<IVerificationResult>(
       analyzedAt: { type: String, required: true },
       error: { type: String },
     },
+    audioAnalysis: {
+      detector: { type: String },
+      requestIds: [{ type: String }],
+      status: { type: String },
+      score: { type: Number },
+      maxScore: { type: Number },
+      duration: { type: Number },
+      sampleRate: { type: Number },
+      segments: [{
+        index: { type: Number },
+        start: { type: Number },
+        end: { type: Number },
+        status: { type: String },
+        score: { type: Number },
+      }],
+      analyzedAt: { type: String },
+      error: { type: String },
+    },
+    videoAnalysis: {
+      detector: { type: String },
+      strategy: { type: String },
+      strategyValue: { type: Number },
+      duration: { type: Number },
+      frameCap: { type: Number },
+      frameCount: { type: Number },
+      failedFrames: { type: Number },
+      faceDetector: { type: String },
+      framesWithFaces: { type: Number },
+      score: { type: Number },
+      maxScore: { type: Number },
+      frames: [{
+        index: { type: Number },
+        timestamp: { type: Number },
+        status: { type: String },
+        label: { type: String },
+        score: { type: Number },
+        confidence: { type: Number },
+        faces: [faceScoreSchema],
+        thumbnail: { type: String },
+      }],
+      analyzedAt: { type: String },
+    },
+    mediaProbe: {
+      format: { type: String },
+      duration: { type: Number },
+      bitrate: { type: Number },
+      videoCodec: { type: String },
+      width: { type: Number },
+      height: { type: Number },
+      fps: { type: Number },
+      videoBitrate: { type: Number },
+      pixelFormat: { type: String },
+      rotation: { type: Number },
+      variableFrameRate: { type: Boolean },
+      audioTracks: [{
+        _id: false,
+        index: { type: Number },
+        codec: { type: String },
+        sampleRate: { type: Number },
+        channels: { type: String },
+        bitrate: { type: Number },
+        language: { type: String },
+      }],
+      normalization: { type: String, enum: ["remux", "transcode"] },
+      normalizationReasons: [{ type: String }],
+      probedAt: { type: String },
+    },
+    provenance: {
+      state: { type: String, enum: ["absent", "valid", "untrusted", "invalid"] },
+      manifestLabel: { type: String },
+      claimGenerator: { type: String },
+      title: { type: String },
+      format: { type: String },
+      signer: {
+        commonName: { type: String },
+        organization: { type: String },
+        issuer: { type: String },
+        serialNumber: { type: String },
+        validFrom: { type: String },
+        validTo: { type: String },
+      },
+      signatureAlgorithm: { type: String },
+      actions: [{
+        _id: false,
+        action: { type: String },
+        softwareAgent: { type: String },
+        digitalSourceType: { type: String },
+        when: { type: String },
+      }],
+      ingredientCount: { type: Number },
+      checks: [{
+        _id: false,
+        code: { type: String },
+        passed: { type: Boolean },
+        explanation: { type: String },
+      }],
+      verifiedAt: { type: String },
+    },
+    metadataAnalysis: {
+      format: { type: String },
+      hasExif: { type: Boolean },
+      hasXmp: { type: Boolean },
+      hasIptc: { type: Boolean },
+      hasGps: { type: Boolean },
+      camera: {
+        make: { type: String },
+        model: { type: String },
+        lens: { type: String },
+      },
+      software: [{ type: String }],
+      editingSoftware: [{ type: String }],
+      aiGenerator: { type: String },
+      timestamps: {
+        original: { type: String },
+        digitized: { type: String },
+        modified: { type: String },
+        xmpCreated: { type: String },
+        xmpModified: { type: String },
+        iptcCreated: { type: String },
+        gps: { type: String },
+      },
+      dimensions: {
+        width: { type: Number },
+        height: { type: Number },
+      },
+      exifDimensions: {
+        width: { type: Number },
+        height: { type: Number },
+      },
+      thumbnail: {
+        width: { type: Number },
+        height: { type: Number },
+        distance: { type: Number },
+      },
+      flags: [{ type: String }],
+      findings: [{
+        _id: false,
+        flag: { type: String },
+        detail: { type: String },
+      }],
+      analyzedAt: { type: String },
+    },
+    forensicMaps: {
+      image: forensicMapSetSchema,
+      frames: [forensicMapFrameSchema],
+      generatedAt: { type: String },
+    },
+    verdict: {
+      status: { type: String },
+      score: { type: Number },
+      confidenceScore: { type: Number },
+      thresholds: {
+        deepfake: { type: Number },
+        authentic: { type: Number },
+      },
+      contributions: [{
+        _id: false,
+        model: { type: String },
+        name: { type: String },
+        state: { type: String },
+        score: { type: Number },
+        weight: { type: Number },
+        effectiveWeight: { type: Number },
+        contribution: { type: Number },
+      }],
+      explanation: [{ type: String }],
+      computedAt: { type: String },
+    },
+    faceAnalysis: {
+      detector: { type: String },
+      faceCount: { type: Number },
+      score: { type: Number },
+      faces: [faceScoreSchema],
+      analyzedAt: { type: String },
+    },
+    contentHash: { type: String },
+    perceptualHashes: [{ type: String }],
+    hashBands: [{ type: String }],
+    modelVersion: { type: String },
+    cacheShareable: { type: Boolean },
+    cachedFrom: { type: String },
+    cacheMatch: { type: String, enum: ["exact", "perceptual"] },
   },
   { timestamps: true }
 );
@@ -89,8 +559,21 @@ const verificationResultSchema = new Schema<IVerificationResult>(
 verificationResultSchema.index({ createdAt: -1 });
 verificationResultSchema.index({ userId: 1, createdAt: -1 });
 verificationResultSchema.index({ confidenceScore: 1, reviewStatus: 1 });
+verificationResultSchema.index({ reviewSource: 1, reviewStatus: 1, disputedAt: -1 }); // FP/FN queue: customer disputes
 verificationResultSchema.index({ status: 1, createdAt: -1 }); // For admin dashboard filtering
 verificationResultSchema.index({ fileType: 1, createdAt: -1 }); // For admin dashboard filtering
+verificationResultSchema.index({ contentHash: 1, modelVersion: 1 }); // Dedup cache: exact matches
+verificationResultSchema.index({ hashBands: 1, modelVersion: 1 }); // Dedup cache: perceptual candidates
+verificationResultSchema.index({ "metadataAnalysis.flags": 1, createdAt: -1 }); // Forensics filtering by metadata flag
+verificationResultSchema.index(
+  { "fcAnalysis.submittedAt": 1 },
+  { partialFilterExpression: { "fcAnalysis.status": "PENDING" } }
+); // FakeCatcher reconciler: jobs still waiting on the backend
+// Retention purge: objects are content-addressed and shared, so they are only deleted once no scan references them
+verificationResultSchema.index({ "media.original.key": 1 }, { sparse: true });
+verificationResultSchema.index({ "media.preview.key": 1 }, { sparse: true });
+verificationResultSchema.index({ "media.animatedPreview.key": 1 }, { sparse: true });
+verificationResultSchema.index({ "apiKey.keyId": 1, createdAt: -1 }, { sparse: true }); // Scans per API key
 
 export const VerificationResult =
   mongoose.models?.VerificationResult || mongoose.model("VerificationResult", verificationResultSchema);
@@ -0,0 +1,228 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { createReadStream } from "fs";
+import { access, copyFile, mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { hashMediaInput, isMediaFile, type MediaInput } from "./mediaInput";
+
+const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || "local").toLowerCase();
+// Stored objects are referenced from scan records, so in production this must be a persistent volume.
+const STORAGE_DIR = process.env.STORAGE_DIR || path.join(tmpdir(), "gotham-storage");
+const STORAGE_SIGNED_URL_SECONDS = Math.max(30, parseInt(process.env.STORAGE_SIGNED_URL_SECONDS || "300", 10));
+const S3_BUCKET = process.env.S3_BUCKET || "";
+// Set for MinIO or another S3-compatible service; unset means AWS itself.
+const S3_ENDPOINT = process.env.S3_ENDPOINT || undefined;
+
+/** Where stored objects belong; the namespace is the first segment of every key. */
+export type StorageNamespace = "originals" | "previews" | "maps";
+
+/** What a scan record keeps instead of the bytes themselves. */
+export type StoredObjectRef = {
+  key: string;
+  mime: string;
+  size: number;
+};
+
+type SignedUrlOptions = {
+  /** Served as an attachment with this file name instead of inline. */
+  downloadName?: string;
+  expiresIn?: number;
+};
+
+interface StorageDriver {
+  exists(key: string): Promise<boolean>;
+  put(key: string, input: MediaInput, mime: string, size: number): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  remove(key: string): Promise<void>;
+  signedUrl(key: string, mime: string, options: SignedUrlOptions): Promise<string>;
+}
+
+const KEY_PATTERN = /^(originals|previews|maps)\/[a-f0-9]{64}\.[a-z0-9]{2,5}$/;
+
+export function isStorageKey(key: string) {
+  return KEY_PATTERN.test(key);
+}
+
+let localSecret: string | undefined;
+
+/** HMAC key for local signed URLs; without STORAGE_SIGNING_SECRET links only work on the instance that made them. */
+function localSigningSecret() {
+  if (!localSecret) {
+    localSecret = process.env.STORAGE_SIGNING_SECRET || randomBytes(32).toString("hex");
+    if (!process.env.STORAGE_SIGNING_SECRET) {
+      console.warn("STORAGE_SIGNING_SECRET is not set; signed storage URLs are only valid on this instance.");
+    }
+  }
+  return localSecret;
+}
+
+type LocalUrlParams = { key: string; expires: number; mime: string; downloadName: string };
+
+function localSignature({ key, expires, mime, downloadName }: LocalUrlParams) {
+  return createHmac("sha256", localSigningSecret()).update(`${key}\n${expires}\n${mime}\n${downloadName}`).digest("hex");
+}
+
+/** Checks a local signed URL (app/api/storage); false when tampered with or expired. */
+export function verifyLocalSignature(params: LocalUrlParams, signature: string) {
+  if (!isStorageKey(params.key) || !Number.isFinite(params.expires) || params.expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(localSignature(params), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** File behind a key when the local driver is active, for app/api/storage to stream from; null otherwise. */
+export function localObjectPath(key: string) {
+  if (STORAGE_DRIVER === "s3" || !isStorageKey(key)) return null;
+  return path.join(STORAGE_DIR, key);
+}
+
+const localDriver: StorageDriver = {
+  async exists(key) {
+    return access(path.join(STORAGE_DIR, key)).then(() => true, () => false);
+  },
+  async put(key, input) {
+    const target = path.join(STORAGE_DIR, key);
+    await mkdir(path.dirname(target), { recursive: true });
+    const partial = `${target}.${process.pid}.tmp`;
+    if (isMediaFile(input)) await copyFile(input.filePath, partial);
+    else await writeFile(partial, input);
+    await rename(partial, target);
+  },
+  async get(key) {
+    return readFile(path.join(STORAGE_DIR, key)).catch(() => null);
+  },
+  async remove(key) {
+    await rm(path.join(STORAGE_DIR, key), { force: true });
+  },
+  async signedUrl(key, mime, options) {
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn || STORAGE_SIGNED_URL_SECONDS);
+    const downloadName = options.downloadName || "";
+    const params = new URLSearchParams({
+      expires: String(expires),
+      type: mime,
+      sig: localSignature({ key, expires, mime, downloadName }),
+    });
+    if (downloadName) params.set("name", downloadName);
+    return `/api/storage/${key}?${params.toString()}`;
+  },
+};
+
+const globalWithS3 = globalThis as typeof globalThis & { storageS3Client?: S3Client };
+
+function getS3Client() {
+  if (!globalWithS3.storageS3Client) {
+    if (!S3_BUCKET) {
+      throw new Error("Missing S3_BUCKET environment variable. Add it to .env.local or set STORAGE_DRIVER=local.");
+    }
+    const config: S3ClientConfig = {
+      region: process.env.S3_REGION || process.env.AWS_REGION || "us-east-1",
+      ...(S3_ENDPOINT ? { endpoint: S3_ENDPOINT, forcePathStyle: true } : {}),
+    };
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+    if (accessKeyId && secretAccessKey) {
+      config.credentials = { accessKeyId, secretAccessKey };
+    }
+    globalWithS3.storageS3Client = new S3Client(config);
+  }
+  return globalWithS3.storageS3Client;
+}
+
+function isNotFound(error: unknown) {
+  const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+  const name = (error as { name?: string })?.name;
+  return status === 404 || name === "NotFound" || name === "NoSuchKey";
+}
+
+const s3Driver: StorageDriver = {
+  async exists(key) {
+    try {
+      await getS3Client().send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  },
+  async put(key, input, mime, size) {
+    await getS3Client().send(new PutObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+      Body: isMediaFile(input) ? createReadStream(input.filePath) : input,
+      ContentType: mime,
+      ContentLength: size,
+    }));
+  },
+  async get(key) {
+    try {
+      const response = await getS3Client().send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+      return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+  async remove(key) {
+    await getS3Client().send(new DeleteObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+  },
+  async signedUrl(key, mime, options) {
+    const command = new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+      ResponseContentType: mime,
+      ...(options.downloadName
+        ? { ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(options.downloadName)}` }
+        : {}),
+    });
+    return getSignedUrl(getS3Client(), command, { expiresIn: options.expiresIn || STORAGE_SIGNED_URL_SECONDS });
+  },
+};
+
+function getDriver(): StorageDriver {
+  return STORAGE_DRIVER === "s3" ? s3Driver : localDriver;
+}
+
+/**
+ * Stores the input under `<namespace>/<sha256>.<extension>`. Keys are content
+ * hashes, so re-uploads of the same file are written once and a key never
+ * changes meaning.
+ */
+export async function putObject(
+  namespace: StorageNamespace,
+  input: MediaInput,
+  extension: string,
+  mime: string
+): Promise<StoredObjectRef> {
+  const key = `${namespace}/${await hashMediaInput(input)}.${extension.toLowerCase()}`;
+  const size = isMediaFile(input) ? (await stat(input.filePath)).size : input.length;
+  const driver = getDriver();
+  if (!(await driver.exists(key))) {
+    await driver.put(key, input, mime, size);
+  }
+  return { key, mime, size };
+}
+
+/** Reads a stored object; null for unknown or malformed keys. */
+export async function getObject(key: string) {
+  if (!isStorageKey(key)) return null;
+  return getDriver().get(key);
+}
+
+export async function deleteObject(key: string) {
+  if (!isStorageKey(key)) return;
+  await getDriver().remove(key);
+}
+
+/** Short-lived URL the browser can fetch the object from without further auth. */
+export async function signedObjectUrl(ref: StoredObjectRef, options: SignedUrlOptions = {}) {
+  return getDriver().signedUrl(ref.key, ref.mime, options);
+}
@@ -22,6 +22,7 @@ export interface RDResult {
 export async function verifyMedia(options: {
   url?: string;
   fileBuffer?: Buffer;
+  filePath?: string; // file already on disk, uploaded as is
   headers?: IncomingHttpHeaders;
   fileType?: "image" | "video" | "audio";
 }): Promise<RDResult> {
@@ -53,8 +54,10 @@ export async function verifyMedia(options: {
 
     // Prepare local file
     let filePath: string;
-    if (options.fileBuffer) {
-      const ext = options.fileType === "video" ? ".mp4" : ".png";
+    if (options.filePath) {
+      filePath = options.filePath;
+    } else if (options.fileBuffer) {
+      const ext = options.fileType === "video" ? ".mp4" : options.fileType === "audio" ? ".wav" : ".png";
       tmpPath = path.join(os.tmpdir(), `rd-upload-${Date.now()}${ext}`);
       fs.writeFileSync(tmpPath, options.fileBuffer);
       filePath = tmpPath;
@@ -0,0 +1,255 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import path from "path";
+import { sniffMediaType, type SniffedMedia } from "./mediaSniff";
+
+const REMOTE_FETCH_MAX_BYTES = Math.max(
+  1024,
+  parseInt(process.env.REMOTE_FETCH_MAX_BYTES || String(50 * 1024 * 1024), 10)
+);
+const REMOTE_FETCH_TIMEOUT_MS = Math.max(
+  1000,
+  parseInt(process.env.REMOTE_FETCH_TIMEOUT_MS || "20000", 10)
+);
+const REMOTE_FETCH_MAX_REDIRECTS = 3;
+
+export class RemoteMediaError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RemoteMediaError";
+    this.status = status;
+  }
+}
+
+export type RemoteMedia = {
+  buffer: Buffer;
+  fileName: string;
+  finalUrl: string;
+  contentType: string;
+  sniffed: SniffedMedia | null;
+};
+
+function isBlockedIPv4(address: string) {
+  const [a, b] = address.split(".").map((part) => parseInt(part, 10));
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, includes cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+/** Expands an IPv6 literal (with an optional dotted IPv4 tail or zone id) into its 16 bytes. */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map((part) => parseInt(part, 10));
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+  return bytes;
+}
+
+function isBlockedIPv6(address: string) {
+  const bytes = parseIPv6(address);
+  if (!bytes) return true;
+  const zeroUpTo = (end: number) => bytes.slice(0, end).every((byte) => byte === 0);
+  const embeddedIPv4 = bytes.slice(12).join(".");
+
+  // Ranges that carry an IPv4 address in their last 32 bits are judged by that address:
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96, which covers :: and ::1) and NAT64 (64:ff9b::/96).
+  if (zeroUpTo(10) && bytes[10] === 0xff && bytes[11] === 0xff) return isBlockedIPv4(embeddedIPv4);
+  if (zeroUpTo(12)) return isBlockedIPv4(embeddedIPv4);
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && bytes.slice(4, 12).every((byte) => byte === 0)) {
+    return isBlockedIPv4(embeddedIPv4);
+  }
+
+  return (
+    (bytes[0] & 0xfe) === 0xfc || // unique local
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // link-local
+    bytes[0] === 0xff // multicast
+  );
+}
+
+export function isBlockedAddress(address: string) {
+  const family = net.isIP(address);
+  if (family === 4) return isBlockedIPv4(address);
+  if (family === 6) return isBlockedIPv6(address);
+  return true;
+}
+
+/**
+ * DNS lookup used for every outbound connection. Validating here rather than
+ * before the request means the address we check is the address we connect to,
+ * so a hostname cannot be re-pointed at an internal IP between check and use.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 4);
+    const list = addresses as dns.LookupAddress[];
+    const blocked = list.find((entry) => isBlockedAddress(entry.address));
+    if (blocked || list.length === 0) {
+      return callback(new RemoteMediaError(`Refusing to fetch from private or reserved address (${hostname})`), "", 4);
+    }
+    if ((options as dns.LookupOptions).all) {
+      return (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, list);
+    }
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+function validateUrl(raw: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw new RemoteMediaError("Invalid media URL");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new RemoteMediaError("Only http and https media URLs are supported");
+  }
+  if (parsed.username || parsed.password) {
+    throw new RemoteMediaError("Media URLs must not contain credentials");
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new RemoteMediaError("Refusing to fetch from private or reserved address");
+  }
+  return parsed;
+}
+
+function requestOnce(url: URL, deadline: number) {
+  return new Promise<{ status: number; location?: string; contentType: string; body?: Buffer }>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      reject(new RemoteMediaError("Timed out downloading media URL", 504));
+      return;
+    }
+
+    // The socket timeout below only fires on idle gaps, so a server trickling bytes is cut off here at the deadline.
+    const overall = setTimeout(() => {
+      const timedOut = new RemoteMediaError("Timed out downloading media URL", 504);
+      reject(timedOut);
+      req.destroy(timedOut);
+    }, remaining);
+    const finish = () => clearTimeout(overall);
+
+    const req = client.get(url, {
+      lookup: safeLookup,
+      timeout: remaining,
+      headers: { "User-Agent": "Gotham-MediaFetcher/1.0", Accept: "image/*,video/*,audio/*,*/*;q=0.5" },
+    }, (res) => {
+      const status = res.statusCode || 0;
+      const contentType = String(res.headers["content-type"] || "");
+
+      res.on("close", finish);
+
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        resolve({ status, location: res.headers.location, contentType });
+        return;
+      }
+      if (status < 200 || status >= 300) {
+        res.resume();
+        reject(new RemoteMediaError(`Media URL responded with HTTP ${status}`, 422));
+        return;
+      }
+
+      const declared = parseInt(String(res.headers["content-length"] || "0"), 10);
+      if (declared > REMOTE_FETCH_MAX_BYTES) {
+        res.destroy();
+        reject(new RemoteMediaError(`Remote media exceeds ${Math.round(REMOTE_FETCH_MAX_BYTES / (1024 * 1024))} MB limit`, 413));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      res.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > REMOTE_FETCH_MAX_BYTES) {
+          res.destroy();
+          reject(new RemoteMediaError(`Remote media exceeds ${Math.round(REMOTE_FETCH_MAX_BYTES / (1024 * 1024))} MB limit`, 413));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+      res.on("error", reject);
+    });
+
+    req.on("timeout", () => req.destroy(new RemoteMediaError("Timed out downloading media URL", 504)));
+    req.on("error", (err) => {
+      finish();
+      reject(err instanceof RemoteMediaError ? err : new RemoteMediaError(`Failed to download media URL: ${err.message}`, 422));
+    });
+  });
+}
+
+/**
+ * Downloads media from a user-supplied URL with SSRF protection: only public
+ * http(s) hosts, a bounded number of re-validated redirects, and hard size and
+ * time caps applied while streaming.
+ */
+export async function fetchRemoteMedia(rawUrl: string): Promise<RemoteMedia> {
+  let current = validateUrl(rawUrl);
+  const deadline = Date.now() + REMOTE_FETCH_TIMEOUT_MS;
+
+  for (let redirects = 0; redirects <= REMOTE_FETCH_MAX_REDIRECTS; redirects++) {
+    const response = await requestOnce(current, deadline);
+    if (response.location) {
+      current = validateUrl(new URL(response.location, current).toString());
+      continue;
+    }
+
+    const buffer = response.body || Buffer.alloc(0);
+    if (buffer.length === 0) {
+      throw new RemoteMediaError("Media URL returned an empty body", 422);
+    }
+
+    const sniffed = sniffMediaType(buffer);
+    const lastSegment = current.pathname.split("/").pop() || "";
+    let baseName = lastSegment || "remote-media";
+    try {
+      baseName = decodeURIComponent(lastSegment) || baseName;
+    } catch {
+      // keep the raw segment when it is not valid percent-encoding
+    }
+    const fileName = sniffed && !path.extname(baseName) ? `${baseName}${sniffed.ext}` : baseName;
+
+    return {
+      buffer,
+      fileName,
+      finalUrl: current.toString(),
+      contentType: sniffed?.mime || response.contentType.split(";")[0].trim(),
+      sniffed,
+    };
+  }
+
+  throw new RemoteMediaError(`Too many redirects (max ${REMOTE_FETCH_MAX_REDIRECTS})`, 422);
+}
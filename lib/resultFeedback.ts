@@ -0,0 +1,161 @@
+import { connectToDatabase } from "./db";
+import { ResultFeedback, type IResultFeedback } from "./models/ResultFeedback";
+import { Notification } from "./models/Notification";
+import { VerificationResult } from "./models/VerificationResult";
+
+export type FeedbackLabel = "FALSE_POSITIVE" | "FALSE_NEGATIVE";
+export type DisputeOutcome = "confirmed" | "dismissed";
+
+export type ResultFeedbackEntry = {
+  resultId: string;
+  userId: string;
+  label: FeedbackLabel;
+  comment?: string;
+  reviewStatus: "pending" | DisputeOutcome;
+  reviewedAt?: string;
+  createdAt: string;
+};
+
+/** A ResultFeedback document as read with lean(). */
+type ResultFeedbackRecord = Pick<
+  IResultFeedback,
+  "resultId" | "userId" | "label" | "comment" | "reportedAt" | "reviewStatus" | "reviewedAt"
+>;
+
+function toEntry(doc: ResultFeedbackRecord): ResultFeedbackEntry {
+  return {
+    resultId: doc.resultId,
+    userId: doc.userId,
+    label: doc.label,
+    ...(doc.comment ? { comment: doc.comment } : {}),
+    reviewStatus: doc.reviewStatus || "pending",
+    ...(doc.reviewedAt ? { reviewedAt: new Date(doc.reviewedAt).toISOString() } : {}),
+    createdAt: new Date(doc.reportedAt).toISOString(),
+  };
+}
+
+/**
+ * Records a customer's FP/FN report (one per user and result) and puts the
+ * scan back into the FP/FN queue as a customer-reported dispute. Results that
+ * never made it into VerificationResult only keep the report.
+ */
+export async function upsertResultFeedback(
+  resultId: string,
+  payload: { userId: string; label: FeedbackLabel; comment?: string }
+) {
+  await connectToDatabase();
+  const now = new Date();
+  const doc = await ResultFeedback.findOneAndUpdate(
+    { resultId, userId: payload.userId },
+    {
+      $set: {
+        label: payload.label,
+        reviewStatus: "pending",
+        reportedAt: now,
+        ...(payload.comment ? { comment: payload.comment } : {}),
+      },
+      $unset: { reviewedAt: "", reviewedBy: "", ...(payload.comment ? {} : { comment: "" }) },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean<ResultFeedbackRecord>();
+
+  await VerificationResult.updateOne(
+    { scanId: resultId },
+    {
+      $set: {
+        reviewStatus: "pending",
+        reviewSource: "customer_reported",
+        feedbackType: payload.label === "FALSE_POSITIVE" ? "fp" : "fn",
+        disputedAt: now,
+      },
+      $unset: { reviewedAt: "", reviewedBy: "" },
+    }
+  );
+
+  return toEntry(doc as ResultFeedbackRecord);
+}
+
+export async function getUserResultFeedback(resultId: string, userId: string) {
+  await connectToDatabase();
+  const doc = await ResultFeedback.findOne({ resultId, userId }).lean<ResultFeedbackRecord>();
+  return doc ? toEntry(doc) : null;
+}
+
+export async function getResultFeedbackSummary(resultId: string) {
+  await connectToDatabase();
+  const counts = await ResultFeedback.aggregate<{ _id: FeedbackLabel; count: number }>([
+    { $match: { resultId } },
+    { $group: { _id: "$label", count: { $sum: 1 } } },
+  ]);
+
+  return counts.reduce(
+    (acc, entry) => {
+      if (entry._id === "FALSE_POSITIVE") acc.falsePositive += entry.count;
+      if (entry._id === "FALSE_NEGATIVE") acc.falseNegative += entry.count;
+      acc.total += entry.count;
+      return acc;
+    },
+    { falsePositive: 0, falseNegative: 0, total: 0 }
+  );
+}
+
+/** Reports for several results at once, newest first, for the review queue. */
+export async function listResultFeedback(resultIds: string[]) {
+  if (resultIds.length === 0) return [];
+  await connectToDatabase();
+  const docs = await ResultFeedback.find({ resultId: { $in: resultIds } })
+    .sort({ reportedAt: -1 })
+    .lean<ResultFeedbackRecord[]>();
+  return docs.map(toEntry);
+}
+
+function outcomeMessage(fileName: string, label: FeedbackLabel, outcome: DisputeOutcome) {
+  if (outcome === "dismissed") {
+    return {
+      title: "Your dispute was reviewed",
+      message: `Our reviewers re-examined ${fileName} and the original verdict stands.`,
+    };
+  }
+  return {
+    title: "Your dispute was upheld",
+    message: label === "FALSE_POSITIVE"
+      ? `Our reviewers confirmed that ${fileName} was wrongly flagged as manipulated.`
+      : `Our reviewers confirmed that ${fileName} is manipulated, although the scan found it authentic.`,
+  };
+}
+
+/**
+ * Closes the open reports on a scan with the reviewer's decision and notifies
+ * each reporter. Reports are closed one by one on their pending state, so a
+ * repeated review does not notify anyone twice.
+ */
+export async function resolveResultDisputes(
+  scan: { scanId: string; fileName: string },
+  outcome: DisputeOutcome,
+  reviewerId: string
+) {
+  await connectToDatabase();
+  const open = await ResultFeedback.find({ resultId: scan.scanId, reviewStatus: "pending" })
+    .select("_id")
+    .lean<Array<{ _id: unknown }>>();
+
+  let notified = 0;
+  for (const { _id } of open) {
+    const report = await ResultFeedback.findOneAndUpdate(
+      { _id, reviewStatus: "pending" },
+      { reviewStatus: outcome, reviewedAt: new Date(), reviewedBy: reviewerId },
+      { new: true }
+    ).lean<ResultFeedbackRecord>();
+    if (!report) continue;
+
+    await Notification.create({
+      userId: report.userId,
+      type: outcome === "confirmed" ? "dispute_confirmed" : "dispute_dismissed",
+      ...outcomeMessage(scan.fileName, report.label, outcome),
+      link: `/results/${encodeURIComponent(scan.scanId)}`,
+      scanId: scan.scanId,
+    });
+    notified += 1;
+  }
+  return notified;
+}
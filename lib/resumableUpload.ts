@@ -0,0 +1,288 @@
+import { createHash } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, rm, writeFile } from "fs/promises";
+import { pipeline } from "stream/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { connectToDatabase } from "./db";
+import { UploadSession, type IUploadSession } from "./models/UploadSession";
+
+// Chunks and assembled uploads live here; the scan worker must share this filesystem.
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(tmpdir(), "gotham-uploads");
+const UPLOAD_MAX_BYTES = Math.max(1, parseInt(process.env.UPLOAD_MAX_BYTES || String(2 * 1024 * 1024 * 1024), 10));
+const UPLOAD_CHUNK_BYTES = Math.max(256 * 1024, parseInt(process.env.UPLOAD_CHUNK_BYTES || String(8 * 1024 * 1024), 10));
+const UPLOAD_SESSION_TTL_HOURS = Math.max(1, parseFloat(process.env.UPLOAD_SESSION_TTL_HOURS || "24"));
+const MIN_CHUNK_BYTES = 256 * 1024;
+const MAX_CHUNK_BYTES = 64 * 1024 * 1024;
+const MAX_CHUNKS = 10000;
+
+export class UploadSessionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "UploadSessionError";
+    this.status = status;
+  }
+}
+
+/** tus uses 460 for a chunk whose checksum does not match its bytes. */
+export const CHECKSUM_MISMATCH_STATUS = 460;
+
+export type UploadStatus = {
+  uploadId: string;
+  fileName: string;
+  state: IUploadSession["state"];
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  missingChunks: number[];
+  /** Bytes received without a gap from the start of the file (tus Upload-Offset). */
+  offset: number;
+  sha256?: string;
+  scanId?: string;
+  expiresAt: string;
+};
+
+function chunkDir(uploadId: string) {
+  return path.join(UPLOAD_DIR, `${uploadId}.parts`);
+}
+
+function chunkPath(uploadId: string, index: number) {
+  return path.join(chunkDir(uploadId), `chunk-${String(index).padStart(6, "0")}`);
+}
+
+function expectedChunkSize(session: IUploadSession, index: number) {
+  return index === session.totalChunks - 1 ? session.size - session.chunkSize * (session.totalChunks - 1) : session.chunkSize;
+}
+
+function isExpired(session: IUploadSession) {
+  return new Date(session.expiresAt).getTime() < Date.now();
+}
+
+/**
+ * Parses a tus-style `Upload-Checksum: sha256 <base64>` header into a hex
+ * digest. A bare hex SHA-256 digest is accepted too. Returns null when absent.
+ */
+export function parseChecksumHeader(header: string | null) {
+  if (!header?.trim()) return null;
+  const [algorithm, value] = header.trim().split(/\s+/, 2);
+  if (!value) {
+    if (/^[a-f0-9]{64}$/i.test(algorithm)) return algorithm.toLowerCase();
+    throw new UploadSessionError("Upload-Checksum must be \"sha256 <base64 digest>\"");
+  }
+  if (algorithm.toLowerCase() !== "sha256") throw new UploadSessionError(`Unsupported checksum algorithm ${algorithm}; use sha256`);
+  const digest = Buffer.from(value, "base64");
+  if (digest.length !== 32) throw new UploadSessionError("Upload-Checksum is not a valid sha256 digest");
+  return digest.toString("hex");
+}
+
+export function describeUpload(session: IUploadSession): UploadStatus {
+  const received = new Set(session.receivedChunks.map((chunk) => chunk.index));
+  const receivedChunks = Array.from(received).sort((a, b) => a - b);
+  const missingChunks = Array.from({ length: session.totalChunks }, (_, i) => i).filter((i) => !received.has(i));
+  const contiguous = missingChunks.length ? missingChunks[0] : session.totalChunks;
+  return {
+    uploadId: session.uploadId,
+    fileName: session.fileName,
+    state: session.state,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks,
+    missingChunks: session.state === "uploading" ? missingChunks : [],
+    offset: session.state === "uploading" ? Math.min(session.size, contiguous * session.chunkSize) : session.size,
+    sha256: session.sha256,
+    scanId: session.scanId,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+  };
+}
+
+/** Removes the files of sessions past their expiry; the TTL index drops the records a day later. */
+async function sweepExpiredUploads() {
+  const expired = await UploadSession.find({ state: { $in: ["uploading", "complete"] }, expiresAt: { $lt: new Date() } })
+    .limit(20) as IUploadSession[];
+  for (const session of expired) {
+    await rm(chunkDir(session.uploadId), { recursive: true, force: true }).catch(() => {});
+    if (session.filePath) await rm(session.filePath, { force: true }).catch(() => {});
+    await UploadSession.updateOne({ uploadId: session.uploadId, state: session.state }, { state: "aborted" });
+  }
+}
+
+export async function createUploadSession(
+  userId: string,
+  input: { fileName?: unknown; size?: unknown; chunkSize?: unknown; sha256?: unknown }
+) {
+  const fileName = typeof input.fileName === "string" ? path.basename(input.fileName.trim()).slice(0, 255) : "";
+  if (!fileName) throw new UploadSessionError("fileName is required");
+
+  const size = Number(input.size);
+  if (!Number.isInteger(size) || size <= 0) throw new UploadSessionError("size must be the file length in bytes");
+  if (size > UPLOAD_MAX_BYTES) {
+    throw new UploadSessionError(`File exceeds the ${Math.floor(UPLOAD_MAX_BYTES / (1024 * 1024))} MB upload limit`, 413);
+  }
+
+  let sha256: string | undefined;
+  if (input.sha256 !== undefined) {
+    if (typeof input.sha256 !== "string" || !/^[a-f0-9]{64}$/i.test(input.sha256)) {
+      throw new UploadSessionError("sha256 must be a hex SHA-256 digest");
+    }
+    sha256 = input.sha256.toLowerCase();
+  }
+
+  // Clients may pick their chunk size within bounds; very large files get bigger chunks to stay under MAX_CHUNKS.
+  const requested = Number(input.chunkSize) || UPLOAD_CHUNK_BYTES;
+  const chunkSize = Math.max(Math.min(Math.max(requested, MIN_CHUNK_BYTES), MAX_CHUNK_BYTES), Math.ceil(size / MAX_CHUNKS));
+  const totalChunks = Math.ceil(size / chunkSize);
+
+  await connectToDatabase();
+  await sweepExpiredUploads().catch((error) => console.warn("Upload expiry sweep failed:", error));
+
+  const uploadId = `upl-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  await mkdir(chunkDir(uploadId), { recursive: true });
+  const session = await UploadSession.create({
+    uploadId,
+    userId,
+    fileName,
+    size,
+    chunkSize,
+    totalChunks,
+    sha256,
+    expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 3600 * 1000),
+  }) as IUploadSession;
+  return describeUpload(session);
+}
+
+export async function getUploadSession(userId: string, uploadId: string) {
+  await connectToDatabase();
+  const session = await UploadSession.findOne({ uploadId, userId }) as IUploadSession | null;
+  if (!session) throw new UploadSessionError("Upload not found", 404);
+  return session;
+}
+
+function assertAcceptingChunks(session: IUploadSession) {
+  if (session.state !== "uploading") throw new UploadSessionError(`Upload is ${session.state}`, 409);
+  if (isExpired(session)) throw new UploadSessionError("Upload session has expired", 410);
+}
+
+/**
+ * Stores one chunk after checking its length and checksum. Chunks may arrive in
+ * any order and may be re-sent; the last write of an index wins.
+ */
+export async function storeUploadChunk(userId: string, uploadId: string, index: number, body: Buffer, checksum: string | null) {
+  const session = await getUploadSession(userId, uploadId);
+  assertAcceptingChunks(session);
+
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new UploadSessionError(`Chunk index must be between 0 and ${session.totalChunks - 1}`);
+  }
+  const expected = expectedChunkSize(session, index);
+  if (body.length !== expected) {
+    throw new UploadSessionError(`Chunk ${index} must be ${expected} bytes, received ${body.length}`);
+  }
+  if (!checksum) throw new UploadSessionError("Upload-Checksum header is required");
+  const actual = createHash("sha256").update(body).digest("hex");
+  if (actual !== checksum) {
+    throw new UploadSessionError(`Checksum mismatch for chunk ${index}`, CHECKSUM_MISMATCH_STATUS);
+  }
+
+  // Write then rename, so an interrupted request never leaves a partial chunk behind.
+  const target = chunkPath(uploadId, index);
+  const partial = `${target}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+  await mkdir(chunkDir(uploadId), { recursive: true });
+  await writeFile(partial, body);
+  await rename(partial, target);
+
+  await UploadSession.updateOne({ uploadId, state: "uploading" }, { $pull: { receivedChunks: { index } } });
+  await UploadSession.updateOne(
+    { uploadId, state: "uploading" },
+    { $push: { receivedChunks: { index, size: body.length, sha256: actual } } }
+  );
+  return describeUpload(await getUploadSession(userId, uploadId));
+}
+
+/**
+ * Concatenates the chunks in order into the final file, streaming so the file
+ * is never held in memory, and checks the whole-file sha256 when one was declared.
+ */
+export async function completeUpload(userId: string, uploadId: string, declaredSha256?: string) {
+  const session = await getUploadSession(userId, uploadId);
+  if (session.state === "complete" || session.state === "consumed") return describeUpload(session);
+  assertAcceptingChunks(session);
+
+  const status = describeUpload(session);
+  if (status.missingChunks.length > 0) {
+    const preview = status.missingChunks.slice(0, 20).join(", ");
+    throw new UploadSessionError(`Upload is missing ${status.missingChunks.length} chunk(s): ${preview}`, 409);
+  }
+
+  const claimed = await UploadSession.updateOne({ uploadId, state: "uploading" }, { state: "assembling" });
+  if (claimed.modifiedCount !== 1) throw new UploadSessionError("Upload is already being completed", 409);
+
+  const filePath = path.join(UPLOAD_DIR, `${uploadId}${path.extname(session.fileName).toLowerCase()}`);
+  const hash = createHash("sha256");
+  try {
+    await pipeline(
+      async function* () {
+        for (let index = 0; index < session.totalChunks; index++) {
+          for await (const chunk of createReadStream(chunkPath(uploadId, index))) {
+            hash.update(chunk as Buffer);
+            yield chunk;
+          }
+        }
+      },
+      createWriteStream(filePath)
+    );
+
+    const sha256 = hash.digest("hex");
+    const expected = (declaredSha256 || session.sha256)?.toLowerCase();
+    if (expected && expected !== sha256) {
+      throw new UploadSessionError("Assembled file does not match the declared sha256", CHECKSUM_MISMATCH_STATUS);
+    }
+
+    await rm(chunkDir(uploadId), { recursive: true, force: true }).catch(() => {});
+    const completed = await UploadSession.findOneAndUpdate(
+      { uploadId, state: "assembling" },
+      { state: "complete", filePath, sha256, completedAt: new Date() },
+      { new: true }
+    ) as IUploadSession | null;
+    if (!completed) throw new UploadSessionError("Upload was aborted while completing", 409);
+    return describeUpload(completed);
+  } catch (error) {
+    await rm(filePath, { force: true }).catch(() => {});
+    await UploadSession.updateOne({ uploadId, state: "assembling" }, { state: "uploading" });
+    throw error;
+  }
+}
+
+/** tus termination: drops the chunks or assembled file. Uploads already handed to a scan stay. */
+export async function abortUpload(userId: string, uploadId: string) {
+  const session = await getUploadSession(userId, uploadId);
+  if (session.state === "consumed") throw new UploadSessionError("Upload has already been scanned", 409);
+  if (session.state === "aborted") return;
+
+  await UploadSession.updateOne({ uploadId, state: session.state }, { state: "aborted" });
+  await rm(chunkDir(uploadId), { recursive: true, force: true }).catch(() => {});
+  if (session.filePath) await rm(session.filePath, { force: true }).catch(() => {});
+}
+
+/** A completed, unscanned upload of this user, ready to feed the scan pipeline by reference. */
+export async function getCompletedUpload(userId: string, uploadId: string) {
+  const session = await getUploadSession(userId, uploadId);
+  if (session.state === "consumed") throw new UploadSessionError("Upload has already been scanned", 409);
+  if (session.state !== "complete" || !session.filePath) throw new UploadSessionError(`Upload is ${session.state}, not complete`, 409);
+  if (isExpired(session)) throw new UploadSessionError("Upload session has expired", 410);
+  return session as IUploadSession & { filePath: string };
+}
+
+/** Hands the upload to one scan; false when another request got there first. */
+export async function consumeUpload(uploadId: string, scanId: string) {
+  const result = await UploadSession.updateOne({ uploadId, state: "complete" }, { state: "consumed", scanId });
+  return result.modifiedCount === 1;
+}
+
+/** Undoes consumeUpload when the scan could not be queued. */
+export async function releaseUpload(uploadId: string) {
+  await UploadSession.updateOne({ uploadId, state: "consumed" }, { state: "complete", $unset: { scanId: 1 } });
+}
@@ -0,0 +1,396 @@
+import { connectToDatabase } from "./db";
+import { AuditLog } from "./models/AuditLog";
+import { LegalHold } from "./models/LegalHold";
+import { Notification } from "./models/Notification";
+import { ResultFeedback } from "./models/ResultFeedback";
+import { RetentionPolicy } from "./models/RetentionPolicy";
+import { User } from "./models/User";
+import { UserAccess } from "./models/UserAccess";
+import { VerificationResult } from "./models/VerificationResult";
+import { deleteObject, type StoredObjectRef } from "./objectStorage";
+import { deleteForensicArtifact, forensicArtifactKeys, type ForensicMapsRecord } from "./imageForensics";
+
+// The scheduled purge destroys data, so it stays "off" until policies are set: "dry-run" only writes audit
+// records of what it would remove, "on" enforces the periods.
+const RETENTION_PURGE = (process.env.RETENTION_PURGE || "off").toLowerCase();
+const RETENTION_PURGE_INTERVAL_MS = Math.max(60000, parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || "3600000", 10));
+// Scans handled per client and stage in one pass; a backlog drains over several passes.
+const RETENTION_PURGE_BATCH = Math.max(1, parseInt(process.env.RETENTION_PURGE_BATCH || "100", 10));
+
+const DAY_MS = 24 * 3600 * 1000;
+const PURGE_ACTOR = "system:retention";
+
+export type Plan = "trial" | "starter" | "growth" | "enterprise";
+export const PLANS: Plan[] = ["trial", "starter", "growth", "enterprise"];
+
+/** Days each class of data is kept after the scan was made; null keeps it indefinitely. */
+export type RetentionPeriods = {
+  /** Uploaded originals, including images stored inline on older scans. */
+  mediaDays: number | null;
+  /** Previews, forensic maps and frame thumbnails. */
+  derivedDays: number | null;
+  /** The scan record with its verdict, disputes and notifications, and the client's access log. */
+  metadataDays: number | null;
+};
+
+const PERIOD_FIELDS = ["mediaDays", "derivedDays", "metadataDays"] as const;
+
+// Nothing expires until an admin sets a policy for the plan or the client.
+const KEEP_INDEFINITELY: RetentionPeriods = { mediaDays: null, derivedDays: null, metadataDays: null };
+
+/**
+ * Reads retention periods from a request body: whole days of at least one, or
+ * null for indefinitely. Fields left out are left out of the result; null is
+ * returned when any field is invalid.
+ */
+export function parseRetentionPeriods(input: unknown): Partial<RetentionPeriods> | null {
+  if (!input || typeof input !== "object") return null;
+  const periods: Partial<RetentionPeriods> = {};
+  for (const field of PERIOD_FIELDS) {
+    const value = (input as Record<string, unknown>)[field];
+    if (value === undefined) continue;
+    if (value !== null && !(Number.isInteger(value) && (value as number) >= 1)) return null;
+    periods[field] = value as number | null;
+  }
+  return periods;
+}
+
+/** Policy of every plan: what admins stored; plans never edited keep everything. */
+export async function getPlanRetention(): Promise<Record<Plan, RetentionPeriods>> {
+  await connectToDatabase();
+  const stored = await RetentionPolicy.find().lean<Array<RetentionPeriods & { plan: Plan }>>();
+  const policies = Object.fromEntries(PLANS.map((plan) => [plan, { ...KEEP_INDEFINITELY }])) as Record<Plan, RetentionPeriods>;
+  for (const doc of stored) {
+    policies[doc.plan] = { mediaDays: doc.mediaDays ?? null, derivedDays: doc.derivedDays ?? null, metadataDays: doc.metadataDays ?? null };
+  }
+  return policies;
+}
+
+/** A client's periods: the plan's, with any contractual override on the client taking precedence. */
+export function effectiveRetention(planPolicy: RetentionPeriods, overrides?: Partial<RetentionPeriods> | null): RetentionPeriods {
+  const periods = { ...planPolicy };
+  for (const field of PERIOD_FIELDS) {
+    if (overrides && overrides[field] !== undefined) periods[field] = overrides[field] ?? null;
+  }
+  return periods;
+}
+
+type PurgeScan = {
+  _id: unknown;
+  scanId: string;
+  userId: string;
+  fileType: string;
+  createdAt: Date;
+  imageUrl?: string;
+  media?: { original?: StoredObjectRef; preview?: StoredObjectRef; animatedPreview?: StoredObjectRef };
+  forensicMaps?: ForensicMapsRecord;
+  videoAnalysis?: { frames?: Array<{ thumbnail?: string }> };
+};
+
+const PURGE_FIELDS = "scanId userId fileType createdAt imageUrl media forensicMaps videoAnalysis.frames.thumbnail";
+
+/** What a deletion record says about one stored object. */
+type DestroyedObject = { key: string; size?: number; deleted: boolean };
+
+const MEDIA_KEY_PATHS = ["media.original.key", "media.preview.key", "media.animatedPreview.key"];
+const MAP_KEY_PATHS = [
+  "forensicMaps.image.base", "forensicMaps.image.ela.key", "forensicMaps.image.noise.key",
+  "forensicMaps.frames.base", "forensicMaps.frames.ela.key", "forensicMaps.frames.noise.key",
+  "videoAnalysis.frames.thumbnail",
+];
+
+async function referencedKeys(paths: string[], keys: string[]) {
+  if (keys.length === 0) return new Set<string>();
+  const found = await Promise.all(paths.map((p) => VerificationResult.distinct(p, { [p]: { $in: keys } })));
+  return new Set(found.flat().filter((key): key is string => keys.includes(key as string)));
+}
+
+/**
+ * Deletes the objects no scan references any more. Keys are content hashes,
+ * so one upload or map can belong to several scans, possibly of other
+ * clients; those objects stay until the last reference is purged. Call once
+ * the purged scan's own references are gone.
+ */
+async function releaseObjects(mediaRefs: StoredObjectRef[], mapKeys: string[]): Promise<DestroyedObject[]> {
+  const mediaKeys = [...new Set(mediaRefs.map((ref) => ref.key))];
+  const maps = [...new Set(mapKeys)];
+  const [mediaInUse, mapsInUse] = await Promise.all([
+    referencedKeys(MEDIA_KEY_PATHS, mediaKeys),
+    referencedKeys(MAP_KEY_PATHS, maps),
+  ]);
+
+  const destroyed: DestroyedObject[] = [];
+  for (const key of mediaKeys) {
+    const deleted = !mediaInUse.has(key);
+    if (deleted) await deleteObject(key);
+    destroyed.push({ key, size: mediaRefs.find((ref) => ref.key === key)?.size, deleted });
+  }
+  for (const key of maps) {
+    const deleted = !mapsInUse.has(key);
+    if (deleted) await deleteForensicArtifact(key);
+    destroyed.push({ key: `maps/${key}`, deleted });
+  }
+  return destroyed;
+}
+
+function derivedMapKeys(scan: PurgeScan) {
+  const thumbnails = (scan.videoAnalysis?.frames || []).map((frame) => frame.thumbnail).filter((key): key is string => Boolean(key));
+  return [...forensicArtifactKeys(scan.forensicMaps), ...thumbnails];
+}
+
+type PurgeContext = { clerkId: string; plan: Plan | null; policy: RetentionPeriods; held: string[] };
+
+async function recordDeletion(action: string, target: string, targetType: "scan" | "client", context: PurgeContext, details: Record<string, unknown>) {
+  await AuditLog.create({
+    actorId: PURGE_ACTOR,
+    actorRole: "system",
+    action,
+    target,
+    targetType,
+    details: { clientId: context.clerkId, plan: context.plan, policy: context.policy, ...details, purgedAt: new Date().toISOString() },
+  });
+}
+
+function expiredFilter(context: PurgeContext, days: number, filter: Record<string, unknown>) {
+  return {
+    userId: context.clerkId,
+    createdAt: { $lt: new Date(Date.now() - days * DAY_MS) },
+    scanId: { $nin: context.held },
+    ...filter,
+  };
+}
+
+function expiredScans(context: PurgeContext, days: number, filter: Record<string, unknown>) {
+  return VerificationResult.find(expiredFilter(context, days, filter))
+    .sort({ createdAt: 1 })
+    .limit(RETENTION_PURGE_BATCH)
+    .select(PURGE_FIELDS)
+    .lean<PurgeScan[]>();
+}
+
+/**
+ * Removes whole scan records past metadataDays, with everything stored for
+ * them. Only the pass whose delete removed the record destroys its objects and
+ * writes the deletion record, so overlapping workers purge a scan once.
+ */
+async function deleteExpiredScans(context: PurgeContext, days: number) {
+  let count = 0;
+  for (const scan of await expiredScans(context, days, {})) {
+    const removed = await VerificationResult.findOneAndDelete({ _id: scan._id }).select(PURGE_FIELDS).lean<PurgeScan>();
+    if (!removed) continue;
+    const mediaRefs = [removed.media?.original, removed.media?.preview, removed.media?.animatedPreview].filter((ref): ref is StoredObjectRef => Boolean(ref));
+    const objects = await releaseObjects(mediaRefs, derivedMapKeys(removed));
+    const [disputes, notifications] = await Promise.all([
+      ResultFeedback.deleteMany({ resultId: removed.scanId }),
+      Notification.deleteMany({ scanId: removed.scanId }),
+    ]);
+    await recordDeletion("retention.scan_deleted", removed.scanId, "scan", context, {
+      fileType: removed.fileType,
+      scannedAt: removed.createdAt,
+      retentionDays: days,
+      objects,
+      inlineImage: Boolean(removed.imageUrl),
+      disputesDeleted: disputes.deletedCount,
+      notificationsDeleted: notifications.deletedCount,
+    });
+    count += 1;
+  }
+  return count;
+}
+
+const HAS_MEDIA = { $or: [{ "media.original": { $exists: true } }, { imageUrl: { $exists: true, $ne: "" } }] };
+
+/** Drops uploaded originals past mediaDays; the verdict and derived assets stay. */
+async function purgeExpiredMedia(context: PurgeContext, days: number) {
+  let count = 0;
+  for (const scan of await expiredScans(context, days, HAS_MEDIA)) {
+    const before = await VerificationResult.findOneAndUpdate(
+      { _id: scan._id, ...HAS_MEDIA },
+      { $unset: { "media.original": 1, imageUrl: 1 } }
+    ).select(PURGE_FIELDS).lean<PurgeScan>();
+    if (!before) continue;
+    const objects = await releaseObjects(before.media?.original ? [before.media.original] : [], []);
+    await recordDeletion("retention.media_purged", before.scanId, "scan", context, {
+      fileType: before.fileType,
+      scannedAt: before.createdAt,
+      retentionDays: days,
+      objects,
+      inlineImage: Boolean(before.imageUrl),
+    });
+    count += 1;
+  }
+  return count;
+}
+
+const HAS_DERIVED = {
+  $or: [
+    { "media.preview": { $exists: true } },
+    { "media.animatedPreview": { $exists: true } },
+    { forensicMaps: { $exists: true } },
+    { "videoAnalysis.frames.thumbnail": { $exists: true } },
+  ],
+};
+
+/** Drops previews, forensic maps and frame thumbnails past derivedDays. */
+async function purgeExpiredDerived(context: PurgeContext, days: number) {
+  let count = 0;
+  for (const scan of await expiredScans(context, days, HAS_DERIVED)) {
+    const unset: Record<string, 1> = { "media.preview": 1, "media.animatedPreview": 1, forensicMaps: 1 };
+    // The positional form fails on documents without the array, so it is only sent for videos that have frames.
+    if (scan.videoAnalysis?.frames?.length) unset["videoAnalysis.frames.$[].thumbnail"] = 1;
+    const before = await VerificationResult.findOneAndUpdate({ _id: scan._id, ...HAS_DERIVED }, { $unset: unset })
+      .select(PURGE_FIELDS)
+      .lean<PurgeScan>();
+    if (!before) continue;
+    const previews = [before.media?.preview, before.media?.animatedPreview].filter((ref): ref is StoredObjectRef => Boolean(ref));
+    const objects = await releaseObjects(previews, derivedMapKeys(before));
+    await recordDeletion("retention.derived_purged", before.scanId, "scan", context, {
+      fileType: before.fileType,
+      scannedAt: before.createdAt,
+      retentionDays: days,
+      objects,
+    });
+    count += 1;
+  }
+  return count;
+}
+
+async function purgeAccessLog(context: PurgeContext, days: number) {
+  const before = new Date(Date.now() - days * DAY_MS);
+  const { deletedCount } = await UserAccess.deleteMany({ clerkId: context.clerkId, createdAt: { $lt: before } });
+  if (deletedCount) {
+    await recordDeletion("retention.access_log_purged", context.clerkId, "client", context, { before, retentionDays: days, rowsDeleted: deletedCount });
+  }
+  return deletedCount || 0;
+}
+
+/**
+ * Dry run for one client: counts what each stage would remove, without
+ * touching anything, and reports it as one record per stage. With audit set
+ * the report goes to the audit log, otherwise to the console.
+ */
+async function previewClient(context: PurgeContext, audit: boolean, summary: RetentionPurgeSummary) {
+  const { mediaDays, derivedDays, metadataDays } = context.policy;
+  const stages: Array<[keyof RetentionPurgeSummary, string, number | null, Record<string, unknown>]> = [
+    ["scansDeleted", "scan_deleted", metadataDays, {}],
+    ["mediaPurged", "media_purged", mediaDays, HAS_MEDIA],
+    ["derivedPurged", "derived_purged", derivedDays, HAS_DERIVED],
+  ];
+
+  const report = async (stage: string, days: number, details: Record<string, unknown>) => {
+    const entry = { clientId: context.clerkId, plan: context.plan, policy: context.policy, stage, retentionDays: days, ...details };
+    if (!audit) {
+      console.log("Retention dry run:", JSON.stringify(entry));
+      return;
+    }
+    await AuditLog.create({
+      actorId: PURGE_ACTOR,
+      actorRole: "system",
+      action: "retention.dry_run",
+      target: context.clerkId,
+      targetType: "client",
+      details: { ...entry, checkedAt: new Date().toISOString() },
+    });
+  };
+
+  for (const [field, stage, days, filter] of stages) {
+    if (!days) continue;
+    const query = expiredFilter(context, days, filter);
+    const count = await VerificationResult.countDocuments(query);
+    if (!count) continue;
+    const sample = await VerificationResult.find(query).sort({ createdAt: 1 }).limit(RETENTION_PURGE_BATCH).select("scanId").lean<Array<{ scanId: string }>>();
+    await report(stage, days, { scans: count, scanIds: sample.map((scan) => scan.scanId) });
+    summary[field] += count;
+  }
+  if (metadataDays) {
+    const before = new Date(Date.now() - metadataDays * DAY_MS);
+    const rows = await UserAccess.countDocuments({ clerkId: context.clerkId, createdAt: { $lt: before } });
+    if (rows) {
+      await report("access_log_purged", metadataDays, { before, rows });
+      summary.accessRowsDeleted += rows;
+    }
+  }
+}
+
+export type RetentionPurgeSummary = {
+  clients: number;
+  scansDeleted: number;
+  mediaPurged: number;
+  derivedPurged: number;
+  accessRowsDeleted: number;
+};
+
+export type RetentionPurgeOptions = {
+  /** Report what would be removed instead of removing it. */
+  dryRun?: boolean;
+  /** Where a dry run reports: the audit log, or the console when false. */
+  audit?: boolean;
+};
+
+/**
+ * One pass over every client: applies its retention periods to scans not under
+ * an active legal hold and writes a deletion record to the audit log for each
+ * scan touched. Scans of users without a client record are left alone, and
+ * clients on a plan without a policy only lose data under their own overrides.
+ */
+export async function runRetentionPurge({ dryRun = false, audit = true }: RetentionPurgeOptions = {}): Promise<RetentionPurgeSummary> {
+  await connectToDatabase();
+  const [planPolicies, held] = await Promise.all([
+    getPlanRetention(),
+    LegalHold.distinct("scanIds", { releasedAt: null }) as Promise<string[]>,
+  ]);
+  const summary: RetentionPurgeSummary = { clients: 0, scansDeleted: 0, mediaPurged: 0, derivedPurged: 0, accessRowsDeleted: 0 };
+
+  const clients = User.find()
+    .select("clerkId plan retention")
+    .lean<Array<{ clerkId: string; plan?: Plan; retention?: Partial<RetentionPeriods> }>>()
+    .cursor();
+  for await (const client of clients) {
+    const plan = client.plan && PLANS.includes(client.plan) ? client.plan : null;
+    const policy = effectiveRetention(plan ? planPolicies[plan] : KEEP_INDEFINITELY, client.retention);
+    const context: PurgeContext = { clerkId: client.clerkId, plan, policy, held };
+    summary.clients += 1;
+    try {
+      if (dryRun) {
+        await previewClient(context, audit, summary);
+        continue;
+      }
+      // Whole records go first, so the stages below do not touch scans that are about to be deleted anyway.
+      if (policy.metadataDays) {
+        summary.scansDeleted += await deleteExpiredScans(context, policy.metadataDays);
+        summary.accessRowsDeleted += await purgeAccessLog(context, policy.metadataDays);
+      }
+      if (policy.mediaDays) summary.mediaPurged += await purgeExpiredMedia(context, policy.mediaDays);
+      if (policy.derivedDays) summary.derivedPurged += await purgeExpiredDerived(context, policy.derivedDays);
+    } catch (error) {
+      // The next pass picks up where this one stopped; the conditional updates keep it from purging twice.
+      console.error(`Retention purge for client ${client.clerkId} failed:`, error);
+    }
+  }
+  return summary;
+}
+
+/** Runs the retention purge on an interval; returns a function that stops the loop. */
+export function startRetentionPurge() {
+  if (RETENTION_PURGE !== "on" && RETENTION_PURGE !== "dry-run") {
+    console.warn("RETENTION_PURGE is off; retention periods are not being enforced.");
+    return () => {};
+  }
+  const dryRun = RETENTION_PURGE === "dry-run";
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const summary = await runRetentionPurge({ dryRun });
+      if (summary.scansDeleted || summary.mediaPurged || summary.derivedPurged || summary.accessRowsDeleted) {
+        console.log(dryRun ? "Retention dry run, would purge:" : "Retention purge:", summary);
+      }
+    } catch (error) {
+      console.error("Retention purge pass failed:", error);
+    } finally {
+      running = false;
+    }
+  }, RETENTION_PURGE_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
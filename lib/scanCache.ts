@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { connectToDatabase } from "./db";
+import { User } from "./models/User";
+import { VerificationResult, type IVerificationResult } from "./models/VerificationResult";
+import { getDetectorsFor } from "./detectors/registry";
+import { getVerdictConfig } from "./verdictEngine";
+import { hashMediaInput, mediaInputPath, type MediaInput } from "./mediaInput";
+import type { MediaType } from "./scanPipeline";
+
+const execFileAsync = promisify(execFile);
+
+const SCAN_CACHE = (process.env.SCAN_CACHE || "on").toLowerCase() !== "off";
+// Tenant defaults when a user has no scanCache settings of their own.
+const SCAN_CACHE_CHARGE_HITS = (process.env.SCAN_CACHE_CHARGE_HITS || "false").toLowerCase() === "true";
+const SCAN_CACHE_CROSS_TENANT = (process.env.SCAN_CACHE_CROSS_TENANT || "false").toLowerCase() === "true";
+// Hamming distance (of 64 bits) under which two dHashes count as the same picture. Capped at 3:
+// the four stored hash bands only guarantee a shared band up to that distance.
+const PHASH_MAX_DISTANCE = Math.min(3, Math.max(0, parseInt(process.env.PHASH_MAX_DISTANCE || "3", 10)));
+// Share of a video's keyframe hashes that must find a near match in the other video.
+const VIDEO_KEYFRAME_MATCH_RATIO = 0.8;
+const VIDEO_MAX_KEYFRAME_HASHES = 16;
+const CACHEABLE_STATUSES = ["AUTHENTIC", "SUSPICIOUS", "DEEPFAKE", "NO_FACE"];
+
+export type MediaFingerprint = {
+  sha256: string;
+  /** 64-bit dHashes as hex: one for an image, one per sampled keyframe for a video, none for audio. */
+  perceptualHashes: string[];
+};
+
+export type TenantCacheSettings = {
+  enabled: boolean;
+  chargeCacheHits: boolean;
+  crossTenantReuse: boolean;
+};
+
+/** Hashes 9x8 greyscale frames into 64-bit difference hashes. */
+function dHashFrames(raw: Buffer) {
+  const hashes: string[] = [];
+  for (let offset = 0; offset + 72 <= raw.length; offset += 72) {
+    let bits = BigInt(0);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const left = raw[offset + y * 9 + x];
+        const right = raw[offset + y * 9 + x + 1];
+        bits = (bits << BigInt(1)) | (left < right ? BigInt(1) : BigInt(0));
+      }
+    }
+    hashes.push(bits.toString(16).padStart(16, "0"));
+  }
+  return hashes;
+}
+
+async function perceptualHashes(media: MediaInput, fileType: MediaType) {
+  if (fileType === "audio") return [];
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-phash-"));
+  try {
+    const inputPath = await mediaInputPath(media, workDir, fileType === "video" ? "input.mp4" : "input.img");
+    const args = fileType === "video"
+      ? ["-hide_banner", "-loglevel", "error", "-skip_frame", "nokey", "-i", inputPath, "-an", "-vsync", "vfr", "-vf", "scale=9:8,format=gray", "-f", "rawvideo", "-"]
+      : ["-hide_banner", "-loglevel", "error", "-i", inputPath, "-frames:v", "1", "-vf", "scale=9:8,format=gray", "-f", "rawvideo", "-"];
+    const { stdout } = await execFileAsync(ffmpegStatic as string, args, { encoding: "buffer", maxBuffer: 16 * 1024 * 1024 });
+    const hashes = dHashFrames(stdout);
+    if (hashes.length <= VIDEO_MAX_KEYFRAME_HASHES) return hashes;
+    return Array.from({ length: VIDEO_MAX_KEYFRAME_HASHES }, (_, i) =>
+      hashes[Math.round(i * (hashes.length - 1) / (VIDEO_MAX_KEYFRAME_HASHES - 1))]);
+  } catch (error) {
+    console.warn("Perceptual hashing failed; falling back to exact matches only:", error);
+    return [];
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** dHash of a single still image, or null when ffmpeg cannot decode it. */
+export async function imageDHash(image: MediaInput) {
+  return (await perceptualHashes(image, "image"))[0] ?? null;
+}
+
+export async function fingerprintMedia(media: MediaInput, fileType: MediaType): Promise<MediaFingerprint> {
+  return {
+    sha256: await hashMediaInput(media),
+    perceptualHashes: await perceptualHashes(media, fileType),
+  };
+}
+
+/**
+ * Identifies the detectors and fusion settings a verdict was produced with, so
+ * a detector swap, weight change or SCAN_MODEL_VERSION bump invalidates the cache.
+ */
+export function getModelVersion(fileType: MediaType) {
+  const signature = JSON.stringify({
+    release: process.env.SCAN_MODEL_VERSION || "",
+    detectors: getDetectorsFor(fileType).map((adapter) => adapter.name),
+    verdict: getVerdictConfig().media[fileType],
+  });
+  return `${fileType}-${createHash("sha256").update(signature).digest("hex").slice(0, 12)}`;
+}
+
+/**
+ * Splits each hash into four 16-bit bands. Two hashes within 3 bits always
+ * share a band, so the bands give an indexable candidate query for near matches.
+ */
+export function hashBands(hashes: string[]) {
+  return Array.from(new Set(hashes.flatMap((hash) => [0, 1, 2, 3].map((i) => `${i}:${hash.slice(i * 4, i * 4 + 4)}`))));
+}
+
+export function hammingDistance(a: string, b: string) {
+  let diff = BigInt("0x" + a) ^ BigInt("0x" + b);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+}
+
+function matchRatio(query: string[], candidate: string[]) {
+  if (query.length === 0 || candidate.length === 0) return 0;
+  const matched = query.filter((q) => candidate.some((c) => hammingDistance(q, c) <= PHASH_MAX_DISTANCE)).length;
+  return matched / query.length;
+}
+
+function isNearDuplicate(fileType: MediaType, query: string[], candidate: string[]) {
+  if (fileType === "image") return matchRatio(query, candidate) === 1;
+  return matchRatio(query, candidate) >= VIDEO_KEYFRAME_MATCH_RATIO && matchRatio(candidate, query) >= VIDEO_KEYFRAME_MATCH_RATIO;
+}
+
+export async function getTenantCacheSettings(userId: string): Promise<TenantCacheSettings> {
+  await connectToDatabase();
+  const user = await User.findOne({ clerkId: userId }).select("scanCache").lean<{ scanCache?: Partial<TenantCacheSettings> }>();
+  return {
+    enabled: SCAN_CACHE,
+    chargeCacheHits: user?.scanCache?.chargeCacheHits ?? SCAN_CACHE_CHARGE_HITS,
+    crossTenantReuse: user?.scanCache?.crossTenantReuse ?? SCAN_CACHE_CROSS_TENANT,
+  };
+}
+
+/** Fields stored on every fresh scan so later uploads can find it. */
+export function buildCacheFields(fingerprint: MediaFingerprint, fileType: MediaType, settings: TenantCacheSettings) {
+  return {
+    contentHash: fingerprint.sha256,
+    perceptualHashes: fingerprint.perceptualHashes,
+    hashBands: hashBands(fingerprint.perceptualHashes),
+    modelVersion: getModelVersion(fileType),
+    cacheShareable: settings.crossTenantReuse,
+  };
+}
+
+/**
+ * Looks for a finished, original (non-cached) scan of the same or a
+ * near-identical file under the current model version. Other tenants' scans are
+ * only considered when both sides have opted into cross-tenant reuse.
+ */
+export async function findCachedScan(userId: string, fileType: MediaType, fingerprint: MediaFingerprint, settings: TenantCacheSettings) {
+  if (!settings.enabled) return null;
+  await connectToDatabase();
+
+  const base = {
+    fileType,
+    modelVersion: getModelVersion(fileType),
+    status: { $in: CACHEABLE_STATUSES },
+    cachedFrom: { $exists: false },
+    ...(settings.crossTenantReuse ? { $or: [{ userId }, { cacheShareable: true }] } : { userId }),
+  };
+
+  const exact = await VerificationResult.findOne({ ...base, contentHash: fingerprint.sha256 }).sort({ createdAt: -1 });
+  if (exact) return { match: "exact" as const, original: exact };
+
+  if (fingerprint.perceptualHashes.length === 0) return null;
+  const candidates = await VerificationResult.find({ ...base, hashBands: { $in: hashBands(fingerprint.perceptualHashes) } })
+    .sort({ createdAt: -1 })
+    .limit(50);
+  const near = candidates.find((doc: IVerificationResult) => isNearDuplicate(fileType, fingerprint.perceptualHashes, doc.perceptualHashes || []));
+  return near ? { match: "perceptual" as const, original: near } : null;
+}
+
+/** Analysis fields copied from the original scan onto the requesting tenant's cache-hit record. */
+export function cachedResultFields(original: IVerificationResult) {
+  const source = original.toObject();
+  return {
+    status: source.status,
+    confidenceScore: source.confidenceScore,
+    modelsUsed: source.modelsUsed,
+    mediaInfo: source.mediaInfo,
+    rdAnalysis: source.rdAnalysis,
+    fcAnalysis: source.fcAnalysis,
+    audioAnalysis: source.audioAnalysis,
+    videoAnalysis: source.videoAnalysis,
+    faceAnalysis: source.faceAnalysis,
+    verdict: source.verdict,
+    modelVersion: source.modelVersion,
+    cachedFrom: source.scanId,
+  };
+}
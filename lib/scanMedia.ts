@@ -0,0 +1,168 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { mediaInputPath, type MediaInput } from "./mediaInput";
+import type { SniffedMedia } from "./mediaSniff";
+import { putObject, signedObjectUrl, type StoredObjectRef } from "./objectStorage";
+
+const execFileAsync = promisify(execFile);
+
+// Longest side of the stored image preview shown in scan lists and on the result page.
+const PREVIEW_MAX_SIDE = 480;
+// The animated video preview loops this many frames spread evenly over the clip, at ANIMATED_PREVIEW_FPS.
+const ANIMATED_PREVIEW_FRAMES = 12;
+const ANIMATED_PREVIEW_FPS = 4;
+const ANIMATED_PREVIEW_WIDTH = 320;
+const WAVEFORM_SIZE = "480x120";
+const PREVIEW_TIMEOUT_MS = 60000;
+
+/**
+ * The original upload and what was derived from it in object storage, as kept
+ * on VerificationResult.media. `preview` is a still for every type: a resized
+ * image, a video poster frame or an audio waveform.
+ */
+export type ScanMediaRecord = {
+  original?: StoredObjectRef;
+  preview?: StoredObjectRef;
+  /** Looping animated WebP of a video, for hover previews in scan lists. */
+  animatedPreview?: StoredObjectRef;
+};
+
+/** Previews derived during normalisation, merged into ScanMediaRecord when the scan is saved. */
+export type DerivedPreviews = Pick<ScanMediaRecord, "preview" | "animatedPreview">;
+
+async function runFfmpeg(args: string[]) {
+  await execFileAsync(ffmpegStatic as string, ["-hide_banner", "-loglevel", "error", ...args], { timeout: PREVIEW_TIMEOUT_MS });
+}
+
+async function imagePreview(media: MediaInput, ext: string) {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-preview-"));
+  try {
+    const inputPath = await mediaInputPath(media, workDir, `input${ext}`);
+    const outputPath = path.join(workDir, "preview.jpg");
+    await runFfmpeg([
+      "-i", inputPath,
+      "-frames:v", "1",
+      "-vf", `scale='min(${PREVIEW_MAX_SIDE},iw)':'min(${PREVIEW_MAX_SIDE},ih)':force_original_aspect_ratio=decrease`,
+      "-q:v", "5", "-f", "mjpeg", "-y", outputPath,
+    ]);
+    return await putObject("previews", await readFile(outputPath), "jpg", "image/jpeg");
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+async function videoPreviews(inputPath: string, workDir: string, duration?: number): Promise<DerivedPreviews> {
+  const posterPath = path.join(workDir, "poster.jpg");
+  const animatedPath = path.join(workDir, "preview.webp");
+  // Skip the first second or so, which is often a fade-in or black, and let ffmpeg pick the most representative of the next frames.
+  const posterSeek = duration ? Math.min(1, duration / 10) : 0;
+  const sampleRate = duration ? ANIMATED_PREVIEW_FRAMES / duration : ANIMATED_PREVIEW_FPS;
+
+  const [poster, animated] = await Promise.allSettled([
+    runFfmpeg([
+      "-ss", posterSeek.toFixed(3), "-i", inputPath,
+      "-vf", `thumbnail=50,scale='min(${PREVIEW_MAX_SIDE},iw)':'min(${PREVIEW_MAX_SIDE},ih)':force_original_aspect_ratio=decrease`,
+      "-frames:v", "1", "-q:v", "5", "-f", "mjpeg", "-y", posterPath,
+    ]).then(async () => putObject("previews", await readFile(posterPath), "jpg", "image/jpeg")),
+    runFfmpeg([
+      "-i", inputPath, "-an",
+      "-vf", `fps=${sampleRate.toFixed(4)},scale=${ANIMATED_PREVIEW_WIDTH}:-2,setpts=N/${ANIMATED_PREVIEW_FPS}/TB`,
+      "-frames:v", String(ANIMATED_PREVIEW_FRAMES),
+      "-c:v", "libwebp_anim", "-loop", "0", "-quality", "60", "-y", animatedPath,
+    ]).then(async () => putObject("previews", await readFile(animatedPath), "webp", "image/webp")),
+  ]);
+  if (poster.status === "rejected") console.warn("Failed to build video poster frame:", poster.reason);
+  if (animated.status === "rejected") console.warn("Failed to build animated video preview:", animated.reason);
+  return {
+    ...(poster.status === "fulfilled" ? { preview: poster.value } : {}),
+    ...(animated.status === "fulfilled" ? { animatedPreview: animated.value } : {}),
+  };
+}
+
+async function waveformPreview(inputPath: string, workDir: string): Promise<DerivedPreviews> {
+  const outputPath = path.join(workDir, "waveform.png");
+  await runFfmpeg([
+    "-i", inputPath,
+    "-filter_complex", `aformat=channel_layouts=mono,showwavespic=s=${WAVEFORM_SIZE}:scale=sqrt:colors=0x3b82f6`,
+    "-frames:v", "1", "-y", outputPath,
+  ]);
+  return { preview: await putObject("previews", await readFile(outputPath), "png", "image/png") };
+}
+
+/**
+ * Poster frame and animated preview for a video, or a waveform for audio,
+ * stored as derived assets. Given the normalised file where there is one, so
+ * rotation is already applied. Failures leave the scan without previews.
+ */
+export async function storeDerivedPreviews(
+  media: MediaInput,
+  fileType: "video" | "audio",
+  duration?: number
+): Promise<DerivedPreviews> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-preview-"));
+  try {
+    const inputPath = await mediaInputPath(media, workDir, "input.bin");
+    return fileType === "video" ? await videoPreviews(inputPath, workDir, duration) : await waveformPreview(inputPath, workDir);
+  } catch (error) {
+    console.warn(`Failed to build ${fileType} preview:`, error);
+    return {};
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Keeps the uploaded file and, for images, a small preview in object storage.
+ * A storage failure must not fail the scan, so it is logged and the scan is
+ * recorded without media.
+ */
+export async function storeScanMedia(
+  media: MediaInput,
+  fileName: string,
+  sniffed: SniffedMedia
+): Promise<ScanMediaRecord | undefined> {
+  try {
+    const original = await putObject("originals", media, sniffed.ext.slice(1), sniffed.mime);
+    const preview = sniffed.fileType === "image"
+      ? await imagePreview(media, sniffed.ext).catch((error) => {
+          console.warn(`Failed to build preview for ${fileName}:`, error);
+          return undefined;
+        })
+      : undefined;
+    return { original, ...(preview ? { preview } : {}) };
+  } catch (error) {
+    console.warn(`Failed to store ${fileName} in object storage:`, error);
+    return undefined;
+  }
+}
+
+type ScanWithMedia = { fileName?: string; media?: ScanMediaRecord | null; imageUrl?: string };
+
+/**
+ * Signed preview URL for scan lists. Scans from before object storage carry
+ * the image inline in imageUrl, which is passed through.
+ */
+export async function scanPreviewUrl(scan: ScanWithMedia) {
+  if (scan.media?.preview) return signedObjectUrl(scan.media.preview);
+  return scan.imageUrl || "";
+}
+
+/** Signed URL of a video's animated preview; empty when there is none. */
+export async function scanAnimatedPreviewUrl(scan: ScanWithMedia) {
+  return scan.media?.animatedPreview ? signedObjectUrl(scan.media.animatedPreview) : "";
+}
+
+/** Signed URLs to view the original inline and to download it under its upload name. */
+export async function scanOriginalUrls(scan: ScanWithMedia) {
+  const original = scan.media?.original;
+  if (!original) return null;
+  const [mediaUrl, downloadUrl] = await Promise.all([
+    signedObjectUrl(original),
+    signedObjectUrl(original, { downloadName: scan.fileName }),
+  ]);
+  return { mediaUrl, downloadUrl };
+}
@@ -0,0 +1,440 @@
+import path from "path";
+import { analyzeAudio } from "./audioAnalysis";
+import { sampleVideoFrames, getDefaultVideoSampling, type VideoSamplingOptions } from "./videoSampling";
+import { FACE_DETECTOR_NAME, extractFaceCrops, getFaceDetector, resizeForModel } from "./faceDetection";
+import { collectDetectorOutputs, computeVerdict, toVerdictRecord, type VerdictRecord } from "./verdictEngine";
+import { getDetectorsFor, type DetectorAdapter } from "./detectors/registry";
+import type { RdAnalysis } from "./fakecatcherStore";
+import { detectorMedia, readMediaInput, type MediaInput } from "./mediaInput";
+import { normalizeVideo, probeMediaInput, type MediaProbeRecord } from "./mediaNormalize";
+import { verifyContentCredentials, type ProvenanceRecord } from "./c2pa";
+import { analyzeImageMetadata, metadataFeatures, type MetadataAnalysisRecord } from "./metadataForensics";
+import { generateForensicMaps, storeFrameThumbnail, type ForensicMapsRecord } from "./imageForensics";
+import { storeDerivedPreviews, type DerivedPreviews } from "./scanMedia";
+
+// Concurrent SageMaker invocations per video; adaptive sampling can produce dozens of frames.
+const GOTHAM_FRAME_CONCURRENCY = Math.max(1, parseInt(process.env.GOTHAM_FRAME_CONCURRENCY || "4", 10));
+
+export type MediaType = "image" | "video" | "audio";
+
+export type GothamFrameResult = { label: string; score: number; confidence: number };
+
+export type AudioAnalysisRecord = {
+  detector: string;
+  requestIds: string[];
+  status: string;
+  score: number;
+  maxScore: number;
+  duration: number;
+  sampleRate: number;
+  segments: Array<{ index: number; start: number; end: number; status: string; score: number }>;
+  analyzedAt: string;
+};
+
+export type FaceScore = {
+  box: { x: number; y: number; width: number; height: number };
+  detectionScore: number;
+  status: "DONE" | "ERROR";
+  label?: string;
+  score?: number;
+  confidence?: number;
+};
+
+/** Gotham verdict for one image or frame; with face detection on, the most manipulated face wins. */
+type GothamImageScore = {
+  status: "DONE" | "ERROR" | "NO_FACE";
+  label?: string;
+  score?: number;
+  confidence?: number;
+  faces?: FaceScore[];
+};
+
+/** `thumbnail` is the artifact key of a small copy of the frame, for the anomaly timeline. */
+export type VideoFrameScore = GothamImageScore & { index: number; timestamp: number; thumbnail?: string };
+
+export type FaceAnalysisRecord = {
+  detector: string;
+  faceCount: number;
+  score?: number;
+  faces: FaceScore[];
+  analyzedAt: string;
+};
+
+export type VideoAnalysisRecord = {
+  detector: string;
+  strategy: string;
+  strategyValue?: number;
+  duration: number;
+  frameCap: number;
+  frameCount: number;
+  failedFrames: number;
+  faceDetector?: string;
+  framesWithFaces?: number;
+  score?: number;
+  maxScore?: number;
+  frames: VideoFrameScore[];
+  analyzedAt: string;
+};
+
+/** FakeCatcher runs as a remote job; a PENDING record carries the job id until its label lands. */
+export type FakecatcherAnalysisRecord = {
+  jobId?: string;
+  status: "PENDING" | "DONE" | "ERROR";
+  label?: string;
+  confidence?: number;
+  fake_prob?: number;
+  total_frames?: number;
+  face_pct?: number;
+  submittedAt: string;
+  analyzedAt?: string;
+  error?: string;
+};
+
+/**
+ * Detector-agnostic outcome of analysing one media file. The fields map
+ * directly onto the VerificationResult document, so the HTTP route and the
+ * queue worker persist exactly the same shape.
+ */
+export type ScanAnalysis = {
+  /** PROCESSING: nothing has scored yet but a FakeCatcher job is pending; lib/fakecatcherReconciler finishes the scan. */
+  status: "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE" | "NO_FACE" | "PROCESSING" | "ERROR";
+  confidenceScore: number;
+  modelsUsed: string[];
+  rdAnalysis?: RdAnalysis;
+  fcAnalysis?: FakecatcherAnalysisRecord;
+  audioAnalysis?: AudioAnalysisRecord;
+  videoAnalysis?: VideoAnalysisRecord;
+  faceAnalysis?: FaceAnalysisRecord;
+  mediaProbe?: MediaProbeRecord;
+  provenance?: ProvenanceRecord;
+  metadataAnalysis?: MetadataAnalysisRecord;
+  /** Analyst-facing signals that do not feed the verdict, e.g. "metadata:editing_software". */
+  features?: string[];
+  forensicMaps?: ForensicMapsRecord;
+  /** Poster frame and animated preview of a video, or waveform of audio; merged into VerificationResult.media. */
+  previews?: DerivedPreviews;
+  verdict?: VerdictRecord;
+  error?: string;
+};
+
+async function invokeGotham(adapter: DetectorAdapter, modelInput: Buffer): Promise<GothamFrameResult | null> {
+  const result = await adapter.invoke({ buffer: modelInput, mediaType: "image" });
+  if (result.status !== "DONE" || typeof result.score !== "number") return null;
+  return { label: result.label || "", score: result.score, confidence: result.confidence ?? result.score };
+}
+
+async function scoreWithGotham(adapter: DetectorAdapter, imageBuffer: Buffer): Promise<GothamImageScore> {
+  const detector = await getFaceDetector();
+  if (!detector) {
+    const result = await invokeGotham(adapter, await resizeForModel(imageBuffer));
+    return result ? { status: "DONE", label: result.label, score: result.score, confidence: result.confidence } : { status: "ERROR" };
+  }
+
+  const crops = await extractFaceCrops(detector, imageBuffer);
+  if (crops.length === 0) return { status: "NO_FACE", faces: [] };
+
+  const faces: FaceScore[] = [];
+  for (const crop of crops) {
+    const result = await invokeGotham(adapter, crop.buffer);
+    const box = { x: crop.box.x, y: crop.box.y, width: crop.box.width, height: crop.box.height };
+    faces.push(result
+      ? { box, detectionScore: crop.box.score, status: "DONE", label: result.label, score: result.score, confidence: result.confidence }
+      : { box, detectionScore: crop.box.score, status: "ERROR" });
+  }
+
+  // One manipulated face is enough to flag the frame, so report the highest-scoring face.
+  const worst = faces.filter((f) => f.status === "DONE").sort((a, b) => (b.score as number) - (a.score as number))[0];
+  if (!worst) return { status: "ERROR", faces };
+  return { status: "DONE", label: worst.label, score: worst.score, confidence: worst.confidence, faces };
+}
+
+export async function analyzeVideoWithGotham(
+  video: MediaInput,
+  adapter: DetectorAdapter,
+  sampling: VideoSamplingOptions = getDefaultVideoSampling()
+): Promise<{ videoAnalysis?: VideoAnalysisRecord; error?: string }> {
+  let sampled;
+  try {
+    sampled = await sampleVideoFrames(video, sampling);
+  } catch (error) {
+    console.error("Frame extraction failed:", error);
+    return { error: "Failed to extract frames from video" };
+  }
+  if (sampled.frames.length === 0) return { error: "Failed to extract frames from video" };
+
+  const faceDetector = await getFaceDetector();
+  const frames: VideoFrameScore[] = new Array(sampled.frames.length);
+  const pending = [...sampled.frames];
+  const runWorker = async () => {
+    while (pending.length > 0) {
+      const frame = pending.shift()!;
+      const thumbnail = storeFrameThumbnail(frame.buffer).catch((error) => {
+        console.warn(`Thumbnail for frame ${frame.index} failed:`, error);
+        return undefined;
+      });
+      try {
+        frames[frame.index] = { index: frame.index, timestamp: frame.timestamp, ...(await scoreWithGotham(adapter, frame.buffer)) };
+      } catch (error) {
+        console.error(`Scoring frame ${frame.index} failed:`, error);
+        frames[frame.index] = { index: frame.index, timestamp: frame.timestamp, status: "ERROR" };
+      }
+      frames[frame.index].thumbnail = await thumbnail;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(GOTHAM_FRAME_CONCURRENCY, frames.length) }, runWorker));
+
+  const scores = frames.filter((f) => f.status === "DONE").map((f) => f.score as number);
+  const noFaceFrames = frames.filter((f) => f.status === "NO_FACE").length;
+  const videoAnalysis: VideoAnalysisRecord = {
+    detector: adapter.displayName,
+    strategy: sampled.strategy,
+    strategyValue: sampled.value,
+    duration: sampled.duration,
+    frameCap: sampled.frameCap,
+    frameCount: frames.length,
+    failedFrames: frames.filter((f) => f.status === "ERROR").length,
+    faceDetector: faceDetector ? FACE_DETECTOR_NAME : undefined,
+    framesWithFaces: faceDetector ? frames.length - noFaceFrames : undefined,
+    frames,
+    analyzedAt: new Date().toISOString(),
+  };
+
+  // With no scored frame the record still goes back, so a video without faces is reported as such.
+  if (scores.length === 0) {
+    return noFaceFrames === frames.length ? { videoAnalysis } : { error: "Model endpoint unavailable" };
+  }
+
+  const avgScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return { videoAnalysis: { ...videoAnalysis, score: avgScore, maxScore: Math.max(...scores) } };
+}
+
+/**
+ * Face-level Gotham scores for a still image. Returns undefined when no face
+ * detector is loaded, since a whole-image Swin score adds nothing to RD's verdict.
+ */
+export async function analyzeImageFaces(imageBuffer: Buffer, adapter: DetectorAdapter): Promise<FaceAnalysisRecord | undefined> {
+  if (!(await getFaceDetector())) return undefined;
+  try {
+    const result = await scoreWithGotham(adapter, imageBuffer);
+    return {
+      detector: FACE_DETECTOR_NAME,
+      faceCount: result.faces?.length || 0,
+      score: result.status === "DONE" ? result.score : undefined,
+      faces: result.faces || [],
+      analyzedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error("Image face analysis failed:", error);
+    return undefined;
+  }
+}
+
+export async function analyzeWithRealityDefender(media: MediaInput, mediaType: MediaType, adapter: DetectorAdapter): Promise<RdAnalysis> {
+  const result = await adapter.invoke({ ...detectorMedia(media), mediaType });
+  if (result.status !== "DONE") {
+    console.error("Reality Defender scan failed:", result.error);
+    return {
+      status: "ERROR",
+      score: 0,
+      models: [],
+      analyzedAt: new Date().toISOString(),
+      error: result.error,
+    };
+  }
+  return {
+    requestId: result.requestId,
+    status: result.label || "SUSPICIOUS",
+    score: result.score ?? 0,
+    models: (result.models || []).map((m) => ({
+      name: m.name,
+      status: m.status,
+      score: m.score,
+    })),
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+/** FakeCatcher reports confidence as 0-1; scans store it as a whole percentage. */
+export function fakecatcherConfidencePercent(confidence: number | undefined) {
+  return typeof confidence === "number" ? Math.round(confidence * 100) : undefined;
+}
+
+export async function submitToFakecatcher(video: MediaInput, fileName: string, adapter: DetectorAdapter): Promise<FakecatcherAnalysisRecord> {
+  const submittedAt = new Date().toISOString();
+  const result = await adapter.invoke({ ...detectorMedia(video), mediaType: "video", fileName });
+  if (result.status === "ERROR") {
+    console.error("FakeCatcher submission failed:", result.error);
+    return { status: "ERROR", submittedAt, error: result.error };
+  }
+  if (result.status === "PENDING") return { jobId: result.jobId, status: "PENDING", submittedAt };
+  return {
+    jobId: result.jobId,
+    status: "DONE",
+    label: result.label,
+    confidence: fakecatcherConfidencePercent(result.confidence),
+    fake_prob: result.score,
+    submittedAt,
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+export type AnalyzeMediaOptions = { videoSampling?: VideoSamplingOptions };
+
+/**
+ * Runs every detector configured for the media type (see lib/detectors/registry)
+ * and fuses whatever came back through the verdict engine. Videos and audio
+ * given as a file reference are never loaded into memory as a whole.
+ */
+export async function analyzeMedia(media: MediaInput, fileName: string, fileType: MediaType, options: AnalyzeMediaOptions = {}): Promise<ScanAnalysis> {
+  // Content Credentials and metadata are bound to the uploaded bytes, so they are read from the original, never the normalised copy.
+  const [forensics, analysis] = await Promise.all([
+    analyzeForensics(media, fileType),
+    probeAndDetect(media, fileName, fileType, options),
+  ]);
+  return { ...analysis, ...forensics };
+}
+
+/**
+ * Detector-independent checks of the uploaded file: Content Credentials,
+ * image metadata and ELA/noise maps. Cache hits run these too, since a
+ * perceptual match can differ in all of them. A failing check only leaves
+ * its own field unset.
+ */
+export async function analyzeForensics(media: MediaInput, fileType: MediaType): Promise<Pick<ScanAnalysis, "provenance" | "metadataAnalysis" | "features" | "forensicMaps">> {
+  const [provenance, metadata, forensicMaps] = await Promise.all([
+    checkProvenance(media),
+    fileType === "image" ? checkImageMetadata(media) : {},
+    generateForensicMaps(media, fileType).catch((error) => {
+      console.warn("Forensic map generation failed:", error);
+      return undefined;
+    }),
+  ]);
+  return { ...(provenance ? { provenance } : {}), ...metadata, ...(forensicMaps ? { forensicMaps } : {}) };
+}
+
+/** C2PA manifest verification for a scan; a failure to read the file leaves provenance unset rather than failing the scan. */
+async function checkProvenance(media: MediaInput) {
+  return verifyContentCredentials(media).catch((error) => {
+    console.warn("Content Credentials check failed:", error);
+    return undefined;
+  });
+}
+
+/** EXIF/XMP/IPTC forensics for an image scan, with the feature strings derived from it; empty when the image cannot be read. */
+async function checkImageMetadata(media: MediaInput): Promise<Pick<ScanAnalysis, "metadataAnalysis" | "features">> {
+  try {
+    const metadataAnalysis = await analyzeImageMetadata(await readMediaInput(media));
+    return { metadataAnalysis, features: metadataFeatures(metadataAnalysis) };
+  } catch (error) {
+    console.warn("Metadata forensics failed:", error);
+    return {};
+  }
+}
+
+async function probeAndDetect(media: MediaInput, fileName: string, fileType: MediaType, options: AnalyzeMediaOptions): Promise<ScanAnalysis> {
+  if (fileType === "image") return runDetectors(media, fileName, fileType, options);
+
+  if (fileType === "audio") {
+    const mediaProbe = await probeMediaInput(media, fileName).catch((error) => {
+      console.warn("Audio probe failed:", error);
+      return undefined;
+    });
+    const [analysis, previews] = await Promise.all([
+      runDetectors(media, fileName, fileType, options),
+      storeDerivedPreviews(media, "audio"),
+    ]);
+    return { ...analysis, mediaProbe, previews };
+  }
+
+  // Every video detector reads the same canonical file, so odd containers, codecs or rotation cannot trip one of them.
+  let normalized;
+  try {
+    normalized = await normalizeVideo(media);
+  } catch (error) {
+    console.warn("Video normalisation failed; scanning the original:", error);
+    const [analysis, previews] = await Promise.all([
+      runDetectors(media, fileName, fileType, options),
+      storeDerivedPreviews(media, "video"),
+    ]);
+    return { ...analysis, previews };
+  }
+  try {
+    // Detectors that key on the extension should see the container they are actually given.
+    const scannedName = normalized.probe.normalization ? `${path.parse(fileName).name}.mp4` : fileName;
+    // Previews come from the normalised file too, so they are upright and decodable whatever was uploaded.
+    const [analysis, previews] = await Promise.all([
+      runDetectors(normalized.media, scannedName, fileType, options),
+      storeDerivedPreviews(normalized.media, "video", normalized.probe.duration),
+    ]);
+    return { ...analysis, mediaProbe: normalized.probe, previews };
+  } finally {
+    await normalized.cleanup();
+  }
+}
+
+async function runDetectors(media: MediaInput, fileName: string, fileType: MediaType, options: AnalyzeMediaOptions): Promise<ScanAnalysis> {
+  const detectors = getDetectorsFor(fileType);
+  let analyses: Pick<ScanAnalysis, "rdAnalysis" | "fcAnalysis" | "audioAnalysis" | "videoAnalysis" | "faceAnalysis"> = {};
+  const modelsRun = detectors.map((adapter) => adapter.displayName);
+  const errors: string[] = [];
+
+  if (detectors.length === 0) {
+    return { status: "ERROR", confidenceScore: 0, modelsUsed: [], error: `No detectors configured for ${fileType}` };
+  }
+
+  if (fileType === "audio") {
+    // Segments are scored by one voice detector; the first configured one wins.
+    const analysis = await analyzeAudio(media, fileName, detectors[0]);
+    if (analysis.status === "ERROR") {
+      return { status: "ERROR", confidenceScore: 0, modelsUsed: [analysis.detector], error: analysis.error || "Audio analysis failed" };
+    }
+    analyses = {
+      audioAnalysis: {
+        detector: analysis.detector,
+        requestIds: analysis.requestIds,
+        status: analysis.status,
+        score: analysis.score,
+        maxScore: analysis.maxScore,
+        duration: analysis.duration,
+        sampleRate: analysis.sampleRate,
+        segments: analysis.segments,
+        analyzedAt: new Date().toISOString(),
+      },
+    };
+  } else {
+    await Promise.all(detectors.map(async (adapter) => {
+      if (adapter.model === "realityDefender") {
+        analyses.rdAnalysis = await analyzeWithRealityDefender(media, fileType, adapter);
+        if (analyses.rdAnalysis.error) errors.push(analyses.rdAnalysis.error);
+      } else if (adapter.model === "fakecatcher") {
+        analyses.fcAnalysis = await submitToFakecatcher(media, fileName, adapter);
+        if (analyses.fcAnalysis.error) errors.push(analyses.fcAnalysis.error);
+      } else if (adapter.model === "gotham" && fileType === "video") {
+        const analysis = await analyzeVideoWithGotham(media, adapter, options.videoSampling);
+        analyses.videoAnalysis = analysis.videoAnalysis;
+        if (analysis.error) errors.push(analysis.error);
+      } else if (adapter.model === "gotham") {
+        analyses.faceAnalysis = await analyzeImageFaces(await readMediaInput(media), adapter);
+      }
+    }));
+  }
+
+  const error = errors[0];
+  const verdict = computeVerdict(fileType, collectDetectorOutputs(analyses));
+  if (!verdict && analyses.fcAnalysis?.status === "PENDING") {
+    return { status: "PROCESSING", confidenceScore: 0, modelsUsed: modelsRun, ...analyses };
+  }
+  if (!verdict) {
+    return { status: "ERROR", confidenceScore: 0, modelsUsed: modelsRun, ...analyses, error: error || `${fileType} analysis failed` };
+  }
+
+  const scored = verdict.contributions.filter((c) => c.score !== null).map((c) => c.name);
+  return {
+    status: verdict.status,
+    confidenceScore: verdict.confidenceScore,
+    modelsUsed: scored.length ? scored : modelsRun,
+    ...analyses,
+    verdict: toVerdictRecord(verdict),
+    error,
+  };
+}
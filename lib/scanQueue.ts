@@ -0,0 +1,110 @@
+import { Queue, type ConnectionOptions } from "bullmq";
+import { mkdir, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { MediaType } from "./scanPipeline";
+import type { VideoSamplingOptions } from "./videoSampling";
+
+export const SCAN_QUEUE_NAME = "scanQueue";
+export const SCAN_JOB_ATTEMPTS = 3;
+export const BATCH_QUEUE_NAME = "batchQueue";
+
+// Uploads for queued scans are spooled here; the worker must share this filesystem.
+const SCAN_SPOOL_DIR = process.env.SCAN_SPOOL_DIR || path.join(tmpdir(), "gotham-scan-spool");
+
+export type ScanJobData = {
+  scanId: string;
+  userId: string;
+  fileName: string;
+  fileType: MediaType;
+  filePath: string;
+  sourceUrl?: string;
+  videoSampling?: VideoSamplingOptions;
+  enqueuedAt: string;
+};
+
+export type BatchJobData = {
+  batchId: string;
+  userId: string;
+  videoSampling?: VideoSamplingOptions;
+  enqueuedAt: string;
+};
+
+export type ScanJobState = {
+  state: string;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason?: string;
+  processedOn?: string;
+  finishedOn?: string;
+};
+
+export function getRedisConnection(): ConnectionOptions {
+  return {
+    host: process.env.REDIS_HOST || "127.0.0.1",
+    port: parseInt(process.env.REDIS_PORT || "6379"),
+    password: process.env.REDIS_PASSWORD || undefined,
+  };
+}
+
+const globalWithQueue = globalThis as typeof globalThis & { scanQueue?: Queue<ScanJobData>; batchQueue?: Queue<BatchJobData> };
+
+export function getScanQueue(): Queue<ScanJobData> {
+  if (!globalWithQueue.scanQueue) {
+    globalWithQueue.scanQueue = new Queue<ScanJobData>(SCAN_QUEUE_NAME, {
+      connection: getRedisConnection(),
+      defaultJobOptions: {
+        attempts: SCAN_JOB_ATTEMPTS,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 },
+      },
+    });
+  }
+  return globalWithQueue.scanQueue;
+}
+
+/** Batches resume from their persisted item states, so a retried job only redoes unfinished items. */
+export function getBatchQueue(): Queue<BatchJobData> {
+  if (!globalWithQueue.batchQueue) {
+    globalWithQueue.batchQueue = new Queue<BatchJobData>(BATCH_QUEUE_NAME, {
+      connection: getRedisConnection(),
+      defaultJobOptions: {
+        attempts: SCAN_JOB_ATTEMPTS,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 },
+      },
+    });
+  }
+  return globalWithQueue.batchQueue;
+}
+
+export async function spoolScanUpload(scanId: string, fileName: string, buffer: Buffer) {
+  await mkdir(SCAN_SPOOL_DIR, { recursive: true });
+  const filePath = path.join(SCAN_SPOOL_DIR, `${scanId}${path.extname(fileName).toLowerCase()}`);
+  await writeFile(filePath, buffer);
+  return filePath;
+}
+
+/** The scanId doubles as the BullMQ job id so result lookups need no extra mapping. */
+export async function enqueueScanJob(data: ScanJobData) {
+  return getScanQueue().add("scan", data, { jobId: data.scanId });
+}
+
+export async function enqueueBatchJob(data: BatchJobData) {
+  return getBatchQueue().add("batch", data, { jobId: data.batchId });
+}
+
+export async function getScanJobState(scanId: string): Promise<ScanJobState | null> {
+  const job = await getScanQueue().getJob(scanId);
+  if (!job) return null;
+  return {
+    state: await job.getState(),
+    attemptsMade: job.attemptsMade,
+    maxAttempts: job.opts.attempts || 1,
+    failedReason: job.failedReason || undefined,
+    processedOn: job.processedOn ? new Date(job.processedOn).toISOString() : undefined,
+    finishedOn: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+  };
+}
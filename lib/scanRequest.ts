@@ -0,0 +1,577 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rm } from "fs/promises";
+import { setJobMeta, setJobRdAnalysis } from "./fakecatcherStore";
+import { connectToDatabase } from "./db";
+import { VerificationResult } from "./models/VerificationResult";
+import { analyzeForensics, analyzeMedia } from "./scanPipeline";
+import { consumeUserCredit, refundUserCredit } from "./credits";
+import { enqueueScanJob, spoolScanUpload } from "./scanQueue";
+import { fetchRemoteMedia, RemoteMediaError } from "./remoteMedia";
+import { inspectMedia, inspectMediaFile, MediaInspectionError } from "./mediaSniff";
+import { parseVideoSampling } from "./videoSampling";
+import { buildCacheFields, cachedResultFields, findCachedScan, fingerprintMedia, getTenantCacheSettings } from "./scanCache";
+import { consumeUpload, getCompletedUpload, releaseUpload, UploadSessionError } from "./resumableUpload";
+import type { MediaInput } from "./mediaInput";
+import { storeDerivedPreviews, storeScanMedia } from "./scanMedia";
+import type { ApiKeyAttribution } from "./apiKeys";
+
+const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+const ACCEPTED_VIDEO_EXT = [".mp4", ".avi", ".mov", ".mkv"];
+const ACCEPTED_IMAGE_EXT = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp"];
+const ACCEPTED_AUDIO_EXT = [".mp3", ".wav", ".ogg", ".m4a", ".aac", ".flac"];
+const BACKEND_REQUEST_TIMEOUT_MS = Math.max(
+  5000,
+  parseInt(process.env.BACKEND_REQUEST_TIMEOUT_MS || "90000", 10)
+);
+
+function hasAcceptedVideoExtension(name: string) {
+  const lower = name.toLowerCase();
+  return ACCEPTED_VIDEO_EXT.some((ext) => lower.endsWith(ext));
+}
+
+function hasAcceptedImageExtension(name: string) {
+  const lower = name.toLowerCase();
+  return ACCEPTED_IMAGE_EXT.some((ext) => lower.endsWith(ext));
+}
+
+function hasAcceptedAudioExtension(name: string) {
+  const lower = name.toLowerCase();
+  return ACCEPTED_AUDIO_EXT.some((ext) => lower.endsWith(ext));
+}
+
+function inferFileType(fileName: string, mimeType?: string): "image" | "video" | "audio" | null {
+  const mime = (mimeType || "").toLowerCase();
+  const name = (fileName || "").toLowerCase();
+
+  if (mime.startsWith("video/") || hasAcceptedVideoExtension(name)) return "video";
+  if (mime.startsWith("image/") || hasAcceptedImageExtension(name)) return "image";
+  if (mime.startsWith("audio/") || hasAcceptedAudioExtension(name)) return "audio";
+  return null;
+}
+
+export interface ScanRequestOptions {
+  /** Set when the scan came in through the public API, to attribute it to the key. */
+  apiKey?: ApiKeyAttribution;
+  /** Where the caller polls for the verdict; the public API has its own results route. */
+  resultsPath?: string;
+}
+
+/**
+ * Handles a scan submission (multipart upload, base64, remote URL or resumable upload)
+ * for an authenticated user: validates the media, charges a credit, and either reuses a
+ * cached verdict, queues the scan or analyses it inline.
+ */
+export async function createScan(req: NextRequest, userId: string, options: ScanRequestOptions = {}) {
+  const resultsPath = options.resultsPath || "/api/results";
+  let chargedUserId: string | null = null;
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    let uploadedFile: File | null = null;
+    let fileName = "media-upload";
+    let requestedFileType: "image" | "video" | "audio" | null = null;
+    let urlInput: string | null = null;
+    let declaredMimeType: string | undefined;
+    let upload: Awaited<ReturnType<typeof getCompletedUpload>> | null = null;
+    let mode = req.nextUrl.searchParams.get("mode");
+    let samplingInput = req.nextUrl.searchParams.get("sampling");
+
+    if (contentType.includes("multipart/form-data")) {
+      const incoming = await req.formData();
+      const maybeMode = incoming.get("mode");
+      if (typeof maybeMode === "string") mode = maybeMode;
+      const maybeSampling = incoming.get("sampling");
+      if (typeof maybeSampling === "string" && maybeSampling) samplingInput = maybeSampling;
+      const maybeFile = incoming.get("file");
+      if (maybeFile instanceof File) {
+        uploadedFile = maybeFile;
+        fileName = maybeFile.name || fileName;
+        declaredMimeType = maybeFile.type || undefined;
+        requestedFileType = inferFileType(fileName, maybeFile.type);
+      }
+    } else {
+      const body = await req.json() as { base64?: string; fileName?: string; fileType?: string; url?: string; file_url?: string; uploadId?: string; mode?: string; sampling?: string };
+      mode = body.mode || mode;
+      samplingInput = body.sampling || samplingInput;
+
+      if (body.fileType && ["image", "video", "audio"].includes(body.fileType)) {
+        requestedFileType = body.fileType as "image" | "video" | "audio";
+      }
+
+      if (body.uploadId) {
+        // Resumable uploads are scanned by reference from disk, always through the queue.
+        upload = await getCompletedUpload(userId, body.uploadId);
+        fileName = upload.fileName;
+        requestedFileType = requestedFileType || inferFileType(fileName);
+        mode = "async";
+      } else if (body.url || body.file_url) {
+        urlInput = (body.url || body.file_url) as string;
+        const remote = await fetchRemoteMedia(urlInput);
+        fileName = body.fileName || remote.fileName;
+        uploadedFile = new File([new Uint8Array(remote.buffer)], fileName, { type: remote.contentType });
+        requestedFileType = requestedFileType || remote.sniffed?.fileType || inferFileType(fileName, remote.contentType);
+      } else {
+        if (!body.base64) {
+          return NextResponse.json({ error: "Missing media payload" }, { status: 400 });
+        }
+
+        fileName = body.fileName || fileName;
+        declaredMimeType = body.base64.match(/^data:([^;,]+)[;,]/)?.[1];
+        requestedFileType = requestedFileType || inferFileType(fileName);
+        const mimeType = requestedFileType === "video"
+          ? "video/mp4"
+          : requestedFileType === "audio"
+          ? "audio/mpeg"
+          : "image/png";
+        const buffer = Buffer.from(body.base64.replace(/^data:.+;base64,/, ""), "base64");
+        uploadedFile = new File([buffer], fileName, { type: mimeType });
+      }
+    }
+
+    const fileType = requestedFileType || inferFileType(fileName, uploadedFile?.type);
+
+    if (!fileType) {
+      return NextResponse.json(
+        { error: "Unsupported format. Use: images (.jpg, .png), audio (.mp3, .wav), or video (.mp4, .avi, .mov, .mkv)." },
+        { status: 400 }
+      );
+    }
+
+    if (fileType === "video" && !hasAcceptedVideoExtension(fileName)) {
+      return NextResponse.json(
+        { error: "Unsupported format. Use: .mp4, .avi, .mov, .mkv" },
+        { status: 400 }
+      );
+    }
+
+    if (fileType === "image" && !hasAcceptedImageExtension(fileName)) {
+      return NextResponse.json(
+        { error: "Unsupported image format. Use: .jpg, .jpeg, .png, .gif, .webp, .bmp" },
+        { status: 400 }
+      );
+    }
+
+    if (fileType === "audio" && !hasAcceptedAudioExtension(fileName)) {
+      return NextResponse.json(
+        { error: "Unsupported audio format. Use: .mp3, .wav, .ogg, .m4a, .aac, .flac" },
+        { status: 400 }
+      );
+    }
+
+    const videoSampling = samplingInput ? parseVideoSampling(samplingInput) : undefined;
+    if (videoSampling === null) {
+      return NextResponse.json(
+        { error: "Invalid sampling. Use fixed:<frames>, fps:<frames per second>, scene, scene:<threshold> or keyframe." },
+        { status: 400 }
+      );
+    }
+
+    if (uploadedFile && fileType === "video" && uploadedFile.size > MAX_VIDEO_BYTES) {
+      return NextResponse.json(
+        { error: "Video exceeds 50 MB limit" },
+        { status: 413 }
+      );
+    }
+
+    if (!uploadedFile && !upload) {
+      return NextResponse.json({ error: "Missing media payload" }, { status: 400 });
+    }
+
+    // Validate the actual bytes before charging, so mislabelled or polyglot files never cost a credit.
+    const media: MediaInput = upload ? { filePath: upload.filePath } : Buffer.from(await (uploadedFile as File).arrayBuffer());
+    const mediaBuffer = Buffer.isBuffer(media) ? media : null;
+    const inspection = upload
+      ? await inspectMediaFile(upload.filePath, { fileName, fileType })
+      : inspectMedia(mediaBuffer as Buffer, { fileName, fileType, mimeType: declaredMimeType });
+    const mediaInfo = {
+      mime: inspection.mime,
+      container: inspection.container,
+      codec: inspection.codec,
+      audioCodec: inspection.audioCodec,
+      declaredMime: declaredMimeType,
+    };
+
+    // Re-uploads of an already scanned file reuse its verdict instead of calling the detectors again.
+    let cacheFields = {};
+    let cached: Awaited<ReturnType<typeof findCachedScan>> = null;
+    let chargeCacheHits = false;
+    try {
+      const fingerprint = await fingerprintMedia(media, fileType);
+      const cacheSettings = await getTenantCacheSettings(userId);
+      cacheFields = buildCacheFields(fingerprint, fileType, cacheSettings);
+      chargeCacheHits = cacheSettings.chargeCacheHits;
+      cached = await findCachedScan(userId, fileType, fingerprint, cacheSettings);
+    } catch (cacheError) {
+      console.warn("Scan cache lookup failed; scanning without it:", cacheError);
+    }
+
+    if (!cached || chargeCacheHits) {
+      const chargeResult = await consumeUserCredit(userId);
+      if (!chargeResult.ok) {
+        if (chargeResult.reason === "USER_NOT_FOUND") {
+          return NextResponse.json(
+            { error: "User profile not found. Please refresh and try again." },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json(
+          { error: "Insufficient credits. Please top up to continue scanning." },
+          { status: 402 }
+        );
+      }
+      chargedUserId = userId;
+    }
+
+    // The scan record only references the original and its preview in object storage.
+    const storedMedia = await storeScanMedia(media, fileName, inspection);
+
+    if (cached) {
+      const original = cached.original;
+      const scanId = `gotham-${fileType === "image" ? "img" : fileType === "video" ? "vid" : "aud"}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      // A perceptual match can carry different (or no) Content Credentials, metadata or edits, so these are always read from this upload.
+      const [forensics, previews] = await Promise.all([
+        analyzeForensics(media, fileType),
+        // Detection is skipped, and with it normalisation, so video and audio previews are derived from the upload here.
+        fileType === "image" ? {} : storeDerivedPreviews(media, fileType),
+      ]);
+      if (upload) {
+        if (!(await consumeUpload(upload.uploadId, scanId))) {
+          throw new UploadSessionError("Upload has already been scanned", 409);
+        }
+        // The cached verdict is reused, so the assembled file is not needed any more.
+        await rm(upload.filePath, { force: true }).catch(() => {});
+      }
+      await connectToDatabase();
+      await VerificationResult.create({
+        userId,
+        apiKey: options.apiKey,
+        scanId,
+        fileName,
+        fileType,
+        ...cachedResultFields(original),
+        cacheMatch: cached.match,
+        requestPath: req.nextUrl.pathname,
+        method: "POST",
+        processingMode: "sync",
+        mediaInfo,
+        ...forensics,
+        ...cacheFields,
+        url: urlInput || undefined,
+        media: { ...storedMedia, ...previews },
+        createdAt: new Date(),
+      });
+
+      return NextResponse.json(
+        {
+          scanId,
+          status: original.status,
+          fileName,
+          fileType,
+          confidenceScore: original.confidenceScore,
+          cached: true,
+          cacheMatch: cached.match,
+          originalScanId: original.scanId,
+          charged: Boolean(chargedUserId),
+          provenance: forensics.provenance,
+          metadataFlags: forensics.metadataAnalysis?.flags,
+          statusUrl: `${resultsPath}/${scanId}`,
+        },
+        { status: 200 }
+      );
+    }
+
+    if (mode === "async") {
+      const scanId = `gotham-${fileType === "image" ? "img" : fileType === "video" ? "vid" : "aud"}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      if (upload && !(await consumeUpload(upload.uploadId, scanId))) {
+        throw new UploadSessionError("Upload has already been scanned", 409);
+      }
+      const filePath = upload ? upload.filePath : await spoolScanUpload(scanId, fileName, mediaBuffer as Buffer);
+
+      await connectToDatabase();
+      await VerificationResult.create({
+        userId,
+        apiKey: options.apiKey,
+        scanId,
+        fileName,
+        fileType,
+        status: "PROCESSING",
+        confidenceScore: 0,
+        modelsUsed: [],
+        requestPath: req.nextUrl.pathname,
+        method: "POST",
+        processingMode: "async",
+        mediaInfo,
+        ...cacheFields,
+        url: urlInput || undefined,
+        media: storedMedia,
+        createdAt: new Date(),
+      });
+
+      try {
+        await enqueueScanJob({
+          scanId,
+          userId,
+          fileName,
+          fileType,
+          filePath,
+          sourceUrl: urlInput || undefined,
+          videoSampling: fileType === "video" ? videoSampling : undefined,
+          enqueuedAt: new Date().toISOString(),
+        });
+      } catch (queueError) {
+        await VerificationResult.deleteOne({ scanId }).catch(() => {});
+        if (upload) {
+          await releaseUpload(upload.uploadId).catch(() => {});
+        } else {
+          await rm(filePath, { force: true }).catch(() => {});
+        }
+        throw queueError;
+      }
+
+      return NextResponse.json(
+        {
+          scanId,
+          status: "PROCESSING",
+          fileName,
+          fileType,
+          statusUrl: `${resultsPath}/${scanId}`,
+        },
+        { status: 202 }
+      );
+    }
+
+    const analysis = await analyzeMedia(media, fileName, fileType, { videoSampling });
+
+    if (fileType === "image") {
+      const rdOutcome = analysis.rdAnalysis;
+
+      const scanId = `rd-img-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      await setJobMeta(scanId, {
+        userId,
+        fileName,
+        fileType,
+        source: "rd-only",
+        createdAt: new Date().toISOString(),
+      });
+
+      if (rdOutcome) await setJobRdAnalysis(scanId, rdOutcome);
+
+      const rdUsed = !!rdOutcome && rdOutcome.status !== "DISABLED" && rdOutcome.status !== "ERROR";
+      
+      // Save to MongoDB for dashboard
+      try {
+        await connectToDatabase();
+        await VerificationResult.create({
+          userId,
+          apiKey: options.apiKey,
+          scanId,
+          fileName,
+          fileType,
+          status: analysis.status,
+          confidenceScore: analysis.confidenceScore,
+          modelsUsed: analysis.modelsUsed,
+          requestPath: req.nextUrl.pathname,
+          method: "POST",
+          processingMode: "sync",
+          mediaInfo,
+          ...cacheFields,
+          url: urlInput || undefined,
+          rdAnalysis: rdOutcome,
+          faceAnalysis: analysis.faceAnalysis,
+          provenance: analysis.provenance,
+          forensicMaps: analysis.forensicMaps,
+          metadataAnalysis: analysis.metadataAnalysis,
+          features: analysis.features,
+          verdict: analysis.verdict,
+          failureReason: analysis.error,
+          media: storedMedia,
+          createdAt: new Date(),
+        });
+      } catch (dbError) {
+        console.warn("Failed to save image scan to MongoDB:", dbError);
+      }
+
+      return NextResponse.json(
+        {
+          scanId,
+          status: analysis.status,
+          fileName,
+          fileType,
+          confidenceScore: analysis.confidenceScore,
+          faces: analysis.faceAnalysis ? {
+            detector: analysis.faceAnalysis.detector,
+            count: analysis.faceAnalysis.faceCount,
+            score: analysis.faceAnalysis.score,
+          } : undefined,
+          dualModel: {
+            fakecatcher: false,
+            realityDefender: rdUsed,
+          },
+          rd: rdOutcome && rdOutcome.status !== "ERROR" ? {
+            requestId: rdOutcome.requestId,
+            status: rdOutcome.status,
+            score: rdOutcome.score,
+            models: rdOutcome.models,
+          } : null,
+          provenance: analysis.provenance,
+          metadataFlags: analysis.metadataAnalysis?.flags,
+        },
+        { status: analysis.status === "ERROR" ? 500 : 200 }
+      );
+    }
+
+    if (analysis.status === "ERROR") {
+      if (chargedUserId) {
+        await refundUserCredit(userId);
+        chargedUserId = null;
+      }
+      return NextResponse.json({ error: analysis.error || "Analysis failed" }, { status: 502 });
+    }
+
+    if (fileType === "video") {
+      const scanId = `gotham-vid-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+      try {
+        await connectToDatabase();
+        await VerificationResult.create({
+          userId,
+          apiKey: options.apiKey,
+          scanId,
+          fileName,
+          fileType,
+          status: analysis.status,
+          confidenceScore: analysis.confidenceScore,
+          modelsUsed: analysis.modelsUsed,
+          requestPath: req.nextUrl.pathname,
+          method: "POST",
+          processingMode: "sync",
+          mediaInfo,
+          ...cacheFields,
+          videoAnalysis: analysis.videoAnalysis,
+          rdAnalysis: analysis.rdAnalysis,
+          fcAnalysis: analysis.fcAnalysis,
+          mediaProbe: analysis.mediaProbe,
+          provenance: analysis.provenance,
+          forensicMaps: analysis.forensicMaps,
+          verdict: analysis.verdict,
+          url: urlInput || undefined,
+          media: { ...storedMedia, ...analysis.previews },
+          createdAt: new Date(),
+        });
+      } catch (dbError) {
+        console.warn("Failed to save video scan to MongoDB:", dbError);
+      }
+
+      await setJobMeta(scanId, {
+        userId,
+        fileName,
+        fileType,
+        source: "fakecatcher",
+        createdAt: new Date().toISOString(),
+      });
+
+      return NextResponse.json(
+        {
+          scanId,
+          status: analysis.status,
+          fileName,
+          fileType,
+          confidenceScore: analysis.confidenceScore,
+          sampling: analysis.videoAnalysis ? {
+            strategy: analysis.videoAnalysis.strategy,
+            value: analysis.videoAnalysis.strategyValue,
+            frameCount: analysis.videoAnalysis.frameCount,
+            framesWithFaces: analysis.videoAnalysis.framesWithFaces,
+          } : undefined,
+          ...(analysis.status === "NO_FACE" ? { message: "No face was detected in the sampled frames, so no verdict was produced." } : {}),
+          ...(analysis.status === "PROCESSING" ? { message: "FakeCatcher is still analysing this video.", statusUrl: `${resultsPath}/${scanId}` } : {}),
+          dualModel: {
+            fakecatcher: !!analysis.fcAnalysis && analysis.fcAnalysis.status !== "ERROR",
+            realityDefender: !!analysis.rdAnalysis && analysis.rdAnalysis.status !== "ERROR",
+          },
+          provenance: analysis.provenance,
+        },
+        { status: 200 }
+      );
+    }
+
+    if (fileType === "audio") {
+      const scanId = `gotham-aud-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+      try {
+        await connectToDatabase();
+        await VerificationResult.create({
+          userId,
+          apiKey: options.apiKey,
+          scanId,
+          fileName,
+          fileType: "audio",
+          status: analysis.status,
+          confidenceScore: analysis.confidenceScore,
+          modelsUsed: analysis.modelsUsed,
+          requestPath: req.nextUrl.pathname,
+          method: "POST",
+          processingMode: "sync",
+          mediaInfo,
+          ...cacheFields,
+          url: urlInput || undefined,
+          audioAnalysis: analysis.audioAnalysis,
+          mediaProbe: analysis.mediaProbe,
+          provenance: analysis.provenance,
+          verdict: analysis.verdict,
+          media: { ...storedMedia, ...analysis.previews },
+          createdAt: new Date(),
+        });
+      } catch (dbError) {
+        console.warn("Failed to save audio scan to MongoDB:", dbError);
+      }
+
+      return NextResponse.json(
+        {
+          scanId,
+          status: analysis.status,
+          fileName,
+          fileType,
+          confidenceScore: analysis.confidenceScore,
+          audio: {
+            detector: analysis.audioAnalysis?.detector,
+            duration: analysis.audioAnalysis?.duration,
+            segments: analysis.audioAnalysis?.segments,
+          },
+          provenance: analysis.provenance,
+        },
+        { status: 200 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Unsupported file type for direct scan. Please upload image, video or audio." },
+      { status: 400 }
+    );
+  } catch (error) {
+    if (chargedUserId) {
+      try {
+        await refundUserCredit(chargedUserId);
+      } catch (refundError) {
+        console.error("Failed to refund user credit after scan error:", refundError);
+      }
+    }
+    if (error instanceof RemoteMediaError || error instanceof MediaInspectionError || error instanceof UploadSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error proxying scans POST request:", error);
+    const err = error as { message?: string; cause?: { code?: string } };
+    const timeoutLike =
+      err.cause?.code === "UND_ERR_HEADERS_TIMEOUT" ||
+      err.cause?.code === "UND_ERR_CONNECT_TIMEOUT" ||
+      err.cause?.code === "ABORT_ERR";
+    return NextResponse.json(
+      {
+        error: timeoutLike
+          ? `Backend request timed out after ${Math.round(BACKEND_REQUEST_TIMEOUT_MS / 1000)}s`
+          : `Failed to reach backend: ${err.message || "network error"}`,
+      },
+      { status: timeoutLike ? 504 : 502 }
+    );
+  }
+}
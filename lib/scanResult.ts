@@ -0,0 +1,489 @@
+import { NextResponse } from "next/server";
+import { getJobMeta, getJobRdAnalysis, getJobFakeCatcherAnalysis } from "./fakecatcherStore";
+import { getResultFeedbackSummary, getUserResultFeedback } from "./resultFeedback";
+import { connectToDatabase } from "./db";
+import { VerificationResult, type IVerificationResult } from "./models/VerificationResult";
+import { getScanJobState, type ScanJobState } from "./scanQueue";
+import { forensicMapViews } from "./imageForensics";
+import { buildAnomalyTimeline } from "./anomalyTimeline";
+import type { VideoAnalysisRecord } from "./scanPipeline";
+import { scanOriginalUrls, scanPreviewUrl } from "./scanMedia";
+import {
+  clamp01,
+  collectDetectorOutputs,
+  computeVerdict,
+  fakecatcherOutput,
+  mapRdModelStatus,
+  mapScoreToStatus,
+  rdOutput,
+  type DetectorOutput,
+  type VerdictRecord,
+} from "./verdictEngine";
+
+const BACKEND_API_URL = (
+  process.env.BACKEND_API_URL ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  "https://facedetectionsystem.onrender.com"
+).replace(/\/$/, "");
+const BACKEND_REQUEST_TIMEOUT_MS = Math.max(
+  5000,
+  parseInt(process.env.BACKEND_REQUEST_TIMEOUT_MS || "90000", 10)
+);
+
+function buildBackendUrl(path: string) {
+  return `${BACKEND_API_URL}${path}`;
+}
+
+type FakeCatcherJobResult = {
+  label?: "REAL" | "FAKE" | "UNCERTAIN" | string;
+  confidence?: number;
+  fake_prob?: number;
+  total_frames?: number;
+  face_pct?: number;
+  n_segments?: number;
+};
+
+type FakeCatcherJobResponse = {
+  job_id: string;
+  status: "queued" | "processing" | "done" | "error";
+  filename?: string;
+  age_sec?: number;
+  result?: FakeCatcherJobResult;
+  error?: string | null;
+};
+
+function mapJobToStatus(label?: string) {
+  if (label === "REAL") return "AUTHENTIC";
+  if (label === "FAKE") return "DEEPFAKE";
+  return "SUSPICIOUS";
+}
+
+/** Detector outputs for a FakeCatcher backend job plus any cached RD analysis of the same upload. */
+function fakecatcherJobOutputs(result: FakeCatcherJobResult | undefined, rd: Awaited<ReturnType<typeof getJobRdAnalysis>>): DetectorOutput[] {
+  const outputs: DetectorOutput[] = [];
+  const fc = fakecatcherOutput(result);
+  if (fc) outputs.push(fc);
+  const rdResult = rdOutput(rd);
+  if (rdResult) outputs.push(rdResult);
+  return outputs;
+}
+
+function mapBackendFetchError(error: unknown) {
+  const err = error as { message?: string; cause?: { code?: string } };
+  const causeCode = err.cause?.code;
+  const timeoutLike =
+    causeCode === "UND_ERR_HEADERS_TIMEOUT" ||
+    causeCode === "UND_ERR_CONNECT_TIMEOUT" ||
+    causeCode === "ABORT_ERR";
+
+  return {
+    timeoutLike,
+    message: timeoutLike
+      ? `Backend request timed out after ${Math.round(BACKEND_REQUEST_TIMEOUT_MS / 1000)}s`
+      : `Failed to reach backend: ${err.message || "network error"}`,
+    status: timeoutLike ? 504 : 502,
+  };
+}
+
+async function buildRdOnlyPayload(id: string, fileName: string, fileType: "image" | "video" | "audio", createdAt: string, mongoDoc?: IVerificationResult | null) {
+  const [jobRd, jobFc, jobMeta, originals] = await Promise.all([
+    getJobRdAnalysis(id),
+    getJobFakeCatcherAnalysis(id),
+    getJobMeta(id),
+    mongoDoc ? scanOriginalUrls(mongoDoc) : null,
+  ]);
+  const rd = jobRd || (mongoDoc?.rdAnalysis ? {
+    requestId: mongoDoc.rdAnalysis.requestId,
+    status: mongoDoc.rdAnalysis.status,
+    score: mongoDoc.rdAnalysis.score,
+    models: mongoDoc.rdAnalysis.models,
+    analyzedAt: mongoDoc.rdAnalysis.analyzedAt,
+    error: mongoDoc.rdAnalysis.error,
+  } : undefined);
+  const fc = jobFc || (mongoDoc?.fcAnalysis ? {
+    label: mongoDoc.fcAnalysis.label,
+    confidence: mongoDoc.fcAnalysis.confidence,
+    fake_prob: mongoDoc.fcAnalysis.fake_prob,
+    total_frames: mongoDoc.fcAnalysis.total_frames,
+    face_pct: mongoDoc.fcAnalysis.face_pct,
+    analyzedAt: mongoDoc.fcAnalysis.analyzedAt,
+  } : undefined);
+  const audio = mongoDoc?.audioAnalysis?.status ? mongoDoc.audioAnalysis : undefined;
+  const video = mongoDoc?.videoAnalysis?.frames?.length ? mongoDoc.videoAnalysis : undefined;
+  const faces = mongoDoc?.faceAnalysis?.detector ? mongoDoc.faceAnalysis : undefined;
+  const probe = mongoDoc?.mediaProbe?.probedAt ? mongoDoc.mediaProbe : undefined;
+  const c2pa = mongoDoc?.provenance?.verifiedAt ? mongoDoc.provenance : undefined;
+  const provenance = c2pa ? {
+    state: c2pa.state,
+    manifestLabel: c2pa.manifestLabel,
+    claimGenerator: c2pa.claimGenerator,
+    title: c2pa.title,
+    signer: c2pa.signer,
+    signatureAlgorithm: c2pa.signatureAlgorithm,
+    actions: c2pa.actions,
+    ingredientCount: c2pa.ingredientCount,
+    checks: c2pa.checks,
+    verifiedAt: c2pa.verifiedAt,
+  } : null;
+  const exif = mongoDoc?.metadataAnalysis?.analyzedAt ? mongoDoc.metadataAnalysis : undefined;
+  const metadata = exif ? {
+    flags: exif.flags,
+    findings: exif.findings,
+    camera: exif.camera,
+    software: exif.software,
+    editingSoftware: exif.editingSoftware,
+    aiGenerator: exif.aiGenerator,
+    timestamps: exif.timestamps,
+    thumbnail: exif.thumbnail,
+    analyzedAt: exif.analyzedAt,
+  } : null;
+  const maps = forensicMapViews(id, mongoDoc?.forensicMaps?.generatedAt ? mongoDoc.forensicMaps : undefined);
+  // Frame statuses are stored as plain strings; they are the pipeline's DONE, NO_FACE and ERROR.
+  const timeline = buildAnomalyTimeline(id, video as VideoAnalysisRecord | undefined);
+
+  // The verdict stored with the scan is what lists and exports show; only scans without one are scored here.
+  const verdict = mongoDoc?.verdict?.status
+    ? (mongoDoc.verdict as VerdictRecord)
+    : computeVerdict(fileType, collectDetectorOutputs({ rdAnalysis: rd, fcAnalysis: fc, videoAnalysis: video, audioAnalysis: audio, faceAnalysis: faces }));
+  const used = new Set((verdict?.contributions || []).filter((c) => c.effectiveWeight > 0).map((c) => c.model));
+  const weights = Object.fromEntries((verdict?.contributions || []).map((c) => [c.model, Math.round(c.effectiveWeight * 1000) / 1000]));
+  const thresholds = verdict?.thresholds;
+  // Nothing scored (e.g. the only detector errored): fall back to what was persisted at scan time.
+  const combinedScore = verdict?.score ?? 0.5;
+  const combinedStatus = mongoDoc?.status ?? verdict?.status ?? "SUSPICIOUS";
+  const noFace = combinedStatus === "NO_FACE";
+
+  const allModels = [
+    ...(fc ? [{ name: "fakecatcher-rppg", status: fc.label || "UNKNOWN", score: clamp01(fc.confidence ? fc.confidence / 100 : 0) }] : []),
+    ...(rd?.models || []).map((m) => ({
+      name: m.name || "rd-model",
+      status: mapRdModelStatus(m.status),
+      score: clamp01(m.score),
+    })),
+    ...(audio ? [{ name: audio.detector || "audio-detector", status: mapScoreToStatus(clamp01(audio.score), thresholds), score: clamp01(audio.score) }] : []),
+    ...(video && typeof video.score === "number" ? [{ name: video.detector || "gotham-video", status: mapScoreToStatus(clamp01(video.score), thresholds), score: clamp01(video.score) }] : []),
+  ];
+
+  const description = JSON.stringify({
+    rd: {
+      source: used.size > 1 ? "fusion" : used.has("realityDefender") ? "reality-defender" : used.has("audio") ? "audio" : used.has("gotham") ? "gotham" : "fakecatcher",
+      jobStatus: "done",
+      models: allModels,
+      fakecatcher: fc ? {
+        label: fc.label,
+        confidence: fc.confidence,
+        fake_prob: fc.fake_prob,
+        total_frames: fc.total_frames,
+        face_pct: fc.face_pct,
+      } : null,
+      realityDefender: rd ? {
+        status: rd.status,
+        score: rd.score,
+        models: rd.models,
+      } : null,
+      audio: audio ? {
+        detector: audio.detector,
+        score: audio.score,
+        maxScore: audio.maxScore,
+        duration: audio.duration,
+        segments: audio.segments,
+      } : null,
+      video: video ? {
+        detector: video.detector,
+        strategy: video.strategy,
+        strategyValue: video.strategyValue,
+        duration: video.duration,
+        frameCount: video.frameCount,
+        failedFrames: video.failedFrames,
+        faceDetector: video.faceDetector,
+        framesWithFaces: video.framesWithFaces,
+        score: video.score,
+        maxScore: video.maxScore,
+        frames: video.frames.map((f) => ({
+          index: f.index,
+          timestamp: f.timestamp,
+          status: f.status,
+          label: f.label,
+          score: f.score,
+          confidence: f.confidence,
+          faces: f.faces,
+        })),
+      } : null,
+      faces: faces ? {
+        detector: faces.detector,
+        count: faces.faceCount,
+        score: faces.score,
+        faces: faces.faces,
+      } : null,
+      provenance,
+      metadata,
+      fusion: {
+        score: combinedScore,
+        status: combinedStatus,
+        weights,
+        thresholds,
+        contributions: verdict?.contributions || [],
+        explanation: verdict?.explanation || [],
+      },
+    },
+  });
+
+  return {
+    fileName,
+    scanId: id,
+    fileType,
+    status: combinedStatus,
+    confidenceScore: mongoDoc?.confidenceScore ?? verdict?.confidenceScore ?? 0,
+    createdAt,
+    // Images and videos are shown from the stored original; older image scans carry it inline.
+    imageUrl: (fileType !== "audio" && originals?.mediaUrl) || jobMeta?.imageData || mongoDoc?.imageUrl || "",
+    ...(originals ? { downloadUrl: originals.downloadUrl } : {}),
+    modelsUsed: allModels.map((m) => m.name),
+    description,
+    ...(mongoDoc?.cachedFrom ? { cachedFrom: mongoDoc.cachedFrom, cacheMatch: mongoDoc.cacheMatch } : {}),
+    ...(provenance ? { provenance } : {}),
+    ...(metadata ? { metadata } : {}),
+    ...(maps.length ? { forensicMaps: maps } : {}),
+    ...(timeline ? { timeline } : {}),
+    ...(probe ? {
+      media: {
+        format: probe.format,
+        duration: probe.duration,
+        bitrate: probe.bitrate,
+        videoCodec: probe.videoCodec,
+        width: probe.width,
+        height: probe.height,
+        fps: probe.fps,
+        rotation: probe.rotation,
+        audioTracks: probe.audioTracks,
+        normalization: probe.normalization,
+        normalizationReasons: probe.normalizationReasons,
+      },
+    } : {}),
+    features: [
+      mongoDoc?.cachedFrom ? `cache_hit:${mongoDoc.cacheMatch || "exact"}` : "",
+      used.has("fakecatcher") ? "source:fakecatcher" : "",
+      used.has("realityDefender") ? "source:reality-defender" : "",
+      used.has("audio") ? `source:${audio?.detector}` : "",
+      used.has("gotham") ? `source:${video?.detector || faces?.detector}` : "",
+      video ? `sampling:${video.strategy}${video.strategyValue ? `:${video.strategyValue}` : ""}` : "",
+      video ? `frames_scored:${video.frames.filter((f) => f.status === "DONE").length}` : "",
+      video?.faceDetector ? `frames_with_faces:${video.framesWithFaces}` : "",
+      faces ? `faces:${faces.faceCount}` : "",
+      probe?.normalization ? `normalized:${probe.normalization}` : "",
+      provenance ? `c2pa:${provenance.state}` : "",
+      ...(mongoDoc?.features || []),
+      maps.length ? `forensic_maps:${maps.length}` : "",
+      timeline?.segments.length ? `anomaly_segments:${timeline.segments.length}` : "",
+      noFace || faces?.faceCount === 0 ? "no_face_detected" : "",
+      `fusion_score:${combinedScore.toFixed(4)}`,
+      `fc_weight:${weights.fakecatcher ?? 0}`,
+      `rd_weight:${weights.realityDefender ?? 0}`,
+    ].filter(Boolean),
+  };
+}
+
+/**
+ * Builds the result payload for one of the user's scans: the persisted verdict, the
+ * queue state of async scans, or the live FakeCatcher job for backend-only video scans.
+ */
+export async function getScanResult(id: string, userId: string) {
+  try {
+    const meta = await getJobMeta(id);
+    if (meta && meta.userId !== userId) {
+      return NextResponse.json({ error: "Result not found" }, { status: 404 });
+    }
+
+    // First, check MongoDB — it's the durable source of truth for every scan
+    // (image, video, audio). The job store (`meta`) expires after its TTL,
+    // so we must not rely on it (or on ID-prefix guessing) to decide whether a
+    // result exists.
+    let mongoDoc: IVerificationResult | null = null;
+    try {
+      await connectToDatabase();
+      mongoDoc = await VerificationResult.findOne({ scanId: id, userId });
+    } catch (dbError) {
+      console.warn("Failed to fetch from MongoDB:", dbError);
+    }
+
+    // Async scans are tracked in the BullMQ scanQueue until the worker writes the verdict back.
+    let queue: ScanJobState | null = null;
+    if (mongoDoc?.processingMode === "async") {
+      try {
+        queue = await getScanJobState(id);
+      } catch (queueError) {
+        console.warn("Failed to read scan queue state:", queueError);
+      }
+    }
+
+    if (mongoDoc && (mongoDoc.status === "PROCESSING" || mongoDoc.status === "ERROR")) {
+      return NextResponse.json(
+        {
+          fileName: mongoDoc.fileName,
+          scanId: id,
+          fileType: mongoDoc.fileType,
+          status: mongoDoc.status,
+          confidenceScore: 0,
+          createdAt: mongoDoc.createdAt?.toISOString() || new Date().toISOString(),
+          imageUrl: await scanPreviewUrl(mongoDoc),
+          modelsUsed: mongoDoc.modelsUsed || [],
+          description: "",
+          features: [],
+          failureReason: mongoDoc.failureReason || queue?.failedReason || null,
+          queue,
+        },
+        { status: 200 }
+      );
+    }
+
+    // Check if this is a cached scan (either RD-only or FakeCatcher image),
+    // OR if we found a persisted MongoDB record for it (covers the case where
+    // the job store entry expired but the scan completed and was saved).
+    const isCachedScan =
+      meta?.source === "rd-only" ||
+      meta?.source === "fakecatcher" ||
+      id.startsWith("rd-") ||
+      id.startsWith("fc-img-") ||
+      Boolean(mongoDoc);
+
+    if (isCachedScan) {
+      const responsePayload = await buildRdOnlyPayload(
+        id,
+        meta?.fileName || mongoDoc?.fileName || `media-${id}`,
+        meta?.fileType || mongoDoc?.fileType || "image",
+        meta?.createdAt || mongoDoc?.createdAt?.toISOString() || new Date().toISOString(),
+        mongoDoc
+      );
+      const [feedbackSummary, userFeedback] = await Promise.all([getResultFeedbackSummary(id), getUserResultFeedback(id, userId)]);
+
+      return NextResponse.json(
+        {
+          ...responsePayload,
+          feedbackSummary,
+          userFeedback,
+          ...(queue ? { queue } : {}),
+        },
+        { status: 200 }
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(buildBackendUrl(`/v1/video/jobs/${id}`), {
+        method: "GET",
+        cache: "no-store",
+        signal: AbortSignal.timeout(BACKEND_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const mapped = mapBackendFetchError(error);
+      // If backend is unreachable and we don't have cached data, return error
+      if (!meta) {
+        return NextResponse.json({ error: mapped.message }, { status: mapped.status });
+      }
+      // If we have cached metadata, return error
+      return NextResponse.json({ error: "Failed to fetch result" }, { status: 500 });
+    }
+
+    if (!response.ok) {
+      // If result not found on backend and not in cache, return 404
+      if (response.status === 404 && !meta) {
+        return NextResponse.json({ error: "Result not found" }, { status: 404 });
+      }
+      
+      const payload = await response.text();
+      return new NextResponse(payload, {
+        status: response.status,
+        headers: { "Content-Type": response.headers.get("content-type") || "application/json" },
+      });
+    }
+
+    const job = (await response.json()) as FakeCatcherJobResponse;
+
+    const label = job.result?.label;
+    const fakeProb = typeof job.result?.fake_prob === "number" ? job.result.fake_prob : 0;
+    const modelScore = label === "REAL" ? 1 - fakeProb : label === "FAKE" ? fakeProb : 0.5;
+    const modelStatus = label === "REAL" ? "AUTHENTIC" : label === "FAKE" ? "MANIPULATED" : "SUSPICIOUS";
+    const rd = await getJobRdAnalysis(id);
+    const outputs = fakecatcherJobOutputs(job.result, rd);
+    // Backend-only jobs have no stored record to read a verdict from.
+    const verdict = computeVerdict(meta?.fileType || "video", outputs);
+    const rdUsable = Boolean(verdict?.contributions.some((c) => c.model === "realityDefender" && c.effectiveWeight > 0));
+    // Queued or processing jobs have no label yet; the verdict stays undecided until they finish.
+    const combinedScore = verdict?.score ?? 0.5;
+    const combinedStatus = verdict?.status ?? mapJobToStatus(label);
+
+    const allModels = [
+      {
+        name: "fakecatcher-rppg",
+        status: modelStatus,
+        score: clamp01(modelScore),
+      },
+      ...((rd?.models || []).map((m) => ({
+        name: m.name || "rd-model",
+        status: mapRdModelStatus(m.status),
+        score: clamp01(m.score),
+      }))),
+    ];
+
+    const description = JSON.stringify({
+      rd: {
+        source: rd ? "fakecatcher+reality-defender" : "fakecatcher",
+        jobStatus: job.status,
+        models: allModels,
+        fakecatcher: {
+          label: label || "UNCERTAIN",
+          fake_prob: clamp01(fakeProb),
+          confidence:
+            typeof job.result?.confidence === "number"
+              ? job.result.confidence
+              : Math.round(clamp01(modelScore) * 1000) / 10,
+        },
+        realityDefender: rd || null,
+        fusion: {
+          score: combinedScore,
+          status: combinedStatus,
+          weights: Object.fromEntries((verdict?.contributions || []).map((c) => [c.model, Math.round(c.effectiveWeight * 1000) / 1000])),
+          thresholds: verdict?.thresholds,
+          contributions: verdict?.contributions || [],
+          explanation: verdict?.explanation || [],
+        },
+      },
+    });
+
+    const createdAt = meta?.createdAt || new Date(Date.now() - ((job.age_sec || 0) * 1000)).toISOString();
+
+    const responsePayload = {
+      fileName: meta?.fileName || job.filename || `video-${id}`,
+      scanId: id,
+      fileType: meta?.fileType || "video",
+      status: combinedStatus,
+      confidenceScore: verdict?.confidenceScore ?? 0,
+      createdAt,
+      imageUrl: meta?.imageData || "",
+      modelsUsed: allModels.map((m) => m.name),
+      description,
+      features: [
+        `job_status:${job.status}`,
+        `fake_prob:${fakeProb}`,
+        `label:${label || "UNCERTAIN"}`,
+        rdUsable ? "rd_used:true" : "rd_used:false",
+        `score:${combinedScore.toFixed(4)}`,
+      ],
+    };
+
+    const [feedbackSummary, userFeedback] = await Promise.all([getResultFeedbackSummary(id), getUserResultFeedback(id, userId)]);
+
+    return NextResponse.json(
+      {
+        ...responsePayload,
+        feedbackSummary,
+        userFeedback,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching result:", error);
+    const mapped = mapBackendFetchError(error);
+    return NextResponse.json({ error: mapped.message }, { status: mapped.status });
+  }
+}
@@ -4,5 +4,7 @@ export interface CreateScanInput {
   url?: string;
   file?: File;
   base64?: string;
+  uploadId?: string; // completed resumable upload, see uploadResumable
+  mode?: "sync" | "async";
 }
 
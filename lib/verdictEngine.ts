@@ -0,0 +1,293 @@
+import type { MediaType } from "./scanPipeline";
+
+/**
+ * Single place where detector outputs become a verdict. Scores are always
+ * manipulation probabilities in [0, 1]; every route and the scan worker go
+ * through computeVerdict so a scan reads the same wherever it is shown.
+ */
+
+export type DetectorId = "realityDefender" | "fakecatcher" | "gotham" | "audio";
+
+export type VerdictStatus = "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE" | "NO_FACE";
+
+export type DetectorOutput = {
+  model: DetectorId;
+  /** Display name of the concrete detector, e.g. "GothamSwinV3" or "RealityDefenderAudio". */
+  name: string;
+  state: "ok" | "error" | "no_face";
+  score?: number;
+  /** The detector's own hard verdict, when it produces one. */
+  nativeStatus?: "AUTHENTIC" | "DEEPFAKE" | "SUSPICIOUS";
+};
+
+/** What to do when a configured model produced nothing usable for a scan. */
+export type MissingModelRule = "ignore" | "neutral" | "inconclusive";
+
+export type ModelRule = { weight: number; whenMissing: MissingModelRule };
+
+export type MediaVerdictConfig = {
+  thresholds: { deepfake: number; authentic: number };
+  models: Partial<Record<DetectorId, ModelRule>>;
+};
+
+export type VerdictConfig = {
+  media: Record<MediaType, MediaVerdictConfig>;
+  /** With a single usable model that has its own verdict, report that verdict instead of re-thresholding. */
+  trustSingleModelVerdict: boolean;
+};
+
+export type ModelContribution = {
+  model: DetectorId;
+  name: string;
+  state: DetectorOutput["state"] | "missing";
+  score: number | null;
+  weight: number;
+  /** Share of the final score after renormalising over the models that counted. */
+  effectiveWeight: number;
+  contribution: number;
+};
+
+export type Verdict = {
+  status: VerdictStatus;
+  score: number;
+  confidenceScore: number;
+  thresholds: { deepfake: number; authentic: number };
+  contributions: ModelContribution[];
+  explanation: string[];
+};
+
+export type VerdictRecord = {
+  status: VerdictStatus;
+  score: number;
+  confidenceScore: number;
+  thresholds: { deepfake: number; authentic: number };
+  contributions: ModelContribution[];
+  explanation: string[];
+  computedAt: string;
+};
+
+const DEFAULT_THRESHOLDS = { deepfake: 0.65, authentic: 0.35 };
+
+export const DEFAULT_VERDICT_CONFIG: VerdictConfig = {
+  media: {
+    image: {
+      thresholds: DEFAULT_THRESHOLDS,
+      models: {
+        realityDefender: { weight: 0.5, whenMissing: "ignore" },
+        fakecatcher: { weight: 0.5, whenMissing: "ignore" },
+        gotham: { weight: 0.3, whenMissing: "ignore" },
+      },
+    },
+    video: {
+      thresholds: DEFAULT_THRESHOLDS,
+      models: {
+        gotham: { weight: 1, whenMissing: "ignore" },
+        fakecatcher: { weight: 0.6, whenMissing: "ignore" },
+        realityDefender: { weight: 0.4, whenMissing: "ignore" },
+      },
+    },
+    audio: {
+      thresholds: DEFAULT_THRESHOLDS,
+      models: {
+        audio: { weight: 1, whenMissing: "ignore" },
+      },
+    },
+  },
+  trustSingleModelVerdict: true,
+};
+
+export function clamp01(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+/** Per-model display status for the RD sub-model list. */
+export function mapRdModelStatus(status?: string) {
+  if (status === "MANIPULATED") return "MANIPULATED";
+  if (status === "AUTHENTIC") return "AUTHENTIC";
+  return "SUSPICIOUS";
+}
+
+export function mapScoreToStatus(score: number, thresholds = DEFAULT_THRESHOLDS): "AUTHENTIC" | "SUSPICIOUS" | "DEEPFAKE" {
+  if (score >= thresholds.deepfake) return "DEEPFAKE";
+  if (score <= thresholds.authentic) return "AUTHENTIC";
+  return "SUSPICIOUS";
+}
+
+function mergeConfig(base: VerdictConfig, override: Partial<VerdictConfig> & { media?: Partial<Record<MediaType, Partial<MediaVerdictConfig>>> }): VerdictConfig {
+  const media = { ...base.media };
+  for (const mediaType of Object.keys(override.media || {}) as MediaType[]) {
+    const next = override.media![mediaType]!;
+    media[mediaType] = {
+      thresholds: { ...media[mediaType].thresholds, ...next.thresholds },
+      models: { ...media[mediaType].models, ...next.models },
+    };
+  }
+  return { media, trustSingleModelVerdict: override.trustSingleModelVerdict ?? base.trustSingleModelVerdict };
+}
+
+let cachedConfig: VerdictConfig | null = null;
+
+/** Defaults, optionally overridden by the VERDICT_CONFIG JSON env var (same shape, any subset). */
+export function getVerdictConfig(): VerdictConfig {
+  if (!cachedConfig) {
+    cachedConfig = DEFAULT_VERDICT_CONFIG;
+    if (process.env.VERDICT_CONFIG) {
+      try {
+        cachedConfig = mergeConfig(DEFAULT_VERDICT_CONFIG, JSON.parse(process.env.VERDICT_CONFIG));
+      } catch (error) {
+        console.error("Ignoring invalid VERDICT_CONFIG:", error);
+      }
+    }
+  }
+  return cachedConfig;
+}
+
+type StoredAnalyses = {
+  rdAnalysis?: { status?: string; score?: number; error?: string } | null;
+  fcAnalysis?: { label?: string; confidence?: number; fake_prob?: number } | null;
+  videoAnalysis?: { detector?: string; score?: number; frames?: Array<{ status?: string }> } | null;
+  audioAnalysis?: { detector?: string; status?: string; score?: number } | null;
+  faceAnalysis?: { faceCount?: number; score?: number } | null;
+};
+
+/** Reality Defender reports a manipulation probability alongside its own verdict. */
+export function rdOutput(rd: StoredAnalyses["rdAnalysis"]): DetectorOutput | null {
+  if (!rd?.status || rd.status === "DISABLED") return null;
+  if (rd.status === "ERROR") return { model: "realityDefender", name: "RealityDefender", state: "error" };
+  return {
+    model: "realityDefender",
+    name: "RealityDefender",
+    state: "ok",
+    score: clamp01(typeof rd.score === "number" ? rd.score : 0.5),
+    nativeStatus: rd.status === "MANIPULATED" ? "DEEPFAKE" : rd.status === "AUTHENTIC" ? "AUTHENTIC" : "SUSPICIOUS",
+  };
+}
+
+/** FakeCatcher's fake_prob is the manipulation probability; UNCERTAIN labels carry no signal. */
+export function fakecatcherOutput(fc: StoredAnalyses["fcAnalysis"]): DetectorOutput | null {
+  if (!fc?.label) return null;
+  if (fc.label !== "FAKE" && fc.label !== "REAL") return { model: "fakecatcher", name: "fakecatcher-rppg", state: "error" };
+  const fallback = typeof fc.confidence === "number" ? clamp01(fc.confidence / 100) : 0.5;
+  const score = typeof fc.fake_prob === "number" ? fc.fake_prob : fc.label === "FAKE" ? fallback : 1 - fallback;
+  return {
+    model: "fakecatcher",
+    name: "fakecatcher-rppg",
+    state: "ok",
+    score: clamp01(score),
+    nativeStatus: fc.label === "FAKE" ? "DEEPFAKE" : "AUTHENTIC",
+  };
+}
+
+/** Builds detector outputs from the analyses persisted on a VerificationResult. */
+export function collectDetectorOutputs(doc: StoredAnalyses): DetectorOutput[] {
+  const outputs: DetectorOutput[] = [];
+  const rd = rdOutput(doc.rdAnalysis);
+  if (rd) outputs.push(rd);
+  const fc = fakecatcherOutput(doc.fcAnalysis);
+  if (fc) outputs.push(fc);
+
+  const video = doc.videoAnalysis;
+  if (video?.frames?.length) {
+    const name = video.detector || "GothamSwinV3";
+    if (typeof video.score === "number") {
+      outputs.push({ model: "gotham", name, state: "ok", score: clamp01(video.score) });
+    } else {
+      const noFace = video.frames.every((f) => f.status === "NO_FACE");
+      outputs.push({ model: "gotham", name, state: noFace ? "no_face" : "error" });
+    }
+  }
+
+  const faces = doc.faceAnalysis;
+  if (faces && !video?.frames?.length) {
+    outputs.push(typeof faces.score === "number"
+      ? { model: "gotham", name: "GothamSwinV3", state: "ok", score: clamp01(faces.score) }
+      : { model: "gotham", name: "GothamSwinV3", state: faces.faceCount === 0 ? "no_face" : "error" });
+  }
+
+  const audio = doc.audioAnalysis;
+  if (audio?.status) {
+    outputs.push(audio.status === "ERROR" || typeof audio.score !== "number"
+      ? { model: "audio", name: audio.detector || "audio-detector", state: "error" }
+      : { model: "audio", name: audio.detector || "audio-detector", state: "ok", score: clamp01(audio.score) });
+  }
+
+  return outputs;
+}
+
+/**
+ * Weighted fusion of detector outputs for one media type. Returns null when no
+ * detector produced a usable score and none reported "no face", i.e. the scan failed.
+ */
+export function computeVerdict(mediaType: MediaType, outputs: DetectorOutput[], config: VerdictConfig = getVerdictConfig()): Verdict | null {
+  const mediaConfig = config.media[mediaType];
+  const thresholds = mediaConfig.thresholds;
+  const explanation: string[] = [];
+  const contributions: ModelContribution[] = [];
+  let inconclusive = false;
+
+  const models = new Set<DetectorId>([...Object.keys(mediaConfig.models) as DetectorId[], ...outputs.map((o) => o.model)]);
+  for (const model of models) {
+    const rule = mediaConfig.models[model] || { weight: 0, whenMissing: "ignore" as const };
+    const output = outputs.find((o) => o.model === model);
+
+    if (output?.state === "ok" && typeof output.score === "number") {
+      contributions.push({ model, name: output.name, state: "ok", score: output.score, weight: rule.weight, effectiveWeight: 0, contribution: 0 });
+      if (rule.weight === 0) explanation.push(`${output.name} scored ${output.score.toFixed(3)} but has no weight for ${mediaType}.`);
+      continue;
+    }
+
+    // With the default "ignore" rule, a model that never ran for this scan is simply not mentioned.
+    if (!output && rule.whenMissing === "ignore") continue;
+    const name = output?.name || model;
+    const state = output?.state === "no_face" ? "no_face" : "missing";
+    if (rule.whenMissing === "neutral") {
+      contributions.push({ model, name, state, score: 0.5, weight: rule.weight, effectiveWeight: 0, contribution: 0 });
+      explanation.push(`${name} produced no score; counted as neutral (0.5).`);
+    } else {
+      contributions.push({ model, name, state, score: null, weight: rule.weight, effectiveWeight: 0, contribution: 0 });
+      if (rule.whenMissing === "inconclusive") {
+        inconclusive = true;
+        explanation.push(`${name} produced no score and is required for ${mediaType}; verdict is inconclusive.`);
+      } else {
+        explanation.push(state === "no_face" ? `${name} found no face to score.` : `${name} produced no score and was left out.`);
+      }
+    }
+  }
+
+  const counted = contributions.filter((c) => c.score !== null && c.weight > 0);
+  if (counted.length === 0) {
+    // "No face" is only a result in itself when nothing else failed outright.
+    if (contributions.some((c) => c.state === "no_face") && !outputs.some((o) => o.state === "error")) {
+      return { status: "NO_FACE", score: 0, confidenceScore: 0, thresholds, contributions, explanation: [...explanation, "No face was detected, so no verdict was produced."] };
+    }
+    return null;
+  }
+
+  const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+  let score = 0;
+  for (const c of counted) {
+    c.effectiveWeight = c.weight / totalWeight;
+    c.contribution = (c.score as number) * c.effectiveWeight;
+    score += c.contribution;
+    explanation.push(`${c.name} scored ${(c.score as number).toFixed(3)} with weight ${c.effectiveWeight.toFixed(2)}, contributing ${c.contribution.toFixed(3)}.`);
+  }
+  score = clamp01(score);
+
+  let status: VerdictStatus = mapScoreToStatus(score, thresholds);
+  const okOutputs = outputs.filter((o) => o.state === "ok");
+  if (inconclusive) {
+    status = "SUSPICIOUS";
+  } else if (config.trustSingleModelVerdict && counted.length === 1 && okOutputs.length === 1 && okOutputs[0].nativeStatus) {
+    status = okOutputs[0].nativeStatus;
+    explanation.push(`Only ${okOutputs[0].name} was available; using its own verdict.`);
+  } else {
+    explanation.push(`Fused score ${score.toFixed(3)} against thresholds ${thresholds.authentic}/${thresholds.deepfake} gives ${status}.`);
+  }
+
+  const confidenceScore = Math.round((status === "AUTHENTIC" ? 1 - score : score) * 1000) / 10;
+  return { status, score, confidenceScore, thresholds, contributions, explanation };
+}
+
+export function toVerdictRecord(verdict: Verdict): VerdictRecord {
+  return { ...verdict, computedAt: new Date().toISOString() };
+}
@@ -1,45 +1,90 @@
-export interface RDModelResult {
-  name: string;
-  status: "AUTHENTIC" | "MANIPULATED";
-  score: number;
-}
-
-export interface RDResult {
-  status: "AUTHENTIC" | "MANIPULATED";
-  score: number;
-  models?: RDModelResult[];
-}
+import { readFile } from "fs/promises";
+import { analyzeMedia, type MediaType, type ScanAnalysis } from "./scanPipeline";
+import { fetchRemoteMedia } from "./remoteMedia";
+import { inspectMedia, type MediaInspection } from "./mediaSniff";
+import { storeScanMedia, type ScanMediaRecord } from "./scanMedia";
+import type { VideoSamplingOptions } from "./videoSampling";
 
 export interface BulkMedia {
   url?: string;
   fileBuffer?: Buffer;
-  fileType?: "image" | "video" | "audio";
+  filePath?: string; // spooled upload, read lazily so large batches are not held in memory
+  fileType?: MediaType;
   fileName?: string; // optional, for mapping results
 }
 
+export type BulkResult = {
+  index: number;
+  media: BulkMedia;
+  fileName: string;
+  fileType?: MediaType;
+  mediaInfo?: MediaInspection;
+  storedMedia?: ScanMediaRecord;
+  analysis?: ScanAnalysis;
+  error?: string;
+};
+
+async function loadMedia(media: BulkMedia) {
+  if (media.fileBuffer) return { buffer: media.fileBuffer, fileName: media.fileName || "media-upload" };
+  if (media.filePath) return { buffer: await readFile(media.filePath), fileName: media.fileName || "media-upload" };
+  if (media.url) {
+    const remote = await fetchRemoteMedia(media.url);
+    return { buffer: remote.buffer, fileName: media.fileName || remote.fileName };
+  }
+  throw new Error("Batch item has no file or URL");
+}
+
+async function verifyOne(index: number, media: BulkMedia, options: { videoSampling?: VideoSamplingOptions }): Promise<BulkResult> {
+  let fileName = media.fileName || media.url || `item-${index + 1}`;
+  try {
+    const loaded = await loadMedia(media);
+    fileName = loaded.fileName;
+    // Same byte-level validation as single scans; the type comes from the content, not the name.
+    const mediaInfo = inspectMedia(loaded.buffer, { fileName, fileType: media.fileType });
+    const analysis = await analyzeMedia(loaded.buffer, fileName, mediaInfo.fileType, options);
+    if (analysis.status === "ERROR") {
+      return { index, media, fileName, fileType: mediaInfo.fileType, mediaInfo, analysis, error: analysis.error || "Analysis failed" };
+    }
+    const storedMedia = await storeScanMedia(loaded.buffer, fileName, mediaInfo);
+    return { index, media, fileName, fileType: mediaInfo.fileType, mediaInfo, storedMedia, analysis };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { index, media, fileName, error: message || "Verification failed" };
+  }
+}
+
+/**
+ * Runs each item through the scan pipeline with at most `parallel` in flight.
+ * `onResult` fires as each item settles so callers can persist progress;
+ * the returned list is in input order.
+ */
 export async function verifyMediaBulk(
   items: BulkMedia[],
-  parallel = 3 // number of concurrent requests
-): Promise<{ media: BulkMedia; result?: RDResult; error?: string }[]> {
-  const results: { media: BulkMedia; result?: RDResult; error?: string }[] = [];
-  
-  const queue = [...items]; // copy of items
+  parallel = 3, // number of concurrent scans
+  options: { videoSampling?: VideoSamplingOptions; onResult?: (result: BulkResult) => Promise<void> | void } = {}
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = new Array(items.length);
+
+  const queue = items.map((media, index) => ({ media, index })); // copy of items
   const workers: Promise<void>[] = [];
 
   const runWorker = async () => {
     while (queue.length > 0) {
-      const media = queue.shift()!;
-      try {
-        throw new Error("Reality Defender is disabled. Use external backend verification endpoint.");
-      } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : String(err);
-        results.push({ media, error: message || "Verification failed" });
+      const { media, index } = queue.shift()!;
+      const result = await verifyOne(index, media, { videoSampling: options.videoSampling });
+      results[index] = result;
+      if (options.onResult) {
+        try {
+          await options.onResult(result);
+        } catch (callbackError) {
+          console.error(`Bulk result callback failed for item ${index}:`, callbackError);
+        }
       }
     }
   };
 
   // start workers in parallel
-  for (let i = 0; i < parallel; i++) {
+  for (let i = 0; i < Math.min(parallel, items.length); i++) {
     workers.push(runWorker());
   }
 
@@ -47,4 +92,4 @@ export async function verifyMediaBulk(
   return results;
 }
 
-export default verifyMediaBulk;
\ No newline at end of file
+export default verifyMediaBulk;
@@ -0,0 +1,158 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegStatic from "ffmpeg-static";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { mediaInputPath, type MediaInput } from "./mediaInput";
+import { probeMedia } from "./mediaNormalize";
+
+const execFileAsync = promisify(execFile);
+
+export type VideoSamplingStrategy = "fixed" | "fps" | "scene" | "keyframe";
+
+export type VideoSamplingOptions = {
+  strategy: VideoSamplingStrategy;
+  /** Frame count for "fixed", frames per second for "fps", scene threshold (0-1) for "scene". */
+  value?: number;
+};
+
+export type SampledFrame = { index: number; timestamp: number; buffer: Buffer };
+
+export type SampledVideo = {
+  strategy: VideoSamplingStrategy;
+  value?: number;
+  duration: number;
+  frameCap: number;
+  frames: SampledFrame[];
+};
+
+const SAMPLING_STRATEGIES: VideoSamplingStrategy[] = ["fixed", "fps", "scene", "keyframe"];
+
+// Every strategy is bounded by the clip length: FRAMES_PER_SECOND_CAP frames per second,
+// never fewer than MIN_FRAMES and never more than MAX_FRAMES.
+const MIN_FRAMES = Math.max(1, parseInt(process.env.VIDEO_FRAME_MIN || "3", 10));
+const MAX_FRAMES = Math.max(MIN_FRAMES, parseInt(process.env.VIDEO_FRAME_MAX || "48", 10));
+const FRAMES_PER_SECOND_CAP = Math.max(0.1, parseFloat(process.env.VIDEO_FRAME_CAP_PER_SECOND || "1"));
+const DEFAULT_SCENE_THRESHOLD = 0.3;
+const FALLBACK_DURATION_SECONDS = 10;
+
+/**
+ * Parses "fixed:8", "fps:2", "scene", "scene:0.4" or "keyframe". Unknown or
+ * malformed values return null so callers can reject them before charging.
+ */
+export function parseVideoSampling(input: string | null | undefined): VideoSamplingOptions | null {
+  if (!input) return null;
+  const [rawStrategy, rawValue] = input.trim().toLowerCase().split(":");
+  const strategy = rawStrategy as VideoSamplingStrategy;
+  if (!SAMPLING_STRATEGIES.includes(strategy)) return null;
+  if (rawValue === undefined || rawValue === "") return { strategy };
+
+  const value = Number(rawValue);
+  if (!Number.isFinite(value) || value <= 0) return null;
+  if (strategy === "fixed" && !Number.isInteger(value)) return null;
+  if (strategy === "scene" && value >= 1) return null;
+  if (strategy === "keyframe") return null;
+  return { strategy, value };
+}
+
+export function getDefaultVideoSampling(): VideoSamplingOptions {
+  return parseVideoSampling(process.env.VIDEO_SAMPLING_STRATEGY) || { strategy: "fixed", value: 3 };
+}
+
+export function getFrameCap(duration: number) {
+  return Math.min(MAX_FRAMES, Math.max(MIN_FRAMES, Math.ceil(duration * FRAMES_PER_SECOND_CAP)));
+}
+
+function evenlySpaced(duration: number, count: number) {
+  return Array.from({ length: count }, (_, i) => duration * (i + 1) / (count + 1));
+}
+
+/** Keeps `count` timestamps spread across the list, always including the first and last. */
+function downsample(timestamps: number[], count: number) {
+  if (timestamps.length <= count) return timestamps;
+  if (count === 1) return [timestamps[Math.floor(timestamps.length / 2)]];
+  return Array.from({ length: count }, (_, i) => timestamps[Math.round(i * (timestamps.length - 1) / (count - 1))]);
+}
+
+/** Tops up a sparse list (e.g. a clip with no scene cuts) with evenly spaced timestamps. */
+function fillToMinimum(timestamps: number[], duration: number, minimum: number) {
+  if (timestamps.length >= minimum) return timestamps;
+  const filled = [...timestamps];
+  for (const ts of evenlySpaced(duration, minimum)) {
+    if (filled.length >= minimum) break;
+    if (!filled.some((existing) => Math.abs(existing - ts) < 0.5)) filled.push(ts);
+  }
+  return filled.sort((a, b) => a - b);
+}
+
+async function probeDuration(inputPath: string) {
+  return (await probeMedia(inputPath)).duration || FALLBACK_DURATION_SECONDS;
+}
+
+/** Runs a decode pass through `showinfo` and returns the pts_time of every frame that survives `filters`. */
+async function detectFrameTimes(inputPath: string, inputArgs: string[], filters: string) {
+  const result = await execFileAsync(
+    ffmpegStatic as string,
+    ["-hide_banner", ...inputArgs, "-i", inputPath, "-an", "-vf", `${filters},showinfo`, "-f", "null", "-"],
+    { encoding: "utf8", maxBuffer: 32 * 1024 * 1024 }
+  );
+  const times: number[] = [];
+  for (const match of (result.stderr || "").matchAll(/pts_time:\s*([\d.]+)/g)) {
+    times.push(parseFloat(match[1]));
+  }
+  return times;
+}
+
+async function planTimestamps(inputPath: string, options: VideoSamplingOptions, duration: number, frameCap: number) {
+  const minimum = Math.min(MIN_FRAMES, frameCap);
+
+  switch (options.strategy) {
+    case "fps": {
+      const rate = options.value || 1;
+      const count = Math.max(1, Math.floor(duration * rate));
+      const timestamps = Array.from({ length: count }, (_, i) => (i + 0.5) / rate).filter((ts) => ts < duration);
+      return downsample(timestamps, frameCap);
+    }
+    case "scene": {
+      const threshold = options.value || DEFAULT_SCENE_THRESHOLD;
+      const cuts = await detectFrameTimes(inputPath, [], `select='gt(scene,${threshold})'`);
+      // The opening shot never registers as a scene change, so always score it.
+      return fillToMinimum(downsample([0, ...cuts], frameCap), duration, minimum);
+    }
+    case "keyframe": {
+      const keyframes = await detectFrameTimes(inputPath, ["-skip_frame", "nokey"], "null");
+      return fillToMinimum(downsample(keyframes, frameCap), duration, minimum);
+    }
+    default:
+      return evenlySpaced(duration, Math.min(options.value || MIN_FRAMES, frameCap));
+  }
+}
+
+/**
+ * Picks frame timestamps with the requested strategy, caps the count by clip
+ * duration and extracts each frame as a JPEG at up to 1280px wide, leaving
+ * face cropping and resizing for the model to the caller.
+ */
+export async function sampleVideoFrames(video: MediaInput, options: VideoSamplingOptions = getDefaultVideoSampling()): Promise<SampledVideo> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "gotham-video-"));
+  try {
+    const inputPath = await mediaInputPath(video, workDir, "input.mp4");
+    const duration = await probeDuration(inputPath);
+    const frameCap = getFrameCap(duration);
+    const timestamps = await planTimestamps(inputPath, options, duration, frameCap);
+
+    const frames: SampledFrame[] = [];
+    for (const [index, timestamp] of timestamps.entries()) {
+      const outPath = path.join(workDir, "frame_" + index + ".jpg");
+      await execFileAsync(ffmpegStatic as string, ["-ss", timestamp.toFixed(3), "-i", inputPath, "-vframes", "1", "-vf", "scale='min(1280,iw)':-2", "-q:v", "2", "-y", outPath]);
+      const buffer = await readFile(outPath).catch(() => null);
+      // Seeking past the last decodable frame yields no output; skip rather than fail the scan.
+      if (buffer) frames.push({ index: frames.length, timestamp: Math.round(timestamp * 1000) / 1000, buffer });
+    }
+
+    return { strategy: options.strategy, value: options.value, duration, frameCap, frames };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,87 @@
+import { inflateRawSync } from "zlib";
+import path from "path";
+
+export type ZipEntry = { fileName: string; buffer: Buffer };
+
+export class ZipArchiveError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ZipArchiveError";
+    this.status = status;
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function findEndOfCentralDirectory(buffer: Buffer) {
+  // The record is 22 bytes plus a comment of up to 64 KiB.
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipArchiveError("Archive is not a valid zip file");
+}
+
+/**
+ * Reads the files of a zip archive held in memory. Only stored and deflated
+ * entries are supported; directories, hidden files and macOS resource forks
+ * are skipped. Entry count and total inflated size are capped so a small
+ * archive cannot expand into something that exhausts memory.
+ */
+export function readZipEntries(buffer: Buffer, limits: { maxEntries: number; maxTotalBytes: number }): ZipEntry[] {
+  if (buffer.length < 22) throw new ZipArchiveError("Archive is not a valid zip file");
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipArchiveError("Archive central directory is corrupt");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const entryName = buffer.subarray(offset + 46, offset + 46 + nameLength).toString(flags & 0x800 ? "utf8" : "latin1");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const baseName = path.posix.basename(entryName);
+    if (entryName.endsWith("/") || !baseName || baseName.startsWith(".") || entryName.startsWith("__MACOSX/")) continue;
+
+    if (flags & 0x1) throw new ZipArchiveError(`Encrypted archive entries are not supported (${baseName})`);
+    if (method !== 0 && method !== 8) throw new ZipArchiveError(`Unsupported compression method in ${baseName}`);
+    if (entries.length >= limits.maxEntries) {
+      throw new ZipArchiveError(`Archive contains more than ${limits.maxEntries} files`, 413);
+    }
+    totalBytes += uncompressedSize;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new ZipArchiveError("Archive expands beyond the allowed batch size", 413);
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipArchiveError(`Archive entry ${baseName} is corrupt`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 0 ? Buffer.from(data) : inflateRawSync(data, { maxOutputLength: uncompressedSize || 1 });
+    if (content.length !== uncompressedSize) throw new ZipArchiveError(`Archive entry ${baseName} is corrupt`);
+
+    entries.push({ fileName: baseName, buffer: content });
+  }
+
+  return entries;
+}
+
+export function isZipArchive(buffer: Buffer) {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
@@ -0,0 +1,81 @@
+// scripts/fetch-face-model.js
+// Downloads the UltraFace RFB-320 ONNX face detector used by lib/faceDetection.ts.
+// The file is fetched from a pinned commit and only installed if its SHA-256 matches,
+// so a changed or tampered upstream file is never loaded by the workers.
+require('dotenv').config({ path: '.env.local' });
+const fs = require('fs');
+const path = require('path');
+const https = require('https');
+const crypto = require('crypto');
+
+const MODEL_COMMIT = process.env.FACE_DETECTOR_MODEL_COMMIT;
+const MODEL_SHA256 = (process.env.FACE_DETECTOR_MODEL_SHA256 || '').toLowerCase();
+const MODEL_URL =
+  process.env.FACE_DETECTOR_MODEL_URL ||
+  (MODEL_COMMIT &&
+    `https://github.com/Linzaer/Ultra-Light-Fast-Generic-Face-Detector-1MB/raw/${MODEL_COMMIT}/models/onnx/version-RFB-320.onnx`);
+const MODEL_PATH =
+  process.env.FACE_DETECTOR_MODEL_PATH || path.join(process.cwd(), 'models', 'face', 'version-RFB-320.onnx');
+
+function download(url, dest, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    https
+      .get(url, (res) => {
+        if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location && redirects < 5) {
+          res.resume();
+          resolve(download(new URL(res.headers.location, url).toString(), dest, redirects + 1));
+          return;
+        }
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`Download failed with HTTP ${res.statusCode}`));
+          return;
+        }
+        const tmp = dest + '.part';
+        const file = fs.createWriteStream(tmp);
+        const hash = crypto.createHash('sha256');
+        res.on('data', (chunk) => hash.update(chunk));
+        res.pipe(file);
+        file.on('finish', () =>
+          file.close(() => {
+            const digest = hash.digest('hex');
+            if (digest !== MODEL_SHA256) {
+              fs.rm(tmp, { force: true }, () =>
+                reject(new Error(`Checksum mismatch: expected ${MODEL_SHA256}, got ${digest}`))
+              );
+              return;
+            }
+            fs.rename(tmp, dest, (err) => (err ? reject(err) : resolve()));
+          })
+        );
+        file.on('error', reject);
+      })
+      .on('error', reject);
+  });
+}
+
+async function run() {
+  if (fs.existsSync(MODEL_PATH)) {
+    console.log(`✅ Face detector already present at ${MODEL_PATH}`);
+    return;
+  }
+
+  if (!MODEL_URL || !/^[0-9a-f]{64}$/.test(MODEL_SHA256)) {
+    console.error(
+      '❌ Set FACE_DETECTOR_MODEL_COMMIT (or FACE_DETECTOR_MODEL_URL) and FACE_DETECTOR_MODEL_SHA256 to pin the face detector.'
+    );
+    process.exit(1);
+  }
+
+  fs.mkdirSync(path.dirname(MODEL_PATH), { recursive: true });
+  console.log(`Downloading face detector from ${MODEL_URL}...`);
+  try {
+    await download(MODEL_URL, MODEL_PATH);
+    console.log(`✅ Saved face detector to ${MODEL_PATH}`);
+  } catch (err) {
+    console.error('❌ Failed to download face detector:', err.message);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,127 @@
+import path from "path";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+
+// Load .env.local before app modules so lib/db, lib/aws/dynamo and lib/apiKeys see their configuration.
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { DeleteCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { connectToDatabase } from "../lib/db";
+import { dynamoDocClient, getDynamoTableName } from "../lib/aws/dynamo";
+import { ApiKey } from "../lib/models/ApiKey";
+import { apiKeyPrefix, hashApiKey } from "../lib/apiKeys";
+
+const SALTED_HASH = /^[0-9a-f]{64}$/;
+
+/**
+ * One-off: moves console keys out of the DynamoDB key table, where the raw key
+ * is the partition key, into the ApiKey collection as salted hashes, and
+ * rehashes backoffice keys that were stored base64-encoded.
+ * Safe to re-run; keys already present are left as they are.
+ *
+ *   npm run migrate:api-keys [-- --dry-run] [-- --purge-source]
+ *
+ * --purge-source deletes each DynamoDB item once its key is stored, so the
+ * raw keys no longer sit in the table.
+ */
+async function migrateDynamoKeys(dryRun: boolean, purgeSource: boolean) {
+  const tableName = getDynamoTableName();
+  let migrated = 0;
+  let existing = 0;
+  let missed = 0;
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const page = await dynamoDocClient.send(new ScanCommand({ TableName: tableName, ExclusiveStartKey: startKey }));
+    startKey = page.LastEvaluatedKey;
+
+    for (const item of (page.Items as Array<Record<string, unknown>> | undefined) ?? []) {
+      const rawKey = item.api_key;
+      if (typeof rawKey !== "string" || typeof item.client_id !== "string") continue;
+      const prefix = apiKeyPrefix(rawKey);
+      if (dryRun) {
+        console.log(`${prefix}...: would move key of ${item.client_id}`);
+        migrated += 1;
+        continue;
+      }
+
+      const revoked = item.status !== "active";
+      const result = await ApiKey.updateOne(
+        { keyHash: hashApiKey(rawKey) },
+        {
+          $setOnInsert: {
+            userId: item.client_id,
+            name: "Console key",
+            keyPrefix: prefix,
+            environment: rawKey.startsWith("dt_test_") ? "test" : "live",
+            isActive: !revoked,
+            ...(revoked ? { revokedAt: new Date() } : {}),
+            clientName: typeof item.client_name === "string" ? item.client_name : undefined,
+            plan: typeof item.plan === "string" ? item.plan : "payg",
+            scansUsed: Number(item.scans_used ?? 0),
+            ...(typeof item.last_used_at === "string" ? { lastUsed: new Date(item.last_used_at) } : {}),
+            createdAt: typeof item.created_at === "string" ? new Date(item.created_at) : new Date(),
+          },
+        },
+        { upsert: true }
+      );
+      if (result.upsertedCount) migrated += 1;
+      else existing += 1;
+
+      if (purgeSource) {
+        // The raw key only goes once its record can be read back; otherwise it is kept for the next run.
+        const stored = await ApiKey.exists({ keyHash: hashApiKey(rawKey) });
+        if (!stored) {
+          console.warn(`${prefix}...: stored key not found, DynamoDB item kept`);
+          missed += 1;
+          continue;
+        }
+        await dynamoDocClient.send(new DeleteCommand({ TableName: tableName, Key: { api_key: rawKey } }));
+      }
+    }
+  } while (startKey);
+
+  console.log(
+    `${dryRun ? "Would move" : "Moved"} ${migrated} DynamoDB key(s)${existing ? `, ${existing} already stored` : ""}` +
+      `${missed ? `, ${missed} not found after storing` : ""}.`
+  );
+}
+
+async function rehashBackofficeKeys(dryRun: boolean) {
+  const keys = await ApiKey.find({ keyHash: { $not: SALTED_HASH } })
+    .select("_id keyPrefix keyHash")
+    .lean<Array<{ _id: unknown; keyPrefix: string; keyHash: string }>>();
+
+  let rehashed = 0;
+  for (const key of keys) {
+    // These were stored as base64 of the raw key, so the key itself can be recovered and hashed properly.
+    const rawKey = Buffer.from(key.keyHash, "base64").toString("utf8");
+    if (!rawKey.startsWith(key.keyPrefix)) {
+      console.warn(`${key.keyPrefix}...: stored hash does not decode to the key, left as is`);
+      continue;
+    }
+    if (!dryRun) {
+      await ApiKey.updateOne({ _id: key._id }, { $set: { keyHash: hashApiKey(rawKey) } });
+    }
+    rehashed += 1;
+  }
+
+  console.log(`${dryRun ? "Would rehash" : "Rehashed"} ${rehashed} backoffice key(s).`);
+}
+
+async function migrate(dryRun: boolean, purgeSource: boolean) {
+  await connectToDatabase();
+  await rehashBackofficeKeys(dryRun);
+  if (process.env.DYNAMODB_TABLE) {
+    await migrateDynamoKeys(dryRun, purgeSource);
+  } else {
+    console.log("DYNAMODB_TABLE is not set; skipping console keys.");
+  }
+}
+
+migrate(process.argv.includes("--dry-run"), process.argv.includes("--purge-source"))
+  .catch((error) => {
+    console.error("API key migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,100 @@
+import path from "path";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+
+// Load .env.local before app modules so lib/db sees its configuration.
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { connectToDatabase } from "../lib/db";
+import { JobState } from "../lib/models/JobState";
+import { ResultFeedback } from "../lib/models/ResultFeedback";
+import { VerificationResult } from "../lib/models/VerificationResult";
+
+type LegacyFeedback = {
+  userId?: string;
+  label?: string;
+  comment?: string;
+  createdAt?: string;
+};
+
+/**
+ * One-off: moves FP/FN reports stored in JobState.feedback, where they lived
+ * before disputes got their own collection, into ResultFeedback and queues
+ * them for review. A report the user has since refiled is kept as refiled.
+ * Safe to re-run; migrated jobs no longer match.
+ *
+ *   npm run migrate:job-feedback [-- --dry-run]
+ */
+async function migrate(dryRun: boolean) {
+  await connectToDatabase();
+  // feedback is no longer in the JobState schema, so the documents are read straight from the collection.
+  const cursor = JobState.collection.find(
+    { "feedback.0": { $exists: true } },
+    { projection: { jobId: 1, feedback: 1 } }
+  );
+
+  let migrated = 0;
+  let existing = 0;
+  let skipped = 0;
+  for await (const job of cursor) {
+    for (const entry of (job.feedback as LegacyFeedback[] | undefined) ?? []) {
+      if (!entry.userId || (entry.label !== "FALSE_POSITIVE" && entry.label !== "FALSE_NEGATIVE")) {
+        console.warn(`${job.jobId}: unreadable report left out`);
+        skipped += 1;
+        continue;
+      }
+      if (dryRun) {
+        console.log(`${job.jobId}: would move ${entry.label} report of ${entry.userId}`);
+        migrated += 1;
+        continue;
+      }
+
+      const reportedAt = entry.createdAt ? new Date(entry.createdAt) : new Date();
+      const result = await ResultFeedback.updateOne(
+        { resultId: job.jobId, userId: entry.userId },
+        {
+          $setOnInsert: {
+            label: entry.label,
+            reviewStatus: "pending",
+            reportedAt,
+            ...(entry.comment ? { comment: entry.comment } : {}),
+          },
+        },
+        { upsert: true }
+      );
+      if (!result.upsertedCount) {
+        existing += 1;
+        continue;
+      }
+
+      // Scans a reviewer has already decided stay decided; the rest join the dispute queue.
+      await VerificationResult.updateOne(
+        { scanId: job.jobId, reviewStatus: { $exists: false } },
+        {
+          $set: {
+            reviewStatus: "pending",
+            reviewSource: "customer_reported",
+            feedbackType: entry.label === "FALSE_POSITIVE" ? "fp" : "fn",
+            disputedAt: reportedAt,
+          },
+        }
+      );
+      migrated += 1;
+    }
+
+    if (!dryRun) {
+      await JobState.collection.updateOne({ _id: job._id }, { $unset: { feedback: "" } });
+    }
+  }
+
+  console.log(
+    `${dryRun ? "Would move" : "Moved"} ${migrated} report(s)${existing ? `, ${existing} already filed` : ""}, skipped ${skipped}.`
+  );
+}
+
+migrate(process.argv.includes("--dry-run"))
+  .catch((error) => {
+    console.error("Job feedback migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,60 @@
+import path from "path";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+
+// Load .env.local before app modules so lib/db and lib/objectStorage see their configuration.
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { connectToDatabase } from "../lib/db";
+import { VerificationResult } from "../lib/models/VerificationResult";
+import { sniffMediaType } from "../lib/mediaSniff";
+import { storeScanMedia } from "../lib/scanMedia";
+
+/**
+ * One-off: moves images stored inline as base64 data URLs in
+ * VerificationResult.imageUrl into object storage and replaces them with
+ * media references. Safe to re-run; migrated scans no longer match.
+ *
+ *   npm run migrate:media [-- --dry-run]
+ */
+async function migrate(dryRun: boolean) {
+  await connectToDatabase();
+  const cursor = VerificationResult.find({ imageUrl: /^data:/ })
+    .select("_id scanId fileName imageUrl")
+    .lean<Array<{ _id: unknown; scanId: string; fileName: string; imageUrl: string }>>()
+    .cursor();
+
+  let migrated = 0;
+  let skipped = 0;
+  for await (const scan of cursor) {
+    const buffer = Buffer.from(scan.imageUrl.replace(/^data:[^,]*,/, ""), "base64");
+    const sniffed = sniffMediaType(buffer);
+    if (!sniffed || sniffed.fileType !== "image") {
+      console.warn(`${scan.scanId}: inline data is not a recognised image, left as is`);
+      skipped += 1;
+      continue;
+    }
+    if (dryRun) {
+      console.log(`${scan.scanId}: would move ${(buffer.length / 1024).toFixed(1)} KB`);
+      migrated += 1;
+      continue;
+    }
+
+    const media = await storeScanMedia(buffer, scan.fileName, sniffed);
+    if (!media) {
+      skipped += 1;
+      continue;
+    }
+    await VerificationResult.updateOne({ _id: scan._id }, { $set: { media }, $unset: { imageUrl: "" } });
+    migrated += 1;
+  }
+
+  console.log(`${dryRun ? "Would migrate" : "Migrated"} ${migrated} scan(s), skipped ${skipped}.`);
+}
+
+migrate(process.argv.includes("--dry-run"))
+  .catch((error) => {
+    console.error("Media migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
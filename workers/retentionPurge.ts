@@ -0,0 +1,27 @@
+import path from "path";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+
+// Load .env.local before app modules so lib/db and lib/objectStorage see their configuration.
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { runRetentionPurge } from "../lib/retention";
+
+/**
+ * Runs one retention pass by hand, e.g. to check a new policy before the
+ * scheduled purge is switched on. With --dry-run nothing is removed or
+ * written; what would be purged is printed per client and stage.
+ *
+ *   npm run retention:purge [-- --dry-run]
+ */
+async function purge(dryRun: boolean) {
+  const summary = await runRetentionPurge({ dryRun, audit: false });
+  console.log(`${dryRun ? "Would purge" : "Purged"}:`, summary);
+}
+
+purge(process.argv.includes("--dry-run"))
+  .catch((error) => {
+    console.error("Retention purge failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,124 @@
+import { Worker, type Job } from "bullmq";
+import path from "path";
+import { rm } from "fs/promises";
+import dotenv from "dotenv";
+
+// Load .env.local before app modules so lib/db and the detectors see their configuration.
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { connectToDatabase } from "../lib/db";
+import { VerificationResult } from "../lib/models/VerificationResult";
+import { analyzeMedia } from "../lib/scanPipeline";
+import { refundUserCredit } from "../lib/credits";
+import { BATCH_QUEUE_NAME, SCAN_QUEUE_NAME, getRedisConnection, type BatchJobData, type ScanJobData } from "../lib/scanQueue";
+import { failBatch, runBatch } from "../lib/batchScan";
+import { startFakecatcherReconciler } from "../lib/fakecatcherReconciler";
+import { startRetentionPurge } from "../lib/retention";
+
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.SCAN_WORKER_CONCURRENCY || "2", 10));
+// Each batch already scans several items at once (BATCH_CONCURRENCY), so run few batches side by side.
+const BATCH_WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.BATCH_WORKER_CONCURRENCY || "1", 10));
+
+async function processScanJob(job: Job<ScanJobData>) {
+  const { scanId, fileName, fileType, filePath, videoSampling } = job.data;
+  await connectToDatabase();
+
+  // The spooled file is passed by reference, so large uploads never sit in worker memory.
+  const analysis = await analyzeMedia({ filePath }, fileName, fileType, { videoSampling });
+
+  // Throwing lets BullMQ retry with backoff; the final failure is handled in the "failed" listener.
+  if (analysis.status === "ERROR") {
+    throw new Error(analysis.error || "Analysis failed");
+  }
+
+  await VerificationResult.findOneAndUpdate(
+    { scanId },
+    {
+      status: analysis.status,
+      confidenceScore: analysis.confidenceScore,
+      modelsUsed: analysis.modelsUsed,
+      ...(analysis.rdAnalysis ? { rdAnalysis: analysis.rdAnalysis } : {}),
+      ...(analysis.fcAnalysis ? { fcAnalysis: analysis.fcAnalysis } : {}),
+      ...(analysis.audioAnalysis ? { audioAnalysis: analysis.audioAnalysis } : {}),
+      ...(analysis.videoAnalysis ? { videoAnalysis: analysis.videoAnalysis } : {}),
+      ...(analysis.faceAnalysis ? { faceAnalysis: analysis.faceAnalysis } : {}),
+      ...(analysis.mediaProbe ? { mediaProbe: analysis.mediaProbe } : {}),
+      ...(analysis.provenance ? { provenance: analysis.provenance } : {}),
+      ...(analysis.metadataAnalysis ? { metadataAnalysis: analysis.metadataAnalysis, features: analysis.features } : {}),
+      ...(analysis.forensicMaps ? { forensicMaps: analysis.forensicMaps } : {}),
+      // The original and any image preview were stored when the scan was submitted, so only derived previews are added.
+      ...(analysis.previews?.preview ? { "media.preview": analysis.previews.preview } : {}),
+      ...(analysis.previews?.animatedPreview ? { "media.animatedPreview": analysis.previews.animatedPreview } : {}),
+      ...(analysis.verdict ? { verdict: analysis.verdict } : {}),
+      $unset: { failureReason: 1 },
+    }
+  );
+
+  await rm(filePath, { force: true }).catch(() => {});
+  return { status: analysis.status, confidenceScore: analysis.confidenceScore };
+}
+
+async function markScanFailed(job: Job<ScanJobData>, err: Error) {
+  const { scanId, userId, filePath } = job.data;
+  try {
+    await connectToDatabase();
+    const updated = await VerificationResult.findOneAndUpdate(
+      { scanId, status: "PROCESSING" },
+      { status: "ERROR", failureReason: err.message }
+    );
+    // Only refund when this call moved the scan out of PROCESSING, so a replayed event cannot refund twice.
+    if (updated) {
+      await refundUserCredit(userId);
+    }
+  } catch (dbError) {
+    console.error(`Failed to mark scan ${scanId} as failed:`, dbError);
+  }
+  await rm(filePath, { force: true }).catch(() => {});
+}
+
+const scanWorker = new Worker<ScanJobData>(SCAN_QUEUE_NAME, processScanJob, {
+  concurrency: WORKER_CONCURRENCY,
+  connection: getRedisConnection(),
+});
+
+scanWorker.on("failed", (job, err) => {
+  console.error(`Job ${job?.id ?? "unknown"} failed:`, err);
+  if (job && job.attemptsMade >= (job.opts.attempts || 1)) {
+    void markScanFailed(job, err);
+  }
+});
+
+scanWorker.on("completed", (job) => {
+  console.log(`Job ${job.id} finished`);
+});
+
+async function processBatchJob(job: Job<BatchJobData>) {
+  const status = await runBatch(job.data.batchId, { videoSampling: job.data.videoSampling });
+  return { status };
+}
+
+const batchWorker = new Worker<BatchJobData>(BATCH_QUEUE_NAME, processBatchJob, {
+  concurrency: BATCH_WORKER_CONCURRENCY,
+  connection: getRedisConnection(),
+});
+
+batchWorker.on("failed", (job, err) => {
+  console.error(`Batch ${job?.id ?? "unknown"} failed:`, err);
+  if (job && job.attemptsMade >= (job.opts.attempts || 1)) {
+    void failBatch(job.data.batchId, err.message).catch((batchError) => {
+      console.error(`Failed to mark batch ${job.data.batchId} as failed:`, batchError);
+    });
+  }
+});
+
+batchWorker.on("completed", (job) => {
+  console.log(`Batch ${job.id} finished`);
+});
+
+// Pending FakeCatcher jobs are finished here rather than when a client happens to poll the result.
+startFakecatcherReconciler();
+
+// With RETENTION_PURGE=on, media, derived assets and scan records past their client's retention periods are destroyed here.
+startRetentionPurge();
+
+console.log("Scan worker started and listening for jobs...");